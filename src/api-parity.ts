@@ -0,0 +1,162 @@
+import type { ApiMember, Language, PackageApi } from "./types.js";
+
+/** A language variant of a concept, with its extracted API or the reason it has none. */
+export interface ParityVariant {
+  package: string;
+  language: Language;
+  api?: PackageApi;
+  /** Why the variant could not be compared, when `api` is missing. */
+  note?: string;
+}
+
+/** A public function, method or template of a package. */
+export interface Operation {
+  /** Name as declared, qualified by its owner, e.g. `LeanIMT.insert`. */
+  name: string;
+  signature: string;
+}
+
+export interface AlignedOperation {
+  /** Canonical name of the operation, e.g. `insert` for `add`, `_insert` and `insert_leaf`. */
+  operation: string;
+  /** Matching operations per package name. */
+  implementations: Record<string, Operation[]>;
+  /** Packages without the operation. */
+  missing: string[];
+}
+
+/**
+ * Names that mean the same operation across the ZK-Kit languages, after normalization (lowercase,
+ * no `_` or `-`). The key is the name shown in reports.
+ */
+const OPERATION_SYNONYMS: Record<string, string[]> = {
+  constructor: ["constructor", "new", "init", "initialize", "create"],
+  insert: ["insert", "add", "append", "addleaf", "insertleaf"],
+  insertMany: ["insertmany", "insertbatch", "addmany", "batchinsert", "appendmany"],
+  update: ["update", "updateleaf", "set", "replace"],
+  updateMany: ["updatemany", "updatebatch", "batchupdate"],
+  remove: ["remove", "delete", "removeleaf"],
+  has: ["has", "contains", "includes"],
+  indexOf: ["indexof", "findindex"],
+  generateProof: ["generateproof", "createproof", "prove", "genproof", "generatemerkleproof"],
+  verifyProof: ["verifyproof", "verify", "verifymerkleproof"],
+  root: ["root", "getroot"],
+  depth: ["depth", "getdepth"],
+  size: ["size", "getsize", "length", "len"],
+  leaves: ["leaves", "getleaves"],
+  hash: ["hash", "hashnodes"],
+  signMessage: ["signmessage", "sign"],
+  verifySignature: ["verifysignature"],
+  derivePublicKey: ["derivepublickey", "publickey", "getpublickey"],
+  deriveSecretScalar: ["derivesecretscalar"],
+};
+
+const CANONICAL = new Map(
+  Object.entries(OPERATION_SYNONYMS).flatMap(([canonical, names]) => names.map((n) => [n, canonical] as const)),
+);
+
+/** Member kinds that are operations. Properties, events, errors and modifiers are not. */
+const OPERATION_MEMBERS = new Set<ApiMember["kind"]>(["constructor", "method", "function", "accessor"]);
+
+/** Operation name without its owner, path or leading underscores, e.g. `insert` for `LeanIMT._insert`. */
+function baseName(name: string): string {
+  return (name.split(/::|\./).pop() as string).replace(/^_+/, "");
+}
+
+/**
+ * Key equivalent operations share: the canonical name of known synonyms, otherwise the name
+ * lowercased without `_` and `-`, so `insert_many` matches `insertMany`.
+ */
+export function operationKey(name: string): string {
+  const normalized = baseName(name).replace(/[_-]/g, "").toLowerCase();
+  return CANONICAL.get(normalized) ?? normalized;
+}
+
+/** Public functions, templates and methods of an extracted API. */
+export function apiOperations(api: PackageApi): Operation[] {
+  const operations: Operation[] = [];
+  for (const symbol of api.symbols) {
+    if (symbol.kind === "function" || symbol.kind === "template") {
+      operations.push({ name: symbol.name, signature: symbol.signature });
+    }
+    for (const member of symbol.members ?? []) {
+      if (OPERATION_MEMBERS.has(member.kind)) {
+        operations.push({ name: `${symbol.name}.${member.name}`, signature: member.signature });
+      }
+    }
+  }
+  return operations;
+}
+
+/**
+ * Align the operations of several variants of a concept by canonical name. Operations found in
+ * the most variants come first, so gaps in otherwise shared operations stand out.
+ */
+export function alignOperations(variants: ParityVariant[]): AlignedOperation[] {
+  const compared = variants.filter((v) => v.api);
+  const rows = new Map<string, AlignedOperation>();
+  for (const variant of compared) {
+    for (const operation of apiOperations(variant.api as PackageApi)) {
+      const key = operationKey(operation.name);
+      let row = rows.get(key);
+      if (!row) {
+        row = {
+          operation: Object.hasOwn(OPERATION_SYNONYMS, key) ? key : baseName(operation.name),
+          implementations: {},
+          missing: [],
+        };
+        rows.set(key, row);
+      }
+      row.implementations[variant.package] = [...(row.implementations[variant.package] ?? []), operation];
+    }
+  }
+  for (const row of rows.values()) {
+    row.missing = compared.filter((v) => !row.implementations[v.package]).map((v) => v.package);
+  }
+  return [...rows.values()].sort((a, b) => a.missing.length - b.missing.length);
+}
+
+/** Markdown report: one row per operation, one column per variant, then the gaps. */
+export function formatApiParity(concept: string, variants: ParityVariant[], operations: AlignedOperation[]): string {
+  const compared = variants.filter((v) => v.api);
+  const column = (v: ParityVariant) =>
+    variants.filter((other) => other.language === v.language).length > 1 ? `${v.language} (${v.package})` : v.language;
+
+  let md = `# API Parity: ${concept}\n\n`;
+  md += `Compares the public operations of ${compared.map((v) => `\`${v.package}\` (${v.language})`).join(", ")}. `;
+  md +=
+    "Operations are matched by name, ignoring case, `_`/`-` and common synonyms (e.g. `add`/`insert`, `prove`/`generateProof`).\n\n";
+
+  if (operations.length === 0) {
+    md += "No public operations were found.\n";
+  } else {
+    md += `| Operation | ${compared.map(column).join(" | ")} |\n`;
+    md += `|-----------|${compared.map(() => "---").join("|")}|\n`;
+    for (const row of operations) {
+      const cells = compared.map((v) =>
+        row.implementations[v.package] ? row.implementations[v.package].map((o) => `\`${o.name}\``).join(", ") : "-",
+      );
+      md += `| ${row.operation} | ${cells.join(" | ")} |\n`;
+    }
+
+    const gaps = operations.filter((row) => row.missing.length > 0);
+    md += "\n## Missing Operations\n\n";
+    if (gaps.length === 0) {
+      md += `All operations (${operations.length}) are available in every compared variant.\n`;
+    } else {
+      const languageOf = (name: string) => compared.find((v) => v.package === name)?.language ?? name;
+      for (const row of gaps) {
+        const present = Object.keys(row.implementations).map(languageOf);
+        md += `- **${row.operation}**: missing in ${row.missing.map(languageOf).join(", ")} (available in ${present.join(", ")})\n`;
+      }
+    }
+  }
+
+  const skipped = variants.filter((v) => !v.api);
+  if (skipped.length > 0) {
+    md += "\n## Not Compared\n\n";
+    for (const v of skipped)
+      md += `- \`${v.package}\` (${v.language}): ${v.note ?? "no public API could be extracted"}\n`;
+  }
+  return md;
+}
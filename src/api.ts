@@ -0,0 +1,127 @@
+import { extractCircomApi } from "./circom-api.js";
+import { detectLanguageFromExtension } from "./github.js";
+import { extractRustApi } from "./rust-api.js";
+import { extractSolidityApi, solidityApiFiles } from "./solidity-api.js";
+import { extractTypeScriptApi } from "./ts-api.js";
+import type { ApiSymbol, ApiSymbolKind, Language, PackageApi, SourceReader } from "./types.js";
+
+/** Section order and headings of the API markdown. */
+const KIND_SECTIONS: [ApiSymbolKind, string][] = [
+  ["contract", "Contracts"],
+  ["library", "Libraries"],
+  ["class", "Classes"],
+  ["template", "Templates"],
+  ["function", "Functions"],
+  ["interface", "Interfaces"],
+  ["trait", "Traits"],
+  ["struct", "Structs"],
+  ["type", "Types"],
+  ["enum", "Enums"],
+  ["event", "Events"],
+  ["error", "Errors"],
+  ["variable", "Variables"],
+  ["namespace", "Namespaces"],
+];
+
+/** Package files at one ref, by package-relative path. */
+export interface PackageFiles {
+  read: SourceReader;
+  /** Paths of all files in the package. */
+  list(): Promise<string[]>;
+}
+
+/**
+ * Extract the structured API of a package from its entry file, or from all its contract files for
+ * Solidity, where the entry file only picks the main contract. Returns undefined for Solidity
+ * packages without contract files, where callers show the entry file as is.
+ */
+export async function extractPackageApi(
+  language: Language,
+  entryFile: string,
+  files: PackageFiles,
+): Promise<PackageApi | undefined> {
+  switch (language) {
+    case "typescript":
+      return extractTypeScriptApi(entryFile, files.read);
+    case "circom":
+      return extractCircomApi(entryFile, files.read);
+    case "solidity": {
+      const paths = solidityApiFiles(await files.list());
+      return paths.length > 0 ? extractSolidityApi(paths, entryFile, files.read) : undefined;
+    }
+    case "rust":
+    case "noir":
+      return extractRustApi(language, entryFile, files.read);
+  }
+}
+
+/** Summary of a doc comment: its first paragraph, before any `@param`-style tags. */
+function firstParagraph(doc: string): string {
+  return doc
+    .split(/\n\s*\n|\n(?=\s*@(?!notice|dev)\w)/)[0]
+    .replace(/^@(?:notice|dev)\s+/, "")
+    .replace(/\s+/g, " ");
+}
+
+function formatSymbol(symbol: ApiSymbol, fence: string, entryFile: string): string {
+  const heading = symbol.name === "default" ? "`default`" : `\`${symbol.name}\``;
+  let code = symbol.signature;
+  if (symbol.members?.length) {
+    const members = symbol.members.flatMap((m) => m.signature.split("\n").map((line) => `  ${line}`));
+    code += ` {\n${members.join("\n")}\n}`;
+  }
+
+  let md = `### ${heading}\n\n\`\`\`${fence}\n${code}\n\`\`\``;
+  if (symbol.inherits?.length) md += `\n\nInherits ${symbol.inherits.map((b) => `\`${b}\``).join(", ")}.`;
+  if (symbol.implements?.length) md += `\n\nImplements ${symbol.implements.map((t) => `\`${t}\``).join(", ")}.`;
+  if (symbol.doc) md += `\n\n${symbol.doc}`;
+  const memberDocs = (symbol.members ?? []).filter((m) => m.doc);
+  if (memberDocs.length > 0) {
+    md += `\n\n${memberDocs.map((m) => `- \`${m.name}\`: ${firstParagraph(m.doc as string)}`).join("\n")}`;
+  }
+  if (symbol.file !== entryFile) md += `\n\n*Defined in \`${symbol.file}\`.*`;
+  return md;
+}
+
+/** Render an extracted API as markdown, grouped by kind in declaration order. */
+export function formatPackageApi(api: PackageApi, title: string): string {
+  const fence = detectLanguageFromExtension(api.entryFile);
+  const fileCount = api.files.length === 1 ? "1 file" : `${api.files.length} files`;
+  const symbolCount = api.symbols.length === 1 ? "1 public symbol" : `${api.symbols.length} public symbols`;
+  const sections = [`# ${title}`, `${symbolCount} from ${fileCount}.`];
+
+  for (const [kind, heading] of KIND_SECTIONS) {
+    const symbols = api.symbols.filter((s) => s.kind === kind);
+    if (symbols.length === 0) continue;
+    sections.push(`## ${heading}\n\n${symbols.map((s) => formatSymbol(s, fence, api.entryFile)).join("\n\n")}`);
+  }
+
+  if (api.main) {
+    const { template, arguments: args, publicInputs } = api.main;
+    const publicList = publicInputs.length > 0 ? ` {public [${publicInputs.join(", ")}]}` : "";
+    sections.push(
+      `## Main Component\n\n\`\`\`${fence}\ncomponent main${publicList} = ${template}(${args.join(", ")});\n\`\`\``,
+    );
+  }
+  if (api.includes?.length) {
+    sections.push(`## Includes\n\n${api.includes.map((i) => `- \`${i}\``).join("\n")}`);
+  }
+  const abi = Object.entries(api.abi ?? {});
+  if (abi.length > 0) {
+    // One entry per line keeps the JSON valid yet easy to scan
+    const blocks = abi.map(
+      ([name, entries]) =>
+        `### \`${name}\`\n\n\`\`\`json\n[\n${entries.map((e) => `  ${JSON.stringify(e)}`).join(",\n")}\n]\n\`\`\``,
+    );
+    sections.push(`## ABI\n\nDerived from the source, without compiling.\n\n${blocks.join("\n\n")}`);
+  }
+  if (api.external.length > 0) {
+    sections.push(`## Re-exported Packages\n\n${api.external.map((e) => `- \`${e}\``).join("\n")}`);
+  }
+  if (api.unresolved.length > 0) {
+    sections.push(
+      `*Could not read: ${api.unresolved.map((u) => `\`${u}\``).join(", ")}. Use \`get_package_source\` to browse them.*`,
+    );
+  }
+  return sections.join("\n\n");
+}
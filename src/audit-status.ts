@@ -0,0 +1,325 @@
+/** Evidence of an audit: a README mention or badge, or a report file in the repo. */
+export interface AuditReport {
+  source: "readme" | "report";
+  auditor?: string;
+  /** `YYYY`, `YYYY-MM` or `YYYY-MM-DD`. */
+  date?: string;
+  /** Package version the audit covers, without a leading `v`. */
+  version?: string;
+  /** Commit the audit covers, as written: 7 to 40 hex characters. */
+  commit?: string;
+  /** Repo-relative path of a report file. */
+  file?: string;
+  /** Link to the report, as written in the README or on GitHub for report files. */
+  url?: string;
+  /** The README line the audit was read from. */
+  text?: string;
+}
+
+/**
+ * `audited` only when an audit names the version checked. `other-version-audited` when audits name
+ * other versions only, `version-unconfirmed` when audits name no version or no version was checked,
+ * `unaudited` when the README says so and nothing else was found.
+ */
+export type AuditState = "audited" | "other-version-audited" | "version-unconfirmed" | "unaudited" | "unknown";
+
+/** What each state means, for the legend of the table. */
+const STATE_LEGEND: Record<AuditState, string> = {
+  audited: "an audit names this version",
+  "other-version-audited": "audits name other versions only: treat this version as unaudited",
+  "version-unconfirmed": "audits found, but none names a version to check against",
+  unaudited: "the README says it is not audited",
+  unknown: "no audit mention or report found",
+};
+
+/** What the README and the repo's report files say about a package's audits. */
+export interface PackageAuditStatus {
+  package: string;
+  /** The version checked: the one asked for, else the latest known. */
+  version?: string;
+  status: AuditState;
+  /**
+   * Whether an audit names the version checked. False when audits name other versions only,
+   * absent when none names a version.
+   */
+  versionCovered?: boolean;
+  audits: AuditReport[];
+  /** README lines saying the package is not audited. */
+  unauditedNotes?: string[];
+}
+
+/** Firms auditing ZK and Ethereum code, matched in README lines and report file names. */
+const AUDITORS = [
+  "PSE Security",
+  "Veridise",
+  "Trail of Bits",
+  "OpenZeppelin",
+  "Consensys Diligence",
+  "Least Authority",
+  "Zellic",
+  "zkSecurity",
+  "HashCloak",
+  "Spearbit",
+  "Cantina",
+  "Nethermind",
+  "Sigma Prime",
+  "ChainSecurity",
+  "Kudelski Security",
+  "Quantstamp",
+  "Halborn",
+  "Hacken",
+  "ABDK",
+  "Cyfrin",
+  "Code4rena",
+  "Sherlock",
+  "yAcademy",
+  "Oak Security",
+  "Dedaub",
+  "Certora",
+  "PeckShield",
+];
+
+/** Auditor names with any or no separator between words, so `trail-of-bits` and `TrailOfBits` match. */
+const AUDITOR_PATTERNS = AUDITORS.map((name) => ({
+  name,
+  pattern: new RegExp(`(?<![a-z])${name.split(" ").join("[\\s_-]*")}(?![a-z])`, "i"),
+}));
+
+const NOT_AUDITED =
+  /\b(?:not\s+(?:yet\s+|been\s+)*(?:security\s+)?audited|un-?audited|no\s+(?:security\s+|formal\s+)?audits?\b|(?:has|have)\s+not\s+(?:yet\s+)?(?:been|undergone)\s+(?:an?\s+)?(?:formal\s+|security\s+|external\s+)*audit)/i;
+const AUDIT_WORD = /\baudit(?:ed|s|ors?)?\b/i;
+const AUDITED_BY = /\baudited\s+by\s+(?:the\s+)?([A-Z][\w&.-]*(?:\s+(?:of\s+)?[A-Z][\w&.-]*)*)/;
+/** Images shown in the README, such as badges, as opposed to links to reports. */
+const IMAGE_URL = /shields\.io|badge|\.(?:svg|png|jpe?g|gif)(?:[?#]|$)/i;
+const REPORT_EXTENSION = /\.(?:pdf|md)$/i;
+/** Links that point at a report: a PDF, a file in an `audits` folder, or one named as a report. */
+const REPORT_LINK = /\.pdf(?:[?#]|$)|\/audits?(?:[-_]reports?)?\/|report[^/]*$/i;
+const IGNORED_PATH = /(?:^|\/)(?:node_modules|dist|build|target|lib|out)\//;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH = `(${MONTHS.join("|")})[a-z]*\\.?`;
+
+function pad(n: string | number): string {
+  return String(n).padStart(2, "0");
+}
+
+/** The first date in a text, with the part of the text it was read from. */
+function findDate(text: string): { date: string; match: string } | undefined {
+  const iso = text.match(/(?<!\d)(20\d{2})[-_/.](0[1-9]|1[0-2])(?:[-_/.](0[1-9]|[12]\d|3[01]))?(?!\d)/);
+  if (iso) return { date: [iso[1], iso[2], iso[3]].filter(Boolean).join("-"), match: iso[0] };
+  const named =
+    text.match(
+      new RegExp(`(?<![a-z])${MONTH}[\\s_-]+(?:(\\d{1,2})(?:st|nd|rd|th)?,?[\\s_-]+)?(20\\d{2})(?!\\d)`, "i"),
+    ) ?? text.match(new RegExp(`(?<!\\d)(\\d{1,2})(?:st|nd|rd|th)?[\\s_-]+${MONTH}[\\s_-]+(20\\d{2})(?!\\d)`, "i"));
+  if (named) {
+    // The month comes first or second depending on the form
+    const monthFirst = Number.isNaN(Number(named[1]));
+    const [month, day, year] = monthFirst ? [named[1], named[2], named[3]] : [named[2], named[1], named[3]];
+    const m = pad(MONTHS.indexOf(month.slice(0, 3).toLowerCase()) + 1);
+    return { date: day ? `${year}-${m}-${pad(day)}` : `${year}-${m}`, match: named[0] };
+  }
+  const year = text.match(/(?<![\w.])(20\d{2})(?!\w|\.\d)/);
+  return year ? { date: year[1], match: year[0] } : undefined;
+}
+
+/** Auditor, date, version and commit named in a README line or a report's path. */
+function auditDetails(text: string): Pick<AuditReport, "auditor" | "date" | "version" | "commit"> {
+  const auditor = AUDITOR_PATTERNS.find((a) => a.pattern.test(text))?.name ?? text.match(AUDITED_BY)?.[1];
+  const found = findDate(text);
+  // Dates like 2024.05.01 would otherwise read as versions
+  const rest = found ? text.replace(found.match, " ") : text;
+  const version = rest.match(/(?<![\w.])v?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.]+)?)(?![0-9A-Za-z-]|\.\d)/)?.[1];
+  const commit =
+    rest.match(/\/(?:commit|tree)\/([0-9a-f]{7,40})\b/)?.[1] ??
+    rest.match(/(?<![a-z])(?:commit|sha|revision|rev)(?![a-z])[\s:#`@_-]*([0-9a-f]{7,40})(?![0-9a-z])/i)?.[1];
+  return {
+    ...(auditor && { auditor }),
+    ...(found && { date: found.date }),
+    ...(version && { version }),
+    ...(commit && { commit }),
+  };
+}
+
+/** Link targets of a markdown or HTML line, reports before badge images. */
+function linksOf(line: string): string[] {
+  const links = [
+    ...[...line.matchAll(/\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)].map((m) => m[1]),
+    ...[...line.matchAll(/href=["']([^"']+)["']/g)].map((m) => m[1]),
+  ];
+  return links.filter((l) => !IMAGE_URL.test(l));
+}
+
+/**
+ * Audits mentioned in a README: lines and badges about an audit that name an auditor (or
+ * `audited by`) or link to a report, and links listed under an `Audits` heading. Lines mentioning
+ * audits in passing, like a link to an audit policy, are not audits. Lines saying it is not
+ * audited are returned as notes. Code blocks are skipped.
+ */
+export function readmeAudits(readme: string): { audits: AuditReport[]; unauditedNotes: string[] } {
+  const audits: AuditReport[] = [];
+  const unauditedNotes: string[] = [];
+  let inCode = false;
+  let auditSection = 0;
+
+  for (const raw of readme.split("\n")) {
+    if (/^\s*(```|~~~)/.test(raw)) inCode = !inCode;
+    const line = raw.trim();
+    if (inCode || !line) continue;
+    const heading = line.match(/^(#{1,6})\s/);
+    if (heading) {
+      const level = heading[1].length;
+      if (auditSection && level <= auditSection) auditSection = 0;
+      if (AUDIT_WORD.test(line)) auditSection = level;
+      continue;
+    }
+    if (NOT_AUDITED.test(line)) {
+      unauditedNotes.push(line);
+      continue;
+    }
+    const links = linksOf(line);
+    const details = auditDetails(line);
+    const reportLink = links.find((l) => REPORT_LINK.test(l));
+    const mentioned = AUDIT_WORD.test(line) && (reportLink || details.auditor);
+    if (!mentioned && !(auditSection && links.length > 0)) continue;
+    const url = reportLink ?? links[0];
+    if (url && audits.some((a) => a.url === url)) continue;
+    audits.push({ source: "readme", ...details, ...(url && { url }), text: line });
+  }
+  return { audits, unauditedNotes };
+}
+
+/** Audit reports among a repo's files: PDFs and markdown files in an `audits` folder or named after an audit. */
+export function auditReportFiles(entries: { path: string }[]): string[] {
+  return entries
+    .map((e) => e.path)
+    .filter((path) => REPORT_EXTENSION.test(path) && !IGNORED_PATH.test(path))
+    .filter((path) => /(?:^|\/)audits?(?:[-_]reports?)?\//i.test(path) || /audit/i.test(path.split("/").pop() ?? ""))
+    .filter((path) => !/(?:^|\/)(?:README|CHANGELOG)\.md$/i.test(path))
+    .sort();
+}
+
+/** An audit read from a report's path, e.g. `audits/2024-05-veridise-lean-imt-v2.0.0.pdf`. */
+export function reportFromFile(path: string, url?: string): AuditReport {
+  return { source: "report", ...auditDetails(path.replace(REPORT_EXTENSION, "")), file: path, ...(url && { url }) };
+}
+
+function tokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/** Word ranges `[start, end)` of a path where a package directory name appears, spelled out or run together. */
+function nameSpans(words: string[], dirName: string): [number, number][] {
+  const name = tokens(dirName);
+  return words.flatMap((word, i): [number, number][] => {
+    if (word === name.join("")) return [[i, i + 1]];
+    return name.every((w, j) => words[i + j] === w) ? [[i, i + name.length]] : [];
+  });
+}
+
+/**
+ * The packages a repo-level report names, by their directory: `lean-imt` and `LeanIMT` name
+ * `lean-imt`. A name inside a longer one does not count, so `lean-imt` does not name `imt`.
+ */
+export function reportPackages(path: string, dirNames: string[]): string[] {
+  const words = tokens(path.replace(REPORT_EXTENSION, ""));
+  const spans = dirNames.map((d) => ({ dirName: d, spans: nameSpans(words, d) }));
+  const inside = ([start, end]: [number, number]) =>
+    spans.some((o) => o.spans.some(([s, e]) => s <= start && end <= e && e - s > end - start));
+  return spans.filter((p) => p.spans.some((span) => !inside(span))).map((p) => p.dirName);
+}
+
+/** Whether a README audit links to a report file, by its file name. */
+function linksTo(mention: AuditReport, report: AuditReport): boolean {
+  if (mention.source !== "readme" || !mention.url || report.source !== "report" || !report.file) return false;
+  const url = mention.url.replace(/[?#].*$/, "");
+  return safeDecode(url).endsWith(`/${report.file.split("/").pop()}`);
+}
+
+function safeDecode(url: string): string {
+  try {
+    return decodeURIComponent(url);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Combine a package's audits and notes into its status, checking whether they cover `version`.
+ * A report file the README links to is listed once, as the README mention with the file's details.
+ */
+export function packageAuditStatus(
+  pkgName: string,
+  found: AuditReport[],
+  unauditedNotes: string[],
+  version?: string,
+): PackageAuditStatus {
+  const audits = found.flatMap((a) => {
+    if (found.some((m) => linksTo(m, a))) return [];
+    const report = found.find((r) => linksTo(a, r));
+    return [report ? { ...report, ...a } : a];
+  });
+  const versions = audits.flatMap((a) => (a.version ? [a.version] : []));
+  const checked = version?.replace(/^v/, "");
+  let status: AuditState;
+  if (audits.length === 0) status = unauditedNotes.length > 0 ? "unaudited" : "unknown";
+  else if (!checked || versions.length === 0) status = "version-unconfirmed";
+  else status = versions.includes(checked) ? "audited" : "other-version-audited";
+  return {
+    package: pkgName,
+    ...(checked && { version: checked }),
+    status,
+    ...(checked && versions.length > 0 && { versionCovered: versions.includes(checked) }),
+    audits,
+    ...(unauditedNotes.length > 0 && { unauditedNotes }),
+  };
+}
+
+function formatAudit(a: AuditReport): string {
+  const parts = [
+    a.auditor ?? "Unknown auditor",
+    a.date,
+    a.version && `v${a.version}`,
+    a.commit && `commit \`${a.commit.slice(0, 12)}\``,
+  ].filter(Boolean);
+  const where = a.source === "report" ? `\`${a.file}\`` : "README";
+  const link = a.url ? ` - [report](${a.url})` : "";
+  return `- ${parts.join(", ")} (${where})${link}`;
+}
+
+/**
+ * Markdown of packages' audit statuses: a table, then the evidence for each package, then reports
+ * at the root of a repo that name no package.
+ */
+export function formatAuditStatus(
+  statuses: PackageAuditStatus[],
+  repoReports: { repo: string; reports: AuditReport[] }[],
+): string {
+  let md = "# Audit Status\n\n| Package | Version | Status | Version covered |\n|---|---|---|---|\n";
+  for (const s of statuses) {
+    const covered = s.versionCovered === undefined ? "-" : s.versionCovered ? "yes" : "no";
+    md += `| ${s.package} | ${s.version ?? "-"} | ${s.status} | ${covered} |\n`;
+  }
+  const states = [...new Set(statuses.map((s) => s.status))];
+  md += `\n${states.map((state) => `- \`${state}\`: ${STATE_LEGEND[state]}`).join("\n")}\n`;
+  for (const s of statuses.filter((s) => s.audits.length > 0 || s.unauditedNotes)) {
+    md += `\n## ${s.package}\n\n`;
+    md += s.audits.map(formatAudit).join("\n");
+    if (s.unauditedNotes) {
+      md += `${s.audits.length > 0 ? "\n" : ""}${s.unauditedNotes.map((n) => `- README: "${n}"`).join("\n")}`;
+    }
+    if (s.versionCovered === false) {
+      const audited = [...new Set(s.audits.flatMap((a) => (a.version ? [`v${a.version}`] : [])))];
+      md += `\n\n**v${s.version} is not an audited version** (audited: ${audited.join(", ")}).`;
+    }
+    md += "\n";
+  }
+  for (const { repo, reports } of repoReports.filter((r) => r.reports.length > 0)) {
+    md += `\n## Reports in ${repo} naming no package\n\nCheck their scope before counting a package as audited.\n\n${reports.map(formatAudit).join("\n")}\n`;
+  }
+  md +=
+    "\n*Statuses are read from README mentions and report file names. Read the report to confirm its scope before relying on it.*";
+  return md;
+}
@@ -0,0 +1,124 @@
+import { posix } from "node:path";
+import { collapse, type ScanOptions, splitList, splitStatements } from "./source-scanner.js";
+import type { ApiMember, ApiSymbol, PackageApi, SourceReader } from "./types.js";
+
+/** Max included files read, to bound requests for one package. */
+const MAX_FILE_READS = 30;
+
+export const SCAN_OPTIONS: ScanOptions = {
+  // Circuits are documented with plain comments above the template
+  docPrefixes: ["//", "/*"],
+  // Braces after these open signal tags (`signal input {binary} in`) and public input lists, not bodies
+  nonBodyWords: new Set(["input", "output", "main"]),
+};
+
+const TEMPLATE = /^template\s+(?:parallel\s+)?(?:custom\s+)?([\w$]+)\s*\(([^)]*)\)$/;
+const FUNCTION = /^function\s+([\w$]+)\s*\(([^)]*)\)$/;
+const INCLUDE = /^include\s+"([^"]+)"$/;
+const MAIN = /^component\s+main\s*(?:\{\s*public\s*\[([^\]]*)\]\s*\})?\s*=\s*([\w$]+)\s*\(([\s\S]*)\)$/;
+const SIGNAL = /^signal\s+(?:private\s+)?(input|output)\s+((?:\{[^}]*\}\s*)?)([\s\S]+)$/;
+
+/** `signal input` and `signal output` declarations of a template body. Intermediate signals are internal. */
+function parseSignals(body: string): ApiMember[] {
+  const signals: ApiMember[] = [];
+  for (const statement of splitStatements(body, SCAN_OPTIONS)) {
+    const signal = SIGNAL.exec(statement.head);
+    if (!signal) continue;
+    const [, direction, tags, declarators] = signal;
+    for (const declarator of splitList(declarators)) {
+      // Circom 2.1 allows `signal output out <== expr;`
+      const declaration = declarator.split(/<==|<--/)[0].trim();
+      const name = /^[\w$]+/.exec(declaration)?.[0];
+      if (!name) continue;
+      const dimensions = [...declaration.matchAll(/\[([^\]]*)\]/g)].map((d) => d[1].trim());
+      signals.push({
+        name,
+        kind: direction as "input" | "output",
+        signature: collapse(`signal ${direction} ${tags}${declaration}`),
+        ...(statement.doc && { doc: statement.doc }),
+        ...(dimensions.length > 0 && { dimensions }),
+      });
+    }
+  }
+  return signals;
+}
+
+/**
+ * Extract the templates and functions of a Circom package with their parameters and input and
+ * output signals. Relative includes are followed within the package; library includes such as
+ * `circomlib/circuits/poseidon.circom` are only listed.
+ */
+export async function extractCircomApi(entryFile: string, read: SourceReader): Promise<PackageApi> {
+  const files: string[] = [];
+  const symbols: ApiSymbol[] = [];
+  const includes = new Set<string>();
+  const unresolved = new Set<string>();
+  const visited = new Set<string>([entryFile]);
+  let main: PackageApi["main"];
+
+  async function visit(file: string, src: string): Promise<void> {
+    files.push(file);
+    const relativeIncludes: string[] = [];
+
+    for (const { head, body, doc } of splitStatements(src, SCAN_OPTIONS)) {
+      const template = TEMPLATE.exec(head);
+      const fn = FUNCTION.exec(head);
+      const include = INCLUDE.exec(head);
+      const component = MAIN.exec(head);
+
+      if (template && body !== undefined) {
+        symbols.push({
+          name: template[1],
+          kind: "template",
+          signature: collapse(head),
+          ...(doc && { doc }),
+          file,
+          parameters: splitList(template[2]),
+          members: parseSignals(body),
+        });
+      } else if (fn && body !== undefined) {
+        symbols.push({
+          name: fn[1],
+          kind: "function",
+          signature: collapse(head),
+          ...(doc && { doc }),
+          file,
+          parameters: splitList(fn[2]),
+        });
+      } else if (include) {
+        includes.add(include[1]);
+        if (include[1].startsWith(".")) relativeIncludes.push(include[1]);
+      } else if (component && !main) {
+        main = {
+          template: component[2],
+          arguments: splitList(component[3]),
+          publicInputs: splitList(component[1] ?? ""),
+        };
+      }
+    }
+
+    for (const spec of relativeIncludes) {
+      const path = posix.normalize(posix.join(posix.dirname(file), spec));
+      // Includes outside the package (e.g. `../node_modules/circomlib/...`) are libraries, not package API
+      if (visited.has(path) || path.startsWith("..") || path.includes("node_modules/")) continue;
+      visited.add(path);
+      if (visited.size > MAX_FILE_READS) break;
+      const content = await read(path);
+      if (content === null) unresolved.add(path);
+      else await visit(path, content);
+    }
+  }
+
+  const src = await read(entryFile);
+  if (src !== null) await visit(entryFile, src);
+  return {
+    language: "circom",
+    entryFile,
+    files,
+    symbols,
+    external: [],
+    unresolved: [...unresolved].sort(),
+    includes: [...includes],
+    ...(main && { main }),
+  };
+}
@@ -0,0 +1,105 @@
+import { defaultCacheDir } from "./disk-cache.js";
+
+export type TransportMode = "stdio" | "http";
+
+export interface TransportOptions {
+  mode: TransportMode;
+  port: number;
+  host: string;
+  /** Extra hostnames accepted in the HTTP Host header. */
+  allowedHosts?: string[];
+}
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = "127.0.0.1";
+
+/** Read a `--name value` or `--name=value` flag from argv. Returns undefined if absent. */
+export function readFlag(argv: readonly string[], name: string): string | undefined {
+  const flag = `--${name}`;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === flag) {
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith("--")) throw new Error(`Missing value for ${flag}`);
+      return next;
+    }
+    if (arg.startsWith(`${flag}=`)) return arg.slice(flag.length + 1);
+  }
+  return undefined;
+}
+
+export function hasFlag(argv: readonly string[], name: string): boolean {
+  return argv.includes(`--${name}`);
+}
+
+/**
+ * Resolve transport settings. CLI flags (`--transport`, `--port`, `--host`, `--allowed-hosts`) take
+ * precedence over environment variables (`MCP_TRANSPORT`, `MCP_PORT` or `PORT`, `MCP_HOST`,
+ * `MCP_ALLOWED_HOSTS`). Allowed hosts are comma-separated.
+ */
+export function parseTransportOptions(argv: readonly string[], env: NodeJS.ProcessEnv): TransportOptions {
+  const mode = (readFlag(argv, "transport") ?? env.MCP_TRANSPORT ?? "stdio").toLowerCase();
+  if (mode !== "stdio" && mode !== "http") {
+    throw new Error(`Invalid transport "${mode}". Expected "stdio" or "http".`);
+  }
+
+  const rawPort = readFlag(argv, "port") ?? env.MCP_PORT ?? env.PORT;
+  let port = DEFAULT_PORT;
+  if (rawPort !== undefined) {
+    port = Number(rawPort);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid port "${rawPort}". Expected an integer between 0 and 65535.`);
+    }
+  }
+
+  const host = readFlag(argv, "host") ?? env.MCP_HOST ?? DEFAULT_HOST;
+
+  const rawAllowedHosts = readFlag(argv, "allowed-hosts") ?? env.MCP_ALLOWED_HOSTS;
+  const allowedHosts = rawAllowedHosts
+    ?.split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+
+  return { mode, port, host, ...(allowedHosts?.length ? { allowedHosts } : {}) };
+}
+
+/** Path of the optional repo config file, from `--config` or `ZK_KIT_MCP_CONFIG`. */
+export function parseConfigPath(argv: readonly string[], env: NodeJS.ProcessEnv): string | undefined {
+  return readFlag(argv, "config") ?? env.ZK_KIT_MCP_CONFIG;
+}
+
+/** Default background re-discovery interval, in minutes. */
+const DEFAULT_REFRESH_MINUTES = 60;
+
+/**
+ * Background refresh interval in milliseconds from `--refresh-interval` or
+ * `ZK_KIT_MCP_REFRESH_INTERVAL` (minutes). 0 disables background refresh.
+ */
+export function parseRefreshInterval(argv: readonly string[], env: NodeJS.ProcessEnv): number {
+  const raw = readFlag(argv, "refresh-interval") ?? env.ZK_KIT_MCP_REFRESH_INTERVAL;
+  if (raw === undefined) return DEFAULT_REFRESH_MINUTES * 60_000;
+  const minutes = Number(raw);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    throw new Error(`Invalid refresh interval "${raw}". Expected a number of minutes (0 disables).`);
+  }
+  return Math.round(minutes * 60_000);
+}
+
+/**
+ * Resolve the persistent cache directory, or undefined when disabled via `--no-cache` or
+ * `ZK_KIT_MCP_NO_CACHE=1`. Override the location with `--cache-dir` or `ZK_KIT_MCP_CACHE_DIR`.
+ */
+export function parseCacheDir(argv: readonly string[], env: NodeJS.ProcessEnv): string | undefined {
+  if (hasFlag(argv, "no-cache") || env.ZK_KIT_MCP_NO_CACHE === "1" || env.ZK_KIT_MCP_NO_CACHE === "true") {
+    return undefined;
+  }
+  return readFlag(argv, "cache-dir") ?? env.ZK_KIT_MCP_CACHE_DIR ?? defaultCacheDir(env);
+}
+
+/**
+ * Whether to build the local full-text code index, from `--code-index` or `ZK_KIT_MCP_CODE_INDEX=1`.
+ * Off by default, since it downloads every source file of the configured repos.
+ */
+export function parseCodeIndex(argv: readonly string[], env: NodeJS.ProcessEnv): boolean {
+  return hasFlag(argv, "code-index") || env.ZK_KIT_MCP_CODE_INDEX === "1" || env.ZK_KIT_MCP_CODE_INDEX === "true";
+}
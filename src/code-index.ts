@@ -0,0 +1,418 @@
+import { Worker } from "node:worker_threads";
+import { FETCH_CONCURRENCY, mapConcurrent } from "./concurrency.js";
+import type { DiskCache } from "./disk-cache.js";
+import { detectLanguageFromExtension, fetchRawFile, fetchRepoTree } from "./github.js";
+import { logger } from "./logger.js";
+import type { GitTreeEntry, RepoConfig } from "./types.js";
+
+/** Text files worth searching: sources, manifests, docs and scripts. */
+const SEARCHABLE_FILE = /\.(?:[cm]?[jt]sx?|sol|circom|nr|rs|toml|json|md|ya?ml|sh)$/;
+/** Dependencies, build output and lock files, never indexed. */
+const IGNORED_PATH =
+  /(?:^|\/)(?:node_modules|dist|build|target|out|cache|artifacts|typechain-types|coverage|\.git)\/|(?:^|\/)(?:package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock)$/;
+/** Larger files are generated code or vendored data, not worth searching. */
+const MAX_FILE_SIZE = 512 * 1024;
+/** Most matches returned by one search, a page. Counting continues past it. */
+export const MAX_MATCHES = 100;
+const MAX_LINE_LENGTH = 300;
+/** Lines are only searched up to this length: minified files would otherwise dominate the cost of a search. */
+const MAX_SEARCHED_LINE_LENGTH = 1000;
+/** Longest regular expression accepted. */
+export const MAX_REGEX_LENGTH = 200;
+/** Regular expression searches still running after this long are stopped. */
+export const REGEX_TIMEOUT_MS = 5000;
+
+export interface IndexedFile {
+  /** Repo-relative path. */
+  path: string;
+  /** Git blob id, absent for local checkouts. Files whose id did not change are not downloaded again. */
+  sha?: string;
+  content: string;
+}
+
+/** The searchable files of one repo at its configured branch. */
+export interface RepoIndex {
+  slug: string;
+  branch: string;
+  files: IndexedFile[];
+  /** Epoch millis of the last build or update. */
+  builtAt: number;
+}
+
+/** Blobs of a repo tree worth indexing. */
+export function searchableFiles(entries: GitTreeEntry[]): GitTreeEntry[] {
+  return entries.filter(
+    (e) =>
+      e.type === "blob" && SEARCHABLE_FILE.test(e.path) && !IGNORED_PATH.test(e.path) && (e.size ?? 0) <= MAX_FILE_SIZE,
+  );
+}
+
+/**
+ * Download a repo's searchable files: one git tree request, then a raw download per file. Files
+ * whose blob id is unchanged since `previous` are reused, so updates only download what changed.
+ */
+export async function indexRepo(
+  repo: Pick<RepoConfig, "slug" | "branch">,
+  previous?: RepoIndex,
+): Promise<{ index: RepoIndex; downloaded: number }> {
+  const tree = await fetchRepoTree(repo.slug, repo.branch);
+  if (tree.truncated) {
+    logger.warn("code-index", "Repo tree truncated by GitHub, indexing the files it listed", { repo: repo.slug });
+  }
+  const known = new Map((previous?.files ?? []).filter((f) => f.sha).map((f) => [f.sha, f]));
+  let downloaded = 0;
+  const files = await mapConcurrent(searchableFiles(tree.entries), FETCH_CONCURRENCY, async (entry) => {
+    const reused = entry.sha ? known.get(entry.sha) : undefined;
+    if (reused) return { ...reused, path: entry.path };
+    const content = await fetchRawFile(repo.slug, repo.branch, entry.path);
+    if (content === null) return undefined;
+    downloaded++;
+    return { path: entry.path, ...(entry.sha && { sha: entry.sha }), content };
+  });
+  return {
+    index: {
+      slug: repo.slug,
+      branch: repo.branch,
+      files: files.filter((f): f is IndexedFile => f !== undefined),
+      builtAt: Date.now(),
+    },
+    downloaded,
+  };
+}
+
+// Search
+
+export interface CodeSearchOptions {
+  /** Treat the query as a regular expression rather than literal text. */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  /** Lines shown before and after each match. */
+  context?: number;
+  /** Only search paths under this prefix, e.g. `packages/lean-imt/`. */
+  pathPrefix?: string;
+  /** Only search files of this language, as detected from their extension, e.g. `solidity`. */
+  language?: string;
+  /** Matches skipped before the ones returned, to read past the first page. */
+  offset?: number;
+  /** Stop a regular expression search after this many milliseconds. Default: {@link REGEX_TIMEOUT_MS}. */
+  timeoutMs?: number;
+}
+
+export interface CodeMatch {
+  repo: string;
+  path: string;
+  /** 1-based line number. */
+  line: number;
+  text: string;
+  /** Context lines before and after the match, in order. */
+  before: string[];
+  after: string[];
+}
+
+export interface CodeSearchOutcome {
+  /** Up to {@link MAX_MATCHES} matches from `offset` on, by repo, path and line. */
+  matches: CodeMatch[];
+  /** Matches skipped before these. */
+  offset: number;
+  /** Matches in total, including those cut off. */
+  total: number;
+  /** Files searched. */
+  searched: number;
+}
+
+function count(n: number, noun: string, plural = `${noun}s`): string {
+  return `${n} ${n === 1 ? noun : plural}`;
+}
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}...` : line;
+}
+
+/**
+ * Whether a regular expression can backtrack badly: it repeats a group holding a repetition or an
+ * alternation, like `(a+)+` or `(a|aa)*`, chains unbounded wildcards, like `.*.*`, or uses a
+ * backreference. A first line of defense only: searches also run under {@link REGEX_TIMEOUT_MS}.
+ */
+export function isUnsafeRegex(source: string): boolean {
+  // For each open group, whether it holds a repetition or an alternation so far
+  const groups: boolean[] = [];
+  let riskyGroupClosed = false;
+  // Whether the previous token is `.*` or `.+`
+  let afterWildcard = false;
+  let inClass = false;
+  const markGroup = () => {
+    if (groups.length > 0) groups[groups.length - 1] = true;
+  };
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (c === "\\") {
+      if (/[1-9k]/.test(source[i + 1] ?? "")) return true;
+      i++;
+      riskyGroupClosed = false;
+      afterWildcard = false;
+      continue;
+    }
+    if (inClass) {
+      if (c === "]") inClass = false;
+      continue;
+    }
+    if (c === "." && (source[i + 1] === "*" || source[i + 1] === "+")) {
+      if (afterWildcard) return true;
+      i += source[i + 2] === "?" ? 2 : 1;
+      markGroup();
+      riskyGroupClosed = false;
+      afterWildcard = true;
+      continue;
+    }
+    const repeats = c === "*" || c === "+" || (c === "{" && /^\{\d+(?:,\d*)?\}/.test(source.slice(i)));
+    if (repeats) {
+      if (riskyGroupClosed) return true;
+      markGroup();
+    } else if (c === "|") {
+      markGroup();
+    } else if (c === ")") {
+      riskyGroupClosed = groups.pop() ?? false;
+      if (riskyGroupClosed) markGroup();
+      afterWildcard = false;
+      continue;
+    } else if (c === "(") {
+      groups.push(false);
+    } else if (c === "[") {
+      inClass = true;
+    }
+    riskyGroupClosed = false;
+    afterWildcard = false;
+  }
+  return false;
+}
+
+/**
+ * Indexes of the lines of each text that match `source`, each line cut to `maxLength` first.
+ * Self-contained, since its source also runs in the regex search worker.
+ */
+function matchLines(source: string, flags: string, texts: string[], maxLength: number): number[][] {
+  const pattern = new RegExp(source, flags);
+  return texts.map((text) => {
+    const matched: number[] = [];
+    const lines = text.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      if (pattern.test(lines[i].slice(0, maxLength))) matched.push(i);
+    }
+    return matched;
+  });
+}
+
+const MATCH_WORKER_SOURCE = `const { parentPort, workerData } = require("node:worker_threads");
+const matchLines = ${matchLines.toString()};
+parentPort.postMessage(matchLines(workerData.source, workerData.flags, workerData.texts, workerData.maxLength));`;
+
+/**
+ * {@link matchLines} in a worker thread, terminated after `timeoutMs`: a pattern that backtracks
+ * for minutes would otherwise block the event loop shared by every session.
+ */
+function matchLinesInWorker(source: string, flags: string, texts: string[], timeoutMs: number): Promise<number[][]> {
+  return new Promise((resolvePromise, reject) => {
+    const worker = new Worker(MATCH_WORKER_SOURCE, {
+      eval: true,
+      workerData: { source, flags, texts, maxLength: MAX_SEARCHED_LINE_LENGTH },
+    });
+    const timer = setTimeout(() => {
+      reject(
+        new Error(
+          `Regular expression search stopped after ${timeoutMs / 1000} s. Simplify the pattern, e.g. avoid repetitions that can match the same text in several ways.`,
+        ),
+      );
+      void worker.terminate();
+    }, timeoutMs);
+    worker.once("message", (matched: number[][]) => {
+      clearTimeout(timer);
+      resolvePromise(matched);
+      void worker.terminate();
+    });
+    worker.once("error", (e) => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    // Settles nothing once a message, error or timeout did
+    worker.once("exit", () => {
+      clearTimeout(timer);
+      reject(new Error("Regular expression search stopped unexpectedly."));
+    });
+  });
+}
+
+/**
+ * Search indexed files line by line, each line up to its first 1000 characters. Regular
+ * expressions run in a worker thread and are stopped after `timeoutMs`. Rejects with a
+ * `SyntaxError` for an invalid regular expression, and for one longer than {@link MAX_REGEX_LENGTH}
+ * or rejected by {@link isUnsafeRegex}.
+ */
+export async function searchCodeIndex(
+  indexes: RepoIndex[],
+  query: string,
+  options: CodeSearchOptions = {},
+): Promise<CodeSearchOutcome> {
+  if (options.regex && query.length > MAX_REGEX_LENGTH) {
+    throw new SyntaxError(`Regular expressions are limited to ${MAX_REGEX_LENGTH} characters.`);
+  }
+  if (options.regex && isUnsafeRegex(query)) {
+    throw new SyntaxError(
+      "Regular expressions cannot repeat a group holding a repetition or alternatives, like `(a+)+` or `(a|aa)*`, chain wildcards like `.*.*`, or use backreferences: they can take exponential time. Repeat single characters or classes instead, e.g. `a+` or `[ab]*`.",
+    );
+  }
+  const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const flags = options.caseSensitive ? "" : "i";
+  // Throws for invalid patterns before a worker starts
+  new RegExp(source, flags);
+  const context = options.context ?? 0;
+  const offset = options.offset ?? 0;
+
+  const searched = indexes.flatMap((index) =>
+    index.files
+      .filter(
+        (file) =>
+          (!options.pathPrefix || file.path.startsWith(options.pathPrefix)) &&
+          (!options.language || detectLanguageFromExtension(file.path) === options.language.toLowerCase()),
+      )
+      .map((file) => ({ repo: index.slug, file })),
+  );
+  const texts = searched.map(({ file }) => file.content);
+  // Escaped literal text matches in linear time
+  const matchedLines = options.regex
+    ? await matchLinesInWorker(source, flags, texts, options.timeoutMs ?? REGEX_TIMEOUT_MS)
+    : matchLines(source, flags, texts, MAX_SEARCHED_LINE_LENGTH);
+
+  const matches: CodeMatch[] = [];
+  let total = 0;
+  searched.forEach(({ repo, file }, f) => {
+    const matched = matchedLines[f];
+    if (matched.length === 0) return;
+    const lines = file.content.split("\n");
+    for (const i of matched) {
+      total++;
+      if (total <= offset || matches.length >= MAX_MATCHES) continue;
+      matches.push({
+        repo,
+        path: file.path,
+        line: i + 1,
+        text: clip(lines[i]),
+        before: lines.slice(Math.max(0, i - context), i).map(clip),
+        after: lines.slice(i + 1, i + 1 + context).map(clip),
+      });
+    }
+  });
+  return { matches, offset, total, searched: searched.length };
+}
+
+/**
+ * Markdown of local search results: one block per file region, with line numbers and `>` marking
+ * matched lines. Matches whose context overlaps share a block.
+ */
+export function formatCodeIndexResults(outcome: CodeSearchOutcome, branches: Record<string, string>): string {
+  const { matches, offset, total, searched } = outcome;
+  if (matches.length === 0) return `No code matches found in ${count(searched, "indexed file")}.`;
+
+  const files = count(new Set(matches.map((m) => `${m.repo}/${m.path}`)).size, "file");
+  let shown = count(total, "match", "matches");
+  if (offset > 0) shown = `Showing matches ${offset + 1}-${offset + matches.length} of ${total}`;
+  else if (total > matches.length) shown = `Showing the first ${matches.length} of ${total} matches`;
+  const sections = [`${shown} in ${files} (local code index, ${count(searched, "file")} searched).`];
+
+  for (let i = 0; i < matches.length; ) {
+    const first = matches[i];
+    // Lines of this block: consecutive matches in the same file whose context overlaps
+    const lines = new Map<number, { text: string; matched: boolean }>();
+    let last = first;
+    for (; i < matches.length; i++) {
+      const m = matches[i];
+      if (m.repo !== first.repo || m.path !== first.path) break;
+      if (m !== first && m.line - m.before.length > last.line + last.after.length + 1) break;
+      m.before.forEach((text, j) => {
+        const line = m.line - m.before.length + j;
+        if (!lines.has(line)) lines.set(line, { text, matched: false });
+      });
+      lines.set(m.line, { text: m.text, matched: true });
+      m.after.forEach((text, j) => {
+        if (!lines.has(m.line + 1 + j)) lines.set(m.line + 1 + j, { text, matched: false });
+      });
+      last = m;
+    }
+
+    const numbers = [...lines.keys()].sort((a, b) => a - b);
+    const width = String(numbers.at(-1)).length;
+    const body = numbers
+      .map((n) => {
+        const { text, matched } = lines.get(n) as { text: string; matched: boolean };
+        return `${matched ? ">" : " "} ${String(n).padStart(width)}  ${text}`;
+      })
+      .join("\n");
+    const url = `https://github.com/${first.repo}/blob/${branches[first.repo] ?? "main"}/${first.path}#L${first.line}`;
+    sections.push(`**${first.repo}** - \`${first.path}:${first.line}\`\n${url}\n\`\`\`\n${body}\n\`\`\``);
+  }
+  return sections.join("\n\n---\n\n");
+}
+
+// Index lifecycle
+
+function diskKey(repo: Pick<RepoConfig, "slug" | "branch">): string {
+  return `code-index:${repo.slug}@${repo.branch}`;
+}
+
+/**
+ * Full-text index of the configured repos' sources, held in memory and persisted to the disk
+ * cache. It is built in the background at startup and updated on every registry refresh, only
+ * downloading files whose content changed.
+ */
+export class CodeIndex {
+  private readonly repos = new Map<string, RepoIndex>();
+  private readonly diskCache?: DiskCache;
+  private inFlight?: Promise<void>;
+
+  constructor(diskCache?: DiskCache) {
+    this.diskCache = diskCache;
+  }
+
+  /** The index of a repo at `branch`, or undefined if it is not built yet. */
+  get(slug: string, branch: string): RepoIndex | undefined {
+    const index = this.repos.get(slug);
+    return index?.branch === branch ? index : undefined;
+  }
+
+  /** Whether a build or update is running. */
+  get updating(): boolean {
+    return this.inFlight !== undefined;
+  }
+
+  /** Build or update the index of each repo. Concurrent callers share the update in flight. */
+  update(repos: readonly RepoConfig[]): Promise<void> {
+    this.inFlight ??= this.updateAll(repos).finally(() => {
+      this.inFlight = undefined;
+    });
+    return this.inFlight;
+  }
+
+  private async updateAll(repos: readonly RepoConfig[]): Promise<void> {
+    // One repo at a time keeps the number of parallel downloads bounded
+    for (const repo of repos) {
+      const startTime = Date.now();
+      let previous = this.get(repo.slug, repo.branch);
+      if (!previous && !repo.localPath) previous = (await this.diskCache?.get<RepoIndex>(diskKey(repo)))?.value;
+      try {
+        const { index, downloaded } = await indexRepo(repo, previous);
+        this.repos.set(repo.slug, index);
+        // Local checkouts are read from disk anyway
+        if (!repo.localPath) await this.diskCache?.set(diskKey(repo), { value: index, fetchedAt: index.builtAt });
+        logger.info("code-index", "Indexed repo", {
+          repo: repo.slug,
+          files: index.files.length,
+          downloaded,
+          durationMs: Date.now() - startTime,
+        });
+      } catch (e) {
+        // Keep serving the previous index, if any
+        if (previous) this.repos.set(repo.slug, previous);
+        logger.warn("code-index", "Could not index repo", { repo: repo.slug, error: String(e) });
+      }
+    }
+  }
+}
@@ -0,0 +1,16 @@
+/** Raw file downloads in flight at once while reading many files of a repo. */
+export const FETCH_CONCURRENCY = 8;
+
+/** Map `items` through `fn` with at most `limit` calls in flight, keeping the results in order. */
+export async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,191 @@
+import { readFile, stat } from "node:fs/promises";
+import { dirname, extname, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import type { ActiveConfig } from "./config.js";
+import { type Concept, normalizeAlias } from "./taxonomy.js";
+import type { RepoConfig } from "./types.js";
+import { Category, Language } from "./types.js";
+
+const RepoEntry = z
+  .object({
+    slug: z.string().regex(/^[\w.-]+\/[\w.-]+$/, "Expected 'owner/name'"),
+    language: Language.optional(),
+    packagePath: z.string().min(1).optional(),
+    branch: z.string().min(1).optional(),
+    /** Local checkout to read instead of GitHub, relative to the config file. */
+    localPath: z.string().min(1).optional(),
+    enabled: z.boolean().optional(),
+  })
+  .strict();
+
+const CategoryRule = z
+  .object({
+    pattern: z.string().refine(
+      (p) => {
+        try {
+          new RegExp(p);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: "Invalid regular expression" },
+    ),
+    category: Category,
+  })
+  .strict();
+
+const ConceptEntry = z
+  .object({
+    /** Canonical id. An existing concept with this id is extended, otherwise a new one is added. */
+    id: z.string().min(1),
+    label: z.string().min(1).optional(),
+    /** Replace the concept's categories. Required for new concepts. */
+    categories: z.array(Category).min(1).optional(),
+    /** Directory names and phrases added to the concept's aliases. */
+    aliases: z.array(z.string().min(1)).optional(),
+  })
+  .strict();
+
+export const ConfigFile = z
+  .object({
+    /** Drop the built-in zk-kit repos and use only `repos`. */
+    replaceDefaultRepos: z.boolean().optional(),
+    /** New repos, or overrides for built-in repos matched by slug. `enabled: false` removes a repo. */
+    repos: z.array(RepoEntry).optional(),
+    /** Package name overrides per language, keyed by directory name. */
+    nameOverrides: z.record(Language, z.record(z.string(), z.string())).optional(),
+    /** Extra category rules, checked before the built-in ones. */
+    categoryRules: z.array(CategoryRule).optional(),
+    /** New concepts, or extensions of built-in concepts matched by id. */
+    concepts: z.array(ConceptEntry).optional(),
+  })
+  .strict();
+export type ConfigFile = z.infer<typeof ConfigFile>;
+
+export interface ConfigSummary {
+  added: string[];
+  modified: string[];
+  disabled: string[];
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => {
+      const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+      return `  - ${path}: ${issue.message}`;
+    })
+    .join("\n");
+}
+
+/** Parse and validate config file contents. YAML is used for `.yaml`/`.yml`, JSON otherwise. */
+export function parseConfigFile(content: string, filePath: string): ConfigFile {
+  const ext = extname(filePath).toLowerCase();
+  let raw: unknown;
+  try {
+    raw = ext === ".yaml" || ext === ".yml" ? parseYaml(content) : JSON.parse(content);
+  } catch (e) {
+    throw new Error(`Config file ${filePath} could not be parsed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const result = ConfigFile.safeParse(raw ?? {});
+  if (!result.success) {
+    throw new Error(`Invalid config file ${filePath}:\n${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/** Merge a config file over the built-in defaults. */
+export function resolveConfig(
+  file: ConfigFile,
+  defaults: ActiveConfig,
+): { config: ActiveConfig; summary: ConfigSummary } {
+  const summary: ConfigSummary = { added: [], modified: [], disabled: [] };
+  const repos: RepoConfig[] = file.replaceDefaultRepos ? [] : defaults.repos.map((r) => ({ ...r }));
+
+  for (const [i, entry] of (file.repos ?? []).entries()) {
+    const idx = repos.findIndex((r) => r.slug === entry.slug);
+    if (entry.enabled === false) {
+      if (idx !== -1) {
+        repos.splice(idx, 1);
+        summary.disabled.push(entry.slug);
+      }
+      continue;
+    }
+    if (idx !== -1) {
+      const { enabled: _, ...fields } = entry;
+      repos[idx] = { ...repos[idx], ...fields };
+      summary.modified.push(entry.slug);
+      continue;
+    }
+    if (!entry.language) {
+      throw new Error(`Invalid config: repos.${i} (${entry.slug}) is a new repo and needs a "language"`);
+    }
+    repos.push({
+      slug: entry.slug,
+      language: entry.language,
+      packagePath: entry.packagePath ?? "packages",
+      branch: entry.branch ?? "main",
+      ...(entry.localPath && { localPath: entry.localPath }),
+    });
+    summary.added.push(entry.slug);
+  }
+
+  if (repos.length === 0) {
+    throw new Error("Invalid config: no repositories left to discover packages from");
+  }
+
+  const nameOverrides = { ...defaults.nameOverrides };
+  for (const [language, overrides] of Object.entries(file.nameOverrides ?? {})) {
+    const lang = language as Language;
+    nameOverrides[lang] = { ...nameOverrides[lang], ...overrides };
+  }
+
+  const categoryRules: ActiveConfig["categoryRules"] = [
+    ...(file.categoryRules ?? []).map((r): [RegExp, Category] => [new RegExp(r.pattern), r.category]),
+    ...defaults.categoryRules,
+  ];
+
+  const concepts: Concept[] = defaults.concepts.map((c) => ({ ...c }));
+  for (const [i, entry] of (file.concepts ?? []).entries()) {
+    const id = normalizeAlias(entry.id);
+    const existing = concepts.find((c) => c.id === id);
+    if (existing) {
+      if (entry.label) existing.label = entry.label;
+      if (entry.categories) existing.categories = entry.categories;
+      existing.aliases = [...existing.aliases, ...(entry.aliases ?? [])];
+      continue;
+    }
+    if (!entry.categories) {
+      throw new Error(`Invalid config: concepts.${i} (${entry.id}) is a new concept and needs "categories"`);
+    }
+    concepts.push({ id, label: entry.label ?? entry.id, categories: entry.categories, aliases: entry.aliases ?? [] });
+  }
+
+  return { config: { repos, nameOverrides, categoryRules, concepts }, summary };
+}
+
+export async function loadConfigFile(
+  filePath: string,
+  defaults: ActiveConfig,
+): Promise<{ config: ActiveConfig; summary: ConfigSummary }> {
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (e) {
+    throw new Error(`Config file ${filePath} could not be read: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const file = parseConfigFile(content, filePath);
+  for (const [i, entry] of (file.repos ?? []).entries()) {
+    if (!entry.localPath) continue;
+    entry.localPath = resolve(dirname(filePath), entry.localPath);
+    const isDir = await stat(entry.localPath).then(
+      (s) => s.isDirectory(),
+      () => false,
+    );
+    if (!isDir) {
+      throw new Error(`Invalid config file ${filePath}: repos.${i}.localPath ${entry.localPath} is not a directory`);
+    }
+  }
+  return resolveConfig(file, defaults);
+}
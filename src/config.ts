@@ -1,3 +1,4 @@
+import { CONCEPTS, type Concept, findConcept } from "./taxonomy.js";
 import type { Category, Language, RepoConfig } from "./types.js";
 
 export const REPOS: RepoConfig[] = [
@@ -33,12 +34,61 @@ export const REPOS: RepoConfig[] = [
   },
 ];
 
-const NAME_OVERRIDES: Partial<Record<Language, Record<string, string>>> = {
+export type NameOverrides = Partial<Record<Language, Record<string, string>>>;
+
+const NAME_OVERRIDES: NameOverrides = {
   solidity: { excubiae: "@zk-kit/excubiae" },
 };
 
+const CATEGORY_RULES: [RegExp, Category][] = [
+  [/(?:^|-)(?:imt|merkle|smt|pmt)(?:-|$)/, "merkle-trees"],
+  [/(?:^|-)(?:eddsa|ecdh|poseidon|baby-?jubjub)(?:-|$)/, "cryptography"],
+  [/(?:^|-)excubiae(?:-|$)/, "access-control"],
+  [/(?:^|-)(?:semaphore|rln|identity)(?:-|$)/, "identity"],
+  [/(?:^|-)(?:utils|math)(?:-|$)/, "math"],
+];
+
+/** Effective configuration: the defaults above, unless replaced via a config file at startup. */
+export interface ActiveConfig {
+  repos: RepoConfig[];
+  nameOverrides: NameOverrides;
+  categoryRules: [RegExp, Category][];
+  concepts: Concept[];
+}
+
+const DEFAULT_CONFIG: ActiveConfig = {
+  repos: REPOS,
+  nameOverrides: NAME_OVERRIDES,
+  categoryRules: CATEGORY_RULES,
+  concepts: CONCEPTS,
+};
+
+let active: ActiveConfig = DEFAULT_CONFIG;
+
+export function defaultConfig(): ActiveConfig {
+  return DEFAULT_CONFIG;
+}
+
+export function setActiveConfig(config: ActiveConfig): void {
+  active = config;
+}
+
+export function resetActiveConfig(): void {
+  active = DEFAULT_CONFIG;
+}
+
+/** Repositories to discover packages from. */
+export function getRepos(): readonly RepoConfig[] {
+  return active.repos;
+}
+
+/** Concept taxonomy: canonical concepts with their aliases and categories. */
+export function getConcepts(): readonly Concept[] {
+  return active.concepts;
+}
+
 export function deriveName(dirName: string, language: Language): string {
-  const override = NAME_OVERRIDES[language]?.[dirName];
+  const override = active.nameOverrides[language]?.[dirName];
   if (override) return override;
 
   switch (language) {
@@ -55,34 +105,36 @@ export function deriveName(dirName: string, language: Language): string {
   }
 }
 
-export function deriveInstallCommand(name: string, dirName: string, language: Language, slug: string): string {
+/** Install command of a package. Noir dependencies point at the repo's configured `branch`. */
+export function deriveInstallCommand(
+  name: string,
+  dirName: string,
+  language: Language,
+  slug: string,
+  packagePath: string = "packages",
+  branch: string = "main",
+): string {
   switch (language) {
     case "typescript":
     case "circom":
     case "solidity":
       return `npm i ${name}`;
     case "noir":
-      return `Add to Nargo.toml: ${name} = { git = "https://github.com/${slug}", tag = "main", directory = "packages/${dirName}" }`;
+      return `Add to Nargo.toml: ${name} = { git = "https://github.com/${slug}", tag = "${branch}", directory = "${packagePath}/${dirName}" }`;
     case "rust":
       return `cargo add ${name}`;
   }
 }
 
-const CATEGORY_RULES: [RegExp, Category][] = [
-  [/(?:^|-)(?:imt|merkle|smt|pmt)(?:-|$)/, "merkle-trees"],
-  [/(?:^|-)(?:eddsa|ecdh|poseidon|baby-?jubjub)(?:-|$)/, "cryptography"],
-  [/(?:^|-)excubiae(?:-|$)/, "access-control"],
-  [/(?:^|-)(?:semaphore|rln|identity)(?:-|$)/, "identity"],
-  [/(?:^|-)(?:utils|math)(?:-|$)/, "math"],
-];
-
+/** Category of a directory: the first matching rule, otherwise that of its concept. */
 export function inferCategory(dirName: string): Category {
-  for (const [pattern, category] of CATEGORY_RULES) {
+  for (const [pattern, category] of active.categoryRules) {
     if (pattern.test(dirName)) return category;
   }
-  return "other";
+  return findConcept(active.concepts, dirName)?.categories[0] ?? "other";
 }
 
+/** Cross-language ID of a directory: its concept's id, so variants named differently across repos link up. */
 export function deriveCrossLanguageId(dirName: string): string {
-  return dirName;
+  return findConcept(active.concepts, dirName)?.id ?? dirName;
 }
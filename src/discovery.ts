@@ -1,7 +1,14 @@
-import { deriveCrossLanguageId, deriveInstallCommand, deriveName, inferCategory, REPOS } from "./config.js";
-import { fetchDirectoryListing, fetchManifestInfo } from "./github.js";
+import { deriveCrossLanguageId, deriveInstallCommand, deriveName, getRepos, inferCategory } from "./config.js";
+import type { DiskCache } from "./disk-cache.js";
+import {
+  countRequests,
+  fetchDirectoryListing,
+  fetchManifestInfo,
+  fetchRepoTree,
+  type RequestCounts,
+} from "./github.js";
 import { logger } from "./logger.js";
-import type { Package } from "./types.js";
+import type { GitTreeEntry, Package, RepoConfig } from "./types.js";
 
 const LANGUAGE_ORDER: Record<string, number> = {
   typescript: 0,
@@ -11,14 +18,75 @@ const LANGUAGE_ORDER: Record<string, number> = {
   rust: 4,
 };
 
+export interface DiscoveryResult {
+  packages: Package[];
+  /** Slugs of repos whose listing failed entirely. */
+  failedRepos: string[];
+  /** GitHub requests made by this discovery run. */
+  requests: RequestCounts;
+}
+
 export async function discoverAllPackages(): Promise<Package[]> {
+  return (await discoverPackages()).packages;
+}
+
+/**
+ * Group a recursive git tree into the package directories directly under `packagePath`, each with
+ * the files it contains (relative to the package directory).
+ */
+export function packageDirsFromTree(entries: readonly GitTreeEntry[], packagePath: string): Map<string, Set<string>> {
+  const prefix = `${packagePath.replace(/\/$/, "")}/`;
+  const dirs = new Map<string, Set<string>>();
+  for (const entry of entries) {
+    if (!entry.path.startsWith(prefix)) continue;
+    const relative = entry.path.slice(prefix.length);
+    const slash = relative.indexOf("/");
+    const dirName = slash === -1 ? relative : relative.slice(0, slash);
+    if (slash === -1 && entry.type !== "tree") continue;
+    let files = dirs.get(dirName);
+    if (!files) {
+      files = new Set();
+      dirs.set(dirName, files);
+    }
+    if (slash !== -1 && entry.type === "blob") files.add(relative.slice(slash + 1));
+  }
+  return dirs;
+}
+
+/**
+ * List a repo's package directories from its git tree. Falls back to the Contents API when the
+ * tree is truncated, in which case file lists are unknown and manifests are probed blindly.
+ */
+async function listPackageDirs(repo: RepoConfig): Promise<[string, ReadonlySet<string> | undefined][]> {
+  const tree = await fetchRepoTree(repo.slug, repo.branch);
+  if (!tree.truncated) return [...packageDirsFromTree(tree.entries, repo.packagePath)];
+  logger.warn("discovery", "Git tree truncated, falling back to directory listing", { slug: repo.slug });
+  const dirs = await fetchDirectoryListing(repo.slug, repo.packagePath);
+  return dirs.map((dirName) => [dirName, undefined]);
+}
+
+/** Discover packages from every configured repo, reporting which repos could not be listed. */
+export async function discoverPackages(): Promise<DiscoveryResult> {
+  const { value, requests } = await countRequests(discoverFromRepos);
+  return { ...value, requests };
+}
+
+async function discoverFromRepos(): Promise<Omit<DiscoveryResult, "requests">> {
+  const repos = getRepos();
   const results = await Promise.allSettled(
-    REPOS.map(async (repo) => {
-      const dirs = await fetchDirectoryListing(repo.slug, repo.packagePath);
+    repos.map(async (repo) => {
+      const dirs = await listPackageDirs(repo);
       const settled = await Promise.allSettled(
-        dirs.map(async (dirName): Promise<Package> => {
+        dirs.map(async ([dirName, files]): Promise<Package> => {
           const name = deriveName(dirName, repo.language);
-          const manifest = await fetchManifestInfo(repo.slug, repo.branch, repo.packagePath, dirName, repo.language);
+          const manifest = await fetchManifestInfo(
+            repo.slug,
+            repo.branch,
+            repo.packagePath,
+            dirName,
+            repo.language,
+            files,
+          );
           return {
             name,
             dirName,
@@ -26,10 +94,18 @@ export async function discoverAllPackages(): Promise<Package[]> {
             category: inferCategory(dirName),
             repo: `https://github.com/${repo.slug}/tree/${repo.branch}/${repo.packagePath}/${dirName}`,
             description: manifest.description,
-            installCommand: deriveInstallCommand(name, dirName, repo.language, repo.slug),
+            installCommand: deriveInstallCommand(
+              name,
+              dirName,
+              repo.language,
+              repo.slug,
+              repo.packagePath,
+              repo.branch,
+            ),
             crossLanguageId: deriveCrossLanguageId(dirName),
             version: manifest.version,
             zkKitDependencies: manifest.zkKitDependencies ?? [],
+            repoSlug: repo.slug,
           };
         }),
       );
@@ -39,7 +115,10 @@ export async function discoverAllPackages(): Promise<Package[]> {
         if (s.status === "fulfilled") {
           packages.push(s.value);
         } else {
-          logger.warn("discovery", `Package "${dirs[j]}" failed`, { language: repo.language, error: String(s.reason) });
+          logger.warn("discovery", `Package "${dirs[j][0]}" failed`, {
+            language: repo.language,
+            error: String(s.reason),
+          });
         }
       }
       return packages;
@@ -47,24 +126,77 @@ export async function discoverAllPackages(): Promise<Package[]> {
   );
 
   const allPackages: Package[] = [];
+  const failedRepos: string[] = [];
   for (let i = 0; i < results.length; i++) {
     const result = results[i];
     if (result.status === "fulfilled") {
       allPackages.push(...result.value);
     } else {
+      failedRepos.push(repos[i].slug);
       logger.warn("discovery", `Repo failed`, {
-        language: REPOS[i].language,
-        slug: REPOS[i].slug,
+        language: repos[i].language,
+        slug: repos[i].slug,
         error: String(result.reason),
       });
     }
   }
 
-  allPackages.sort((a, b) => {
+  return { packages: sortPackages(allPackages), failedRepos };
+}
+
+export function sortPackages(packages: Package[]): Package[] {
+  return packages.sort((a, b) => {
     const langDiff = (LANGUAGE_ORDER[a.language] ?? 99) - (LANGUAGE_ORDER[b.language] ?? 99);
     if (langDiff !== 0) return langDiff;
     return a.name.localeCompare(b.name);
   });
+}
+
+/** Write a package snapshot so the next startup can skip discovery. */
+export async function saveSnapshot(cache: DiskCache | undefined, packages: Package[]): Promise<void> {
+  if (packages.length > 0) await cache?.set(snapshotKey(), { value: packages, fetchedAt: Date.now() });
+}
+
+/** Snapshot key includes the repo list so a config change never serves packages from other repos. */
+export function snapshotKey(): string {
+  return `discovery:packages:${JSON.stringify(getRepos())}`;
+}
+
+/** Snapshots younger than this are used as-is at startup, skipping discovery entirely. */
+export const SNAPSHOT_MAX_AGE_MS = 60 * 60 * 1000;
+
+export interface LoadedPackages {
+  packages: Package[];
+  source: "github" | "snapshot";
+  /** GitHub requests made, when discovery ran. */
+  requests?: RequestCounts;
+  /** Set when a snapshot older than SNAPSHOT_MAX_AGE_MS was used because discovery failed. */
+  staleAsOf?: number;
+}
+
+/**
+ * Load packages, preferring a fresh on-disk snapshot over live discovery. Falls back to an
+ * outdated snapshot when discovery returns nothing (e.g. GitHub unreachable or rate-limited).
+ */
+export async function loadPackages(cache?: DiskCache): Promise<LoadedPackages> {
+  const key = snapshotKey();
+  const snapshot = await cache?.get<Package[]>(key);
+  if (snapshot && snapshot.value.length > 0 && Date.now() - snapshot.fetchedAt < SNAPSHOT_MAX_AGE_MS) {
+    return { packages: snapshot.value, source: "snapshot" };
+  }
+
+  const { packages, requests } = await discoverPackages();
+  if (packages.length > 0) {
+    await saveSnapshot(cache, packages);
+    return { packages, source: "github", requests };
+  }
+
+  if (snapshot && snapshot.value.length > 0) {
+    logger.warn("discovery", "Discovery returned no packages, using stale snapshot", {
+      staleAsOf: new Date(snapshot.fetchedAt).toISOString(),
+    });
+    return { packages: snapshot.value, source: "snapshot", staleAsOf: snapshot.fetchedAt, requests };
+  }
 
-  return allPackages;
+  return { packages, source: "github", requests };
 }
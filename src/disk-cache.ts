@@ -0,0 +1,90 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { logger } from "./logger.js";
+
+export interface DiskCacheEntry<V> {
+  value: V;
+  /** Epoch millis of the last successful fetch or revalidation. */
+  fetchedAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+/** Resolve the default cache directory: `$XDG_CACHE_HOME/zk-kit-mcp`, else `~/.cache/zk-kit-mcp`. */
+export function defaultCacheDir(env: NodeJS.ProcessEnv = process.env): string {
+  const base = env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(base, "zk-kit-mcp");
+}
+
+/**
+ * Persistent key/value store, one JSON file per key. Survives restarts so startup and
+ * content fetches can be served (or revalidated with ETags) without hitting GitHub.
+ * I/O errors are logged and treated as cache misses, never thrown.
+ */
+export class DiskCache {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private pathFor(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex").slice(0, 32);
+    return join(this.dir, `${hash}.json`);
+  }
+
+  async get<V>(key: string): Promise<DiskCacheEntry<V> | undefined> {
+    try {
+      const raw = await readFile(this.pathFor(key), "utf-8");
+      const stored = JSON.parse(raw) as DiskCacheEntry<V> & { key: string };
+      // Guard against hash collisions
+      if (stored.key !== key) return undefined;
+      const { key: _, ...entry } = stored;
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<V>(key: string, entry: DiskCacheEntry<V>): Promise<void> {
+    const path = this.pathFor(key);
+    const tmp = `${path}.${process.pid}.tmp`;
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(tmp, JSON.stringify({ key, ...entry }));
+      await rename(tmp, path);
+    } catch (e) {
+      logger.warn("disk-cache", "Write failed", { key, error: String(e) });
+    }
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+}
+
+// Stale tracking
+
+const staleScope = new AsyncLocalStorage<{ staleAsOf?: number }>();
+
+/** Record that a stale disk cache entry was served in the current tracking scope. */
+export function markStale(fetchedAt: number): void {
+  const store = staleScope.getStore();
+  if (store && (store.staleAsOf === undefined || fetchedAt < store.staleAsOf)) {
+    store.staleAsOf = fetchedAt;
+  }
+}
+
+/** Run `fn` and report the oldest stale cache entry it was served, if any. */
+export async function trackStaleness<T>(fn: () => Promise<T>): Promise<{ value: T; staleAsOf?: number }> {
+  const store: { staleAsOf?: number } = {};
+  const value = await staleScope.run(store, fn);
+  return { value, staleAsOf: store.staleAsOf };
+}
+
+export function formatStaleNote(staleAsOf: number): string {
+  return `\n\n---\n*[GitHub could not be reached. Showing cached content, stale as of ${new Date(staleAsOf).toISOString()}.]*`;
+}
@@ -0,0 +1,317 @@
+import type { Language, PackageApi } from "./types.js";
+
+/** Where a passage comes from: the package description, its README, its changelog or a doc comment. */
+export type DocSource = "description" | "readme" | "changelog" | "api";
+
+/** A searchable chunk of a package's documentation. */
+export interface DocPassage {
+  source: DocSource;
+  /** Heading path of a README or changelog section, e.g. `Usage > Proofs`, or the documented symbol. */
+  heading?: string;
+  text: string;
+}
+
+/** The passages of one package, as indexed. */
+export interface PackageDocs {
+  package: string;
+  language: Language;
+  /** Slug of the repo the docs come from, telling apart packages of the same name in a fork. */
+  repo?: string;
+  passages: DocPassage[];
+}
+
+export interface DocIndex {
+  documents: {
+    package: string;
+    language: Language;
+    repo?: string;
+    passage: DocPassage;
+    terms: Map<string, number>;
+    length: number;
+  }[];
+  /** Number of documents each term appears in. */
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+  packages: number;
+}
+
+export interface ScoredPassage extends DocPassage {
+  score: number;
+}
+
+export interface DocResult {
+  package: string;
+  language: Language;
+  repo?: string;
+  /** Score of the best passage. */
+  score: number;
+  /** Best passages first, with their text cut to the part matching the query. */
+  passages: ScoredPassage[];
+}
+
+// BM25 parameters, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+/** Sections longer than this many words are split at paragraph boundaries. */
+const MAX_PASSAGE_WORDS = 150;
+/** Passages shown per package. */
+const MAX_PASSAGES_PER_PACKAGE = 3;
+const MAX_EXCERPT_LENGTH = 500;
+
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be by can do for from has have how i if in into is it its of on or that the their then " +
+    "there these this to use used using was what when where which will with without you your"
+  ).split(" "),
+);
+
+/** Reduce a lowercase word to a crude stem, so `proves`, `proved` and `proving` match `prove`. */
+function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  if (word.endsWith("ies") && word.length > 4) return `${word.slice(0, -3)}y`;
+  for (const suffix of ["ing", "ed", "es", "s", "e"]) {
+    if (suffix === "s" && word.endsWith("ss")) continue;
+    const minStem = suffix === "s" ? 3 : 4;
+    if (word.endsWith(suffix) && word.length - suffix.length >= minStem) return word.slice(0, -suffix.length);
+  }
+  return word;
+}
+
+/**
+ * Search terms of a text: words and identifiers, split at camelCase and `_` boundaries (keeping
+ * the whole identifier too), lowercased and stemmed, without stop words.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z0-9]+(?:_[A-Za-z0-9]+)*/g) ?? []) {
+    const parts = word.split("_").flatMap((w) => w.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/));
+    const words = parts.length > 1 ? [...parts, word.replace(/_/g, "")] : parts;
+    for (const w of words) {
+      const lower = w.toLowerCase();
+      if (!STOP_WORDS.has(lower)) terms.push(stem(lower));
+    }
+  }
+  return terms;
+}
+
+/** Strip HTML tags, images and link targets, which only add noise to the index. */
+function plainLine(line: string): string {
+  return line
+    .replace(/<[^>]*>/g, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .trimEnd();
+}
+
+/**
+ * Split a markdown document into passages: one per section, keyed by its heading path, with long
+ * sections split at paragraph boundaries. Code blocks are kept with the prose around them.
+ */
+export function markdownPassages(content: string, source: DocSource): DocPassage[] {
+  const passages: DocPassage[] = [];
+  const headings: string[] = [];
+  let paragraphs: string[] = [];
+  let paragraph: string[] = [];
+  let inCode = false;
+
+  const endParagraph = () => {
+    const text = paragraph.join("\n").trim();
+    if (text) paragraphs.push(text);
+    paragraph = [];
+  };
+  const endSection = () => {
+    endParagraph();
+    const heading = headings.filter(Boolean).join(" > ") || undefined;
+    let chunk: string[] = [];
+    let words = 0;
+    for (const p of paragraphs) {
+      const count = p.split(/\s+/).length;
+      if (chunk.length > 0 && words + count > MAX_PASSAGE_WORDS) {
+        passages.push({ source, ...(heading && { heading }), text: chunk.join("\n\n") });
+        chunk = [];
+        words = 0;
+      }
+      chunk.push(p);
+      words += count;
+    }
+    if (chunk.length > 0) passages.push({ source, ...(heading && { heading }), text: chunk.join("\n\n") });
+    paragraphs = [];
+  };
+
+  for (const raw of content.split("\n")) {
+    if (/^\s*(```|~~~)/.test(raw)) {
+      inCode = !inCode;
+      paragraph.push(raw);
+      continue;
+    }
+    if (inCode) {
+      paragraph.push(raw);
+      continue;
+    }
+    const heading = raw.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      endSection();
+      const level = heading[1].length;
+      headings.length = level;
+      headings[level - 1] = plainLine(heading[2]).trim();
+      continue;
+    }
+    const line = plainLine(raw);
+    if (line.trim() === "") endParagraph();
+    else paragraph.push(line);
+  }
+  endSection();
+  return passages;
+}
+
+/** One passage per documented symbol or member of an extracted API: its signature and doc comment. */
+export function apiPassages(api: PackageApi): DocPassage[] {
+  const passages: DocPassage[] = [];
+  for (const symbol of api.symbols) {
+    if (symbol.doc)
+      passages.push({ source: "api", heading: symbol.name, text: `${symbol.signature}\n\n${symbol.doc}` });
+    for (const member of symbol.members ?? []) {
+      if (member.doc) {
+        passages.push({
+          source: "api",
+          heading: `${symbol.name}.${member.name}`,
+          text: `${member.signature}\n\n${member.doc}`,
+        });
+      }
+    }
+  }
+  return passages;
+}
+
+/** Build a BM25 index over the passages of several packages. Headings are indexed with their passage. */
+export function buildDocIndex(packages: PackageDocs[]): DocIndex {
+  const documents: DocIndex["documents"] = [];
+  const documentFrequency = new Map<string, number>();
+  let totalLength = 0;
+  for (const docs of packages) {
+    for (const passage of docs.passages) {
+      const tokens = tokenize(`${passage.heading ?? ""}\n${passage.text}`);
+      const terms = new Map<string, number>();
+      for (const t of tokens) terms.set(t, (terms.get(t) ?? 0) + 1);
+      for (const t of terms.keys()) documentFrequency.set(t, (documentFrequency.get(t) ?? 0) + 1);
+      documents.push({
+        package: docs.package,
+        language: docs.language,
+        ...(docs.repo && { repo: docs.repo }),
+        passage,
+        terms,
+        length: tokens.length,
+      });
+      totalLength += tokens.length;
+    }
+  }
+  return {
+    documents,
+    documentFrequency,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+    packages: packages.length,
+  };
+}
+
+/** The lines of a passage around its best matching line, up to {@link MAX_EXCERPT_LENGTH} characters. */
+export function excerpt(text: string, terms: ReadonlySet<string>): string {
+  if (text.length <= MAX_EXCERPT_LENGTH) return text;
+  const lines = text.split("\n");
+  let best = 0;
+  let bestHits = 0;
+  lines.forEach((line, i) => {
+    const hits = new Set(tokenize(line).filter((t) => terms.has(t))).size;
+    if (hits > bestHits) {
+      best = i;
+      bestHits = hits;
+    }
+  });
+  // Start a line early for context, unless the best line is the first
+  const start = Math.max(0, best - 1);
+  let end = start;
+  let length = 0;
+  while (end < lines.length && length + lines[end].length <= MAX_EXCERPT_LENGTH) length += lines[end++].length + 1;
+  const out = end > start ? lines.slice(start, end).join("\n") : lines[best].slice(0, MAX_EXCERPT_LENGTH);
+  return `${start > 0 ? "...\n" : ""}${out.trimEnd()}${end < lines.length ? "\n..." : ""}`;
+}
+
+/**
+ * Rank packages by their best matching passage with BM25. Each result carries its best passages,
+ * cut to the part matching the query.
+ */
+export function searchDocIndex(index: DocIndex, query: string, limit = 5): DocResult[] {
+  const terms = new Set(tokenize(query));
+  const n = index.documents.length;
+  const byPackage = new Map<string, DocResult>();
+
+  for (const doc of index.documents) {
+    let score = 0;
+    for (const term of terms) {
+      const tf = doc.terms.get(term);
+      if (!tf) continue;
+      const df = index.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      score += (idf * tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * doc.length) / index.averageLength));
+    }
+    if (score <= 0) continue;
+    // By repo too: a fork's package has the same name as upstream's
+    const key = `${doc.repo ?? ""}:${doc.package}`;
+    let result = byPackage.get(key);
+    if (!result) {
+      result = {
+        package: doc.package,
+        language: doc.language,
+        ...(doc.repo && { repo: doc.repo }),
+        score: 0,
+        passages: [],
+      };
+      byPackage.set(key, result);
+    }
+    result.passages.push({ ...doc.passage, score });
+  }
+
+  const results = [...byPackage.values()];
+  for (const result of results) {
+    result.passages.sort((a, b) => b.score - a.score);
+    result.passages = result.passages
+      .slice(0, MAX_PASSAGES_PER_PACKAGE)
+      .map((p) => ({ ...p, text: excerpt(p.text, terms), score: Math.round(p.score * 100) / 100 }));
+    result.score = result.passages[0].score;
+  }
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+const SOURCE_LABELS: Record<DocSource, string> = {
+  description: "Description",
+  readme: "README",
+  changelog: "CHANGELOG",
+  api: "Doc comment",
+};
+
+/** Markdown of ranked packages, each with its best passages quoted. */
+export function formatDocResults(query: string, results: DocResult[], indexed: number): string {
+  const scope = `${indexed} package${indexed === 1 ? "" : "s"}`;
+  if (results.length === 0) {
+    return `No documentation matches "${query}" in ${scope}.\n\nTry other words, or \`list_packages\` to browse by name and category.`;
+  }
+  let md = `# Docs: "${query}"\n\n`;
+  md += `${results.length} best matching package${results.length === 1 ? "" : "s"} of ${scope}, ranked by BM25 over descriptions, READMEs, changelogs and doc comments.\n`;
+  // Name the repo of packages found in several, such as a fork and upstream
+  const shared = new Set(results.map((r) => r.package).filter((name, i, names) => names.indexOf(name) !== i));
+  results.forEach((result, i) => {
+    const repo = shared.has(result.package) && result.repo ? `, ${result.repo}` : "";
+    md += `\n## ${i + 1}. ${result.package} (${result.language}${repo})\n`;
+    for (const passage of result.passages) {
+      const where = passage.heading
+        ? `${SOURCE_LABELS[passage.source]}: ${passage.heading}`
+        : SOURCE_LABELS[passage.source];
+      const quoted = passage.text
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n");
+      md += `\n**${where}** (score ${passage.score})\n\n${quoted}\n`;
+    }
+  });
+  md += "\nUse `get_package_readme` for the full documentation of a package.\n";
+  return md;
+}
@@ -1,18 +1,130 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { getRepos } from "./config.js";
+import { type DiskCache, type DiskCacheEntry, markStale } from "./disk-cache.js";
+import {
+  listLocalDirectories,
+  localGitLog,
+  readLocalFile,
+  readLocalFileAt,
+  readLocalTree,
+  readLocalTreeAt,
+  resolveLocalRef,
+} from "./local-source.js";
+import { logger } from "./logger.js";
 import type {
   CodeSearchResult,
   DirectoryEntry,
   GithubIssue,
   GithubRelease,
+  GitTreeEntry,
   Language,
   PackageCommit,
   PackageDependencies,
   PackageDownloads,
   RepoStats,
+  RepoTree,
   WorkflowRun,
 } from "./types.js";
 
 const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
 
+/** Optional persistent cache for raw files and API documents. Unset means memory-only operation. */
+let diskCache: DiskCache | undefined;
+
+export function setDiskCache(cache: DiskCache | undefined): void {
+  diskCache = cache;
+}
+
+/** Max API responses remembered in memory for conditional requests. Oldest entries are evicted first. */
+const MAX_CONDITIONAL_ENTRIES = 500;
+
+/** Last validated API response per URL, with its ETag/Last-Modified validators. */
+const conditionalCache = new Map<string, DiskCacheEntry<unknown>>();
+
+export function clearConditionalCache(): void {
+  conditionalCache.clear();
+}
+
+async function lookupValidated<T>(url: string): Promise<DiskCacheEntry<T> | undefined> {
+  const remembered = conditionalCache.get(url) as DiskCacheEntry<T> | undefined;
+  if (remembered) return remembered;
+  return diskCache?.get<T>(url);
+}
+
+function storeValidated<T>(url: string, entry: DiskCacheEntry<T>): void {
+  // Only responses with validators can be revalidated, so only those are worth remembering in memory
+  if (entry.etag || entry.lastModified) {
+    conditionalCache.delete(url);
+    conditionalCache.set(url, entry);
+    if (conditionalCache.size > MAX_CONDITIONAL_ENTRIES) {
+      conditionalCache.delete(conditionalCache.keys().next().value!);
+    }
+  }
+  void diskCache?.set(url, entry);
+}
+
+/** Local checkout configured for a repo, if it should be read from disk instead of GitHub. */
+function localPathFor(slug: string): string | undefined {
+  return getRepos().find((r) => r.slug === slug)?.localPath;
+}
+
+/** Whether `ref` is the repo's configured branch, which local checkouts serve from the working tree. */
+function isDefaultBranch(slug: string, ref: string): boolean {
+  return getRepos().find((r) => r.slug === slug)?.branch === ref;
+}
+
+// Request counting
+
+export interface RequestCounts {
+  /** Requests to api.github.com, including retries and 304 revalidations. */
+  api: number;
+  /** Requests to raw.githubusercontent.com. */
+  raw: number;
+  /** Responses answered with 304 Not Modified. */
+  notModified: number;
+}
+
+const requestScope = new AsyncLocalStorage<RequestCounts>();
+
+function countRequest(kind: "api" | "raw", status?: number): void {
+  const counts = requestScope.getStore();
+  if (!counts) return;
+  counts[kind]++;
+  if (status === 304) counts.notModified++;
+}
+
+/** Run `fn` and count the GitHub requests it makes, without mixing in concurrent unrelated requests. */
+export async function countRequests<T>(fn: () => Promise<T>): Promise<{ value: T; requests: RequestCounts }> {
+  const requests: RequestCounts = { api: 0, raw: 0, notModified: 0 };
+  const value = await requestScope.run(requests, fn);
+  return { value, requests };
+}
+
+function serveStale<V>(url: string, entry: DiskCacheEntry<V>, reason: string): V {
+  logger.warn("github", "Serving stale cached content", {
+    url,
+    staleAsOf: new Date(entry.fetchedAt).toISOString(),
+    reason,
+  });
+  markStale(entry.fetchedAt);
+  return entry.value;
+}
+
+function validatorHeaders(entry: DiskCacheEntry<unknown> | undefined): Record<string, string> | undefined {
+  if (!entry) return undefined;
+  const h: Record<string, string> = {};
+  if (entry.etag) h["If-None-Match"] = entry.etag;
+  if (entry.lastModified) h["If-Modified-Since"] = entry.lastModified;
+  return Object.keys(h).length > 0 ? h : undefined;
+}
+
+function validatorsFrom(resp: Response): { etag?: string; lastModified?: string } {
+  return {
+    etag: resp.headers?.get("etag") ?? undefined,
+    lastModified: resp.headers?.get("last-modified") ?? undefined,
+  };
+}
+
 function headers(): Record<string, string> {
   const h: Record<string, string> = {
     Accept: "application/vnd.github.v3+json",
@@ -22,8 +134,11 @@ function headers(): Record<string, string> {
   return h;
 }
 
-async function githubFetch(url: string, options?: { accept?: string }): Promise<Response> {
-  const h = headers();
+async function githubFetch(
+  url: string,
+  options?: { accept?: string; headers?: Record<string, string> },
+): Promise<Response> {
+  const h = { ...headers(), ...options?.headers };
   if (options?.accept) h.Accept = options.accept;
 
   let lastError: Error | undefined;
@@ -31,6 +146,9 @@ async function githubFetch(url: string, options?: { accept?: string }): Promise<
     if (attempt > 0) await new Promise((r) => setTimeout(r, 1000));
     try {
       const resp = await fetch(url, { headers: h, signal: AbortSignal.timeout(15_000) });
+      countRequest("api", resp.status);
+      // 304 Not Modified: caller revalidated a cached copy
+      if (resp.status === 304) return resp;
       if (!resp.ok) {
         if (resp.status === 403 && resp.headers?.get("x-ratelimit-remaining") === "0") {
           const reset = resp.headers.get("x-ratelimit-reset");
@@ -58,6 +176,32 @@ async function githubFetch(url: string, options?: { accept?: string }): Promise<
   throw lastError!;
 }
 
+/**
+ * Fetch a GitHub API JSON document with conditional requests. The ETag/Last-Modified of each
+ * response is remembered per URL (in memory, and on disk if configured) and sent back as
+ * If-None-Match/If-Modified-Since; a 304 reuses the remembered body and does not count against
+ * the primary rate limit. Remembered copies are served stale when GitHub is unreachable or rate-limited.
+ */
+async function githubFetchJson<T>(url: string): Promise<T> {
+  const cached = await lookupValidated<T>(url);
+  let resp: Response;
+  try {
+    resp = await githubFetch(url, { headers: validatorHeaders(cached) });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    if (cached && !/GitHub API 4\d\d/.test(msg)) return serveStale(url, cached, msg);
+    throw e;
+  }
+  if (resp.status === 304 && cached) {
+    logger.debug("github", "Not modified", { url });
+    storeValidated(url, { ...cached, fetchedAt: Date.now() });
+    return cached.value;
+  }
+  const data = (await resp.json()) as T;
+  storeValidated(url, { value: data, fetchedAt: Date.now(), ...validatorsFrom(resp) });
+  return data;
+}
+
 /** Truncate string at word boundary with ellipsis. */
 export function truncate(s: string, max: number): string {
   if (s.length <= max) return s;
@@ -86,23 +230,49 @@ export function extractDescriptionFromReadme(content: string): string {
   return "";
 }
 
-/** List directory names from a GitHub repo path via Contents API. */
+/** List directory names from a GitHub repo path via Contents API, or from the repo's local checkout. */
 export async function fetchDirectoryListing(slug: string, path: string): Promise<string[]> {
+  const local = localPathFor(slug);
+  if (local) return listLocalDirectories(local, path);
   const url = `https://api.github.com/repos/${slug}/contents/${path}`;
-  const resp = await githubFetch(url);
-  const items = (await resp.json()) as { name: string; type: string }[];
+  const items = await githubFetchJson<{ name: string; type: string }[]>(url);
   return items.filter((i) => i.type === "dir").map((i) => i.name);
 }
 
-/** Fetch a raw file from GitHub (not API-rate-limited). */
+/**
+ * Fetch a raw file from GitHub (not API-rate-limited). With a disk cache configured, cached copies
+ * are revalidated via ETag and served stale on network or server errors. Repos with a `localPath`
+ * are read from disk instead: the working tree for the configured branch, `git show` for other refs.
+ */
 export async function fetchRawFile(slug: string, branch: string, filePath: string): Promise<string | null> {
+  const local = localPathFor(slug);
+  if (local) {
+    return isDefaultBranch(slug, branch) ? readLocalFile(local, filePath) : readLocalFileAt(local, branch, filePath);
+  }
   const url = `https://raw.githubusercontent.com/${slug}/${branch}/${filePath}`;
+  const cached = await diskCache?.get<string>(url);
+  const conditional = validatorHeaders(cached);
   try {
-    const resp = await fetch(url, { signal: AbortSignal.timeout(10_000) });
-    if (!resp.ok) return null;
-    return await resp.text();
-  } catch {
-    return null;
+    const resp = await fetch(url, {
+      ...(conditional && { headers: conditional }),
+      signal: AbortSignal.timeout(10_000),
+    });
+    countRequest("raw", resp.status);
+    if (resp.status === 304 && cached) {
+      void diskCache?.set(url, { ...cached, fetchedAt: Date.now() });
+      return cached.value;
+    }
+    if (!resp.ok) {
+      if (cached && (resp.status >= 500 || resp.status === 429)) {
+        return serveStale(url, cached, `HTTP ${resp.status}`);
+      }
+      return null;
+    }
+    const text = await resp.text();
+    void diskCache?.set(url, { value: text, fetchedAt: Date.now(), ...validatorsFrom(resp) });
+    return text;
+  } catch (e) {
+    return cached ? serveStale(url, cached, String(e)) : null;
   }
 }
 
@@ -116,8 +286,11 @@ async function fetchReadmeContent(
   branch: string,
   packagePath: string,
   dirName: string,
+  files?: ReadonlySet<string>,
 ): Promise<string | null> {
-  const candidates = [`${packagePath}/${dirName}/README.md`, `${packagePath}/${dirName}/contracts/README.md`];
+  const candidates = ["README.md", "contracts/README.md"]
+    .filter((f) => !files || files.has(f))
+    .map((f) => `${packagePath}/${dirName}/${f}`);
 
   let primaryContent: string | null = null;
   for (let i = 0; i < candidates.length; i++) {
@@ -136,19 +309,25 @@ export interface ManifestInfo {
   zkKitDependencies: string[];
 }
 
-/** Extract description, version, and internal ZK-Kit dependencies from a package manifest. Falls back to README for description. */
+/**
+ * Extract description, version, and internal ZK-Kit dependencies from a package manifest. Falls back to README for description.
+ * Pass `files` (paths relative to the package directory) to skip fetching manifests and READMEs that do not exist.
+ */
 export async function fetchManifestInfo(
   slug: string,
   branch: string,
   packagePath: string,
   dirName: string,
   language: Language,
+  files?: ReadonlySet<string>,
 ): Promise<ManifestInfo> {
   let description = "";
   let version: string | undefined;
   let zkKitDependencies: string[] = [];
+  const manifest = language === "rust" ? "Cargo.toml" : "package.json";
+  const hasManifest = !files || files.has(manifest);
 
-  if (language === "rust") {
+  if (hasManifest && language === "rust") {
     const content = await fetchRawFile(slug, branch, `${packagePath}/${dirName}/Cargo.toml`);
     if (content) {
       const descMatch = content.match(/description\s*=\s*"([^"]+)"/);
@@ -161,7 +340,7 @@ export async function fetchManifestInfo(
         .filter((k) => k.startsWith("zk-kit-"))
         .map((k) => k.replace("zk-kit-", ""));
     }
-  } else if (language !== "noir") {
+  } else if (hasManifest && language !== "noir") {
     // TypeScript, Circom, Solidity use package.json
     const content = await fetchRawFile(slug, branch, `${packagePath}/${dirName}/package.json`);
     if (content) {
@@ -181,7 +360,7 @@ export async function fetchManifestInfo(
 
   // Fallback: extract from README (handles Noir, Solidity with no description, etc.)
   if (!description) {
-    const readme = await fetchReadmeContent(slug, branch, packagePath, dirName);
+    const readme = await fetchReadmeContent(slug, branch, packagePath, dirName, files);
     if (readme) {
       description = extractDescriptionFromReadme(readme);
     }
@@ -219,14 +398,16 @@ export async function fetchReleases(
   // Fetch more when filtering since many will be discarded
   const fetchCount = packageFilter ? Math.min(limit * 5, 100) : limit;
   const url = `https://api.github.com/repos/${repoSlug}/releases?per_page=${fetchCount}`;
-  const resp = await githubFetch(url);
-  const data = (await resp.json()) as {
-    tag_name: string;
-    name: string;
-    published_at: string;
-    html_url: string;
-    body: string;
-  }[];
+  const data =
+    await githubFetchJson<
+      {
+        tag_name: string;
+        name: string;
+        published_at: string;
+        html_url: string;
+        body: string;
+      }[]
+    >(url);
 
   let releases = data.map((r) => ({
     tag: r.tag_name,
@@ -374,8 +555,7 @@ export function formatDependencies(pkgName: string, language: Language, deps: Pa
 
 export async function fetchRepoStats(slug: string): Promise<RepoStats> {
   const url = `https://api.github.com/repos/${slug}`;
-  const resp = await githubFetch(url);
-  const data = (await resp.json()) as {
+  const data = await githubFetchJson<{
     full_name: string;
     description: string | null;
     stargazers_count: number;
@@ -386,7 +566,7 @@ export async function fetchRepoStats(slug: string): Promise<RepoStats> {
     topics: string[];
     language: string | null;
     html_url: string;
-  };
+  }>(url);
   return {
     slug: data.full_name,
     description: data.description || "",
@@ -422,26 +602,40 @@ export function formatRepoStats(stats: RepoStats): string {
 
 // Package Source
 
-export async function fetchDirectoryTree(slug: string, branch: string, path: string): Promise<DirectoryEntry[]> {
-  // Use Git Trees API, returns the entire tree in one API call instead of N recursive calls
+/**
+ * Fetch the whole recursive git tree of a branch in a single Git Trees API call. Submodules are skipped.
+ * Repos with a `localPath` are read on disk instead: the working tree for the configured branch,
+ * `git ls-tree` for other refs.
+ */
+export async function fetchRepoTree(slug: string, branch: string): Promise<RepoTree> {
+  const local = localPathFor(slug);
+  if (local) return isDefaultBranch(slug, branch) ? readLocalTree(local) : readLocalTreeAt(local, branch);
   const url = `https://api.github.com/repos/${slug}/git/trees/${branch}?recursive=1`;
-  const resp = await githubFetch(url);
-  const data = (await resp.json()) as {
-    tree: { path: string; type: "blob" | "tree"; size?: number }[];
+  const data = await githubFetchJson<{
+    tree: { path: string; type: string; size?: number; sha?: string }[];
     truncated: boolean;
-  };
+  }>(url);
+  const entries = data.tree
+    .filter((item): item is GitTreeEntry => item.type === "blob" || item.type === "tree")
+    .map(({ path, type, size, sha }) => ({ path, type, size, sha }));
+  return { entries, truncated: data.truncated };
+}
+
+export async function fetchDirectoryTree(slug: string, branch: string, path: string): Promise<DirectoryEntry[]> {
+  // Use Git Trees API, returns the entire tree in one API call instead of N recursive calls
+  const { entries: tree } = await fetchRepoTree(slug, branch);
 
   const prefix = path.endsWith("/") ? path : `${path}/`;
   const entries: DirectoryEntry[] = [];
 
-  for (const item of data.tree) {
+  for (const item of tree) {
     if (!item.path.startsWith(prefix)) continue;
     const relativePath = item.path.slice(prefix.length);
     if (!relativePath) continue;
 
     const name = relativePath.split("/").pop()!;
     if (item.type === "blob") {
-      entries.push({ name, path: relativePath, type: "file", size: item.size });
+      entries.push({ name, path: relativePath, type: "file", size: item.size, ...(item.sha && { sha: item.sha }) });
     } else if (item.type === "tree") {
       entries.push({ name, path: relativePath, type: "dir" });
     }
@@ -493,18 +687,25 @@ export function detectLanguageFromExtension(filePath: string): string {
 
 // Code Search
 
+/** Files per page of GitHub Code Search results. */
+export const CODE_SEARCH_PAGE_SIZE = 20;
+
+/** A page of GitHub Code Search results, and the number of matching files in total. */
 export async function searchCode(
   query: string,
   language?: string,
   scopeRepo?: string,
   scopePath?: string,
-): Promise<CodeSearchResult[]> {
+  page = 1,
+): Promise<{ results: CodeSearchResult[]; total: number }> {
   let q = scopeRepo ? `${query} repo:${scopeRepo}` : `${query} org:zk-kit`;
   if (scopePath) q += ` path:${scopePath}`;
   if (language) q += ` language:${language}`;
-  const url = `https://api.github.com/search/code?q=${encodeURIComponent(q)}&per_page=20`;
+  let url = `https://api.github.com/search/code?q=${encodeURIComponent(q)}&per_page=${CODE_SEARCH_PAGE_SIZE}`;
+  if (page > 1) url += `&page=${page}`;
   const resp = await githubFetch(url, { accept: "application/vnd.github.text-match+json" });
   const data = (await resp.json()) as {
+    total_count?: number;
     items: {
       name: string;
       path: string;
@@ -513,12 +714,13 @@ export async function searchCode(
       text_matches?: { fragment: string }[];
     }[];
   };
-  return data.items.map((item) => ({
+  const results = data.items.map((item) => ({
     path: item.path,
     repo: item.repository.full_name,
     url: item.html_url,
     fragment: item.text_matches?.[0]?.fragment || "",
   }));
+  return { results, total: data.total_count ?? results.length };
 }
 
 export function formatCodeSearchResults(results: CodeSearchResult[]): string {
@@ -535,19 +737,43 @@ export function formatCodeSearchResults(results: CodeSearchResult[]): string {
     .join("\n\n---\n\n");
 }
 
+// Git Refs
+
+/**
+ * Resolve a tag, branch or SHA to its full commit SHA, peeling annotated tags. Returns null when the
+ * ref does not exist. Reading content at the SHA keeps raw and tree URLs unambiguous for tags that
+ * contain `/` or `@`, such as `@zk-kit/lean-imt@2.0.0`.
+ */
+export async function resolveCommitSha(slug: string, ref: string): Promise<string | null> {
+  const local = localPathFor(slug);
+  if (local) return resolveLocalRef(local, ref);
+  const url = `https://api.github.com/repos/${slug}/commits/${ref.split("/").map(encodeURIComponent).join("/")}`;
+  try {
+    const resp = await githubFetch(url, { accept: "application/vnd.github.sha" });
+    return (await resp.text()).trim();
+  } catch (e) {
+    if (e instanceof Error && /GitHub API (404|422)/.test(e.message)) return null;
+    throw e;
+  }
+}
+
 // Package Commits
 
 export async function fetchPackageCommits(slug: string, path: string, limit: number = 10): Promise<PackageCommit[]> {
+  const local = localPathFor(slug);
+  if (local) return localGitLog(local, slug, path, limit);
   const url = `https://api.github.com/repos/${slug}/commits?path=${encodeURIComponent(path)}&per_page=${limit}`;
-  const resp = await githubFetch(url);
-  const data = (await resp.json()) as {
-    sha: string;
-    commit: {
-      message: string;
-      author: { name: string; date: string };
-    };
-    html_url: string;
-  }[];
+  const data =
+    await githubFetchJson<
+      {
+        sha: string;
+        commit: {
+          message: string;
+          author: { name: string; date: string };
+        };
+        html_url: string;
+      }[]
+    >(url);
   return data.map((c) => ({
     sha: c.sha.slice(0, 7),
     message: c.commit.message.split("\n")[0], // first line only
@@ -644,8 +870,7 @@ export function formatPackageDownloads(pkgName: string, downloads: PackageDownlo
 
 export async function fetchWorkflowRuns(slug: string, limit: number = 5): Promise<WorkflowRun[]> {
   const url = `https://api.github.com/repos/${slug}/actions/runs?per_page=${limit}`;
-  const resp = await githubFetch(url);
-  const data = (await resp.json()) as {
+  const data = await githubFetchJson<{
     workflow_runs: {
       name: string;
       status: string;
@@ -654,7 +879,7 @@ export async function fetchWorkflowRuns(slug: string, limit: number = 5): Promis
       created_at: string;
       html_url: string;
     }[];
-  };
+  }>(url);
   return data.workflow_runs.map((r) => ({
     name: r.name,
     status: r.status,
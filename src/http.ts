@@ -0,0 +1,258 @@
+import { randomUUID } from "node:crypto";
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+/** Max accepted JSON-RPC request body in bytes. */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Sessions with no request for this long are closed, for clients that vanish without a DELETE. */
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60_000;
+
+const LOOPBACK_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+export interface HttpServerHandle {
+  /** Port the server is listening on (useful when started with port 0). */
+  port: number;
+  /** Number of open Streamable HTTP and SSE sessions. */
+  sessionCount(): number;
+  /** Close all sessions and stop accepting connections. */
+  close(): Promise<void>;
+}
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  /** Extra hostnames accepted in the Host header, e.g. the machine's name when bound to 0.0.0.0. */
+  allowedHosts?: readonly string[];
+  /** Close sessions with no request or stream open for this many milliseconds. Defaults to 30 minutes. */
+  sessionIdleTimeoutMs?: number;
+}
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** Requests and streams of the session still open: the idle timer only runs when there are none. */
+  open: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Hostnames accepted in the Host header: loopback names, the bound host unless it is a wildcard
+ * address, and `extra`. Rejecting others blocks DNS rebinding, where a web page points its own
+ * domain at this server and calls it from the visitor's browser.
+ */
+export function allowedHostnames(host: string, extra: readonly string[] = []): Set<string> {
+  const wildcard = host === "0.0.0.0" || host === "::";
+  const bound = host.includes(":") ? `[${host}]` : host;
+  return new Set([...LOOPBACK_HOSTNAMES, ...(wildcard ? [] : [bound]), ...extra].map((h) => h.toLowerCase()));
+}
+
+/** Whether the request's Host header names one of `hostnames`, ignoring the port. */
+function hostAllowed(req: IncomingMessage, hostnames: Set<string>): boolean {
+  const header = req.headers.host;
+  if (!header) return false;
+  try {
+    return hostnames.has(new URL(`http://${header}`).hostname);
+  } catch {
+    return false;
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+/**
+ * Serve MCP over HTTP. Each client session gets its own McpServer from `createSessionServer`,
+ * so a single process can be shared by many editors.
+ *
+ * Endpoints:
+ * - `POST|GET|DELETE /mcp`, Streamable HTTP transport
+ * - `GET /sse` + `POST /messages?sessionId=...`, legacy HTTP+SSE transport
+ * - `GET /health`, liveness probe
+ *
+ * Requests with a Host header outside {@link allowedHostnames} get a 403. Sessions close after
+ * `sessionIdleTimeoutMs` with no request or stream open; later requests for them get a 404.
+ */
+export async function startHttpServer(
+  createSessionServer: () => McpServer,
+  options: HttpServerOptions,
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  const hostnames = allowedHostnames(options.host, options.allowedHosts);
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? SESSION_IDLE_TIMEOUT_MS;
+
+  function openSession(sessionId: string, session: Session): void {
+    sessions.set(sessionId, session);
+    startIdleTimer(sessionId, session);
+  }
+
+  function startIdleTimer(sessionId: string, session: Session): void {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      logger.debug("http", "Session idle, closing", { sessionId, idleTimeoutMs });
+      void closeSession(sessionId);
+    }, idleTimeoutMs);
+    session.idleTimer.unref();
+  }
+
+  /**
+   * Keep the session from idling while `res` is open, be it a request in progress or a GET/SSE
+   * stream listening for messages. The idle timer restarts once the last one closes.
+   */
+  function holdSession(sessionId: string, session: Session, res: ServerResponse): void {
+    session.open++;
+    clearTimeout(session.idleTimer);
+    res.once("close", () => {
+      session.open--;
+      if (session.open === 0 && sessions.get(sessionId) === session) startIdleTimer(sessionId, session);
+    });
+  }
+
+  async function closeSession(sessionId: string): Promise<void> {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    clearTimeout(session.idleTimer);
+    await session.server.close().catch(() => {});
+    logger.debug("http", "Session closed", { sessionId, sessions: sessions.size });
+  }
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"];
+    const existing = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+    if (sessionId !== undefined && !existing) {
+      // Expired or closed: 404 tells the client to initialize a new session
+      return sendJsonRpcError(res, 404, "Session not found");
+    }
+    if (existing && typeof sessionId === "string") holdSession(sessionId, existing, res);
+
+    if (req.method === "POST") {
+      const body = await readJsonBody(req);
+      if (existing) {
+        if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+          return sendJsonRpcError(res, 400, "Session uses a different transport");
+        }
+        return existing.transport.handleRequest(req, res, body);
+      }
+      if (!isInitializeRequest(body)) {
+        return sendJsonRpcError(res, 400, "Bad Request: no valid session ID provided");
+      }
+
+      const server = createSessionServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          openSession(id, { server, transport, open: 0 });
+          logger.debug("http", "Session opened", { sessionId: id, transport: "streamable-http" });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) void closeSession(transport.sessionId);
+      };
+      await server.connect(transport);
+      return transport.handleRequest(req, res, body);
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (!existing || !(existing.transport instanceof StreamableHTTPServerTransport)) {
+        return sendJsonRpcError(res, 400, "Invalid or missing session ID");
+      }
+      return existing.transport.handleRequest(req, res);
+    }
+
+    res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+  }
+
+  async function handleSseConnect(res: ServerResponse): Promise<void> {
+    const server = createSessionServer();
+    const transport = new SSEServerTransport("/messages", res);
+    const session: Session = { server, transport, open: 0 };
+    openSession(transport.sessionId, session);
+    holdSession(transport.sessionId, session, res);
+    logger.debug("http", "Session opened", { sessionId: transport.sessionId, transport: "sse" });
+    res.on("close", () => void closeSession(transport.sessionId));
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get("sessionId");
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      return sendJsonRpcError(res, 400, "Invalid or missing sessionId");
+    }
+    holdSession(session.transport.sessionId, session, res);
+    await session.transport.handlePostMessage(req, res);
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (!hostAllowed(req, hostnames)) {
+      logger.warn("http", "Rejected request with unexpected Host header", { host: req.headers.host });
+      return sendJsonRpcError(res, 403, `Invalid Host header: ${req.headers.host ?? "(none)"}`);
+    }
+    const route = (): Promise<void> => {
+      if (url.pathname === "/mcp") return handleStreamable(req, res);
+      if (url.pathname === "/sse" && req.method === "GET") return handleSseConnect(res);
+      if (url.pathname === "/messages" && req.method === "POST") return handleSseMessage(req, res, url);
+      if (url.pathname === "/health" && req.method === "GET") {
+        sendJson(res, 200, { status: "ok", sessions: sessions.size });
+        return Promise.resolve();
+      }
+      sendJson(res, 404, { error: "Not found" });
+      return Promise.resolve();
+    };
+
+    route().catch((e) => {
+      const msg = e instanceof Error ? e.message : String(e);
+      logger.warn("http", "Request failed", { method: req.method, path: url.pathname, error: msg });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, e instanceof SyntaxError ? 400 : 500, msg);
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolvePromise, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolvePromise();
+    });
+  });
+
+  const port = (httpServer.address() as AddressInfo).port;
+
+  return {
+    port,
+    sessionCount: () => sessions.size,
+    async close() {
+      await Promise.all([...sessions.keys()].map((id) => closeSession(id)));
+      await new Promise<void>((resolvePromise) => {
+        httpServer.close(() => resolvePromise());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -1,5 +1,6 @@
 #!/usr/bin/env node
 
+import { AsyncLocalStorage } from "node:async_hooks";
 import { readFileSync, realpathSync } from "node:fs";
 import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
@@ -7,10 +8,43 @@ import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
 import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import { extractPackageApi, formatPackageApi } from "./api.js";
+import { alignOperations, formatApiParity, type ParityVariant } from "./api-parity.js";
+import {
+  auditReportFiles,
+  formatAuditStatus,
+  type PackageAuditStatus,
+  packageAuditStatus,
+  readmeAudits,
+  reportFromFile,
+  reportPackages,
+} from "./audit-status.js";
 import { TTLCache } from "./cache.js";
-import { REPOS } from "./config.js";
-import { discoverAllPackages } from "./discovery.js";
+import { parseCacheDir, parseCodeIndex, parseConfigPath, parseRefreshInterval, parseTransportOptions } from "./cli.js";
+import {
+  CodeIndex,
+  formatCodeIndexResults,
+  MAX_MATCHES,
+  MAX_REGEX_LENGTH,
+  REGEX_TIMEOUT_MS,
+  type RepoIndex,
+  searchCodeIndex,
+} from "./code-index.js";
+import { FETCH_CONCURRENCY, mapConcurrent } from "./concurrency.js";
+import { defaultConfig, getConcepts, getRepos, setActiveConfig } from "./config.js";
+import { loadConfigFile } from "./config-file.js";
+import { loadPackages } from "./discovery.js";
+import { DiskCache, formatStaleNote, trackStaleness } from "./disk-cache.js";
 import {
+  apiPassages,
+  buildDocIndex,
+  formatDocResults,
+  markdownPassages,
+  type PackageDocs,
+  searchDocIndex,
+} from "./doc-search.js";
+import {
+  CODE_SEARCH_PAGE_SIZE,
   detectLanguageFromExtension,
   extractFirstCodeBlock,
   fetchDirectoryTree,
@@ -21,6 +55,7 @@ import {
   fetchReadme,
   fetchReleases,
   fetchRepoStats,
+  fetchRepoTree,
   fetchWorkflowRuns,
   formatCodeSearchResults,
   formatCommits,
@@ -31,105 +66,615 @@ import {
   formatRelease,
   formatRepoStats,
   formatWorkflowRuns,
+  resolveCommitSha,
   searchCode,
   searchIssues,
+  setDiskCache,
 } from "./github.js";
+import { startHttpServer } from "./http.js";
 import { logger } from "./logger.js";
-import { PackageRegistry } from "./registry.js";
-import type { Package } from "./types.js";
+import {
+  ApiParityOutput,
+  AuditStatusOutput,
+  BuildStatusOutput,
+  ComparePackagesOutput,
+  CrossLanguageCoverageOutput,
+  DependencyGraphOutput,
+  DiffPackageVersionsOutput,
+  EcosystemOverviewOutput,
+  FindSymbolOutput,
+  ListPackagesOutput,
+  PackageApiOutput,
+  PackageChangelogOutput,
+  PackageCommitsOutput,
+  PackageDependenciesOutput,
+  PackageDownloadsOutput,
+  PackageReadmeOutput,
+  PackageSourceOutput,
+  RefreshRegistryOutput,
+  ReleasesOutput,
+  RepoStatsOutput,
+  SearchCodeOutput,
+  SearchDocsOutput,
+  SearchIssuesOutput,
+  UsageExamplesOutput,
+} from "./output-schemas.js";
+import { decodeCursor, encodeCursor, formatPageNote, type PageInfo, pageText } from "./pagination.js";
+import { findReadmeSection, formatReadmeOutline, readmeHeadings } from "./readme-sections.js";
+import {
+  createManualRefresh,
+  formatRefreshOutcome,
+  MANUAL_REFRESH_COOLDOWN_MS,
+  type ManualRefresh,
+  startBackgroundRefresh,
+} from "./refresh.js";
+import { PackageRegistry, packageKey } from "./registry.js";
+import {
+  buildSymbolIndex,
+  definitionSnippet,
+  findDefinitions,
+  findReferences,
+  formatSymbolResults,
+  indexableFiles,
+  type PackageReferences,
+  type SourceFile,
+  type SymbolIndex,
+  type SymbolMatch,
+  similarSymbols,
+} from "./symbol-index.js";
+import { findConcept } from "./taxonomy.js";
+import type {
+  CodeSearchResult,
+  DirectoryEntry,
+  GithubIssue,
+  GithubRelease,
+  Package,
+  PackageApi,
+  PackageCommit,
+  PackageDependencies,
+  PackageDownloads,
+  RepoConfig,
+  RepoStats,
+  WorkflowRun,
+} from "./types.js";
 import { Category, Language } from "./types.js";
+import { unifiedDiff } from "./unified-diff.js";
+import {
+  exampleFiles,
+  examplesCalling,
+  formatUsageExamples,
+  readmeExamples,
+  testExamples,
+  type UsageExample,
+} from "./usage-examples.js";
+import { compareTrees, type EntryFileDiff, type FileChange, formatVersionDiff } from "./version-diff.js";
 
 // Shared Helpers
 
-/** Max response size in characters. Content beyond this is truncated with a hint. */
+/** Max response size in characters. Longer content is read in pages, or truncated with a hint. */
 const MAX_RESPONSE_LENGTH = 50_000;
 
+/** GitHub Code Search returns no results past the first 1000. */
+const MAX_CODE_SEARCH_RESULTS = 1000;
+
 const EMPTY_REGISTRY_HINT =
   " The package registry is empty, this usually means GitHub API requests failed at startup. Check server logs and ensure GITHUB_TOKEN is set for higher rate limits.";
 
 type ToolContent = { type: "text"; text: string }[];
-type ToolResult = { content: ToolContent; isError?: true };
+type ToolResult = { content: ToolContent; structuredContent?: Record<string, unknown>; isError?: true };
 
 function textResult(text: string): ToolResult {
   return { content: [{ type: "text" as const, text }] };
 }
 
+/** The markdown for readers, and the same data as structured content matching the tool's output schema. */
+function structuredResult<S extends z.ZodRawShape>(
+  _schema: S,
+  text: string,
+  data: z.infer<z.ZodObject<S>>,
+): ToolResult {
+  return { ...textResult(text), structuredContent: data };
+}
+
+/**
+ * A failed call, including requests that cannot be answered, like an unknown package or ref.
+ * Error results carry no structured content, so they are exempt from the output schemas.
+ */
 function errorResult(e: unknown): ToolResult {
   const msg = e instanceof Error ? e.message : String(e);
   return { content: [{ type: "text" as const, text: `Error: ${msg}` }], isError: true };
 }
 
+/** Note appended to registry-backed responses when the package list comes from an outdated snapshot. */
+function registryStaleNote(registry: PackageRegistry): string {
+  return registry.staleAsOf !== undefined ? formatStaleNote(registry.staleAsOf) : "";
+}
+
+/** Fuzzy matches at least this confident resolve on their own, when no other match comes close. */
+const AUTO_RESOLVE_CONFIDENCE = 0.8;
+/** How far ahead of the runner-up a fuzzy match must be to resolve on its own. */
+const AUTO_RESOLVE_MARGIN = 0.1;
+
+/** Notes on package names resolved by fuzzy matching during a tool call. */
+const resolutionNotes = new AsyncLocalStorage<string[]>();
+
+/** Wrap a tool handler so its result starts with a note for each package name it resolved fuzzily. */
+function withResolutionNotes<A extends unknown[]>(
+  handler: (...args: A) => Promise<ToolResult>,
+): (...args: A) => Promise<ToolResult> {
+  return async (...args) => {
+    const notes: string[] = [];
+    const result = await resolutionNotes.run(notes, () => handler(...args));
+    const [first, ...rest] = result.content;
+    if (notes.length === 0 || first?.type !== "text") return result;
+    return { ...result, content: [{ ...first, text: `${notes.join("\n")}\n\n${first.text}` }, ...rest] };
+  };
+}
+
+/**
+ * Resolve a package name: exactly, or to the closest fuzzy match when it is confident and clearly
+ * ahead of the others (noted in the result). Otherwise the result lists ranked suggestions.
+ */
 function resolvePackage(registry: PackageRegistry, name: string): { pkg: Package } | { result: ToolResult } {
   const pkg = registry.getByName(name);
-  if (pkg) return { pkg };
+  if (pkg) {
+    const others = registry.getDuplicates(pkg).flatMap((p) => registry.getRepoForPackage(p)?.slug ?? []);
+    if (others.length) {
+      resolutionNotes
+        .getStore()
+        ?.push(
+          `*\`${pkg.name}\` is also in ${others.map((slug) => `\`${slug}\``).join(", ")}; prefix the name with \`owner/repo:\` to pick one.*`,
+        );
+    }
+    return { pkg };
+  }
 
   if (registry.count === 0) {
-    return { result: textResult(`Package "${name}" not found.${EMPTY_REGISTRY_HINT}`) };
+    return { result: errorResult(`Package "${name}" not found.${EMPTY_REGISTRY_HINT}`) };
   }
 
-  const suggestions = registry.suggest(name);
-  const text = suggestions.length
-    ? `Package "${name}" not found. Did you mean:\n${suggestions.map((s) => `- ${s.name}`).join("\n")}`
+  const matches = registry.match(name);
+  const [best, runnerUp] = matches;
+  if (
+    best &&
+    best.confidence >= AUTO_RESOLVE_CONFIDENCE &&
+    (!runnerUp || best.confidence - runnerUp.confidence >= AUTO_RESOLVE_MARGIN)
+  ) {
+    resolutionNotes
+      .getStore()
+      ?.push(
+        `*Package "${name}" not found, using the closest match \`${best.pkg.name}\` (confidence ${best.confidence}).*`,
+      );
+    return { pkg: best.pkg };
+  }
+
+  const text = matches.length
+    ? `Package "${name}" not found. Did you mean:\n${matches.map((m) => `- ${m.pkg.name} (confidence ${m.confidence})`).join("\n")}`
     : `Package "${name}" not found. Use list_packages to see available packages.`;
-  return { result: textResult(text) };
+  return { result: errorResult(text) };
 }
 
 function resolveRepoSlugs(language?: string, repo?: string): { slugs: string[] } | { result: ToolResult } {
+  const repos = getRepos();
   if (repo) {
-    const validSlugs = REPOS.map((r) => r.slug);
+    const validSlugs = repos.map((r) => r.slug);
     if (!validSlugs.includes(repo)) {
-      return { result: textResult(`Unknown repo: "${repo}". Valid repos: ${validSlugs.join(", ")}`) };
+      return { result: errorResult(`Unknown repo: "${repo}". Valid repos: ${validSlugs.join(", ")}`) };
     }
     return { slugs: [repo] };
   }
   if (language) {
-    const found = REPOS.find((r) => r.language === language);
-    if (!found) {
+    const found = repos.filter((r) => r.language === language);
+    if (found.length === 0) {
+      const available = [...new Set(repos.map((r) => r.language))];
       return {
-        result: textResult(`Unknown language: ${language}. Available: ${REPOS.map((r) => r.language).join(", ")}`),
+        result: errorResult(`Unknown language: ${language}. Available: ${available.join(", ")}`),
       };
     }
-    return { slugs: [found.slug] };
+    return { slugs: found.map((r) => r.slug) };
+  }
+  return { slugs: repos.map((r) => r.slug) };
+}
+
+/** A git tag, branch or SHA. Leading `-` and `..` are rejected so refs are never read as options or ranges. */
+const GitRef = z.string().regex(/^(?!-)(?!.*\.\.)[\w.@/+-]+$/, "Invalid git ref");
+
+/** Inputs shared by the tools that read package content, to pin it to a release or git ref. */
+const REF_INPUTS = {
+  version: z
+    .string()
+    .regex(/^v?[\w.+-]+$/, "Invalid version")
+    .optional()
+    .describe("Package version to read at (e.g., '2.0.0'). Resolved to the release tag, e.g. '@zk-kit/lean-imt@2.0.0'"),
+  ref: GitRef.optional().describe("Git tag, branch or commit SHA to read at. Defaults to the repo's default branch"),
+};
+
+/** Input of the tools whose content can span several pages. */
+const PAGE_INPUTS = {
+  cursor: z
+    .string()
+    .optional()
+    .describe("The `nextCursor` of a previous call with the same arguments, to read the next page"),
+};
+
+const INVALID_CURSOR =
+  "Invalid cursor: it is malformed, or the content changed since it was issued. Call again without `cursor` to start over.";
+
+/**
+ * The page of `content` a cursor points to, at most {@link MAX_RESPONSE_LENGTH} characters, and the
+ * cursor of the next page. Markdown pages end at section boundaries when `sections` is set.
+ */
+function readPage(
+  content: string,
+  cursor: string | undefined,
+  sections = false,
+): { text: string; info: PageInfo } | { result: ToolResult } {
+  const offset = cursor === undefined ? 0 : decodeCursor(cursor, content);
+  if (offset === undefined || offset > content.length) return { result: errorResult(INVALID_CURSOR) };
+  const page = pageText(content, offset, MAX_RESPONSE_LENGTH, sections);
+  const info: PageInfo = { offset, totalLength: content.length };
+  if (page.next !== undefined) info.nextCursor = encodeCursor(page.next, content);
+  return { text: page.text, info };
+}
+
+/** Values that look like a package version rather than a branch or tag name. */
+const VERSION_LIKE = /^v?\d+(\.\d+)*([-+][\w.-]+)?$/;
+
+/** Where package content is read from: the default branch, or a commit resolved from `ref`/`version`. */
+interface ContentRef {
+  /** Branch name or commit SHA passed to the fetchers. */
+  ref: string;
+  /** Heading suffix such as " at `@zk-kit/lean-imt@2.0.0` (1a2b3c4)", empty for the default branch. */
+  label: string;
+  /** Appended to cache keys so pinned content never mixes with the default branch. */
+  cacheSuffix: string;
+}
+
+/** Language-specific public entry file candidates, relative to the package directory, ordered by priority. */
+function apiEntryCandidates(pkg: Package): string[] {
+  switch (pkg.language) {
+    case "typescript":
+      return ["src/index.ts", "src/index.js"];
+    case "rust":
+      return ["src/lib.rs", "src/main.rs"];
+    case "solidity":
+      return [
+        `contracts/${pkg.dirName
+          .split("-")
+          .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+          .join("")}.sol`,
+        `contracts/${pkg.dirName}.sol`,
+      ];
+    case "circom":
+      return [`src/${pkg.dirName}.circom`, `circuits/${pkg.dirName}.circom`];
+    case "noir":
+      return ["src/lib.nr", "src/main.nr"];
   }
-  return { slugs: REPOS.map((r) => r.slug) };
 }
 
+/** Release tag names tried for a package version, following the `name@version` convention. */
+function releaseTagCandidates(pkg: Package, version: string): string[] {
+  const v = version.replace(/^v/, "");
+  return [...new Set([`${pkg.name}@${v}`, `v${pkg.name}@${v}`, `${pkg.name}-v${v}`, `${pkg.dirName}@${v}`])];
+}
+
+/** Complete package names containing the typed text, then close fuzzy matches for typos. */
 function completePackageName(registry: PackageRegistry) {
-  return (value: string | undefined) =>
-    registry.all
+  return (value: string | undefined) => {
+    const containing = registry.all
       .filter((p) => !value || p.name.toLowerCase().includes(value.toLowerCase()))
-      .map((p) => p.name)
-      .slice(0, 20);
+      .map((p) => p.name);
+    const fuzzy = value ? registry.match(value, 20).map((m) => m.pkg.name) : [];
+    return [...new Set([...containing, ...fuzzy])].slice(0, 20);
+  };
 }
 
 // Server
 
-export function createServer(registry: PackageRegistry): { server: McpServer; clearCaches: () => void } {
-  const readmeCache = new TTLCache<string, string>(10 * 60 * 1000);
-  const releaseCache = new TTLCache<string, string>(5 * 60 * 1000);
-  const depsCache = new TTLCache<string, string>(10 * 60 * 1000);
-  const statsCache = new TTLCache<string, string>(30 * 60 * 1000);
-  const treeCache = new TTLCache<string, string>(10 * 60 * 1000);
-  const codeSearchCache = new TTLCache<string, string>(5 * 60 * 1000);
-  const commitsCache = new TTLCache<string, string>(5 * 60 * 1000);
-  const downloadsCache = new TTLCache<string, string>(30 * 60 * 1000);
-  const buildStatusCache = new TTLCache<string, string>(5 * 60 * 1000);
-  const issueSearchCache = new TTLCache<string, string>(5 * 60 * 1000);
-  const changelogCache = new TTLCache<string, string>(10 * 60 * 1000);
-
-  async function getOrFetchReadme(pkg: Package): Promise<string | undefined> {
-    const cacheKey = `${pkg.language}/${pkg.dirName}`;
+/** Caches shared by every server instance, so HTTP sessions reuse each other's fetched content. */
+export interface ServerCaches {
+  readmeCache: TTLCache<string, string>;
+  releaseCache: TTLCache<string, GithubRelease[]>;
+  /** Null when the package has no manifest. */
+  depsCache: TTLCache<string, PackageDependencies | null>;
+  statsCache: TTLCache<string, RepoStats>;
+  treeCache: TTLCache<string, DirectoryEntry[]>;
+  codeSearchCache: TTLCache<string, { results: CodeSearchResult[]; total: number }>;
+  commitsCache: TTLCache<string, PackageCommit[]>;
+  downloadsCache: TTLCache<string, PackageDownloads>;
+  buildStatusCache: TTLCache<string, WorkflowRun[]>;
+  issueSearchCache: TTLCache<string, GithubIssue[]>;
+  /** Null when the package has no changelog. */
+  changelogCache: TTLCache<string, string | null>;
+  /** Resolved commit SHA per `slug:ref`. */
+  refCache: TTLCache<string, string>;
+  /** Version diffs keyed by the two commit SHAs, which never change. */
+  diffCache: TTLCache<string, { changes: FileChange[]; entryDiffs: EntryFileDiff[] }>;
+  /** Extracted package APIs per package and commit. */
+  apiCache: TTLCache<string, PackageApi>;
+  /** Symbol indexes per package, at the default branch. */
+  symbolCache: TTLCache<string, SymbolIndex>;
+  /** Searchable documentation passages per package, at the default branch. */
+  docsCache: TTLCache<string, PackageDocs>;
+  /** README code blocks and tests per package, at the default branch. */
+  examplesCache: TTLCache<string, UsageExample[]>;
+  /** Audit report paths per repo, at the default branch or a commit. */
+  auditFilesCache: TTLCache<string, string[]>;
+}
+
+export function createCaches(): ServerCaches {
+  return {
+    readmeCache: new TTLCache<string, string>(10 * 60 * 1000),
+    releaseCache: new TTLCache<string, GithubRelease[]>(5 * 60 * 1000),
+    depsCache: new TTLCache<string, PackageDependencies | null>(10 * 60 * 1000),
+    statsCache: new TTLCache<string, RepoStats>(30 * 60 * 1000),
+    treeCache: new TTLCache<string, DirectoryEntry[]>(10 * 60 * 1000),
+    codeSearchCache: new TTLCache<string, { results: CodeSearchResult[]; total: number }>(5 * 60 * 1000),
+    commitsCache: new TTLCache<string, PackageCommit[]>(5 * 60 * 1000),
+    downloadsCache: new TTLCache<string, PackageDownloads>(30 * 60 * 1000),
+    buildStatusCache: new TTLCache<string, WorkflowRun[]>(5 * 60 * 1000),
+    issueSearchCache: new TTLCache<string, GithubIssue[]>(5 * 60 * 1000),
+    changelogCache: new TTLCache<string, string | null>(10 * 60 * 1000),
+    refCache: new TTLCache<string, string>(10 * 60 * 1000),
+    diffCache: new TTLCache<string, { changes: FileChange[]; entryDiffs: EntryFileDiff[] }>(60 * 60 * 1000),
+    apiCache: new TTLCache<string, PackageApi>(10 * 60 * 1000),
+    symbolCache: new TTLCache<string, SymbolIndex>(30 * 60 * 1000),
+    docsCache: new TTLCache<string, PackageDocs>(30 * 60 * 1000),
+    examplesCache: new TTLCache<string, UsageExample[]>(30 * 60 * 1000),
+    auditFilesCache: new TTLCache<string, string[]>(30 * 60 * 1000),
+  };
+}
+
+export function createServer(
+  registry: PackageRegistry,
+  caches: ServerCaches = createCaches(),
+  manualRefresh: ManualRefresh = createManualRefresh(registry),
+  codeIndex?: CodeIndex,
+): { server: McpServer; clearCaches: () => void } {
+  const {
+    readmeCache,
+    releaseCache,
+    depsCache,
+    statsCache,
+    treeCache,
+    codeSearchCache,
+    commitsCache,
+    downloadsCache,
+    buildStatusCache,
+    issueSearchCache,
+    changelogCache,
+    refCache,
+    diffCache,
+    apiCache,
+    symbolCache,
+    docsCache,
+    examplesCache,
+    auditFilesCache,
+  } = caches;
+
+  /** Resolve the first candidate ref that exists to its commit SHA, using the shared ref cache. */
+  async function resolveFirstRef(repo: RepoConfig, candidates: string[]): Promise<ContentRef | undefined> {
+    for (const candidate of candidates) {
+      const key = `${repo.slug}:${candidate}`;
+      let sha = refCache.get(key);
+      if (!sha) {
+        sha = (await resolveCommitSha(repo.slug, candidate)) ?? undefined;
+        if (sha) refCache.set(key, sha);
+      }
+      if (sha) return { ref: sha, label: ` at \`${candidate}\` (${sha.slice(0, 7)})`, cacheSuffix: `@${sha}` };
+    }
+    return undefined;
+  }
+
+  /** Resolve the optional `ref`/`version` inputs to a commit, or a result explaining why it could not be found. */
+  async function resolveContentRef(
+    pkg: Package,
+    repo: RepoConfig,
+    ref: string | undefined,
+    version: string | undefined,
+  ): Promise<ContentRef | { result: ToolResult }> {
+    if (ref && version) return { result: errorResult("Pass either `ref` or `version`, not both.") };
+    if (!ref && !version) return { ref: repo.branch, label: "", cacheSuffix: "" };
+
+    const candidates = version ? releaseTagCandidates(pkg, version) : [ref as string];
+    const found = await resolveFirstRef(repo, candidates);
+    if (found) return found;
+
+    const text = version
+      ? `No release tag found for ${pkg.name} version ${version} in ${repo.slug}.\n\nTried: ${candidates.map((c) => `\`${c}\``).join(", ")}\n\nUse \`get_releases\` with \`package\` to list released versions, or pass a \`ref\` directly.`
+      : `Git ref \`${ref}\` not found in ${repo.slug}.`;
+    return { result: errorResult(text) };
+  }
+
+  async function getOrFetchReadme(pkg: Package, at?: ContentRef): Promise<string | undefined> {
+    const cacheKey = `${packageKey(pkg)}${at?.cacheSuffix ?? ""}`;
     let readme = readmeCache.get(cacheKey);
     if (!readme) {
-      const repo = registry.getRepoForLanguage(pkg.language);
+      const repo = registry.getRepoForPackage(pkg);
       if (repo) {
-        readme = (await fetchReadme(repo.slug, repo.branch, repo.packagePath, pkg.dirName)) ?? undefined;
-        if (readme) readmeCache.set(cacheKey, readme);
+        const { value, staleAsOf } = await trackStaleness(() =>
+          fetchReadme(repo.slug, at?.ref ?? repo.branch, repo.packagePath, pkg.dirName),
+        );
+        if (!value) return undefined;
+        // Stale copies are not memory-cached so the next call retries GitHub
+        if (staleAsOf !== undefined) return value + formatStaleNote(staleAsOf);
+        readme = value;
+        readmeCache.set(cacheKey, readme);
       }
     }
     return readme;
   }
 
+  /**
+   * Fetch a package's entry file and, with `extract`, its structured API. The entry file is returned
+   * for callers to show as is when no symbols could be extracted. Fresh APIs are cached per commit.
+   */
+  async function loadPackageApi(
+    pkg: Package,
+    repo: RepoConfig,
+    at: ContentRef,
+    extract = true,
+  ): Promise<{ api?: PackageApi; entry?: { path: string; content: string; staleAsOf?: number }; staleAsOf?: number }> {
+    const cacheKey = `${packageKey(pkg)}${at.cacheSuffix}`;
+    const cached = extract ? apiCache.get(cacheKey) : undefined;
+    if (cached) return { api: cached };
+
+    const packageBasePath = `${repo.packagePath}/${pkg.dirName}`;
+    const candidates = apiEntryCandidates(pkg);
+    let entry: { path: string; content: string; staleAsOf?: number } | undefined;
+    const missing: string[] = [];
+    for (const candidate of candidates) {
+      const { value: content, staleAsOf } = await trackStaleness(() =>
+        fetchRawFile(repo.slug, at.ref, `${packageBasePath}/${candidate}`),
+      );
+      if (content) {
+        entry = { path: candidate, content, staleAsOf };
+        break;
+      }
+      missing.push(candidate);
+    }
+    if (!extract) return { entry };
+
+    const extracted = await trackStaleness(() =>
+      extractPackageApi(pkg.language, entry?.path ?? candidates[0], {
+        // Candidates were fetched above: reuse the entry file and don't refetch missing ones
+        read: async (path) => {
+          if (path === entry?.path) return entry.content;
+          if (missing.includes(path)) return null;
+          return fetchRawFile(repo.slug, at.ref, `${packageBasePath}/${path}`);
+        },
+        list: async () =>
+          (await fetchDirectoryTree(repo.slug, at.ref, packageBasePath))
+            .filter((e) => e.type === "file")
+            .map((e) => e.path),
+      }),
+    );
+    const api = extracted.value?.symbols.length ? extracted.value : undefined;
+    const staleAsOf = entry?.staleAsOf ?? extracted.staleAsOf;
+    if (api && staleAsOf === undefined) apiCache.set(cacheKey, api);
+    return { api, entry, staleAsOf };
+  }
+
+  /** Fetch a package's source files at the default branch and index their declarations. Fresh indexes are cached. */
+  async function loadSymbolIndex(pkg: Package, repo: RepoConfig): Promise<{ index: SymbolIndex; staleAsOf?: number }> {
+    const cacheKey = packageKey(pkg);
+    const cached = symbolCache.get(cacheKey);
+    if (cached) return { index: cached };
+
+    const packageBasePath = `${repo.packagePath}/${pkg.dirName}`;
+    const { value: index, staleAsOf } = await trackStaleness(async () => {
+      const entries = await fetchDirectoryTree(repo.slug, repo.branch, packageBasePath);
+      const paths = indexableFiles(
+        pkg.language,
+        entries.filter((e) => e.type === "file"),
+      );
+      const files = await mapConcurrent(paths, FETCH_CONCURRENCY, async (path) => ({
+        path,
+        content: await fetchRawFile(repo.slug, repo.branch, `${packageBasePath}/${path}`),
+      }));
+      return buildSymbolIndex(
+        pkg.language,
+        files.filter((f): f is SourceFile => f.content !== null),
+      );
+    });
+    if (staleAsOf === undefined) symbolCache.set(cacheKey, index);
+    return { index, staleAsOf };
+  }
+
+  /**
+   * Split a package's description, README, changelog and API doc comments into searchable passages,
+   * at the default branch. Fresh passages are cached.
+   */
+  async function loadPackageDocs(pkg: Package, repo: RepoConfig): Promise<{ docs: PackageDocs; staleAsOf?: number }> {
+    const cacheKey = packageKey(pkg);
+    const cached = docsCache.get(cacheKey);
+    if (cached) return { docs: cached };
+
+    const basePath = `${repo.packagePath}/${pkg.dirName}`;
+    const fetched = await trackStaleness(async () => {
+      const readme = await fetchReadme(repo.slug, repo.branch, repo.packagePath, pkg.dirName);
+      let changelog: string | null = null;
+      for (const file of ["CHANGELOG.md", "changelog.md"]) {
+        changelog = await fetchRawFile(repo.slug, repo.branch, `${basePath}/${file}`);
+        if (changelog) break;
+      }
+      return { readme, changelog };
+    });
+    const { api, staleAsOf: apiStaleAsOf } = await loadPackageApi(pkg, repo, {
+      ref: repo.branch,
+      label: "",
+      cacheSuffix: "",
+    });
+
+    const docs: PackageDocs = {
+      package: pkg.name,
+      language: pkg.language,
+      repo: repo.slug,
+      passages: [
+        ...(pkg.description ? [{ source: "description" as const, text: pkg.description }] : []),
+        ...(fetched.value.readme ? markdownPassages(fetched.value.readme, "readme") : []),
+        ...(fetched.value.changelog ? markdownPassages(fetched.value.changelog, "changelog") : []),
+        ...(api ? apiPassages(api) : []),
+      ],
+    };
+    const staleAsOf =
+      fetched.staleAsOf !== undefined && apiStaleAsOf !== undefined
+        ? Math.min(fetched.staleAsOf, apiStaleAsOf)
+        : (fetched.staleAsOf ?? apiStaleAsOf);
+    if (staleAsOf === undefined) docsCache.set(cacheKey, docs);
+    return { docs, staleAsOf };
+  }
+
+  /**
+   * Collect a package's usage examples at the default branch: its README's code blocks, then the
+   * tests in its files. Fresh examples are cached.
+   */
+  async function loadUsageExamples(
+    pkg: Package,
+    repo: RepoConfig,
+  ): Promise<{ examples: UsageExample[]; staleAsOf?: number }> {
+    const cacheKey = packageKey(pkg);
+    const cached = examplesCache.get(cacheKey);
+    if (cached) return { examples: cached };
+
+    const basePath = `${repo.packagePath}/${pkg.dirName}`;
+    const { value: examples, staleAsOf } = await trackStaleness(async () => {
+      const readme = await fetchReadme(repo.slug, repo.branch, repo.packagePath, pkg.dirName);
+      const entries = await fetchDirectoryTree(repo.slug, repo.branch, basePath);
+      const paths = exampleFiles(
+        pkg.language,
+        entries.filter((e) => e.type === "file"),
+      );
+      const files = await mapConcurrent(paths, FETCH_CONCURRENCY, async (path) => ({
+        path,
+        content: await fetchRawFile(repo.slug, repo.branch, `${basePath}/${path}`),
+      }));
+      return [
+        ...(readme ? readmeExamples(readme) : []),
+        ...files.flatMap((f) => (f.content ? testExamples(f.path, f.content) : [])),
+      ];
+    });
+    if (staleAsOf === undefined) examplesCache.set(cacheKey, examples);
+    return { examples, staleAsOf };
+  }
+
+  /** Paths of the audit reports in a repo at a commit, from its tree. Fresh lists are cached. */
+  async function loadAuditReportFiles(
+    repo: RepoConfig,
+    at: ContentRef,
+  ): Promise<{ files: string[]; staleAsOf?: number }> {
+    const cacheKey = `${repo.slug}${at.cacheSuffix}`;
+    const cached = auditFilesCache.get(cacheKey);
+    if (cached) return { files: cached };
+
+    const { value: files, staleAsOf } = await trackStaleness(async () => {
+      const { entries } = await fetchRepoTree(repo.slug, at.ref);
+      return auditReportFiles(entries.filter((e) => e.type === "blob"));
+    });
+    if (staleAsOf === undefined) auditFilesCache.set(cacheKey, files);
+    return { files, staleAsOf };
+  }
+
   const pkgJsonPath = resolve(dirname(fileURLToPath(import.meta.url)), "..", "package.json");
   let serverVersion = "0.0.0";
   try {
@@ -143,6 +688,10 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
     version: serverVersion,
   });
 
+  // Tell clients to re-list package resources whenever the registry is refreshed
+  const unsubscribe = registry.onChange(() => server.sendResourceListChanged());
+  server.server.onclose = unsubscribe;
+
   // Tools
 
   server.registerTool(
@@ -153,17 +702,25 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
         "List and search ZK-Kit packages. Filter by keyword, language, or category. Returns package names, descriptions, languages, and install commands.",
       annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
       inputSchema: {
-        query: z.string().optional().describe("Search keywords (space-separated, all must match)"),
+        query: z
+          .string()
+          .optional()
+          .describe(
+            "Search keywords (space-separated, all must match). Concept aliases like 'sparse merkle tree' or 'babyjubjub' match every package of the concept",
+          ),
         language: Language.optional().describe("Filter by language"),
         category: Category.optional().describe("Filter by category"),
       },
+      outputSchema: ListPackagesOutput,
     },
     async ({ query, language, category }) => {
       try {
         const results = registry.search(query, language, category);
         if (results.length === 0) {
           const hint = registry.count === 0 ? EMPTY_REGISTRY_HINT : "";
-          return textResult(`No packages found matching the given criteria.${hint}`);
+          return structuredResult(ListPackagesOutput, `No packages found matching the given criteria.${hint}`, {
+            packages: [],
+          });
         }
         const text = results
           .map((p) => {
@@ -171,7 +728,7 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
             return `**${p.name}**${ver} (${p.language}, ${p.category})\n${p.description || "(no description)"}\nInstall: \`${p.installCommand}\``;
           })
           .join("\n\n");
-        return textResult(text);
+        return structuredResult(ListPackagesOutput, text + registryStaleNote(registry), { packages: results });
       } catch (e) {
         return errorResult(e);
       }
@@ -183,7 +740,7 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
     {
       title: "Get Package README",
       description:
-        "Fetch the full README for a ZK-Kit package. Contains API docs, usage examples, install instructions, and audit status. Use this when you need detailed documentation for a specific package. Set summary=true for a concise version with just install command, description, and first code example.",
+        "Fetch the full README for a ZK-Kit package. Contains API docs, usage examples, install instructions, and audit status. Use this when you need detailed documentation for a specific package. Set summary=true for a concise version with just install command, description, and first code example. For long READMEs, set toc=true to list the headings first, then pass one as `section` to read only that part (e.g. 'Usage' or 'API'). Long READMEs are returned in pages split at section boundaries: pass the returned `nextCursor` as `cursor` to read the next one.",
       annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
       inputSchema: {
         name: z.string().describe("Package name (e.g., '@zk-kit/lean-imt', 'lean-imt', 'lean-imt.sol')"),
@@ -193,20 +750,71 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
           .describe(
             "If true, return concise summary: install command + description + first code example (saves tokens)",
           ),
+        toc: z
+          .boolean()
+          .optional()
+          .describe("If true, return the table of contents: every heading with its anchor, indented by level"),
+        section: z
+          .string()
+          .optional()
+          .describe(
+            "Return only this section and its subsections: a heading (e.g., 'Usage', 'API') or its anchor from the table of contents",
+          ),
+        ...REF_INPUTS,
+        ...PAGE_INPUTS,
       },
+      outputSchema: PackageReadmeOutput,
     },
-    async ({ name, summary }) => {
+    withResolutionNotes(async ({ name, summary, toc, section, version, ref, cursor }) => {
       try {
         const resolved = resolvePackage(registry, name);
         if ("result" in resolved) return resolved.result;
         const { pkg } = resolved;
 
-        const readme = await getOrFetchReadme(pkg);
+        let at: ContentRef | undefined;
+        const repo = registry.getRepoForPackage(pkg);
+        if (repo && (version || ref)) {
+          const contentRef = await resolveContentRef(pkg, repo, ref, version);
+          if ("result" in contentRef) return contentRef.result;
+          at = contentRef;
+        }
+
+        const readme = await getOrFetchReadme(pkg, at);
+        const readAt = at?.ref ?? repo?.branch;
+        const meta = { package: pkg, ...(readAt && { ref: readAt }) };
 
         if (readme) {
+          const atNote = at ? `*${pkg.name}${at.label}*\n\n` : "";
+          if (toc) {
+            const headings = readmeHeadings(readme);
+            const text =
+              headings.length > 0
+                ? `# ${pkg.name} - README Contents${at?.label ?? ""}\n\n${formatReadmeOutline(headings)}\n\nUse \`get_package_readme\` with \`section\` set to a heading or its anchor to read that part.`
+                : `The README of ${pkg.name}${at?.label ?? ""} has no headings. Use \`get_package_readme\` without \`toc\` to read it.`;
+            return structuredResult(PackageReadmeOutput, text, { ...meta, headings });
+          }
+          if (section) {
+            const found = findReadmeSection(readme, section);
+            if (!found) {
+              const headings = readmeHeadings(readme);
+              const available =
+                headings.length > 0 ? ` Available: ${headings.map((h) => h.text).join(", ")}` : " It has no headings.";
+              return errorResult(`No section "${section}" in the README of ${pkg.name}${at?.label ?? ""}.${available}`);
+            }
+            const read = readPage(found.content, cursor, true);
+            if ("result" in read) return read.result;
+            return structuredResult(PackageReadmeOutput, atNote + read.text + formatPageNote(read.text, read.info), {
+              ...meta,
+              section: found.heading,
+              readme: read.text,
+              ...read.info,
+            });
+          }
           if (summary) {
-            const ver = pkg.version ? ` v${pkg.version}` : "";
-            let text = `# ${pkg.name}${ver}\n\n`;
+            // At a pinned ref the registry version describes the default branch, not this content
+            const shownVersion = at ? version?.replace(/^v/, "") : pkg.version;
+            const ver = shownVersion ? ` v${shownVersion}` : "";
+            let text = `# ${pkg.name}${ver}${at?.label ?? ""}\n\n`;
             text += `${pkg.description || "(no description)"}\n\n`;
             text += `**Install:** \`${pkg.installCommand}\`\n`;
             const codeBlock = extractFirstCodeBlock(readme);
@@ -214,25 +822,24 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
               text += `\n## Quick Example\n\n\`\`\`${codeBlock.language}\n${codeBlock.code}\n\`\`\``;
             }
             text += `\n\n*Use \`get_package_readme\` without \`summary\` for the full documentation.*`;
-            return textResult(text);
-          }
-          if (readme.length > MAX_RESPONSE_LENGTH) {
-            const truncated = readme.slice(0, MAX_RESPONSE_LENGTH);
-            return textResult(
-              truncated +
-                `\n\n---\n*[Content truncated at ${MAX_RESPONSE_LENGTH} characters. Use \`get_package_readme\` with \`summary: true\` for a concise version, or \`get_package_source\` to read specific files.]*`,
-            );
+            return structuredResult(PackageReadmeOutput, text, { ...meta, ...(codeBlock && { example: codeBlock }) });
           }
-          return textResult(readme);
+          const read = readPage(readme, cursor, true);
+          if ("result" in read) return read.result;
+          return structuredResult(PackageReadmeOutput, atNote + read.text + formatPageNote(read.text, read.info), {
+            ...meta,
+            readme: read.text,
+            ...read.info,
+          });
         }
 
         const verLine = pkg.version ? `\n**Version:** ${pkg.version}` : "";
         const fallback = `# ${pkg.name}\n\n**Language:** ${pkg.language}\n**Category:** ${pkg.category}${verLine}\n**Description:** ${pkg.description || "(no description)"}\n**Install:** \`${pkg.installCommand}\`\n**Repo:** ${pkg.repo}\n\n(README could not be fetched from GitHub)`;
-        return textResult(fallback);
+        return structuredResult(PackageReadmeOutput, fallback, meta);
       } catch (e) {
         return errorResult(e);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -242,13 +849,23 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
       description:
         "Get a high-level map of the entire ZK-Kit ecosystem: all packages grouped by language and category, with cross-language links.",
       annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+      outputSchema: EcosystemOverviewOutput,
     },
     async () => {
       try {
         if (registry.count === 0) {
-          return textResult(`No packages available.${EMPTY_REGISTRY_HINT}`);
+          return errorResult(`No packages available.${EMPTY_REGISTRY_HINT}`);
         }
-        return textResult(registry.getEcosystemOverview());
+        return structuredResult(
+          EcosystemOverviewOutput,
+          registry.getEcosystemOverview() + registryStaleNote(registry),
+          {
+            packages: [...registry.all],
+            crossLanguage: registry
+              .getCrossLanguageGroups()
+              .map(({ concept, packages }) => ({ concept, languages: packages.map((p) => p.language) })),
+          },
+        );
       } catch (e) {
         return errorResult(e);
       }
@@ -265,13 +882,22 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
       inputSchema: {
         names: z.array(z.string()).min(2).describe("Package names to compare (at least 2)"),
       },
+      outputSchema: ComparePackagesOutput,
     },
     async ({ names }) => {
       try {
         if (registry.count === 0) {
-          return textResult(`Cannot compare packages.${EMPTY_REGISTRY_HINT}`);
+          return errorResult(`Cannot compare packages.${EMPTY_REGISTRY_HINT}`);
         }
-        return textResult(registry.compare(names));
+        const comparison = registry.resolveComparison(names);
+        if (comparison.packages.length === 0) return errorResult(registry.compare(names));
+        return structuredResult(ComparePackagesOutput, registry.compare(names), {
+          ...comparison,
+          packages: comparison.packages.map((p) => {
+            const concept = registry.conceptOf(p);
+            return { ...p, ...(concept && { concept }) };
+          }),
+        });
       } catch (e) {
         return errorResult(e);
       }
@@ -291,8 +917,9 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
         package: z.string().optional().describe("Package name to filter releases (e.g., '@zk-kit/lean-imt')"),
         limit: z.number().min(1).max(30).optional().describe("Number of releases to fetch (default 10)"),
       },
+      outputSchema: ReleasesOutput,
     },
-    async ({ language, repo, limit, package: packageName }) => {
+    withResolutionNotes(async ({ language, repo, limit, package: packageName }) => {
       try {
         let packageFilter: string | undefined;
         let resolvedSlugs: string[];
@@ -301,8 +928,8 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
           const resolved = resolvePackage(registry, packageName);
           if ("result" in resolved) return resolved.result;
           const { pkg } = resolved;
-          const repoConfig = registry.getRepoForLanguage(pkg.language);
-          if (!repoConfig) return textResult(`No repo config for language: ${pkg.language}`);
+          const repoConfig = registry.getRepoForPackage(pkg);
+          if (!repoConfig) return errorResult(`No repo config for language: ${pkg.language}`);
           resolvedSlugs = [repoConfig.slug];
           packageFilter = pkg.name;
         } else {
@@ -312,28 +939,30 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
         }
 
         const effectiveLimit = limit ?? 10;
-        const parts = await Promise.all(
+        const repos = await Promise.all(
           resolvedSlugs.map(async (slug) => {
             const cacheKey = `${slug}:${effectiveLimit}:${packageFilter ?? ""}`;
-            let cached = releaseCache.get(cacheKey);
-            if (!cached) {
-              const releases = await fetchReleases(slug, effectiveLimit, packageFilter);
-              const label = packageFilter ?? slug;
-              cached =
-                releases.length === 0
-                  ? `No releases found for ${label}.`
-                  : releases.map(formatRelease).join("\n\n---\n\n");
-              releaseCache.set(cacheKey, cached);
+            let releases = releaseCache.get(cacheKey);
+            if (!releases) {
+              releases = await fetchReleases(slug, effectiveLimit, packageFilter);
+              releaseCache.set(cacheKey, releases);
             }
-            return cached;
+            return { repo: slug, releases };
           }),
         );
 
-        return textResult(parts.join("\n\n---\n\n"));
+        const text = repos
+          .map(({ repo, releases }) =>
+            releases.length === 0
+              ? `No releases found for ${packageFilter ?? repo}.`
+              : releases.map(formatRelease).join("\n\n---\n\n"),
+          )
+          .join("\n\n---\n\n");
+        return structuredResult(ReleasesOutput, text, { ...(packageFilter && { package: packageFilter }), repos });
       } catch (e) {
         return errorResult(e);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -355,8 +984,9 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
         language: Language.optional().describe("Scope search to this language's repo (e.g., 'typescript', 'solidity')"),
         repo: z.string().optional().describe("Scope search to a specific repo slug (e.g., 'zk-kit/zk-kit')"),
       },
+      outputSchema: SearchIssuesOutput,
     },
-    async ({ query, state, language, repo, package: packageName }) => {
+    withResolutionNotes(async ({ query, state, language, repo, package: packageName }) => {
       try {
         let scopeRepo: string | undefined;
         let effectiveQuery = query;
@@ -365,7 +995,7 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
           const resolved = resolvePackage(registry, packageName);
           if ("result" in resolved) return resolved.result;
           const { pkg } = resolved;
-          const repoConfig = registry.getRepoForLanguage(pkg.language);
+          const repoConfig = registry.getRepoForPackage(pkg);
           if (repoConfig) scopeRepo = repoConfig.slug;
           // Add package dirName to query for more precise results
           effectiveQuery = `${query} ${pkg.dirName}`;
@@ -377,19 +1007,19 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
 
         const effectiveState = state ?? "open";
         const cacheKey = `${effectiveQuery}:${effectiveState}:${scopeRepo ?? ""}`;
-        let cached = issueSearchCache.get(cacheKey);
+        let issues = issueSearchCache.get(cacheKey);
 
-        if (!cached) {
-          const issues = await searchIssues(effectiveQuery, effectiveState, scopeRepo);
-          cached = issues.length === 0 ? `No issues found for "${query}".` : issues.map(formatIssue).join("\n\n");
-          issueSearchCache.set(cacheKey, cached);
+        if (!issues) {
+          issues = await searchIssues(effectiveQuery, effectiveState, scopeRepo);
+          issueSearchCache.set(cacheKey, issues);
         }
 
-        return textResult(cached);
+        const text = issues.length === 0 ? `No issues found for "${query}".` : issues.map(formatIssue).join("\n\n");
+        return structuredResult(SearchIssuesOutput, text, { query, ...(scopeRepo && { repo: scopeRepo }), issues });
       } catch (e) {
         return errorResult(e);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -402,37 +1032,36 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
       inputSchema: {
         name: z.string().describe("Package name (e.g., '@zk-kit/lean-imt', 'lean-imt')"),
       },
+      outputSchema: PackageDependenciesOutput,
     },
-    async ({ name }) => {
+    withResolutionNotes(async ({ name }) => {
       try {
         const resolved = resolvePackage(registry, name);
         if ("result" in resolved) return resolved.result;
         const { pkg } = resolved;
 
-        const cacheKey = `${pkg.language}/${pkg.dirName}`;
-        let cached = depsCache.get(cacheKey);
-
-        if (!cached) {
-          const repo = registry.getRepoForLanguage(pkg.language);
-          if (!repo) return textResult(`No repo config for language: ${pkg.language}`);
-          const deps = await fetchPackageDependencies(
-            repo.slug,
-            repo.branch,
-            repo.packagePath,
-            pkg.dirName,
-            pkg.language,
-          );
-          cached = deps
-            ? formatDependencies(pkg.name, pkg.language, deps)
-            : `Could not fetch dependencies for ${pkg.name}. The manifest file may not exist.`;
-          depsCache.set(cacheKey, cached);
+        const cacheKey = packageKey(pkg);
+        let deps = depsCache.get(cacheKey);
+
+        if (deps === undefined) {
+          const repo = registry.getRepoForPackage(pkg);
+          if (!repo) return errorResult(`No repo config for language: ${pkg.language}`);
+          deps = await fetchPackageDependencies(repo.slug, repo.branch, repo.packagePath, pkg.dirName, pkg.language);
+          depsCache.set(cacheKey, deps);
         }
 
-        return textResult(cached);
+        if (!deps) {
+          return errorResult(`Could not fetch dependencies for ${pkg.name}. The manifest file may not exist.`);
+        }
+        return structuredResult(PackageDependenciesOutput, formatDependencies(pkg.name, pkg.language, deps), {
+          package: pkg.name,
+          language: pkg.language,
+          ...deps,
+        });
       } catch (e) {
         return errorResult(e);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -446,25 +1075,25 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
         language: Language.optional().describe("Language to get repo stats for"),
         repo: z.string().optional().describe("Specific repo slug (e.g., 'zk-kit/zk-kit')"),
       },
+      outputSchema: RepoStatsOutput,
     },
     async ({ language, repo }) => {
       try {
         const resolved = resolveRepoSlugs(language, repo);
         if ("result" in resolved) return resolved.result;
 
-        const parts = await Promise.all(
+        const repos = await Promise.all(
           resolved.slugs.map(async (slug) => {
-            let cached = statsCache.get(slug);
-            if (!cached) {
-              const stats = await fetchRepoStats(slug);
-              cached = formatRepoStats(stats);
-              statsCache.set(slug, cached);
+            let stats = statsCache.get(slug);
+            if (!stats) {
+              stats = await fetchRepoStats(slug);
+              statsCache.set(slug, stats);
             }
-            return cached;
+            return stats;
           }),
         );
 
-        return textResult(parts.join("\n---\n\n"));
+        return structuredResult(RepoStatsOutput, repos.map(formatRepoStats).join("\n---\n\n"), { repos });
       } catch (e) {
         return errorResult(e);
       }
@@ -476,54 +1105,73 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
     {
       title: "Get Package Source",
       description:
-        "Browse source code of a ZK-Kit package. Without filePath, returns the full directory tree. With filePath, returns the file content. Use this to read source code, type definitions, tests, or any file in a package.",
+        "Browse source code of a ZK-Kit package. Without filePath, returns the full directory tree. With filePath, returns the file content, in pages split at line boundaries for long files: pass the returned `nextCursor` as `cursor` to read the next one. Use this to read source code, type definitions, tests, or any file in a package.",
       annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
       inputSchema: {
         name: z.string().describe("Package name (e.g., '@zk-kit/lean-imt', 'lean-imt')"),
         filePath: z.string().optional().describe("Relative path to a file within the package (e.g., 'src/index.ts')"),
+        ...REF_INPUTS,
+        ...PAGE_INPUTS,
       },
+      outputSchema: PackageSourceOutput,
     },
-    async ({ name, filePath }) => {
+    withResolutionNotes(async ({ name, filePath, version, ref, cursor }) => {
       try {
         const resolved = resolvePackage(registry, name);
         if ("result" in resolved) return resolved.result;
         const { pkg } = resolved;
 
-        const repo = registry.getRepoForLanguage(pkg.language);
-        if (!repo) return textResult(`No repo config for language: ${pkg.language}`);
+        const repo = registry.getRepoForPackage(pkg);
+        if (!repo) return errorResult(`No repo config for language: ${pkg.language}`);
+
+        const at = await resolveContentRef(pkg, repo, ref, version);
+        if ("result" in at) return at.result;
 
         const packageBasePath = `${repo.packagePath}/${pkg.dirName}`;
 
         if (!filePath) {
-          const treeCacheKey = `${pkg.language}/${pkg.dirName}`;
-          let cached = treeCache.get(treeCacheKey);
-          if (!cached) {
-            const entries = await fetchDirectoryTree(repo.slug, repo.branch, packageBasePath);
-            cached = `# ${pkg.name} - File Tree\n\n\`\`\`\n${formatDirectoryTree(entries)}\n\`\`\`\n\nUse \`get_package_source\` with a \`filePath\` to read any file.`;
-            treeCache.set(treeCacheKey, cached);
+          const treeCacheKey = `${packageKey(pkg)}${at.cacheSuffix}`;
+          let entries = treeCache.get(treeCacheKey);
+          let staleAsOf: number | undefined;
+          if (!entries) {
+            ({ value: entries, staleAsOf } = await trackStaleness(() =>
+              fetchDirectoryTree(repo.slug, at.ref, packageBasePath),
+            ));
+            if (staleAsOf === undefined) treeCache.set(treeCacheKey, entries);
           }
-          return textResult(cached);
+          const text = `# ${pkg.name} - File Tree${at.label}\n\n\`\`\`\n${formatDirectoryTree(entries)}\n\`\`\`\n\nUse \`get_package_source\` with a \`filePath\` to read any file.`;
+          const staleNote = staleAsOf !== undefined ? formatStaleNote(staleAsOf) : "";
+          return structuredResult(PackageSourceOutput, text + staleNote, { package: pkg.name, ref: at.ref, entries });
         }
 
         const fullFilePath = `${packageBasePath}/${filePath}`;
-        const content = await fetchRawFile(repo.slug, repo.branch, fullFilePath);
+        const { value: content, staleAsOf } = await trackStaleness(() => fetchRawFile(repo.slug, at.ref, fullFilePath));
         if (!content) {
-          return textResult(
-            `File not found: \`${filePath}\` in ${pkg.name}.\n\nUse \`get_package_source\` without \`filePath\` to see the directory tree.`,
+          return errorResult(
+            `File not found: \`${filePath}\` in ${pkg.name}${at.label}.\n\nUse \`get_package_source\` without \`filePath\` to see the directory tree.`,
           );
         }
 
+        const read = readPage(content, cursor);
+        if ("result" in read) return read.result;
         const lang = detectLanguageFromExtension(filePath);
-        const fileContent =
-          content.length > MAX_RESPONSE_LENGTH
-            ? `${content.slice(0, MAX_RESPONSE_LENGTH)}\n... [truncated at ${MAX_RESPONSE_LENGTH} characters]`
-            : content;
-        const codeBlock = lang ? `\`\`\`${lang}\n${fileContent}\n\`\`\`` : `\`\`\`\n${fileContent}\n\`\`\``;
-        return textResult(`# ${pkg.name} - \`${filePath}\`\n\n${codeBlock}`);
+        const codeBlock = lang ? `\`\`\`${lang}\n${read.text}\n\`\`\`` : `\`\`\`\n${read.text}\n\`\`\``;
+        const staleNote = staleAsOf !== undefined ? formatStaleNote(staleAsOf) : "";
+        return structuredResult(
+          PackageSourceOutput,
+          `# ${pkg.name} - \`${filePath}\`${at.label}\n\n${codeBlock}${formatPageNote(read.text, read.info)}${staleNote}`,
+          {
+            package: pkg.name,
+            ref: at.ref,
+            path: filePath,
+            content: read.text,
+            ...read.info,
+          },
+        );
       } catch (e) {
         return errorResult(e);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -531,10 +1179,13 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
     {
       title: "Search Code",
       description:
-        "Search across ZK-Kit source code using GitHub Code Search. Find implementations, usages, and patterns. Optionally scope to a specific package for more relevant results.",
+        "Search across ZK-Kit source code. Find implementations, usages, and patterns. When the server runs with the local code index (`--code-index`), every file of the configured repos is searched for literal text or a regular expression, and each match is returned with its file, line and surrounding lines. Otherwise, or while the index is still being built, GitHub Code Search is used, which returns 20 files per page and supports neither regular expressions nor context lines. Results are paged, 100 matches at a time from the index: pass the returned `nextCursor` as `cursor` for the next page. Optionally scope to a specific package for more relevant results.",
       annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
       inputSchema: {
-        query: z.string().describe("Code search query (e.g., 'PoseidonT3', 'function insert', 'pragma solidity')"),
+        query: z
+          .string()
+          .max(256)
+          .describe("Code search query (e.g., 'PoseidonT3', 'function insert', 'pragma solidity')"),
         language: z
           .string()
           .optional()
@@ -543,36 +1194,314 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
           .string()
           .optional()
           .describe("Scope search to a specific package (e.g., '@zk-kit/lean-imt', 'lean-imt')"),
+        regex: z
+          .boolean()
+          .optional()
+          .describe(
+            `Treat the query as a regular expression, of up to ${MAX_REGEX_LENGTH} characters. Patterns that repeat a group holding a repetition or alternatives, like '(a+)+' or '(a|aa)*', chain wildcards like '.*.*', or use backreferences are rejected; each line is matched on its first 1000 characters, and searches running longer than ${REGEX_TIMEOUT_MS / 1000} s are stopped. Local code index only. Default: false`,
+          ),
+        caseSensitive: z.boolean().optional().describe("Match case. Local code index only. Default: false"),
+        context: z
+          .number()
+          .int()
+          .min(0)
+          .max(10)
+          .optional()
+          .describe("Lines shown before and after each match. Local code index only. Default: 2"),
+        ...PAGE_INPUTS,
       },
+      outputSchema: SearchCodeOutput,
     },
-    async ({ query, language, package: packageName }) => {
+    withResolutionNotes(async ({ query, language, package: packageName, regex, caseSensitive, context, cursor }) => {
       try {
         let scopeRepo: string | undefined;
         let scopePath: string | undefined;
+        let scope = getRepos();
 
         if (packageName) {
           const resolved = resolvePackage(registry, packageName);
           if ("result" in resolved) return resolved.result;
           const { pkg } = resolved;
-          const repo = registry.getRepoForLanguage(pkg.language);
+          const repo = registry.getRepoForPackage(pkg);
           if (repo) {
             scopeRepo = repo.slug;
             scopePath = `${repo.packagePath}/${pkg.dirName}`;
+            scope = [repo];
           }
         }
 
-        const cacheKey = `${query}:${language ?? ""}:${scopeRepo ?? ""}:${scopePath ?? ""}`;
-        let cached = codeSearchCache.get(cacheKey);
-        if (!cached) {
-          const results = await searchCode(query, language, scopeRepo, scopePath);
-          cached = formatCodeSearchResults(results);
-          codeSearchCache.set(cacheKey, cached);
+        // Search locally once every repo in scope is indexed
+        const indexes = codeIndex ? scope.map((r) => codeIndex.get(r.slug, r.branch)) : [];
+        if (indexes.length > 0 && indexes.every((i) => i !== undefined)) {
+          // Cursors only continue the same search
+          const searchKey = JSON.stringify(["index", query, language, scopePath, regex, caseSensitive, context]);
+          const offset = cursor === undefined ? 0 : decodeCursor(cursor, searchKey);
+          if (offset === undefined) return errorResult(INVALID_CURSOR);
+          const outcome = await searchCodeIndex(indexes as RepoIndex[], query, {
+            regex,
+            caseSensitive,
+            context: context ?? 2,
+            pathPrefix: scopePath && `${scopePath}/`,
+            language,
+            offset,
+          });
+          const next = outcome.offset + outcome.matches.length;
+          const nextCursor = next < outcome.total ? encodeCursor(next, searchKey) : undefined;
+          const branches = Object.fromEntries(scope.map((r) => [r.slug, r.branch]));
+          const nextNote = nextCursor
+            ? `\n\n---\n*[More matches follow. Call again with \`cursor: "${nextCursor}"\` for the next ${MAX_MATCHES}.]*`
+            : "";
+          return structuredResult(SearchCodeOutput, formatCodeIndexResults(outcome, branches) + nextNote, {
+            query,
+            source: "index",
+            ...outcome,
+            ...(nextCursor && { nextCursor }),
+          });
         }
-        return textResult(cached);
+
+        const buildingNote = codeIndex
+          ? "\n\n---\n*The local code index is still being built. These results come from GitHub Code Search.*"
+          : "";
+        if (regex) {
+          return errorResult(
+            codeIndex
+              ? "Regular expression search needs the local code index, which is still being built. Try again shortly, or search for literal text."
+              : "Regular expression search needs the local code index. Start the server with `--code-index` (or `ZK_KIT_MCP_CODE_INDEX=1`), or search for literal text.",
+          );
+        }
+
+        const searchKey = `${query}:${language ?? ""}:${scopeRepo ?? ""}:${scopePath ?? ""}`;
+        const offset = cursor === undefined ? 0 : decodeCursor(cursor, `github:${searchKey}`);
+        if (offset === undefined) return errorResult(INVALID_CURSOR);
+        const page = Math.floor(offset / CODE_SEARCH_PAGE_SIZE) + 1;
+        const cacheKey = page > 1 ? `${searchKey}:${page}` : searchKey;
+        let found = codeSearchCache.get(cacheKey);
+        if (!found) {
+          found = await searchCode(query, language, scopeRepo, scopePath, page);
+          codeSearchCache.set(cacheKey, found);
+        }
+        const { results, total } = found;
+        const next = offset + results.length;
+        const nextCursor =
+          results.length > 0 && next < Math.min(total, MAX_CODE_SEARCH_RESULTS)
+            ? encodeCursor(next, `github:${searchKey}`)
+            : undefined;
+        let pageNote = "";
+        if (offset > 0 || nextCursor) {
+          pageNote = `\n\n---\n*[Files ${offset + 1}-${next} of ${total}.`;
+          pageNote += nextCursor ? ` Call again with \`cursor: "${nextCursor}"\` for the next page.]*` : "]*";
+        }
+        return structuredResult(SearchCodeOutput, formatCodeSearchResults(results) + pageNote + buildingNote, {
+          query,
+          source: "github",
+          results,
+          total,
+          offset,
+          ...(nextCursor && { nextCursor }),
+        });
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "find_symbol",
+    {
+      title: "Find Symbol",
+      description:
+        "Find where a class, function, contract, template, struct, trait or other declaration is defined, using a symbol index built from the packages' source files in all five languages. Returns the defining file, line range and source snippet, plus the references to the symbol within the same package, tests included. Accepts names qualified by their container, like 'LeanIMT.insert' or 'LeanIMT::new'. Without `package`, every package (or every package of `language`) is indexed on the first call, which takes a while; indexes are then cached. Unlike `search_code`, this needs no GitHub Code Search and only matches declarations.",
+      annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
+      inputSchema: {
+        name: z.string().describe("Symbol name (e.g., 'PoseidonT3', 'LeanIMTData', 'LeanIMT.insert')"),
+        package: z
+          .string()
+          .optional()
+          .describe("Only search this package (e.g., '@zk-kit/lean-imt', 'lean-imt'). Default: all packages"),
+        language: Language.optional().describe("Only search packages of this language"),
+        references: z.boolean().optional().describe("List references within the defining packages. Default: true"),
+      },
+      outputSchema: FindSymbolOutput,
+    },
+    withResolutionNotes(async ({ name, package: packageName, language, references }) => {
+      try {
+        if (registry.count === 0) {
+          return errorResult(`No packages available.${EMPTY_REGISTRY_HINT}`);
+        }
+        let packages: Package[];
+        if (packageName) {
+          const resolved = resolvePackage(registry, packageName);
+          if ("result" in resolved) return resolved.result;
+          packages = [resolved.pkg];
+        } else {
+          packages = registry.all.filter((p) => !language || p.language === language);
+          if (packages.length === 0) {
+            return structuredResult(FindSymbolOutput, `No ${language} packages available.`, {
+              name,
+              definitions: [],
+              indexedPackages: [],
+            });
+          }
+        }
+
+        const indexes: { pkg: Package; repo: RepoConfig; index: SymbolIndex }[] = [];
+        const notIndexed: string[] = [];
+        let staleAsOf: number | undefined;
+        // Packages are indexed one after another, so at most FETCH_CONCURRENCY files download at once
+        for (const pkg of packages) {
+          const repo = registry.getRepoForPackage(pkg);
+          if (!repo) {
+            notIndexed.push(`\`${pkg.name}\`: no repo config for language ${pkg.language}`);
+            continue;
+          }
+          try {
+            const loaded = await loadSymbolIndex(pkg, repo);
+            if (loaded.staleAsOf !== undefined) staleAsOf = Math.min(staleAsOf ?? loaded.staleAsOf, loaded.staleAsOf);
+            indexes.push({ pkg, repo, index: loaded.index });
+          } catch (e) {
+            if (packageName) throw e;
+            notIndexed.push(
+              `\`${pkg.name}\`: could not fetch its sources (${e instanceof Error ? e.message : String(e)})`,
+            );
+          }
+        }
+
+        const matches: SymbolMatch[] = indexes.flatMap(({ pkg, repo, index }) =>
+          findDefinitions(index, name).map((d) => ({
+            ...d,
+            package: pkg.name,
+            language: pkg.language,
+            repo: repo.slug,
+            snippet: definitionSnippet(index, d),
+          })),
+        );
+        const notIndexedNote =
+          notIndexed.length > 0 ? `\n## Not Indexed\n\n${notIndexed.map((n) => `- ${n}`).join("\n")}\n` : "";
+        const staleNote = staleAsOf !== undefined ? formatStaleNote(staleAsOf) : "";
+
+        if (matches.length === 0) {
+          const similar = similarSymbols(
+            indexes.map((i) => i.index),
+            name,
+          );
+          const searched = indexes.length === 1 ? `\`${indexes[0].pkg.name}\`` : `${indexes.length} indexed packages`;
+          let text = `No definition of \`${name}\` found in ${searched}.\n`;
+          if (similar.length > 0) text += `\nSimilar symbols: ${similar.map((s) => `\`${s}\``).join(", ")}\n`;
+          text += "\nUse `search_code` to search the full text of the sources instead.\n";
+          return structuredResult(FindSymbolOutput, text + notIndexedNote + staleNote, {
+            name,
+            definitions: [],
+            indexedPackages: indexes.map((i) => i.pkg.name),
+            ...(notIndexed.length > 0 && { notIndexed }),
+            similar,
+          });
+        }
+
+        const referencing: PackageReferences[] | undefined =
+          references === false
+            ? undefined
+            : indexes
+                // By repo too: a fork's package has the same name as upstream's
+                .filter(({ pkg, repo }) => matches.some((m) => m.package === pkg.name && m.repo === repo.slug))
+                .map(({ pkg, repo, index }) => ({
+                  package: pkg.name,
+                  repo: repo.slug,
+                  references: findReferences(index, name, findDefinitions(index, name)),
+                }));
+
+        const md = formatSymbolResults(name, matches, referencing, indexes.length) + notIndexedNote;
+        const text =
+          md.length > MAX_RESPONSE_LENGTH
+            ? `${md.slice(0, MAX_RESPONSE_LENGTH)}\n\n---\n*[Truncated at ${MAX_RESPONSE_LENGTH} characters. The structured content lists every match.]*`
+            : md;
+        return structuredResult(FindSymbolOutput, text + staleNote, {
+          name,
+          definitions: matches,
+          ...(referencing && { references: referencing }),
+          indexedPackages: indexes.map((i) => i.pkg.name),
+          ...(notIndexed.length > 0 && { notIndexed }),
+        });
       } catch (e) {
         return errorResult(e);
       }
+    }),
+  );
+
+  server.registerTool(
+    "search_docs",
+    {
+      title: "Search Docs",
+      description:
+        "Search the documentation of ZK-Kit packages by meaning rather than by name: package descriptions, README sections, changelog entries and API doc comments, ranked with BM25. Use this for questions like 'prove membership in a set' or 'sparse tree with non-membership proofs' when `list_packages` finds nothing. Returns the best matching packages with the passages that matched. Without `package`, every package (or every package of `language`) is read on the first call, which takes a while; passages are then cached.",
+      annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
+      inputSchema: {
+        query: z.string().describe("What you are looking for, in plain words (e.g., 'prove membership in a set')"),
+        package: z
+          .string()
+          .optional()
+          .describe("Only search this package (e.g., '@zk-kit/lean-imt', 'lean-imt'). Default: all packages"),
+        language: Language.optional().describe("Only search packages of this language"),
+        limit: z.number().int().min(1).max(20).optional().describe("Number of packages to return (default 5)"),
+      },
+      outputSchema: SearchDocsOutput,
     },
+    withResolutionNotes(async ({ query, package: packageName, language, limit }) => {
+      try {
+        if (registry.count === 0) {
+          return errorResult(`No packages available.${EMPTY_REGISTRY_HINT}`);
+        }
+        let packages: Package[];
+        if (packageName) {
+          const resolved = resolvePackage(registry, packageName);
+          if ("result" in resolved) return resolved.result;
+          packages = [resolved.pkg];
+        } else {
+          packages = registry.all.filter((p) => !language || p.language === language);
+          if (packages.length === 0) {
+            return structuredResult(SearchDocsOutput, `No ${language} packages available.`, {
+              query,
+              results: [],
+              indexedPackages: 0,
+            });
+          }
+        }
+
+        const indexed: PackageDocs[] = [];
+        const notIndexed: string[] = [];
+        let staleAsOf: number | undefined;
+        // Each package's README, changelog and API files are fetched in turn, one package after another
+        for (const pkg of packages) {
+          const repo = registry.getRepoForPackage(pkg);
+          if (!repo) {
+            notIndexed.push(`\`${pkg.name}\`: no repo config for language ${pkg.language}`);
+            continue;
+          }
+          try {
+            const loaded = await loadPackageDocs(pkg, repo);
+            if (loaded.staleAsOf !== undefined) staleAsOf = Math.min(staleAsOf ?? loaded.staleAsOf, loaded.staleAsOf);
+            indexed.push(loaded.docs);
+          } catch (e) {
+            if (packageName) throw e;
+            notIndexed.push(
+              `\`${pkg.name}\`: could not fetch its docs (${e instanceof Error ? e.message : String(e)})`,
+            );
+          }
+        }
+
+        const results = searchDocIndex(buildDocIndex(indexed), query, limit ?? 5);
+        let text = formatDocResults(query, results, indexed.length);
+        if (notIndexed.length > 0) text += `\n## Not Indexed\n\n${notIndexed.map((n) => `- ${n}`).join("\n")}\n`;
+        if (staleAsOf !== undefined) text += formatStaleNote(staleAsOf);
+        return structuredResult(SearchDocsOutput, text, {
+          query,
+          results,
+          indexedPackages: indexed.length,
+          ...(notIndexed.length > 0 && { notIndexed }),
+        });
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
   );
 
   server.registerTool(
@@ -586,30 +1515,30 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
         name: z.string().describe("Package name (e.g., '@zk-kit/lean-imt', 'lean-imt')"),
         limit: z.number().min(1).max(50).optional().describe("Number of commits to fetch (default 10)"),
       },
+      outputSchema: PackageCommitsOutput,
     },
-    async ({ name, limit }) => {
+    withResolutionNotes(async ({ name, limit }) => {
       try {
         const resolved = resolvePackage(registry, name);
         if ("result" in resolved) return resolved.result;
         const { pkg } = resolved;
 
-        const repo = registry.getRepoForLanguage(pkg.language);
-        if (!repo) return textResult(`No repo config for language: ${pkg.language}`);
+        const repo = registry.getRepoForPackage(pkg);
+        if (!repo) return errorResult(`No repo config for language: ${pkg.language}`);
 
         const effectiveLimit = limit ?? 10;
-        const cacheKey = `${pkg.language}/${pkg.dirName}:${effectiveLimit}`;
-        let cached = commitsCache.get(cacheKey);
-        if (!cached) {
+        const cacheKey = `${packageKey(pkg)}:${effectiveLimit}`;
+        let commits = commitsCache.get(cacheKey);
+        if (!commits) {
           const path = `${repo.packagePath}/${pkg.dirName}`;
-          const commits = await fetchPackageCommits(repo.slug, path, effectiveLimit);
-          cached = formatCommits(pkg.name, commits);
-          commitsCache.set(cacheKey, cached);
+          commits = await fetchPackageCommits(repo.slug, path, effectiveLimit);
+          commitsCache.set(cacheKey, commits);
         }
-        return textResult(cached);
+        return structuredResult(PackageCommitsOutput, formatCommits(pkg.name, commits), { package: pkg.name, commits });
       } catch (e) {
         return errorResult(e);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -622,25 +1551,28 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
       inputSchema: {
         name: z.string().describe("Package name (e.g., '@zk-kit/lean-imt', 'lean-imt')"),
       },
+      outputSchema: PackageDownloadsOutput,
     },
-    async ({ name }) => {
+    withResolutionNotes(async ({ name }) => {
       try {
         const resolved = resolvePackage(registry, name);
         if ("result" in resolved) return resolved.result;
         const { pkg } = resolved;
 
         const cacheKey = pkg.name;
-        let cached = downloadsCache.get(cacheKey);
-        if (!cached) {
-          const downloads = await fetchPackageDownloads(pkg.name, pkg.language);
-          cached = formatPackageDownloads(pkg.name, downloads);
-          downloadsCache.set(cacheKey, cached);
+        let downloads = downloadsCache.get(cacheKey);
+        if (!downloads) {
+          downloads = await fetchPackageDownloads(pkg.name, pkg.language);
+          downloadsCache.set(cacheKey, downloads);
         }
-        return textResult(cached);
+        return structuredResult(PackageDownloadsOutput, formatPackageDownloads(pkg.name, downloads), {
+          package: pkg.name,
+          ...downloads,
+        });
       } catch (e) {
         return errorResult(e);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -655,6 +1587,7 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
         repo: z.string().optional().describe("Specific repo slug (e.g., 'zk-kit/zk-kit')"),
         limit: z.number().min(1).max(20).optional().describe("Number of recent runs to fetch (default 5)"),
       },
+      outputSchema: BuildStatusOutput,
     },
     async ({ language, repo, limit }) => {
       try {
@@ -662,20 +1595,20 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
         if ("result" in resolved) return resolved.result;
 
         const effectiveLimit = limit ?? 5;
-        const parts = await Promise.all(
+        const repos = await Promise.all(
           resolved.slugs.map(async (slug) => {
             const cacheKey = `${slug}:${effectiveLimit}`;
-            let cached = buildStatusCache.get(cacheKey);
-            if (!cached) {
-              const runs = await fetchWorkflowRuns(slug, effectiveLimit);
-              cached = formatWorkflowRuns(slug, runs);
-              buildStatusCache.set(cacheKey, cached);
+            let runs = buildStatusCache.get(cacheKey);
+            if (!runs) {
+              runs = await fetchWorkflowRuns(slug, effectiveLimit);
+              buildStatusCache.set(cacheKey, runs);
             }
-            return cached;
+            return { repo: slug, runs };
           }),
         );
 
-        return textResult(parts.join("\n---\n\n"));
+        const text = repos.map(({ repo, runs }) => formatWorkflowRuns(repo, runs)).join("\n---\n\n");
+        return structuredResult(BuildStatusOutput, text, { repos });
       } catch (e) {
         return errorResult(e);
       }
@@ -687,15 +1620,98 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
     {
       title: "Cross-Language Coverage",
       description:
-        "Show a concept * language matrix revealing which ZK-Kit concepts are implemented in which languages and where gaps exist. Zero API cost, computed from the package registry.",
+        "Show a concept * language matrix revealing which ZK-Kit concepts are implemented in which languages and where gaps exist. Variants named differently across repos (e.g. 'babyjubjub' and 'baby-jubjub') are grouped by the concept taxonomy. Zero API cost, computed from the package registry.",
       annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+      outputSchema: CrossLanguageCoverageOutput,
     },
     async () => {
       try {
         if (registry.count === 0) {
-          return textResult(`No packages available.${EMPTY_REGISTRY_HINT}`);
+          return errorResult(`No packages available.${EMPTY_REGISTRY_HINT}`);
+        }
+        return structuredResult(
+          CrossLanguageCoverageOutput,
+          registry.getCrossLanguageCoverage(),
+          registry.getCoverageMatrix(),
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    },
+  );
+
+  server.registerTool(
+    "get_api_parity",
+    {
+      title: "Cross-Language API Parity",
+      description:
+        "Compare the public API of one concept across its language variants (e.g. 'lean-imt' in TypeScript, Solidity and Rust). Extracts each variant's API like `get_package_api`, aligns equivalent operations (insert, update, generateProof, verifyProof, ...) by name and common synonyms, and highlights operations missing from some languages. Use this to check that the layers of a stack, like a TypeScript prover and a Solidity verifier, support the same operations.",
+      annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
+      inputSchema: {
+        concept: z
+          .string()
+          .describe(
+            "Concept (cross-language ID or alias, e.g. 'lean-imt', 'eddsa-poseidon', 'sparse merkle tree') or the name of any of its packages",
+          ),
+        languages: z.array(Language).optional().describe("Only compare these languages. Default: all variants"),
+      },
+      outputSchema: ApiParityOutput,
+    },
+    async ({ concept, languages }) => {
+      try {
+        if (registry.count === 0) {
+          return errorResult(`No packages available.${EMPTY_REGISTRY_HINT}`);
+        }
+        const id = registry.all.some((p) => p.crossLanguageId === concept)
+          ? concept
+          : (findConcept(getConcepts(), concept)?.id ?? registry.getByName(concept)?.crossLanguageId);
+        if (!id) {
+          return errorResult(
+            `Unknown concept: "${concept}". Use \`get_cross_language_coverage\` to list concepts and their languages.`,
+          );
+        }
+
+        const packages = registry.all.filter(
+          (p) => p.crossLanguageId === id && (!languages || languages.includes(p.language)),
+        );
+        if (packages.length < 2) {
+          const found = packages.map((p) => `\`${p.name}\` (${p.language})`).join(", ") || "none";
+          return errorResult(
+            `Concept "${id}" needs at least two language variants to compare. Found: ${found}.\n\nUse \`get_package_api\` to see the API of a single package.`,
+          );
         }
-        return textResult(registry.getCrossLanguageCoverage());
+
+        let staleAsOf: number | undefined;
+        const variants: ParityVariant[] = await Promise.all(
+          packages.map(async (pkg): Promise<ParityVariant> => {
+            const variant = { package: pkg.name, language: pkg.language };
+            const repo = registry.getRepoForPackage(pkg);
+            if (!repo) return { ...variant, note: `no repo config for language ${pkg.language}` };
+            try {
+              const loaded = await loadPackageApi(pkg, repo, { ref: repo.branch, label: "", cacheSuffix: "" });
+              if (loaded.staleAsOf !== undefined) staleAsOf = Math.min(staleAsOf ?? loaded.staleAsOf, loaded.staleAsOf);
+              return loaded.api ? { ...variant, api: loaded.api } : variant;
+            } catch (e) {
+              return {
+                ...variant,
+                note: `could not fetch its sources (${e instanceof Error ? e.message : String(e)})`,
+              };
+            }
+          }),
+        );
+
+        const operations = alignOperations(variants);
+        const text = formatApiParity(id, variants, operations);
+        return structuredResult(ApiParityOutput, staleAsOf !== undefined ? text + formatStaleNote(staleAsOf) : text, {
+          concept: id,
+          packages: variants.map((v) => ({
+            name: v.package,
+            language: v.language,
+            compared: v.api !== undefined,
+            ...(v.note && { note: v.note }),
+          })),
+          operations,
+        });
       } catch (e) {
         return errorResult(e);
       }
@@ -715,22 +1731,27 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
           .optional()
           .describe("Package name to show reverse dependencies for (e.g., 'poseidon-lite', '@zk-kit/lean-imt')"),
       },
+      outputSchema: DependencyGraphOutput,
     },
-    async ({ name }) => {
+    withResolutionNotes(async ({ name }) => {
       try {
         if (registry.count === 0) {
-          return textResult(`No packages available.${EMPTY_REGISTRY_HINT}`);
+          return errorResult(`No packages available.${EMPTY_REGISTRY_HINT}`);
         }
+        const concepts = registry.getConceptDependencies();
         if (name) {
           const resolved = resolvePackage(registry, name);
           if ("result" in resolved) return resolved.result;
-          return textResult(registry.getReverseDependencies(resolved.pkg.crossLanguageId));
+          const id = resolved.pkg.crossLanguageId;
+          return structuredResult(DependencyGraphOutput, registry.getReverseDependencies(id), {
+            concepts: concepts.filter((c) => c.concept === id),
+          });
         }
-        return textResult(registry.getDependencyGraph());
+        return structuredResult(DependencyGraphOutput, registry.getDependencyGraph(), { concepts });
       } catch (e) {
         return errorResult(e);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -738,65 +1759,247 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
     {
       title: "Get Package API",
       description:
-        "Fetch the main entry/export file for a ZK-Kit package. Returns the primary API surface: src/index.ts for TypeScript, src/lib.rs for Rust, the main contract for Solidity, the main circuit for Circom/Noir. Use this to quickly understand a package's public API without browsing the full source tree.",
+        "Get the public API of a ZK-Kit package from its main entry file: src/index.ts for TypeScript, src/lib.rs for Rust, the main contract for Solidity, the main circuit for Circom/Noir. For TypeScript, re-exports are followed across the package's files and the exported classes, functions and types are listed with their signatures, members and JSDoc. For Circom, templates and functions are listed with their parameters, input and output signals, includes and main component. For Solidity, every contract, library and interface under contracts/ is listed with its inheritance, external and public functions, events, custom errors and modifiers, plus a minimal ABI per contract derived from the source. For Rust and Noir, mod declarations and pub use re-exports are followed across files and the public functions, structs, enums, traits and constants are listed with their impl methods and doc comments. The extracted API is also returned as structured content. Long APIs and entry files are returned in pages: pass the returned `nextCursor` as `cursor` to read the next one. Use this to quickly understand a package's public API without browsing the full source tree.",
       annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
       inputSchema: {
         name: z.string().describe("Package name (e.g., '@zk-kit/lean-imt', 'lean-imt')"),
+        raw: z
+          .boolean()
+          .optional()
+          .describe("Return the entry file as is instead of the extracted API. Default: false"),
+        ...REF_INPUTS,
+        ...PAGE_INPUTS,
       },
+      outputSchema: PackageApiOutput,
     },
-    async ({ name }) => {
+    withResolutionNotes(async ({ name, raw, version, ref, cursor }) => {
       try {
         const resolved = resolvePackage(registry, name);
         if ("result" in resolved) return resolved.result;
         const { pkg } = resolved;
 
-        const repo = registry.getRepoForLanguage(pkg.language);
-        if (!repo) return textResult(`No repo config for language: ${pkg.language}`);
+        const repo = registry.getRepoForPackage(pkg);
+        if (!repo) return errorResult(`No repo config for language: ${pkg.language}`);
+
+        const at = await resolveContentRef(pkg, repo, ref, version);
+        if ("result" in at) return at.result;
+
+        const { api, entry, staleAsOf } = await loadPackageApi(pkg, repo, at, !raw);
+        if (api) {
+          const md = formatPackageApi(api, `${pkg.name} - API (\`${api.entryFile}\`)${at.label}`);
+          const read = readPage(md, cursor, true);
+          if ("result" in read) return read.result;
+          const text = read.text + formatPageNote(read.text, read.info);
+          return structuredResult(
+            PackageApiOutput,
+            staleAsOf !== undefined ? text + formatStaleNote(staleAsOf) : text,
+            {
+              package: pkg.name,
+              ref: at.ref,
+              ...api,
+              ...read.info,
+            },
+          );
+        }
+
+        if (entry) {
+          const read = readPage(entry.content, cursor);
+          if ("result" in read) return read.result;
+          const lang = detectLanguageFromExtension(entry.path);
+          const codeBlock = lang ? `\`\`\`${lang}\n${read.text}\n\`\`\`` : `\`\`\`\n${read.text}\n\`\`\``;
+          const pageNote = formatPageNote(read.text, read.info);
+          const staleNote = entry.staleAsOf !== undefined ? formatStaleNote(entry.staleAsOf) : "";
+          return structuredResult(
+            PackageApiOutput,
+            `# ${pkg.name} - API (\`${entry.path}\`)${at.label}\n\n${codeBlock}${pageNote}${staleNote}`,
+            {
+              package: pkg.name,
+              ref: at.ref,
+              entryFile: entry.path,
+              content: read.text,
+              ...read.info,
+            },
+          );
+        }
 
-        const packageBasePath = `${repo.packagePath}/${pkg.dirName}`;
+        return errorResult(
+          `Could not find the main entry file for ${pkg.name}${at.label}.\n\nTried: ${apiEntryCandidates(pkg)
+            .map((c) => `\`${c}\``)
+            .join(
+              ", ",
+            )}\n\nUse \`get_package_source\` without \`filePath\` to see the full directory tree and locate the right file.`,
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
 
-        // Language-specific entry file candidates, ordered by priority
-        const candidates: string[] = (() => {
-          switch (pkg.language) {
-            case "typescript":
-              return ["src/index.ts", "src/index.js"];
-            case "rust":
-              return ["src/lib.rs", "src/main.rs"];
-            case "solidity":
-              return [
-                `contracts/${pkg.dirName
-                  .split("-")
-                  .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-                  .join("")}.sol`,
-                `contracts/${pkg.dirName}.sol`,
-              ];
-            case "circom":
-              return [`src/${pkg.dirName}.circom`, `circuits/${pkg.dirName}.circom`];
-            case "noir":
-              return ["src/lib.nr", "src/main.nr"];
+  server.registerTool(
+    "get_usage_examples",
+    {
+      title: "Get Usage Examples",
+      description:
+        "Collect usage examples of a ZK-Kit package: every code block of its README, titled with the headings above it, and its tests (`it`/`test` cases, Foundry `test*` functions, Rust and Noir `#[test]` functions), which show realistic calls with real arguments. Set `calls` to keep only the examples calling a function or constructing a type, e.g. all examples calling `generateProof`. Code blocks that only install the package are skipped.",
+      annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
+      inputSchema: {
+        name: z.string().describe("Package name (e.g., '@zk-kit/lean-imt', 'lean-imt')"),
+        calls: z
+          .string()
+          .optional()
+          .describe(
+            "Only examples calling this function or constructing this type (e.g., 'generateProof', 'LeanIMT', 'LeanIMT.insert')",
+          ),
+        limit: z.number().int().min(1).max(50).optional().describe("Max examples returned. Default: 10"),
+      },
+      outputSchema: UsageExamplesOutput,
+    },
+    withResolutionNotes(async ({ name, calls, limit }) => {
+      try {
+        const resolved = resolvePackage(registry, name);
+        if ("result" in resolved) return resolved.result;
+        const { pkg } = resolved;
+
+        const repo = registry.getRepoForPackage(pkg);
+        if (!repo) return errorResult(`No repo config for language: ${pkg.language}`);
+
+        const { examples, staleAsOf } = await loadUsageExamples(pkg, repo);
+        const matching = calls ? examplesCalling(examples, calls) : examples;
+        const shown = matching.slice(0, limit ?? 10);
+        const staleNote = staleAsOf !== undefined ? formatStaleNote(staleAsOf) : "";
+        return structuredResult(
+          UsageExamplesOutput,
+          formatUsageExamples(pkg.name, shown, matching.length, calls) + staleNote,
+          { package: pkg.name, examples: shown, total: matching.length },
+        );
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "get_audit_status",
+    {
+      title: "Get Audit Status",
+      description:
+        "Check whether ZK-Kit packages are audited: reads audit badges and mentions in each package README and finds audit report files in the repos (e.g. `audits/` folders, PDFs named after an audit). Returns a status per package and version: `audited` only when an audit names the version checked (the latest, or `version`), `other-version-audited` when audits name other versions only, `version-unconfirmed` when audits name no version, `unaudited` when the README says so, or `unknown`. Each audit comes with the auditor, date, and version or commit covered where given. Pass `name` with `version` to check a specific release, as read at its tag. Reports at the root of a repo that name no package are listed separately: check their scope.",
+      annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
+      inputSchema: {
+        name: z
+          .string()
+          .optional()
+          .describe("Package name (e.g., '@zk-kit/lean-imt', 'lean-imt'). Default: all packages"),
+        language: Language.optional().describe("Only check packages of this language"),
+        ...REF_INPUTS,
+      },
+      outputSchema: AuditStatusOutput,
+    },
+    withResolutionNotes(async ({ name, language, version, ref }) => {
+      try {
+        if (!name && (version || ref)) {
+          return errorResult("Pass `name` with `version` or `ref`: releases are tagged per package.");
+        }
+        if (registry.count === 0) {
+          return errorResult(`No packages available.${EMPTY_REGISTRY_HINT}`);
+        }
+        let packages: Package[];
+        if (name) {
+          const resolved = resolvePackage(registry, name);
+          if ("result" in resolved) return resolved.result;
+          packages = [resolved.pkg];
+        } else {
+          packages = registry.all.filter((p) => !language || p.language === language);
+          if (packages.length === 0) {
+            return structuredResult(AuditStatusOutput, `No ${language} packages available.`, {
+              packages: [],
+              repoReports: [],
+            });
+          }
+        }
+
+        const statuses: PackageAuditStatus[] = [];
+        const reportFiles = new Map<
+          string,
+          { repo: RepoConfig; at: ContentRef; files: string[]; rootFiles: { path: string; packages: string[] }[] }
+        >();
+        const notChecked: string[] = [];
+        let pinned: ContentRef | undefined;
+        let staleAsOf: number | undefined;
+        // READMEs are read one package after another; each repo's tree is listed once per ref, for its first package
+        for (const pkg of packages) {
+          const repo = registry.getRepoForPackage(pkg);
+          if (!repo) {
+            notChecked.push(`\`${pkg.name}\`: no repo config for language ${pkg.language}`);
+            continue;
+          }
+          let pkgRef: ContentRef | undefined;
+          if (version || ref) {
+            const contentRef = await resolveContentRef(pkg, repo, ref, version);
+            if ("result" in contentRef) return contentRef.result;
+            pkgRef = pinned = contentRef;
           }
-        })();
-
-        for (const candidate of candidates) {
-          const content = await fetchRawFile(repo.slug, repo.branch, `${packageBasePath}/${candidate}`);
-          if (content) {
-            const lang = detectLanguageFromExtension(candidate);
-            const fileContent =
-              content.length > MAX_RESPONSE_LENGTH
-                ? `${content.slice(0, MAX_RESPONSE_LENGTH)}\n... [truncated at ${MAX_RESPONSE_LENGTH} characters]`
-                : content;
-            const codeBlock = lang ? `\`\`\`${lang}\n${fileContent}\n\`\`\`` : `\`\`\`\n${fileContent}\n\`\`\``;
-            return textResult(`# ${pkg.name} - API (\`${candidate}\`)\n\n${codeBlock}`);
+          const at = pkgRef ?? { ref: repo.branch, label: "", cacheSuffix: "" };
+          // Keyed like loadAuditReportFiles, so trees at different refs stay apart
+          const filesKey = `${repo.slug}${at.cacheSuffix}`;
+          try {
+            let repoFiles = reportFiles.get(filesKey);
+            if (!repoFiles) {
+              const loaded = await loadAuditReportFiles(repo, at);
+              if (loaded.staleAsOf !== undefined) staleAsOf = Math.min(staleAsOf ?? loaded.staleAsOf, loaded.staleAsOf);
+              const dirNames = registry.all
+                .filter((p) => registry.getRepoForPackage(p)?.slug === repo.slug)
+                .map((p) => p.dirName);
+              // Reports outside the packages' directories, with the packages their names point to
+              const rootFiles = loaded.files
+                .filter((f) => !f.startsWith(`${repo.packagePath}/`))
+                .map((path) => ({ path, packages: reportPackages(path, dirNames) }));
+              repoFiles = { repo, at, files: loaded.files, rootFiles };
+              reportFiles.set(filesKey, repoFiles);
+            }
+            const readme = await getOrFetchReadme(pkg, pkgRef);
+            const mentioned = readme ? readmeAudits(readme) : { audits: [], unauditedNotes: [] };
+            const packageDir = `${repo.packagePath}/${pkg.dirName}/`;
+            const reports = [
+              ...repoFiles.files.filter((f) => f.startsWith(packageDir)),
+              ...repoFiles.rootFiles.filter((f) => f.packages.includes(pkg.dirName)).map((f) => f.path),
+            ].map((f) => reportFromFile(f, `https://github.com/${repo.slug}/blob/${at.ref}/${f}`));
+            const checkedVersion = version ?? (ref ? undefined : pkg.version);
+            statuses.push(
+              packageAuditStatus(pkg.name, [...mentioned.audits, ...reports], mentioned.unauditedNotes, checkedVersion),
+            );
+          } catch (e) {
+            if (name) throw e;
+            notChecked.push(`\`${pkg.name}\`: ${e instanceof Error ? e.message : String(e)}`);
           }
         }
 
-        return textResult(
-          `Could not find the main entry file for ${pkg.name}.\n\nTried: ${candidates.map((c) => `\`${c}\``).join(", ")}\n\nUse \`get_package_source\` without \`filePath\` to see the full directory tree and locate the right file.`,
+        // Reports naming no package may cover any of the repo's packages
+        const repoReports = [...reportFiles.values()].map(({ repo, at, rootFiles }) => ({
+          repo: repo.slug,
+          reports: rootFiles
+            .filter((f) => f.packages.length === 0)
+            .map((f) => reportFromFile(f.path, `https://github.com/${repo.slug}/blob/${at.ref}/${f.path}`)),
+        }));
+
+        const atNote = pinned ? `*${packages[0].name}${pinned.label}*\n\n` : "";
+        const notCheckedNote =
+          notChecked.length > 0 ? `\n\n## Not Checked\n\n${notChecked.map((n) => `- ${n}`).join("\n")}` : "";
+        const staleNote = staleAsOf !== undefined ? formatStaleNote(staleAsOf) : "";
+        return structuredResult(
+          AuditStatusOutput,
+          atNote + formatAuditStatus(statuses, repoReports) + notCheckedNote + staleNote,
+          {
+            ...(pinned && { ref: pinned.ref }),
+            packages: statuses,
+            repoReports: repoReports.filter((r) => r.reports.length > 0),
+            ...(notChecked.length > 0 && { notChecked }),
+          },
         );
       } catch (e) {
         return errorResult(e);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -804,47 +2007,171 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
     {
       title: "Get Package Changelog",
       description:
-        "Fetch the CHANGELOG.md for a ZK-Kit package. Shows version-by-version changes, breaking changes, and migration notes. More granular than repo-level releases.",
+        "Fetch the CHANGELOG.md for a ZK-Kit package. Shows version-by-version changes, breaking changes, and migration notes. More granular than repo-level releases. Long changelogs are returned in pages split between versions: pass the returned `nextCursor` as `cursor` to read the next one.",
       annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
       inputSchema: {
         name: z.string().describe("Package name (e.g., '@zk-kit/lean-imt', 'lean-imt')"),
+        ...REF_INPUTS,
+        ...PAGE_INPUTS,
       },
+      outputSchema: PackageChangelogOutput,
     },
-    async ({ name }) => {
+    withResolutionNotes(async ({ name, version, ref, cursor }) => {
       try {
         const resolved = resolvePackage(registry, name);
         if ("result" in resolved) return resolved.result;
         const { pkg } = resolved;
 
-        const repo = registry.getRepoForLanguage(pkg.language);
-        if (!repo) return textResult(`No repo config for language: ${pkg.language}`);
+        const repo = registry.getRepoForPackage(pkg);
+        if (!repo) return errorResult(`No repo config for language: ${pkg.language}`);
 
-        const cacheKey = `${pkg.language}/${pkg.dirName}`;
-        let cached = changelogCache.get(cacheKey);
+        const at = await resolveContentRef(pkg, repo, ref, version);
+        if ("result" in at) return at.result;
 
-        if (!cached) {
+        const cacheKey = `${packageKey(pkg)}${at.cacheSuffix}`;
+        let content = changelogCache.get(cacheKey);
+        let staleAsOf: number | undefined;
+
+        if (content === undefined) {
           const basePath = `${repo.packagePath}/${pkg.dirName}`;
           const candidates = [`${basePath}/CHANGELOG.md`, `${basePath}/changelog.md`];
 
-          let content: string | null = null;
           for (const path of candidates) {
-            content = await fetchRawFile(repo.slug, repo.branch, path);
+            ({ value: content, staleAsOf } = await trackStaleness(() => fetchRawFile(repo.slug, at.ref, path)));
             if (content) break;
           }
+          if (staleAsOf === undefined) changelogCache.set(cacheKey, content ?? null);
+        }
+
+        if (!content) {
+          return errorResult(
+            `No CHANGELOG.md found for ${pkg.name}${at.label}.\n\nUse \`get_releases\` to see repo-level releases, or \`get_package_commits\` for recent changes.`,
+          );
+        }
+        const read = readPage(content, cursor, true);
+        if ("result" in read) return read.result;
+        const atNote = at.label ? `*${pkg.name}${at.label}*\n\n` : "";
+        const text = atNote + read.text + formatPageNote(read.text, read.info);
+        const staleNote = staleAsOf !== undefined ? formatStaleNote(staleAsOf) : "";
+        return structuredResult(PackageChangelogOutput, text + staleNote, {
+          package: pkg.name,
+          ref: at.ref,
+          changelog: read.text,
+          ...read.info,
+        });
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
 
-          if (!content) {
-            cached = `No CHANGELOG.md found for ${pkg.name}.\n\nUse \`get_releases\` to see repo-level releases, or \`get_package_commits\` for recent changes.`;
-          } else if (content.length > MAX_RESPONSE_LENGTH) {
-            cached =
-              content.slice(0, MAX_RESPONSE_LENGTH) +
-              `\n\n---\n*[Content truncated at ${MAX_RESPONSE_LENGTH} characters. Use \`get_package_source\` with filePath "CHANGELOG.md" for full content.]*`;
-          } else {
-            cached = content;
+  server.registerTool(
+    "diff_package_versions",
+    {
+      title: "Diff Package Versions",
+      description:
+        "Compare a ZK-Kit package between two versions or git refs. Lists the files added, modified and removed in the package, with unified diffs of its public entry files (the files `get_package_api` returns). Use this when upgrading to see exactly what changed.",
+      annotations: { readOnlyHint: true, idempotentHint: true, openWorldHint: true },
+      inputSchema: {
+        name: z.string().describe("Package name (e.g., '@zk-kit/lean-imt', 'lean-imt')"),
+        from: GitRef.describe("Older version (e.g., '1.0.0', resolved to its release tag) or git ref"),
+        to: GitRef.optional().describe("Newer version or git ref. Defaults to the repo's default branch"),
+      },
+      outputSchema: DiffPackageVersionsOutput,
+    },
+    withResolutionNotes(async ({ name, from, to }) => {
+      try {
+        const resolved = resolvePackage(registry, name);
+        if ("result" in resolved) return resolved.result;
+        const { pkg } = resolved;
+
+        const repo = registry.getRepoForPackage(pkg);
+        if (!repo) return errorResult(`No repo config for language: ${pkg.language}`);
+
+        const resolveSide = async (value: string) => {
+          const candidates = VERSION_LIKE.test(value) ? [...releaseTagCandidates(pkg, value), value] : [value];
+          return { value, candidates, found: await resolveFirstRef(repo, candidates) };
+        };
+        const [base, head] = await Promise.all([resolveSide(from), resolveSide(to ?? repo.branch)]);
+        for (const side of [base, head]) {
+          if (!side.found) {
+            return errorResult(
+              `Could not resolve \`${side.value}\` in ${repo.slug}.\n\nTried: ${side.candidates.map((c) => `\`${c}\``).join(", ")}\n\nUse \`get_releases\` with \`package\` to list released versions.`,
+            );
           }
-          changelogCache.set(cacheKey, cached);
         }
+        const fromRef = base.found as ContentRef;
+        const toRef = head.found as ContentRef;
+
+        const cacheKey = `${packageKey(pkg)}${fromRef.cacheSuffix}..${toRef.cacheSuffix}`;
+        let diff = diffCache.get(cacheKey);
+        if (!diff) {
+          const packageBasePath = `${repo.packagePath}/${pkg.dirName}`;
+          const [oldTree, newTree] = await Promise.all([
+            fetchDirectoryTree(repo.slug, fromRef.ref, packageBasePath),
+            fetchDirectoryTree(repo.slug, toRef.ref, packageBasePath),
+          ]);
+          if (oldTree.length === 0 && newTree.length === 0) {
+            return errorResult(`${pkg.name} was not found at either ref (\`${packageBasePath}\` is empty).`);
+          }
 
-        return textResult(cached);
+          const changes = compareTrees(oldTree, newTree);
+          const changedPaths = new Set(changes.map((c) => c.path));
+          const entryFiles = apiEntryCandidates(pkg).filter((path) => changedPaths.has(path));
+          const entryDiffs = await mapConcurrent(entryFiles, FETCH_CONCURRENCY, async (path) => {
+            const [before, after] = await Promise.all([
+              fetchRawFile(repo.slug, fromRef.ref, `${packageBasePath}/${path}`),
+              fetchRawFile(repo.slug, toRef.ref, `${packageBasePath}/${path}`),
+            ]);
+            return { path, diff: unifiedDiff(before, after, path, path) };
+          });
+
+          diff = { changes, entryDiffs: entryDiffs.filter((d) => d.diff) };
+          diffCache.set(cacheKey, diff);
+        }
+        const text = formatVersionDiff({
+          title: `${pkg.name}: ${fromRef.label.replace(/^ at /, "")} -> ${toRef.label.replace(/^ at /, "")}`,
+          ...diff,
+          maxLength: MAX_RESPONSE_LENGTH,
+        });
+        return structuredResult(DiffPackageVersionsOutput, text, {
+          package: pkg.name,
+          from: { ref: base.value, sha: fromRef.ref },
+          to: { ref: head.value, sha: toRef.ref },
+          ...diff,
+        });
+      } catch (e) {
+        return errorResult(e);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "refresh_registry",
+    {
+      title: "Refresh Registry",
+      description:
+        "Re-discover packages from GitHub now and clear in-memory caches. Returns what changed: new packages, removed ones, version and description changes. Limited to one call every few minutes.",
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+      inputSchema: {},
+      outputSchema: RefreshRegistryOutput,
+    },
+    async () => {
+      try {
+        const result = await manualRefresh.run();
+        if ("retryAfterMs" in result) {
+          const seconds = Math.ceil(result.retryAfterMs / 1000);
+          return errorResult(`Registry was refreshed recently. Try again in ${seconds}s.`);
+        }
+        clearCaches();
+        const { diff, ...outcome } = result.outcome;
+        return structuredResult(
+          RefreshRegistryOutput,
+          `${formatRefreshOutcome(result.outcome, registry.count)}
+
+In-memory caches were cleared.`,
+          { ...outcome, ...diff, packageCount: registry.count },
+        );
       } catch (e) {
         return errorResult(e);
       }
@@ -886,92 +2213,150 @@ export function createServer(registry: PackageRegistry): { server: McpServer; cl
     },
   );
 
-  // Resource Template: package
+  // Resource Templates: package, by language and directory, or by repo too
+
+  /** Whether `zk-kit://packages/{language}/{dirName}` reaches `p`: it resolves to the first configured repo, like plain names. */
+  function reachableByPath(p: Package): boolean {
+    return registry.all.find((q) => q.language === p.language && q.dirName === p.dirName) === p;
+  }
+
+  function packageResource(uri: string, p: Package) {
+    return { uri, name: p.name, description: p.description || undefined, mimeType: "text/markdown" as const };
+  }
+
+  const completeLanguage = (value: string) =>
+    [...new Set(registry.all.map((p) => p.language))].filter((l) => l.startsWith(value.toLowerCase())).sort();
+  const completeDirName = (value: string, context?: { arguments?: Record<string, string> }) => {
+    const lang = context?.arguments?.language;
+    return registry.all
+      .filter((p) => (!lang || p.language === lang) && p.dirName.startsWith(value))
+      .map((p) => p.dirName)
+      .filter((v, i, a) => a.indexOf(v) === i)
+      .slice(0, 20);
+  };
 
   const packageTemplate = new ResourceTemplate("zk-kit://packages/{language}/{dirName}", {
     list: async () => ({
-      resources: registry.all.map((p) => ({
-        uri: `zk-kit://packages/${p.language}/${p.dirName}`,
-        name: p.name,
-        description: p.description || undefined,
-        mimeType: "text/markdown" as const,
-      })),
+      resources: registry.all
+        .filter(reachableByPath)
+        .map((p) => packageResource(`zk-kit://packages/${p.language}/${p.dirName}`, p)),
     }),
     complete: {
-      language: (value) =>
-        [...new Set(registry.all.map((p) => p.language))].filter((l) => l.startsWith(value.toLowerCase())).sort(),
-      dirName: (value, context) => {
-        const lang = context?.arguments?.language;
-        return registry.all
-          .filter((p) => (!lang || p.language === lang) && p.dirName.startsWith(value))
-          .map((p) => p.dirName)
-          .filter((v, i, a) => a.indexOf(v) === i)
-          .slice(0, 20);
-      },
+      language: completeLanguage,
+      dirName: completeDirName,
     },
   });
 
-  server.registerResource(
-    "package",
-    packageTemplate,
-    {
-      description: "ZK-Kit package metadata and documentation",
-      mimeType: "text/markdown",
+  const repoPackageTemplate = new ResourceTemplate("zk-kit://packages/{owner}/{repo}/{language}/{dirName}", {
+    // Only packages the shorter URI cannot reach, such as a fork's, so that each is listed once
+    list: async () => ({
+      resources: registry.all.flatMap((p) => {
+        const slug = registry.getRepoForPackage(p)?.slug;
+        if (!slug || reachableByPath(p)) return [];
+        return [packageResource(`zk-kit://packages/${slug}/${p.language}/${p.dirName}`, p)];
+      }),
+    }),
+    complete: {
+      owner: (value) =>
+        [...new Set(registry.all.flatMap((p) => registry.getRepoForPackage(p)?.slug.split("/")[0] ?? []))]
+          .filter((o) => o.startsWith(value))
+          .sort(),
+      repo: (value, context) => {
+        const owner = context?.arguments?.owner;
+        return [...new Set(registry.all.flatMap((p) => registry.getRepoForPackage(p)?.slug ?? []))]
+          .filter((slug) => !owner || slug.startsWith(`${owner}/`))
+          .map((slug) => slug.slice(slug.indexOf("/") + 1))
+          .filter((r, i, a) => r.startsWith(value) && a.indexOf(r) === i)
+          .sort();
+      },
+      language: completeLanguage,
+      dirName: completeDirName,
     },
-    async (uri, variables) => {
-      try {
-        const { language: lang, dirName } = variables;
-        const pkg = registry.all.find((p) => p.language === lang && p.dirName === dirName);
-
-        if (!pkg) {
-          return {
-            contents: [
-              {
-                uri: uri.href,
-                mimeType: "text/plain",
-                text: `Package not found: ${lang}/${dirName}`,
-              },
-            ],
-          };
-        }
-
-        let text = `# ${pkg.name}\n\n`;
-        text += `| Field | Value |\n|-------|-------|\n`;
-        text += `| Language | ${pkg.language} |\n`;
-        text += `| Category | ${pkg.category} |\n`;
-        if (pkg.version) text += `| Version | ${pkg.version} |\n`;
-        text += `| Install | \`${pkg.installCommand}\` |\n`;
-        text += `| Repo | ${pkg.repo} |\n`;
-        text += `| Cross-lang ID | ${pkg.crossLanguageId} |\n`;
-        text += `\n${pkg.description || "(no description)"}\n`;
-
-        // Fetch README
-        const readme = await getOrFetchReadme(pkg);
-        if (readme) {
-          text += `\n---\n\n${readme}`;
-        }
+  });
 
-        return {
-          contents: [
-            {
-              uri: uri.href,
-              mimeType: "text/markdown",
-              text,
-            },
-          ],
-        };
-      } catch (e) {
-        const msg = e instanceof Error ? e.message : String(e);
+  /** Markdown of a package's metadata and README, or a not-found note naming `path`. */
+  async function readPackageResource(uri: URL, pkg: Package | undefined, path: string) {
+    try {
+      if (!pkg) {
         return {
           contents: [
             {
               uri: uri.href,
               mimeType: "text/plain",
-              text: `Error: ${msg}`,
+              text: `Package not found: ${path}`,
             },
           ],
         };
       }
+
+      let text = `# ${pkg.name}\n\n`;
+      text += `| Field | Value |\n|-------|-------|\n`;
+      text += `| Language | ${pkg.language} |\n`;
+      text += `| Category | ${pkg.category} |\n`;
+      if (pkg.version) text += `| Version | ${pkg.version} |\n`;
+      text += `| Install | \`${pkg.installCommand}\` |\n`;
+      text += `| Repo | ${pkg.repo} |\n`;
+      text += `| Cross-lang ID | ${pkg.crossLanguageId} |\n`;
+      text += `\n${pkg.description || "(no description)"}\n`;
+
+      // Fetch README
+      const readme = await getOrFetchReadme(pkg);
+      if (readme) {
+        text += `\n---\n\n${readme}`;
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text,
+          },
+        ],
+      };
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/plain",
+            text: `Error: ${msg}`,
+          },
+        ],
+      };
+    }
+  }
+
+  server.registerResource(
+    "package",
+    packageTemplate,
+    {
+      description: "ZK-Kit package metadata and documentation, from the first configured repo that has it",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables) => {
+      const { language: lang, dirName } = variables;
+      const pkg = registry.all.find((p) => p.language === lang && p.dirName === dirName);
+      return readPackageResource(uri, pkg, `${lang}/${dirName}`);
+    },
+  );
+
+  server.registerResource(
+    "repo-package",
+    repoPackageTemplate,
+    {
+      description: "ZK-Kit package metadata and documentation, from a given repo such as a fork",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables) => {
+      const { owner, repo, language: lang, dirName } = variables;
+      const slug = `${owner}/${repo}`.toLowerCase();
+      const pkg = registry.all.find(
+        (p) =>
+          p.language === lang && p.dirName === dirName && registry.getRepoForPackage(p)?.slug.toLowerCase() === slug,
+      );
+      return readPackageResource(uri, pkg, `${owner}/${repo}/${lang}/${dirName}`);
     },
   );
 
@@ -1319,17 +2704,7 @@ Use \`get_releases\` with language "${pkg.language}" to see if a newer version f
   );
 
   function clearCaches(): void {
-    readmeCache.clear();
-    releaseCache.clear();
-    depsCache.clear();
-    statsCache.clear();
-    treeCache.clear();
-    codeSearchCache.clear();
-    commitsCache.clear();
-    downloadsCache.clear();
-    buildStatusCache.clear();
-    issueSearchCache.clear();
-    changelogCache.clear();
+    for (const cache of Object.values(caches)) cache.clear();
   }
 
   return { server, clearCaches };
@@ -1338,20 +2713,100 @@ Use \`get_releases\` with language "${pkg.language}" to see if a newer version f
 // Main
 
 async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  const options = parseTransportOptions(argv, process.env);
+  const refreshIntervalMs = parseRefreshInterval(argv, process.env);
+
+  const configPath = parseConfigPath(argv, process.env);
+  if (configPath) {
+    try {
+      const { config, summary } = await loadConfigFile(configPath, defaultConfig());
+      setActiveConfig(config);
+      logger.info("config", `Loaded config from ${configPath}`, {
+        repos: config.repos.map(
+          (r) => `${r.slug}@${r.branch}:${r.packagePath}${r.localPath ? ` (${r.localPath})` : ""}`,
+        ),
+        ...summary,
+      });
+    } catch (e) {
+      logger.error("config", e instanceof Error ? e.message : String(e));
+      process.exit(1);
+    }
+  }
+
+  const cacheDir = parseCacheDir(argv, process.env);
+  const diskCache = cacheDir ? new DiskCache(cacheDir) : undefined;
+  setDiskCache(diskCache);
+  if (cacheDir) logger.info("server", `Using disk cache at ${cacheDir}`);
+
   const startTime = Date.now();
   logger.info("server", "Discovering packages from GitHub...");
-  const packages = await discoverAllPackages();
+  const { packages, source, staleAsOf, requests } = await loadPackages(diskCache);
   if (packages.length === 0) {
     logger.warn("server", "No packages discovered. Server will start with empty registry.");
   }
   const registry = new PackageRegistry();
-  registry.load(packages);
-  logger.info("server", `Loaded ${registry.count} packages`, { durationMs: Date.now() - startTime });
+  registry.load(packages, staleAsOf);
+  logger.info("server", `Loaded ${registry.count} packages`, {
+    source,
+    durationMs: Date.now() - startTime,
+    ...(requests && { requests }),
+    ...(staleAsOf !== undefined && { staleAsOf: new Date(staleAsOf).toISOString() }),
+  });
+
+  const codeIndex = parseCodeIndex(argv, process.env) ? new CodeIndex(diskCache) : undefined;
+  if (codeIndex) {
+    logger.info("server", "Building the code index in the background");
+    void codeIndex.update(getRepos());
+  }
+
+  const refresher =
+    refreshIntervalMs > 0 ? startBackgroundRefresh(registry, refreshIntervalMs, diskCache, codeIndex) : undefined;
+  if (refresher) logger.info("server", "Background refresh enabled", { intervalMs: refreshIntervalMs });
+
+  const manualRefresh = createManualRefresh(registry, diskCache, MANUAL_REFRESH_COOLDOWN_MS, codeIndex);
+
+  if (options.mode === "http") {
+    // Caches and the refresh cooldown are shared by all sessions
+    const caches = createCaches();
+    const handle = await startHttpServer(
+      () => createServer(registry, caches, manualRefresh, codeIndex).server,
+      options,
+    );
+    logger.info("server", `Listening on http://${options.host}:${handle.port}`, {
+      streamableHttp: "/mcp",
+      sse: "/sse",
+    });
+    onShutdown(() => {
+      refresher?.stop();
+      return handle.close();
+    });
+    return;
+  }
 
-  const { server } = createServer(registry);
+  const { server } = createServer(registry, createCaches(), manualRefresh, codeIndex);
   const transport = new StdioServerTransport();
   await server.connect(transport);
   logger.info("server", "Connected via STDIO");
+  onShutdown(() => {
+    refresher?.stop();
+    return server.close();
+  });
+}
+
+/** Run `cleanup` once on SIGTERM/SIGINT, then exit. */
+function onShutdown(cleanup: () => Promise<void>): void {
+  let shuttingDown = false;
+  const handler = (signal: NodeJS.Signals) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info("server", `Received ${signal}, shutting down`);
+    cleanup()
+      .catch((err) => logger.error("server", "Error during shutdown", { error: String(err) }))
+      .finally(() => process.exit(0));
+  };
+  process.once("SIGTERM", handler);
+  process.once("SIGINT", handler);
 }
 
 const scriptPath = resolve(realpathSync(process.argv[1] ?? ""));
@@ -0,0 +1,130 @@
+import { execFile } from "node:child_process";
+import { readdir, readFile, stat } from "node:fs/promises";
+import { join, relative, resolve, sep } from "node:path";
+import { promisify } from "node:util";
+import type { GitTreeEntry, PackageCommit, RepoTree } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+/** Directories never included in a local tree: VCS metadata and installed dependencies. */
+const SKIPPED_DIRS = new Set([".git", "node_modules"]);
+
+/** Resolve a repo-relative path inside `root`, rejecting paths that escape it. */
+function resolveInside(root: string, filePath: string): string {
+  const base = resolve(root);
+  const full = resolve(base, filePath);
+  if (full !== base && !full.startsWith(base + sep)) {
+    throw new Error(`Path escapes the local checkout: ${filePath}`);
+  }
+  return full;
+}
+
+function isNotFound(e: unknown): boolean {
+  const code = (e as NodeJS.ErrnoException).code;
+  return code === "ENOENT" || code === "ENOTDIR" || code === "EISDIR";
+}
+
+/** Read a file from a local checkout. Returns null if it does not exist. */
+export async function readLocalFile(root: string, filePath: string): Promise<string | null> {
+  try {
+    return await readFile(resolveInside(root, filePath), "utf-8");
+  } catch (e) {
+    if (isNotFound(e)) return null;
+    throw e;
+  }
+}
+
+/** List subdirectory names of `path` in a local checkout. */
+export async function listLocalDirectories(root: string, path: string): Promise<string[]> {
+  const entries = await readdir(resolveInside(root, path), { withFileTypes: true });
+  return entries
+    .filter((e) => e.isDirectory() && !SKIPPED_DIRS.has(e.name))
+    .map((e) => e.name)
+    .sort();
+}
+
+/** Walk a local checkout into the same shape as a recursive git tree. Paths use `/` separators. */
+export async function readLocalTree(root: string): Promise<RepoTree> {
+  const base = resolve(root);
+  const entries: GitTreeEntry[] = [];
+
+  async function walk(dir: string): Promise<void> {
+    const children = await readdir(dir, { withFileTypes: true });
+    // Byte order, like git trees
+    children.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    for (const child of children) {
+      const full = join(dir, child.name);
+      const path = relative(base, full).split(sep).join("/");
+      if (child.isDirectory()) {
+        if (SKIPPED_DIRS.has(child.name)) continue;
+        entries.push({ path, type: "tree" });
+        await walk(full);
+      } else if (child.isFile()) {
+        entries.push({ path, type: "blob", size: (await stat(full)).size });
+      }
+    }
+  }
+
+  await walk(base);
+  return { entries, truncated: false };
+}
+
+async function git(root: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", ["-C", resolve(root), ...args], {
+    timeout: 15_000,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+/** Resolve a tag, branch or SHA to a full commit SHA in a local clone. Returns null if unknown. */
+export async function resolveLocalRef(root: string, ref: string): Promise<string | null> {
+  try {
+    return (await git(root, ["rev-parse", "--verify", "--quiet", "--end-of-options", `${ref}^{commit}`])).trim();
+  } catch {
+    return null;
+  }
+}
+
+/** Read a file as of `ref` with `git show`. Returns null if it does not exist at that ref. */
+export async function readLocalFileAt(root: string, ref: string, filePath: string): Promise<string | null> {
+  try {
+    return await git(root, ["show", `${ref}:${filePath}`]);
+  } catch {
+    return null;
+  }
+}
+
+/** List the tree of a local clone as of `ref`, in the same shape as a recursive git tree. */
+export async function readLocalTreeAt(root: string, ref: string): Promise<RepoTree> {
+  const stdout = await git(root, ["ls-tree", "-r", "-t", "-l", "-z", ref]);
+  const entries: GitTreeEntry[] = [];
+  for (const record of stdout.split("\0")) {
+    // "<mode> <type> <object> <size>\t<path>"
+    const tab = record.indexOf("\t");
+    if (tab === -1) continue;
+    const [, type, sha, size] = record.slice(0, tab).trim().split(/\s+/);
+    const path = record.slice(tab + 1);
+    if (type === "tree") entries.push({ path, type, sha });
+    else if (type === "blob") entries.push({ path, type, size: Number(size), sha });
+  }
+  return { entries, truncated: false };
+}
+
+/** Recent commits touching `path`, read with `git log` from a local clone. */
+export async function localGitLog(root: string, slug: string, path: string, limit: number): Promise<PackageCommit[]> {
+  const stdout = await git(root, ["log", `-n${limit}`, "--format=%H%x1f%an%x1f%aI%x1f%s", "--", path]);
+  return stdout
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [sha, author, date, message] = line.split("\x1f");
+      return {
+        sha: sha.slice(0, 7),
+        message,
+        author,
+        date,
+        url: `https://github.com/${slug}/commit/${sha}`,
+      };
+    });
+}
@@ -0,0 +1,342 @@
+import { z } from "zod";
+import type { AlignedOperation } from "./api-parity.js";
+import type { AuditReport, PackageAuditStatus } from "./audit-status.js";
+import type { CodeMatch } from "./code-index.js";
+import type { DocResult } from "./doc-search.js";
+import type { ReadmeHeading } from "./readme-sections.js";
+import type { PackageChange } from "./refresh.js";
+import type { ConceptCoverage, ConceptDependencies } from "./registry.js";
+import type { PackageReferences, SymbolMatch } from "./symbol-index.js";
+import type { Concept } from "./taxonomy.js";
+import {
+  ApiSymbolKind,
+  Category,
+  CodeSearchResult,
+  DirectoryEntry,
+  GithubIssue,
+  GithubRelease,
+  Language,
+  Package,
+  PackageApi,
+  PackageCommit,
+  PackageDependencies,
+  PackageDownloads,
+  RepoStats,
+  WorkflowRun,
+} from "./types.js";
+import type { UsageExample } from "./usage-examples.js";
+import type { FileChange } from "./version-diff.js";
+
+// Output schemas of the tools: the shape of the structured content returned next to the markdown.
+// Schemas of types declared elsewhere are checked against them, so the two cannot drift apart.
+
+const ConceptSchema: z.ZodType<Concept> = z.object({
+  id: z.string(),
+  label: z.string(),
+  categories: z.array(Category),
+  aliases: z.array(z.string()),
+});
+
+const ConceptCoverageSchema: z.ZodType<ConceptCoverage> = z.object({
+  concept: z.string(),
+  languages: z.array(Language),
+  dirNames: z.record(z.array(Language)),
+});
+
+const ConceptDependenciesSchema: z.ZodType<ConceptDependencies> = z.object({
+  concept: z.string(),
+  languages: z.array(Language),
+  dependsOn: z.array(z.string()),
+  dependedOnBy: z.array(z.string()),
+});
+
+const CodeMatchSchema: z.ZodType<CodeMatch> = z.object({
+  repo: z.string(),
+  path: z.string(),
+  line: z.number(),
+  text: z.string(),
+  before: z.array(z.string()),
+  after: z.array(z.string()),
+});
+
+const SymbolMatchSchema: z.ZodType<SymbolMatch> = z.object({
+  name: z.string(),
+  kind: z.union([ApiSymbolKind, z.enum(["method", "property", "accessor", "constructor", "modifier"])]),
+  container: z.string().optional(),
+  file: z.string(),
+  startLine: z.number(),
+  endLine: z.number(),
+  package: z.string(),
+  language: Language,
+  repo: z.string().optional(),
+  snippet: z.string(),
+});
+
+const PackageReferencesSchema: z.ZodType<PackageReferences> = z.object({
+  package: z.string(),
+  repo: z.string().optional(),
+  references: z.array(z.object({ file: z.string(), line: z.number(), text: z.string() })),
+});
+
+const DocResultSchema: z.ZodType<DocResult> = z.object({
+  package: z.string(),
+  language: Language,
+  repo: z.string().optional(),
+  score: z.number(),
+  passages: z.array(
+    z.object({
+      source: z.enum(["description", "readme", "changelog", "api"]),
+      heading: z.string().optional(),
+      text: z.string(),
+      score: z.number(),
+    }),
+  ),
+});
+
+const AlignedOperationSchema: z.ZodType<AlignedOperation> = z.object({
+  operation: z.string(),
+  implementations: z.record(z.array(z.object({ name: z.string(), signature: z.string() }))),
+  missing: z.array(z.string()),
+});
+
+const UsageExampleSchema: z.ZodType<UsageExample> = z.object({
+  source: z.enum(["readme", "test"]),
+  title: z.string(),
+  file: z.string().optional(),
+  line: z.number().optional(),
+  language: z.string(),
+  code: z.string(),
+});
+
+const AuditReportSchema: z.ZodType<AuditReport> = z.object({
+  source: z.enum(["readme", "report"]),
+  auditor: z.string().optional(),
+  date: z.string().optional(),
+  version: z.string().optional(),
+  commit: z.string().optional(),
+  file: z.string().optional(),
+  url: z.string().optional(),
+  text: z.string().optional(),
+});
+
+const PackageAuditStatusSchema: z.ZodType<PackageAuditStatus> = z.object({
+  package: z.string(),
+  version: z.string().optional(),
+  status: z.enum(["audited", "other-version-audited", "version-unconfirmed", "unaudited", "unknown"]),
+  versionCovered: z.boolean().optional(),
+  audits: z.array(AuditReportSchema),
+  unauditedNotes: z.array(z.string()).optional(),
+});
+
+const FileChangeSchema: z.ZodType<FileChange> = z.object({
+  path: z.string(),
+  status: z.enum(["added", "removed", "modified"]),
+});
+
+const PackageChangeSchema: z.ZodType<PackageChange> = z.object({
+  before: Package,
+  after: Package,
+  fields: z.array(z.enum(["name", "version", "description", "category", "zkKitDependencies"])),
+});
+
+const ReadmeHeadingSchema: z.ZodType<ReadmeHeading> = z.object({
+  level: z.number(),
+  text: z.string(),
+  anchor: z.string(),
+});
+
+/** Commit SHA the content was read at, when pinned with `version` or `ref`. */
+const pinnedRef = z.string().optional();
+
+/** Where a page sits in content read in several calls. */
+const PAGE_OUTPUTS = {
+  /** Character offset of the page in the full content. */
+  offset: z.number().optional(),
+  totalLength: z.number().optional(),
+  /** Pass as `cursor` to read the next page. Absent on the last page. */
+  nextCursor: z.string().optional(),
+};
+
+export const ListPackagesOutput = {
+  packages: z.array(Package),
+};
+
+export const PackageReadmeOutput = {
+  package: Package,
+  ref: pinnedRef,
+  /** A page of the README, or of `section`. Absent in summaries and tables of contents, and when it could not be fetched. */
+  readme: z.string().optional(),
+  /** The heading `section` matched. */
+  section: ReadmeHeadingSchema.optional(),
+  /** Every heading, with `toc`. */
+  headings: z.array(ReadmeHeadingSchema).optional(),
+  ...PAGE_OUTPUTS,
+  /** First code example of the README, in summaries. */
+  example: z.object({ language: z.string(), code: z.string() }).optional(),
+};
+
+export const EcosystemOverviewOutput = {
+  packages: z.array(Package),
+  crossLanguage: z.array(z.object({ concept: z.string(), languages: z.array(Language) })),
+};
+
+export const ComparePackagesOutput = {
+  packages: z.array(Package.extend({ concept: ConceptSchema.optional() })),
+  notFound: z.array(z.string()),
+  variants: z.array(Package),
+};
+
+export const ReleasesOutput = {
+  package: z.string().optional(),
+  repos: z.array(z.object({ repo: z.string(), releases: z.array(GithubRelease) })),
+};
+
+export const SearchIssuesOutput = {
+  query: z.string(),
+  repo: z.string().optional(),
+  issues: z.array(GithubIssue),
+};
+
+export const PackageDependenciesOutput = {
+  package: z.string(),
+  language: Language,
+  ...PackageDependencies.shape,
+};
+
+export const RepoStatsOutput = {
+  repos: z.array(RepoStats),
+};
+
+export const PackageSourceOutput = {
+  package: z.string(),
+  ref: pinnedRef,
+  /** The package's files and directories, without `path`. */
+  entries: z.array(DirectoryEntry).optional(),
+  /** Package-relative path of the file read, with `path`. */
+  path: z.string().optional(),
+  /** A page of the file, with `path`. */
+  content: z.string().optional(),
+  ...PAGE_OUTPUTS,
+};
+
+export const SearchCodeOutput = {
+  query: z.string(),
+  /** `index` for the local code index, `github` for GitHub Code Search. */
+  source: z.enum(["index", "github"]),
+  /** Matching lines, from the local code index. */
+  matches: z.array(CodeMatchSchema).optional(),
+  /** Matching lines of the local code index, or files of GitHub Code Search, in total. */
+  total: z.number().optional(),
+  searched: z.number().optional(),
+  /** Matching files, from GitHub Code Search. */
+  results: z.array(CodeSearchResult).optional(),
+  /** Matches or files skipped before this page. */
+  offset: z.number(),
+  /** Pass as `cursor` to read the next page. Absent on the last page. */
+  nextCursor: z.string().optional(),
+};
+
+export const FindSymbolOutput = {
+  name: z.string(),
+  definitions: z.array(SymbolMatchSchema),
+  references: z.array(PackageReferencesSchema).optional(),
+  indexedPackages: z.array(z.string()),
+  notIndexed: z.array(z.string()).optional(),
+  /** Close symbol names, when nothing is defined under `name`. */
+  similar: z.array(z.string()).optional(),
+};
+
+export const SearchDocsOutput = {
+  query: z.string(),
+  results: z.array(DocResultSchema),
+  indexedPackages: z.number(),
+  notIndexed: z.array(z.string()).optional(),
+};
+
+export const PackageCommitsOutput = {
+  package: z.string(),
+  commits: z.array(PackageCommit),
+};
+
+export const PackageDownloadsOutput = {
+  package: z.string(),
+  ...PackageDownloads.shape,
+};
+
+export const BuildStatusOutput = {
+  repos: z.array(z.object({ repo: z.string(), runs: z.array(WorkflowRun) })),
+};
+
+export const CrossLanguageCoverageOutput = {
+  languages: z.array(Language),
+  concepts: z.array(ConceptCoverageSchema),
+};
+
+export const ApiParityOutput = {
+  concept: z.string(),
+  packages: z.array(
+    z.object({ name: z.string(), language: Language, compared: z.boolean(), note: z.string().optional() }),
+  ),
+  operations: z.array(AlignedOperationSchema),
+};
+
+export const DependencyGraphOutput = {
+  /** Every concept, or only the one of the package asked about. */
+  concepts: z.array(ConceptDependenciesSchema),
+};
+
+export const PackageApiOutput = {
+  package: z.string(),
+  ref: pinnedRef,
+  ...PackageApi.partial().shape,
+  entryFile: z.string(),
+  /** A page of the entry file as is, with `raw` or when no API could be extracted from it. */
+  content: z.string().optional(),
+  /** Paging of the entry file, or of the markdown when the API was extracted. */
+  ...PAGE_OUTPUTS,
+};
+
+export const UsageExamplesOutput = {
+  package: z.string(),
+  examples: z.array(UsageExampleSchema),
+  /** Examples matching `calls`, or all of them, including those past `limit`. */
+  total: z.number(),
+};
+
+export const AuditStatusOutput = {
+  ref: pinnedRef,
+  packages: z.array(PackageAuditStatusSchema),
+  /** Reports at the root of a repo naming none of its packages. */
+  repoReports: z.array(z.object({ repo: z.string(), reports: z.array(AuditReportSchema) })),
+  /** Packages whose README or repo files could not be read, with the reason. */
+  notChecked: z.array(z.string()).optional(),
+};
+
+export const PackageChangelogOutput = {
+  package: z.string(),
+  ref: pinnedRef,
+  /** A page of the changelog. */
+  changelog: z.string(),
+  ...PAGE_OUTPUTS,
+};
+
+export const DiffPackageVersionsOutput = {
+  package: z.string(),
+  /** The refs as given, and the commits they resolved to. */
+  from: z.object({ ref: z.string(), sha: z.string() }),
+  to: z.object({ ref: z.string(), sha: z.string() }),
+  changes: z.array(FileChangeSchema),
+  /** Unified diffs of the changed public entry files, in full. */
+  entryDiffs: z.array(z.object({ path: z.string(), diff: z.string() })),
+};
+
+export const RefreshRegistryOutput = {
+  /** False when discovery failed entirely and the registry was left untouched. */
+  updated: z.boolean(),
+  added: z.array(Package),
+  removed: z.array(Package),
+  changed: z.array(PackageChangeSchema),
+  failedRepos: z.array(z.string()),
+  durationMs: z.number(),
+  packageCount: z.number(),
+};
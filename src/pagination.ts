@@ -0,0 +1,81 @@
+import { createHash } from "node:crypto";
+
+/** One page of a long text. */
+export interface TextPage {
+  text: string;
+  /** Character offset of the page in the full text. */
+  offset: number;
+  /** Offset of the next page, absent on the last one. */
+  next?: number;
+}
+
+/** Short hash of what a cursor pages through, so it is never applied to other content. */
+function fingerprint(key: string): string {
+  return createHash("sha256").update(key).digest("base64url").slice(0, 8);
+}
+
+/**
+ * Opaque continuation token for the page starting at `offset` of the content or query `key`.
+ * Clients pass it back as is, so its format can change without breaking them.
+ */
+export function encodeCursor(offset: number, key: string): string {
+  return Buffer.from(`${offset}:${fingerprint(key)}`).toString("base64url");
+}
+
+/**
+ * The offset a cursor points to, or undefined when it is malformed or was issued for another key,
+ * e.g. because the file changed between two calls.
+ */
+export function decodeCursor(cursor: string, key: string): number | undefined {
+  const m = Buffer.from(cursor, "base64url")
+    .toString()
+    .match(/^(\d+):([\w-]+)$/);
+  if (!m || m[2] !== fingerprint(key)) return undefined;
+  return Number(m[1]);
+}
+
+/** Headings of markdown sections, the preferred place to end a page. */
+const SECTION_START = /\n(?=#{1,6} )/g;
+
+/**
+ * The page of `content` starting at `offset`, at most `max` characters long. Pages end before a
+ * markdown heading when `sections` is set and one falls in their second half, otherwise at the
+ * end of a line. Only a single line longer than `max` is cut mid-line, never inside a surrogate
+ * pair.
+ */
+export function pageText(content: string, offset: number, max: number, sections = false): TextPage {
+  if (content.length - offset <= max) return { text: content.slice(offset), offset };
+  const window = content.slice(offset, offset + max);
+  let end = -1;
+  if (sections) {
+    for (const m of window.matchAll(SECTION_START)) end = m.index + 1;
+    if (end < max / 2) end = -1;
+  }
+  if (end <= 0) end = window.lastIndexOf("\n") + 1;
+  if (end <= 0) {
+    end = max;
+    const code = window.charCodeAt(end - 1);
+    if (code >= 0xd800 && code <= 0xdbff) end--;
+  }
+  return { text: window.slice(0, end), offset, next: offset + end };
+}
+
+/** Where a page sits in the full content, as returned to clients. */
+export interface PageInfo {
+  offset: number;
+  totalLength: number;
+  /** Absent on the last page. */
+  nextCursor?: string;
+}
+
+/**
+ * Note ending a page of content read in several: where the page sits in it, and the cursor of
+ * the next page if there is one. Empty for content that fits in one page.
+ */
+export function formatPageNote(text: string, info: PageInfo): string {
+  if (info.offset === 0 && !info.nextCursor) return "";
+  const range = `Characters ${info.offset + 1}-${info.offset + text.length} of ${info.totalLength}`;
+  return info.nextCursor
+    ? `\n\n---\n*[${range}. Call again with \`cursor: "${info.nextCursor}"\` for the rest.]*`
+    : `\n\n---\n*[${range}, the end.]*`;
+}
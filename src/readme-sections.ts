@@ -0,0 +1,99 @@
+/** A markdown heading of a README, with the anchor GitHub gives it. */
+export interface ReadmeHeading {
+  /** 1 for `#`, up to 6 for `######`. */
+  level: number;
+  text: string;
+  /** Fragment of the heading's link on GitHub, without `#`, e.g. `-install` for `## 🛠 Install`. */
+  anchor: string;
+}
+
+/** A heading and everything under it, up to the next heading of the same or a higher level. */
+export interface ReadmeSection {
+  heading: ReadmeHeading;
+  content: string;
+}
+
+/** Heading text as rendered: without HTML tags, images, link targets, code spans and emphasis. */
+function headingText(raw: string): string {
+  return raw
+    .replace(/<[^>]*>/g, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[`*]/g, "")
+    .trim();
+}
+
+/** GitHub's anchor for a heading: lowercase, punctuation and symbols dropped, spaces as `-`. */
+function slug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, "")
+    .replace(/ /g, "-");
+}
+
+/** Lowercase words only, the form section names are compared in, so `🛠 Install` matches `install`. */
+function words(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** Headings of a README with their line index, skipping `#` lines inside code blocks. */
+function scanHeadings(content: string): { heading: ReadmeHeading; line: number }[] {
+  const found: { heading: ReadmeHeading; line: number }[] = [];
+  const seen = new Map<string, number>();
+  let inCode = false;
+  content.split("\n").forEach((line, i) => {
+    if (/^\s*(```|~~~)/.test(line)) inCode = !inCode;
+    if (inCode) return;
+    const m = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (!m) return;
+    const text = headingText(m[2]);
+    // Repeated headings get -1, -2... like on GitHub
+    const base = slug(text);
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    found.push({ heading: { level: m[1].length, text, anchor: count > 0 ? `${base}-${count}` : base }, line: i });
+  });
+  return found;
+}
+
+/** Headings of a README in document order, for a table of contents. */
+export function readmeHeadings(content: string): ReadmeHeading[] {
+  return scanHeadings(content).map((h) => h.heading);
+}
+
+/** The highest-level heading passing `test`, the first of them on a tie. */
+function topmost<T extends { heading: ReadmeHeading }>(headings: T[], test: (h: T) => boolean): T | undefined {
+  return headings.filter(test).sort((a, b) => a.heading.level - b.heading.level)[0];
+}
+
+/**
+ * The section of a README a name points to: an anchor given with `#`, else the heading with the
+ * same words (`usage` for `## 📜 Usage`) or anchor, else one containing the words. Among several
+ * matches, the highest-level heading wins. Undefined if none matches.
+ */
+export function findReadmeSection(content: string, name: string): ReadmeSection | undefined {
+  const headings = scanHeadings(content);
+  const anchor = name.trim().replace(/^#/, "").toLowerCase();
+  const wanted = words(name);
+  let found: (typeof headings)[number] | undefined;
+  if (name.trim().startsWith("#")) found = topmost(headings, (h) => h.heading.anchor === anchor);
+  else if (wanted) {
+    found =
+      topmost(headings, (h) => words(h.heading.text) === wanted) ??
+      topmost(headings, (h) => h.heading.anchor === anchor) ??
+      topmost(headings, (h) => ` ${words(h.heading.text)} `.includes(` ${wanted} `));
+  }
+  if (!found) return undefined;
+  const { heading, line } = found;
+  const end = headings.find((h) => h.line > line && h.heading.level <= heading.level)?.line;
+  return { heading, content: `${content.split("\n").slice(line, end).join("\n").trimEnd()}\n` };
+}
+
+/** Markdown list of the headings, indented by level, each linking to its anchor. */
+export function formatReadmeOutline(headings: ReadmeHeading[]): string {
+  const top = Math.min(...headings.map((h) => h.level));
+  return headings.map((h) => `${"  ".repeat(h.level - top)}- [${h.text}](#${h.anchor})`).join("\n");
+}
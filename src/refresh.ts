@@ -0,0 +1,227 @@
+import type { CodeIndex } from "./code-index.js";
+import { getRepos } from "./config.js";
+import { discoverPackages, saveSnapshot, sortPackages } from "./discovery.js";
+import type { DiskCache } from "./disk-cache.js";
+import { logger } from "./logger.js";
+import { type PackageRegistry, packageKey } from "./registry.js";
+import type { Package } from "./types.js";
+
+/** Package fields compared when deciding whether a package changed between discoveries. */
+const TRACKED_FIELDS = ["name", "version", "description", "category", "zkKitDependencies"] as const;
+type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export interface PackageChange {
+  before: Package;
+  after: Package;
+  fields: TrackedField[];
+}
+
+export interface PackageDiff {
+  added: Package[];
+  removed: Package[];
+  changed: PackageChange[];
+}
+
+export function diffPackages(before: readonly Package[], after: readonly Package[]): PackageDiff {
+  const beforeByKey = new Map(before.map((p) => [packageKey(p), p]));
+  const afterByKey = new Map(after.map((p) => [packageKey(p), p]));
+
+  const added = after.filter((p) => !beforeByKey.has(packageKey(p)));
+  const removed = before.filter((p) => !afterByKey.has(packageKey(p)));
+  const changed: PackageChange[] = [];
+  for (const next of after) {
+    const prev = beforeByKey.get(packageKey(next));
+    if (!prev) continue;
+    const fields = TRACKED_FIELDS.filter((f) => JSON.stringify(prev[f]) !== JSON.stringify(next[f]));
+    if (fields.length > 0) changed.push({ before: prev, after: next, fields });
+  }
+
+  return { added, removed, changed };
+}
+
+export function isEmptyDiff(diff: PackageDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+export interface RefreshOutcome {
+  /** False when discovery failed entirely and the registry was left untouched. */
+  updated: boolean;
+  diff: PackageDiff;
+  failedRepos: string[];
+  durationMs: number;
+}
+
+/**
+ * Re-discover packages and atomically swap them into the registry. Packages from repos that
+ * failed to list are carried over from the current registry rather than reported as removed.
+ * A code index, if given, starts updating afterwards, in the background.
+ */
+export async function refreshRegistry(
+  registry: PackageRegistry,
+  cache?: DiskCache,
+  codeIndex?: CodeIndex,
+): Promise<RefreshOutcome> {
+  const startTime = Date.now();
+  const { packages, failedRepos, requests } = await discoverPackages();
+  const previous = registry.all;
+
+  if (packages.length === 0) {
+    logger.warn("refresh", "Discovery returned no packages, keeping current registry", { failedRepos, requests });
+    const diff: PackageDiff = { added: [], removed: [], changed: [] };
+    return { updated: false, diff, failedRepos, durationMs: Date.now() - startTime };
+  }
+
+  const failedLanguages = getRepos()
+    .filter((r) => failedRepos.includes(r.slug))
+    .map((r) => r.language);
+  const carriedOver = previous.filter((p) =>
+    p.repoSlug ? failedRepos.includes(p.repoSlug) : failedLanguages.includes(p.language),
+  );
+  const next = sortPackages([...packages, ...carriedOver]);
+  const diff = diffPackages(previous, next);
+
+  if (!isEmptyDiff(diff) || registry.staleAsOf !== undefined) {
+    registry.load(next);
+  }
+  await saveSnapshot(cache, next);
+
+  const durationMs = Date.now() - startTime;
+  if (isEmptyDiff(diff)) {
+    logger.info("refresh", "Registry unchanged", { count: next.length, durationMs, requests });
+  } else {
+    logger.info("refresh", "Registry updated", {
+      count: next.length,
+      added: diff.added.map((p) => p.name),
+      removed: diff.removed.map((p) => p.name),
+      changed: diff.changed.map((c) => `${c.after.name} (${c.fields.join(", ")})`),
+      durationMs,
+      requests,
+    });
+  }
+
+  // Not awaited: a build still running since startup can take minutes, and callers only wait for discovery
+  codeIndex
+    ?.update(getRepos())
+    .catch((e) => logger.warn("code-index", "Code index update failed", { error: String(e) }));
+  return { updated: true, diff, failedRepos, durationMs };
+}
+
+export interface BackgroundRefresh {
+  stop(): void;
+}
+
+/** Re-discover packages every `intervalMs`. Runs never overlap; the timer does not keep the process alive. */
+export function startBackgroundRefresh(
+  registry: PackageRegistry,
+  intervalMs: number,
+  cache?: DiskCache,
+  codeIndex?: CodeIndex,
+): BackgroundRefresh {
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    refreshRegistry(registry, cache, codeIndex)
+      .catch((e) => logger.warn("refresh", "Background refresh failed", { error: String(e) }))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+  timer.unref();
+  return { stop: () => clearInterval(timer) };
+}
+
+/** Minimum time between on-demand refreshes, so clients cannot burn through the GitHub rate limit. */
+export const MANUAL_REFRESH_COOLDOWN_MS = 5 * 60 * 1000;
+
+export type ManualRefreshResult = { outcome: RefreshOutcome } | { retryAfterMs: number };
+
+export interface ManualRefresh {
+  /**
+   * Refresh now, unless the last refresh finished less than the cooldown ago. Concurrent callers
+   * share the refresh that is already in flight.
+   */
+  run(): Promise<ManualRefreshResult>;
+}
+
+export function createManualRefresh(
+  registry: PackageRegistry,
+  cache?: DiskCache,
+  cooldownMs = MANUAL_REFRESH_COOLDOWN_MS,
+  codeIndex?: CodeIndex,
+): ManualRefresh {
+  let inFlight: Promise<ManualRefreshResult> | undefined;
+  let lastFinishedAt: number | undefined;
+
+  return {
+    run() {
+      if (inFlight) return inFlight;
+      if (lastFinishedAt !== undefined) {
+        const retryAfterMs = lastFinishedAt + cooldownMs - Date.now();
+        if (retryAfterMs > 0) return Promise.resolve({ retryAfterMs });
+      }
+      inFlight = refreshRegistry(registry, cache, codeIndex)
+        .then((outcome) => ({ outcome }))
+        .finally(() => {
+          lastFinishedAt = Date.now();
+          inFlight = undefined;
+        });
+      return inFlight;
+    },
+  };
+}
+
+function describePackage(p: Package): string {
+  const ver = p.version ? ` v${p.version}` : "";
+  return `**${p.name}**${ver} (${p.language}, ${p.category})`;
+}
+
+function describeChange(change: PackageChange): string {
+  const parts = change.fields.map((field) => {
+    const before = change.before[field];
+    const after = change.after[field];
+    if (field === "zkKitDependencies") {
+      const prev = change.before.zkKitDependencies;
+      const next = change.after.zkKitDependencies;
+      const added = next.filter((d) => !prev.includes(d));
+      const removed = prev.filter((d) => !next.includes(d));
+      return `dependencies${added.length ? ` +${added.join(", +")}` : ""}${removed.length ? ` -${removed.join(", -")}` : ""}`;
+    }
+    if (field === "description") return `description: "${before || ""}" -> "${after || ""}"`;
+    return `${field}: ${before ?? "(none)"} -> ${after ?? "(none)"}`;
+  });
+  return `- **${change.after.name}** (${change.after.language}): ${parts.join("; ")}`;
+}
+
+/** Markdown summary of a refresh: what was added, removed and changed. */
+export function formatRefreshOutcome(outcome: RefreshOutcome, packageCount: number): string {
+  const seconds = (outcome.durationMs / 1000).toFixed(1);
+  const lines: string[] = [];
+
+  if (!outcome.updated) {
+    lines.push(
+      `Discovery returned no packages in ${seconds}s, so the current ${packageCount} packages were kept. GitHub may be unreachable or rate-limited.`,
+    );
+  } else if (isEmptyDiff(outcome.diff)) {
+    lines.push(`No changes. ${packageCount} packages re-discovered in ${seconds}s.`);
+  } else {
+    const { added, removed, changed } = outcome.diff;
+    lines.push(`## Registry refreshed\n\n${packageCount} packages re-discovered in ${seconds}s.`);
+    if (added.length > 0) {
+      lines.push(`### Added (${added.length})\n\n${added.map((p) => `- ${describePackage(p)}`).join("\n")}`);
+    }
+    if (removed.length > 0) {
+      lines.push(`### Removed (${removed.length})\n\n${removed.map((p) => `- ${describePackage(p)}`).join("\n")}`);
+    }
+    if (changed.length > 0) {
+      lines.push(`### Changed (${changed.length})\n\n${changed.map(describeChange).join("\n")}`);
+    }
+  }
+
+  if (outcome.failedRepos.length > 0) {
+    lines.push(
+      `**Warning:** could not list ${outcome.failedRepos.join(", ")}. Packages from these repos were kept as they were.`,
+    );
+  }
+  return lines.join("\n\n");
+}
@@ -1,11 +1,172 @@
-import { REPOS } from "./config.js";
+import { getConcepts, getRepos } from "./config.js";
+import { logger } from "./logger.js";
+import { type Concept, conceptOf, conceptsInQuery, findConcept } from "./taxonomy.js";
 import type { Category, Language, Package, RepoConfig } from "./types.js";
 
+/** A package whose name is close to a looked-up name. */
+export interface PackageMatch {
+  pkg: Package;
+  /** How close the names are, from 0 (unrelated) to 1 (same name). */
+  confidence: number;
+}
+
+/** Packages named in a comparison, the names that matched none, and other variants of their concepts. */
+export interface PackageComparison {
+  packages: Package[];
+  notFound: string[];
+  /** Packages of the same concepts in other languages, not named in the comparison. */
+  variants: Package[];
+}
+
+/** Languages a concept is implemented in, and its directory names with the languages using each. */
+export interface ConceptCoverage {
+  concept: string;
+  languages: Language[];
+  dirNames: Record<string, Language[]>;
+}
+
+/** Internal dependencies of a concept, by cross-language ID. */
+export interface ConceptDependencies {
+  concept: string;
+  /** Languages with a package of the concept, empty for dependencies missing from the registry. */
+  languages: Language[];
+  dependsOn: string[];
+  dependedOnBy: string[];
+}
+
+/** Matches below this confidence are not worth suggesting. */
+const MIN_SUGGEST_CONFIDENCE = 0.5;
+/** Query tokens less similar than this to every name token count as unmatched. */
+const MIN_TOKEN_SIMILARITY = 0.75;
+
+/** Lowercase, `_` as `-`, without an npm scope: the form names are compared in. */
+function normalizeName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/_/g, "-")
+    .replace(/^@[^/]+\//, "");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 1 minus the edit distance relative to the longer string. */
+function editSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+/**
+ * Similarity of a normalized query to a normalized name, from 0 to 1: the best of their edit
+ * similarity (typos), containment (prefixes and partial names) and token overlap (reordered or
+ * partial words, each word allowing typos).
+ */
+export function nameSimilarity(query: string, name: string): number {
+  if (query === name) return 1;
+  const edit = editSimilarity(query, name);
+  const contained = query.length >= 3 && name.includes(query) ? 0.5 + (0.5 * query.length) / name.length : 0;
+
+  const queryTokens = query.split(/[\s./-]+/).filter(Boolean);
+  const nameTokens = name.split(/[\s./-]+/).filter(Boolean);
+  let matched = 0;
+  for (const q of queryTokens) {
+    const best = Math.max(0, ...nameTokens.map((t) => editSimilarity(q, t)));
+    if (best >= MIN_TOKEN_SIMILARITY) matched += best;
+  }
+  // Slightly below an exact match, so that the names themselves rank first
+  const tokens = (0.95 * matched) / Math.max(queryTokens.length, nameTokens.length, 1);
+
+  return Math.min(0.99, Math.max(edit, contained, tokens));
+}
+
+/**
+ * Identity of a package across repos: its repo slug, language and directory. A fork's packages
+ * share language, directory and name with upstream, so caches and diffs key on this instead.
+ */
+export function packageKey(pkg: Package): string {
+  return pkg.repoSlug ? `${pkg.repoSlug}/${pkg.language}/${pkg.dirName}` : `${pkg.language}/${pkg.dirName}`;
+}
+
+/** Splits `owner/repo:name`, the form that picks a package from one repo. */
+const QUALIFIED_NAME = /^([^\s/:]+\/[^\s/:]+):(.+)$/;
+
+function findByName(packages: readonly Package[], name: string): Package | undefined {
+  const lower = name.toLowerCase();
+
+  // Exact match
+  const exact = packages.find((p) => p.name.toLowerCase() === lower);
+  if (exact) return exact;
+
+  // Match without scope prefix (e.g., "lean-imt" matches "@zk-kit/lean-imt")
+  const stripped = packages.find((p) => p.name.toLowerCase().replace(/^@zk-kit\//, "") === lower);
+  if (stripped) return stripped;
+
+  // Match by dirName
+  const byDir = packages.find((p) => p.dirName.toLowerCase() === lower);
+  if (byDir) return byDir;
+
+  // Normalized match: _ -> -, strip zk-kit- prefix (handles Noir/Rust naming)
+  const normalized = lower.replace(/_/g, "-");
+  const withoutPrefix = normalized.replace(/^zk-kit-/, "");
+  if (normalized !== lower || withoutPrefix !== normalized) {
+    const byNormalized = packages.find(
+      (p) => p.dirName.toLowerCase() === withoutPrefix || p.dirName.toLowerCase() === normalized,
+    );
+    if (byNormalized) return byNormalized;
+  }
+
+  return undefined;
+}
+
 export class PackageRegistry {
   private packages: Package[] = [];
+  private snapshotStaleAsOf: number | undefined;
+  private listeners = new Set<() => void>();
 
-  load(packages: Package[]): void {
+  /** Load packages. Pass `staleAsOf` when they come from an outdated snapshot rather than live discovery. */
+  load(packages: Package[], staleAsOf?: number): void {
     this.packages = packages;
+    this.snapshotStaleAsOf = staleAsOf;
+    this.warnDuplicateNames();
+    for (const listener of this.listeners) listener();
+  }
+
+  /** Names shared by packages of several repos resolve to the first; say how to reach the others. */
+  private warnDuplicateNames(): void {
+    const slugsByName = new Map<string, string[]>();
+    for (const pkg of this.packages) {
+      const key = `${pkg.language}:${pkg.name}`;
+      slugsByName.set(key, [...(slugsByName.get(key) ?? []), this.getRepoForPackage(pkg)?.slug ?? pkg.language]);
+    }
+    const duplicates = [...slugsByName].filter(([, slugs]) => slugs.length > 1);
+    if (duplicates.length === 0) return;
+    logger.warn(
+      "registry",
+      "Package names shared by several repos resolve to the first; qualify them as owner/repo:name",
+      {
+        names: duplicates.map(([key, slugs]) => `${key.slice(key.indexOf(":") + 1)} (${slugs.join(", ")})`),
+      },
+    );
+  }
+
+  /** Subscribe to package list replacements. Returns an unsubscribe function. */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  get staleAsOf(): number | undefined {
+    return this.snapshotStaleAsOf;
   }
 
   get all(): readonly Package[] {
@@ -16,45 +177,69 @@ export class PackageRegistry {
     return this.packages.length;
   }
 
+  /**
+   * Package by name, scoped name, directory name or Noir/Rust-style name. Prefix the name with a
+   * repo slug, `owner/repo:name`, to pick the package from that repo; otherwise the first
+   * configured repo with a match wins, so upstream shadows forks listed after it.
+   */
   getByName(name: string): Package | undefined {
-    const lower = name.toLowerCase();
-
-    // Exact match
-    const exact = this.packages.find((p) => p.name.toLowerCase() === lower);
-    if (exact) return exact;
-
-    // Match without scope prefix (e.g., "lean-imt" matches "@zk-kit/lean-imt")
-    const stripped = this.packages.find((p) => p.name.toLowerCase().replace(/^@zk-kit\//, "") === lower);
-    if (stripped) return stripped;
-
-    // Match by dirName
-    const byDir = this.packages.find((p) => p.dirName.toLowerCase() === lower);
-    if (byDir) return byDir;
-
-    // Normalized match: _ -> -, strip zk-kit- prefix (handles Noir/Rust naming)
-    const normalized = lower.replace(/_/g, "-");
-    const withoutPrefix = normalized.replace(/^zk-kit-/, "");
-    if (normalized !== lower || withoutPrefix !== normalized) {
-      const byNormalized = this.packages.find(
-        (p) => p.dirName.toLowerCase() === withoutPrefix || p.dirName.toLowerCase() === normalized,
-      );
-      if (byNormalized) return byNormalized;
+    const qualified = QUALIFIED_NAME.exec(name.trim());
+    if (qualified) {
+      const slug = qualified[1].toLowerCase();
+      const inRepo = this.packages.filter((p) => this.getRepoForPackage(p)?.slug.toLowerCase() === slug);
+      return findByName(inRepo, qualified[2]);
     }
+    return findByName(this.packages, name);
+  }
 
-    return undefined;
+  /** Packages in other repos with the same name and language as `pkg`, e.g. the same package in a fork. */
+  getDuplicates(pkg: Package): Package[] {
+    return this.packages.filter((p) => p !== pkg && p.name === pkg.name && p.language === pkg.language);
   }
 
-  suggest(name: string, limit: number = 5): Package[] {
-    const terms = name.toLowerCase().split(/\s+/).filter(Boolean);
-    return this.packages
-      .filter((p) => {
-        const nameLower = p.name.toLowerCase();
-        const dirLower = p.dirName.toLowerCase();
-        return terms.every((term) => nameLower.includes(term) || dirLower.includes(term));
-      })
+  /**
+   * Packages whose name or directory is close to `name`, tolerating typos, partial names and
+   * reordered words, best first. Each name a package can be looked up by is scored, and credited
+   * to the package {@link getByName} resolves it to, so `lean-imtt` ranks `@zk-kit/lean-imt` above
+   * `@zk-kit/lean-imt.sol`, which shares its directory.
+   */
+  match(name: string, limit: number = 5): PackageMatch[] {
+    const query = normalizeName(name);
+    if (!query) return [];
+    const best = new Map<Package, number>();
+    for (const p of this.packages) {
+      for (const key of new Set([p.name, p.dirName])) {
+        const pkg = this.getByName(key) ?? p;
+        const confidence = nameSimilarity(query, normalizeName(key));
+        if (confidence > (best.get(pkg) ?? 0)) best.set(pkg, confidence);
+      }
+    }
+    return [...best]
+      .filter(([, confidence]) => confidence >= MIN_SUGGEST_CONFIDENCE)
+      .map(([pkg, confidence]) => ({ pkg, confidence: Math.round(confidence * 100) / 100 }))
+      .sort((a, b) => b.confidence - a.confidence)
       .slice(0, limit);
   }
 
+  suggest(name: string, limit: number = 5): Package[] {
+    return this.match(name, limit).map((m) => m.pkg);
+  }
+
+  /** The taxonomy concept of a package, if it belongs to one. */
+  conceptOf(pkg: Package): Concept | undefined {
+    return conceptOf(getConcepts(), pkg);
+  }
+
+  /** Id packages are grouped by across languages: their concept's, or their own cross-language ID. */
+  private conceptId(pkg: Package): string {
+    return this.conceptOf(pkg)?.id ?? pkg.crossLanguageId;
+  }
+
+  /**
+   * Search by keywords, matched against names, directories, descriptions and concept aliases.
+   * Concepts named in the query, like `sparse merkle tree`, match every package of the concept.
+   * A category matches a package's own category or any category of its concept.
+   */
   search(query?: string, language?: Language, category?: Category): Package[] {
     let results = [...this.packages];
 
@@ -62,25 +247,35 @@ export class PackageRegistry {
       results = results.filter((p) => p.language === language);
     }
     if (category) {
-      results = results.filter((p) => p.category === category);
+      results = results.filter((p) => p.category === category || this.conceptOf(p)?.categories.includes(category));
     }
     if (query) {
       const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+      const named = conceptsInQuery(getConcepts(), query);
+      const rest = named.rest.split(/\s+/).filter(Boolean);
       results = results
         .map((p) => {
           const nameLower = p.name.toLowerCase();
           const dirLower = p.dirName.toLowerCase();
           const descLower = p.description.toLowerCase();
-          let score = 0;
-          for (const term of terms) {
-            const termScore =
-              (nameLower.includes(term) ? 3 : 0) +
-              (dirLower.includes(term) ? 2 : 0) +
-              (descLower.includes(term) ? 1 : 0);
-            if (termScore === 0) return { pkg: p, score: 0 }; // all terms must match somewhere
-            score += termScore;
-          }
-          return { pkg: p, score };
+          const concept = this.conceptOf(p);
+          const conceptLower = concept ? [concept.label, ...concept.aliases].join(" ").toLowerCase() : "";
+          // Sum of term scores, or 0 unless every term matches somewhere
+          const scoreTerms = (words: string[], base: number) => {
+            let score = base;
+            for (const term of words) {
+              const termScore =
+                (nameLower.includes(term) ? 3 : 0) +
+                (dirLower.includes(term) ? 2 : 0) +
+                (descLower.includes(term) ? 1 : 0) +
+                (conceptLower.includes(term) ? 1 : 0);
+              if (termScore === 0) return 0;
+              score += termScore;
+            }
+            return score;
+          };
+          const byConcept = concept && named.concepts.includes(concept) ? scoreTerms(rest, 5) : 0;
+          return { pkg: p, score: Math.max(scoreTerms(terms, 0), byConcept) };
         })
         .filter((r) => r.score > 0)
         .sort((a, b) => b.score - a.score)
@@ -90,12 +285,15 @@ export class PackageRegistry {
     return results;
   }
 
-  compare(names: string[]): string {
+  /** Resolve package names and concept aliases for a comparison. */
+  resolveComparison(names: string[]): PackageComparison {
     const found: Package[] = [];
     const notFound: string[] = [];
 
     for (const name of names) {
-      const pkg = this.getByName(name);
+      // A concept alias, like `sparse merkle tree`, stands for the first package of the concept
+      const concept = findConcept(getConcepts(), name);
+      const pkg = this.getByName(name) ?? (concept && this.packages.find((p) => this.conceptId(p) === concept.id));
       if (pkg) {
         found.push(pkg);
       } else {
@@ -103,6 +301,15 @@ export class PackageRegistry {
       }
     }
 
+    const crossIds = [...new Set(found.map((p) => this.conceptId(p)))];
+    const variants = this.packages.filter(
+      (p) => crossIds.includes(this.conceptId(p)) && !found.some((f) => f.name === p.name),
+    );
+    return { packages: found, notFound, variants };
+  }
+
+  compare(names: string[]): string {
+    const { packages: found, notFound, variants } = this.resolveComparison(names);
     if (found.length === 0) {
       return `No packages found for: ${names.join(", ")}`;
     }
@@ -115,6 +322,12 @@ export class PackageRegistry {
     md += `| Description | ${found.map((p) => p.description || "-").join(" | ")} |\n`;
     md += `| Install | ${found.map((p) => `\`${p.installCommand}\``).join(" | ")} |\n`;
     md += `| Cross-lang ID | ${found.map((p) => p.crossLanguageId).join(" | ")} |\n`;
+    md += `| Concept | ${found
+      .map((p) => {
+        const concept = this.conceptOf(p);
+        return concept ? `${concept.label} (${concept.categories.join(", ")})` : "-";
+      })
+      .join(" | ")} |\n`;
     md += `| Repo | ${found.map((p) => p.repo).join(" | ")} |\n`;
 
     if (notFound.length > 0) {
@@ -122,10 +335,6 @@ export class PackageRegistry {
     }
 
     // Cross-language variants
-    const crossIds = [...new Set(found.map((p) => p.crossLanguageId))];
-    const variants = this.packages.filter(
-      (p) => crossIds.includes(p.crossLanguageId) && !found.some((f) => f.name === p.name),
-    );
     if (variants.length > 0) {
       md += "\n\n**Other language variants:**\n";
       for (const v of variants) {
@@ -168,37 +377,60 @@ export class PackageRegistry {
     }
 
     // Cross-language summary
-    const crossLangGroups = new Map<string, Package[]>();
-    for (const pkg of this.packages) {
-      const list = crossLangGroups.get(pkg.crossLanguageId) || [];
-      list.push(pkg);
-      crossLangGroups.set(pkg.crossLanguageId, list);
-    }
-    const multiLang = [...crossLangGroups.entries()].filter(([, pkgs]) => pkgs.length > 1);
+    const multiLang = this.getCrossLanguageGroups();
     if (multiLang.length > 0) {
       md += `## Cross-Language Packages\n\n`;
-      for (const [id, pkgs] of multiLang) {
-        md += `- **${id}**: ${pkgs.map((p) => `${p.language}`).join(", ")}\n`;
+      for (const { concept, packages } of multiLang) {
+        md += `- **${concept}**: ${packages.map((p) => `${p.language}`).join(", ")}\n`;
       }
     }
 
     return md;
   }
 
+  /** Concepts with more than one package, with their packages in registry order. */
+  getCrossLanguageGroups(): { concept: string; packages: Package[] }[] {
+    const groups = new Map<string, Package[]>();
+    for (const pkg of this.packages) {
+      const id = this.conceptId(pkg);
+      groups.set(id, [...(groups.get(id) ?? []), pkg]);
+    }
+    return [...groups]
+      .filter(([, packages]) => packages.length > 1)
+      .map(([concept, packages]) => ({ concept, packages }));
+  }
+
   getRepoForLanguage(language: Language): RepoConfig | undefined {
-    return REPOS.find((r) => r.language === language);
+    return getRepos().find((r) => r.language === language);
   }
 
-  getCrossLanguageCoverage(): string {
+  /** Repo a package was discovered in, falling back to the first repo for its language. */
+  getRepoForPackage(pkg: Package): RepoConfig | undefined {
+    const repos = getRepos();
+    const bySlug = pkg.repoSlug ? repos.find((r) => r.slug === pkg.repoSlug) : undefined;
+    return bySlug ?? repos.find((r) => r.language === pkg.language);
+  }
+
+  /** Languages of each concept, sorted by concept, and every language with packages, sorted. */
+  getCoverageMatrix(): { languages: Language[]; concepts: ConceptCoverage[] } {
     const languages = [...new Set(this.packages.map((p) => p.language))].sort();
-    const conceptMap = new Map<string, Set<string>>();
+    const byConcept = new Map<string, ConceptCoverage>();
     for (const pkg of this.packages) {
-      const set = conceptMap.get(pkg.crossLanguageId) || new Set();
-      set.add(pkg.language);
-      conceptMap.set(pkg.crossLanguageId, set);
+      const id = this.conceptId(pkg);
+      const coverage = byConcept.get(id) ?? { concept: id, languages: [], dirNames: {} };
+      if (!coverage.languages.includes(pkg.language)) coverage.languages.push(pkg.language);
+      // Directory names per concept, to show variants linked by an alias
+      coverage.dirNames[pkg.dirName] = [...(coverage.dirNames[pkg.dirName] ?? []), pkg.language];
+      byConcept.set(id, coverage);
     }
+    const concepts = [...byConcept.values()].sort((a, b) =>
+      a.concept < b.concept ? -1 : a.concept > b.concept ? 1 : 0,
+    );
+    return { languages, concepts };
+  }
 
-    const concepts = [...conceptMap.keys()].sort();
+  getCrossLanguageCoverage(): string {
+    const { languages, concepts } = this.getCoverageMatrix();
     if (concepts.length === 0) return "No packages available.";
 
     // Build markdown table
@@ -208,11 +440,10 @@ export class PackageRegistry {
 
     let gapCount = 0;
     const totalSlots = concepts.length * languages.length;
-    for (const concept of concepts) {
-      const langs = conceptMap.get(concept)!;
-      const cells = languages.map((l) => (langs.has(l) ? "yes" : "-"));
-      md += `| ${concept} | ${cells.join(" | ")} |\n`;
-      gapCount += languages.length - langs.size;
+    for (const c of concepts) {
+      const cells = languages.map((l) => (c.languages.includes(l) ? "yes" : "-"));
+      md += `| ${c.concept} | ${cells.join(" | ")} |\n`;
+      gapCount += languages.length - c.languages.length;
     }
 
     md += `\n**${concepts.length} concepts** across **${languages.length} languages** - `;
@@ -220,20 +451,30 @@ export class PackageRegistry {
     md += `**${coverage}% coverage** (${totalSlots - gapCount}/${totalSlots} slots filled)\n`;
 
     // Highlight multi-language concepts
-    const multiLang = concepts.filter((c) => conceptMap.get(c)!.size > 1);
+    const multiLang = concepts.filter((c) => c.languages.length > 1);
     if (multiLang.length > 0) {
       md += `\n## Multi-Language Concepts\n`;
       for (const c of multiLang) {
-        md += `- **${c}**: ${[...conceptMap.get(c)!].join(", ")}\n`;
+        md += `- **${c.concept}**: ${c.languages.join(", ")}\n`;
+      }
+    }
+
+    // Variants named differently across repos, grouped by the taxonomy
+    const linked = concepts.filter((c) => Object.keys(c.dirNames).length > 1);
+    if (linked.length > 0) {
+      md += `\n## Linked by Alias\n`;
+      for (const c of linked) {
+        const dirs = Object.entries(c.dirNames).map(([dir, langs]) => `\`${dir}\` (${langs.join(", ")})`);
+        md += `- **${c.concept}**: ${dirs.join(", ")}\n`;
       }
     }
 
     // Highlight single-language concepts (gaps)
-    const singleLang = concepts.filter((c) => conceptMap.get(c)!.size === 1);
+    const singleLang = concepts.filter((c) => c.languages.length === 1);
     if (singleLang.length > 0) {
       md += `\n## Single-Language Only (potential gaps)\n`;
       for (const c of singleLang) {
-        md += `- **${c}**: ${[...conceptMap.get(c)!].join(", ")} only\n`;
+        md += `- **${c.concept}**: ${c.languages.join(", ")} only\n`;
       }
     }
 
@@ -290,76 +531,70 @@ export class PackageRegistry {
     return md;
   }
 
-  getDependencyGraph(): string {
-    if (this.packages.length === 0) return "No packages available.";
-
-    // Build concept-level dependency maps
-    const dependsOn = new Map<string, Set<string>>(); // concept -> concepts it depends on
-    const dependedBy = new Map<string, Set<string>>(); // concept -> concepts that depend on it
-    const allConcepts = new Set<string>();
+  /** Concept-level internal dependencies, sorted by concept, including dependencies missing from the registry. */
+  getConceptDependencies(): ConceptDependencies[] {
+    const nodes = new Map<string, ConceptDependencies>();
+    const node = (concept: string) => {
+      let n = nodes.get(concept);
+      if (!n) {
+        n = { concept, languages: [], dependsOn: [], dependedOnBy: [] };
+        nodes.set(concept, n);
+      }
+      return n;
+    };
 
     for (const pkg of this.packages) {
       const id = pkg.crossLanguageId;
-      allConcepts.add(id);
-      if (!dependsOn.has(id)) dependsOn.set(id, new Set());
-
+      const n = node(id);
+      if (!n.languages.includes(pkg.language)) n.languages.push(pkg.language);
       for (const dep of pkg.zkKitDependencies) {
-        dependsOn.get(id)!.add(dep);
-        if (!dependedBy.has(dep)) dependedBy.set(dep, new Set());
-        dependedBy.get(dep)!.add(id);
-        allConcepts.add(dep);
+        if (!n.dependsOn.includes(dep)) n.dependsOn.push(dep);
+        const d = node(dep);
+        if (!d.dependedOnBy.includes(id)) d.dependedOnBy.push(id);
       }
     }
 
-    // Classify concepts
-    const foundational: string[] = []; // depended on by others
-    const leaf: string[] = []; // depends on others but not depended on
-    const independent: string[] = []; // no internal deps in either direction
+    return [...nodes.values()]
+      .map((n) => ({ ...n, dependsOn: n.dependsOn.sort(), dependedOnBy: n.dependedOnBy.sort() }))
+      .sort((a, b) => (a.concept < b.concept ? -1 : a.concept > b.concept ? 1 : 0));
+  }
 
-    for (const concept of [...allConcepts].sort()) {
-      const deps = dependsOn.get(concept)?.size ?? 0;
-      const usedBy = dependedBy.get(concept)?.size ?? 0;
+  getDependencyGraph(): string {
+    if (this.packages.length === 0) return "No packages available.";
 
-      if (usedBy > 0) {
-        foundational.push(concept);
-      } else if (deps > 0) {
-        leaf.push(concept);
-      } else {
-        independent.push(concept);
-      }
-    }
+    const nodes = this.getConceptDependencies();
+    // Foundational concepts are depended on by others, leaves depend on others but are not
+    // depended on, and independent ones have no internal deps in either direction
+    const foundational = nodes.filter((n) => n.dependedOnBy.length > 0);
+    const leaf = nodes.filter((n) => n.dependedOnBy.length === 0 && n.dependsOn.length > 0);
+    const independent = nodes.filter((n) => n.dependedOnBy.length === 0 && n.dependsOn.length === 0);
 
     let md = `# ZK-Kit Internal Dependency Graph\n\n`;
 
     // Summary stats
-    const totalDeps = [...dependsOn.values()].reduce((sum, s) => sum + s.size, 0);
-    md += `**${allConcepts.size} concepts**, **${totalDeps} internal dependencies**\n\n`;
+    const totalDeps = nodes.reduce((sum, n) => sum + n.dependsOn.length, 0);
+    md += `**${nodes.length} concepts**, **${totalDeps} internal dependencies**\n\n`;
 
     if (foundational.length > 0) {
       md += `## Foundational Packages\n\nDepended on by other ZK-Kit packages:\n\n`;
-      for (const c of foundational) {
-        const usedBy = [...(dependedBy.get(c) ?? [])].sort();
-        const languages = [...new Set(this.packages.filter((p) => p.crossLanguageId === c).map((p) => p.language))];
-        md += `- **${c}** (${languages.join(", ")}): used by ${usedBy.join(", ")}\n`;
+      for (const n of foundational) {
+        md += `- **${n.concept}** (${n.languages.join(", ")}): used by ${n.dependedOnBy.join(", ")}\n`;
       }
       md += "\n";
     }
 
     if (leaf.length > 0) {
       md += `## Leaf Packages\n\nDepend on other ZK-Kit packages but are not depended on:\n\n`;
-      for (const c of leaf) {
-        const deps = [...(dependsOn.get(c) ?? [])].sort();
-        const languages = [...new Set(this.packages.filter((p) => p.crossLanguageId === c).map((p) => p.language))];
-        md += `- **${c}** (${languages.join(", ")}): depends on ${deps.join(", ")}\n`;
+      for (const n of leaf) {
+        md += `- **${n.concept}** (${n.languages.join(", ")}): depends on ${n.dependsOn.join(", ")}\n`;
       }
       md += "\n";
     }
 
     if (independent.length > 0) {
       md += `## Independent Packages\n\nNo internal ZK-Kit dependencies:\n\n`;
-      for (const c of independent) {
-        const languages = [...new Set(this.packages.filter((p) => p.crossLanguageId === c).map((p) => p.language))];
-        md += `- **${c}** (${languages.join(", ")})\n`;
+      for (const n of independent) {
+        md += `- **${n.concept}** (${n.languages.join(", ")})\n`;
       }
     }
 
@@ -0,0 +1,369 @@
+import { posix } from "node:path";
+import { collapse, indexOfTopLevel, type ScanOptions, splitList, splitStatements, withBody } from "./source-scanner.js";
+import type { ApiMember, ApiSymbol, PackageApi, SourceReader } from "./types.js";
+
+/** Max module files read, to bound requests for one package. */
+const MAX_FILE_READS = 60;
+
+export const SCAN_OPTIONS: ScanOptions = {
+  docPrefixes: ["///", "/**"],
+  lifetimes: true,
+  anyBraceOpensBody: true,
+};
+
+/** Outer and inner attributes before an item, e.g. `#[derive(Debug)]` or `#![no_std]`. */
+const ATTRIBUTES = /^(?:#!?\[(?:[^[\]]|\[[^\]]*\])*\]\s*)+/;
+/** `pub`, or a restricted visibility like `pub(crate)` that keeps the item out of the public API. */
+const VISIBILITY = /^pub(\s*\([^)]*\))?\s+/;
+
+const MOD = /^mod\s+([\w$]+)$/;
+const USE = /^use\s+([\s\S]+)$/;
+const FN = /^(?:(?:const|async|unsafe|extern\s+"[^"]*"|unconstrained|comptime)\s+)*fn\s+([\w$]+)/;
+const STRUCT = /^(?:struct|union)\s+([\w$]+)/;
+const ENUM = /^enum\s+([\w$]+)/;
+const TRAIT = /^(?:unsafe\s+)?trait\s+([\w$]+)/;
+const TYPE = /^type\s+([\w$]+)/;
+const CONST = /^(?:const|static(?:\s+mut)?|(?:comptime\s+)?global)\s+([\w$]+)/;
+const IMPL = /^(?:unsafe\s+)?impl\b\s*/;
+const FIELD = /^(pub(?:\s*\([^)]*\))?\s+)?([\w$]+)\s*:\s*(.+?),?$/;
+
+type Language = "rust" | "noir";
+
+/** An item declared in a module: a symbol or a child module. */
+type Item = { public: boolean } & ({ symbol: ApiSymbol } | { module: Module });
+
+interface Module {
+  parent?: Module;
+  file: string;
+  /** Directory holding the files of child modules. */
+  dir: string;
+  items: Map<string, Item>;
+  /** `pub use` declarations. */
+  uses: UseItem[];
+}
+
+interface UseItem {
+  path: string[];
+  /** Name the item is re-exported under; undefined for `*` globs. */
+  name?: string;
+}
+
+interface Impl {
+  type: string;
+  trait?: string;
+  members: ApiMember[];
+}
+
+/** Expand a use tree like `a::{b, c::{d as e}, f::*}` into one path per imported name. */
+function expandUse(tree: string, prefix: string[] = []): UseItem[] {
+  const text = collapse(tree);
+  const brace = text.indexOf("{");
+  if (brace !== -1 && text.endsWith("}")) {
+    const base = text.slice(0, brace).replace(/::\s*$/, "");
+    const basePath = [...prefix, ...base.split("::").filter(Boolean)];
+    return splitList(text.slice(brace + 1, -1)).flatMap((part) => expandUse(part, basePath));
+  }
+  const alias = /^([\s\S]*?)\s+as\s+([\w$]+)$/.exec(text);
+  const path = [...prefix, ...(alias ? alias[1] : text).split("::").map((s) => s.trim())];
+  if (path.at(-1) === "*") return [{ path: path.slice(0, -1) }];
+  // `a::{self}` imports `a` itself
+  if (path.at(-1) === "self") path.pop();
+  const name = alias?.[2] ?? path.at(-1);
+  return name && name !== "_" ? [{ path, name }] : [];
+}
+
+/** Text after a leading `<...>` generic parameter list, e.g. in `impl<T: Hasher<N>> Tree<T>`. */
+function skipGenerics(text: string): string {
+  if (!text.startsWith("<")) return text;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "<") depth++;
+    else if (text[i] === ">" && text[i - 1] !== "-" && --depth === 0) return text.slice(i + 1).trim();
+  }
+  return "";
+}
+
+/** Type name of an impl target, e.g. `LeanIMT` for `crate::tree::LeanIMT<H>`. */
+function typeName(type: string): string | undefined {
+  return /^(?:[\w$]+::)*([\w$]+)/.exec(type.trim())?.[1];
+}
+
+/** Head without attributes, with `pub` split off. */
+function parseHead(raw: string): { head: string; rest: string; isPublic: boolean; attributes: string } {
+  const attributes = ATTRIBUTES.exec(raw)?.[0] ?? "";
+  const head = raw.slice(attributes.length).trim();
+  const visibility = VISIBILITY.exec(head);
+  return {
+    head,
+    rest: visibility ? head.slice(visibility[0].length) : head,
+    isPublic: !!visibility && !visibility[1],
+    attributes,
+  };
+}
+
+/** Function signature without the trailing comma a multi-line `where` clause may end with. */
+function fnSignature(head: string): string {
+  return collapse(head).replace(/,$/, "");
+}
+
+/** Declaration without its value, e.g. `pub const DEPTH: usize` for `pub const DEPTH: usize = 32`. */
+function withoutValue(head: string): string {
+  const assignment = indexOfTopLevel(head, "=");
+  return collapse(assignment === -1 ? head : head.slice(0, assignment));
+}
+
+/** Public fields of a struct body, one per line as rustfmt writes them. */
+function parseFields(body: string): ApiMember[] {
+  const fields: ApiMember[] = [];
+  let doc: string[] = [];
+  for (const line of body.split("\n").map((l) => l.trim())) {
+    if (line.startsWith("///")) {
+      doc.push(line.replace(/^\/\/\/ ?/, ""));
+      continue;
+    }
+    const field = FIELD.exec(line);
+    if (field?.[1] && !/\(/.test(field[1])) {
+      fields.push({
+        name: field[2],
+        kind: "property",
+        signature: `pub ${field[2]}: ${field[3].trim()}`,
+        ...(doc.length > 0 && { doc: doc.join("\n") }),
+      });
+    }
+    if (!line.startsWith("#") && !line.startsWith("//")) doc = [];
+  }
+  return fields;
+}
+
+/** Items of a trait body, all public through the trait. */
+function parseTraitItems(body: string): ApiMember[] {
+  return splitStatements(body, SCAN_OPTIONS).flatMap(({ head: raw, doc }) => {
+    const { head } = parseHead(raw);
+    const fn = FN.exec(head);
+    const name = fn?.[1] ?? /^(?:type|const)\s+([\w$]+)/.exec(head)?.[1];
+    if (!name) return [];
+    const signature = fn ? fnSignature(head) : withoutValue(head);
+    return [{ name, kind: fn ? "method" : "property", signature, ...(doc && { doc }) } as ApiMember];
+  });
+}
+
+/** Public methods and constants of an inherent impl block. */
+function parseImplItems(body: string): ApiMember[] {
+  return splitStatements(body, SCAN_OPTIONS).flatMap(({ head: raw, doc }) => {
+    const { head, rest, isPublic } = parseHead(raw);
+    if (!isPublic) return [];
+    const fn = FN.exec(rest);
+    const constant = CONST.exec(rest);
+    if (fn) return [{ name: fn[1], kind: "method", signature: fnSignature(head), ...(doc && { doc }) } as ApiMember];
+    if (constant) {
+      return [{ name: constant[1], kind: "property", signature: withoutValue(head), ...(doc && { doc }) } as ApiMember];
+    }
+    return [];
+  });
+}
+
+/** `impl Trait for Type` or `impl Type` blocks. */
+function parseImpl(rest: string, body: string): Impl | undefined {
+  const target = skipGenerics(collapse(rest).replace(IMPL, ""));
+  const where = indexOfTopLevel(target, " where ");
+  const declaration = where === -1 ? target : target.slice(0, where);
+  const forAt = indexOfTopLevel(declaration, " for ");
+  const type = typeName(forAt === -1 ? declaration : declaration.slice(forAt + 5));
+  if (!type) return undefined;
+  if (forAt !== -1) return { type, trait: collapse(declaration.slice(0, forAt)).replace(/^!/, ""), members: [] };
+  return { type, members: parseImplItems(body) };
+}
+
+/**
+ * Extract the public API of a Rust crate or Noir package: `pub` functions, structs, enums, traits,
+ * type aliases and constants, with the methods of their `impl` blocks and the traits they
+ * implement. `mod` declarations are followed across files and `pub use` re-exports are resolved,
+ * so each item is listed under the path users import it from.
+ */
+export async function extractRustApi(language: Language, entryFile: string, read: SourceReader): Promise<PackageApi> {
+  const extension = posix.extname(entryFile);
+  const files: string[] = [];
+  const unresolved: string[] = [];
+  const external = new Set<string>();
+  const impls: Impl[] = [];
+  const types = new Map<string, ApiSymbol>();
+  const pending: { module: Module; candidates: string[] }[] = [];
+
+  function parseModule(module: Module, src: string): void {
+    for (const { head: raw, body, doc } of splitStatements(src, SCAN_OPTIONS)) {
+      const { head, rest, isPublic, attributes } = parseHead(raw);
+      if (/#\[cfg\(test\)\]/.test(attributes)) continue;
+      const add = (name: string, symbol: Omit<ApiSymbol, "name" | "file">) => {
+        const full: ApiSymbol = { name, ...symbol, ...(doc && { doc }), file: module.file };
+        module.items.set(name, { public: isPublic, symbol: full });
+        if (full.kind === "struct" || full.kind === "enum") types.set(name, full);
+      };
+
+      const mod = MOD.exec(rest);
+      const use = USE.exec(rest);
+      const fn = FN.exec(rest);
+      const struct = STRUCT.exec(rest);
+      const enumeration = ENUM.exec(rest);
+      const trait = TRAIT.exec(rest);
+      const type = TYPE.exec(rest);
+      const constant = CONST.exec(rest);
+
+      if (mod) {
+        const name = mod[1];
+        const child: Module = {
+          parent: module,
+          file: module.file,
+          dir: posix.join(module.dir, name),
+          items: new Map(),
+          uses: [],
+        };
+        module.items.set(name, { public: isPublic, module: child });
+        if (body !== undefined) {
+          parseModule(child, body);
+        } else {
+          pending.push({
+            module: child,
+            candidates: [`${module.dir}/${name}${extension}`, `${module.dir}/${name}/mod${extension}`],
+          });
+        }
+      } else if (use) {
+        if (isPublic) module.uses.push(...expandUse(use[1]));
+      } else if (IMPL.test(rest) && body !== undefined) {
+        const impl = parseImpl(rest, body);
+        if (impl) impls.push(impl);
+      } else if (fn) {
+        add(fn[1], { kind: "function", signature: fnSignature(head) });
+      } else if (struct) {
+        const fields = body !== undefined ? parseFields(body) : [];
+        add(struct[1], { kind: "struct", signature: collapse(head), members: fields });
+      } else if (enumeration) {
+        add(enumeration[1], { kind: "enum", signature: withBody(head, body) });
+      } else if (trait) {
+        add(trait[1], { kind: "trait", signature: collapse(head), members: parseTraitItems(body ?? "") });
+      } else if (type) {
+        add(type[1], { kind: "type", signature: collapse(head) });
+      } else if (constant) {
+        add(constant[1], { kind: "variable", signature: withoutValue(head) });
+      }
+    }
+  }
+
+  const root: Module = { file: entryFile, dir: posix.dirname(entryFile), items: new Map(), uses: [] };
+  const src = await read(entryFile);
+  if (src !== null) {
+    files.push(entryFile);
+    parseModule(root, src);
+  }
+
+  let reads = 1;
+  while (pending.length > 0 && reads < MAX_FILE_READS) {
+    const { module, candidates } = pending.shift() as (typeof pending)[number];
+    let content: string | null = null;
+    for (const candidate of candidates) {
+      reads++;
+      content = await read(candidate);
+      if (content !== null) {
+        module.file = candidate;
+        // Files other than `mod.rs` keep their child modules in a directory named after them
+        module.dir = candidate.endsWith(`/mod${extension}`)
+          ? posix.dirname(candidate)
+          : candidate.slice(0, -extension.length);
+        break;
+      }
+    }
+    if (content === null) unresolved.push(candidates[0]);
+    else {
+      files.push(module.file);
+      parseModule(module, content);
+    }
+  }
+  unresolved.push(...pending.map((p) => p.candidates[0]));
+
+  for (const impl of impls) {
+    const target = types.get(impl.type);
+    if (!target) continue;
+    if (impl.trait) {
+      if (!target.implements?.includes(impl.trait)) target.implements = [...(target.implements ?? []), impl.trait];
+    } else {
+      target.members = [...(target.members ?? []), ...impl.members];
+    }
+  }
+
+  // Exports of a module: its public items plus its resolved `pub use` re-exports
+  const exportCache = new Map<Module, Map<string, Item>>();
+
+  function resolvePath(from: Module, path: string[]): Item | undefined {
+    let current = from;
+    let i = 0;
+    if (path[0] === "crate") {
+      current = root;
+      i = 1;
+    } else if (path[0] === "self") {
+      i = 1;
+    } else if (path[0] !== "super" && !from.items.has(path[0])) {
+      // A dependency, e.g. `ark_ff::Field` or Noir's `dep::std`
+      external.add(path.join("::"));
+      return undefined;
+    }
+    for (; path[i] === "super"; i++) {
+      if (!current.parent) return undefined;
+      current = current.parent;
+    }
+    if (i === path.length) return { public: true, module: current };
+    for (; i < path.length; i++) {
+      const item = current.items.get(path[i]) ?? exportsOf(current).get(path[i]);
+      if (!item || i === path.length - 1) return item;
+      if (!("module" in item)) return undefined;
+      current = item.module;
+    }
+    return undefined;
+  }
+
+  function exportsOf(module: Module): Map<string, Item> {
+    const cached = exportCache.get(module);
+    if (cached) return cached;
+    const exports = new Map<string, Item>();
+    for (const [name, item] of module.items) if (item.public) exports.set(name, item);
+    // Cached before resolving re-exports, so cycles see the module's own items
+    exportCache.set(module, exports);
+
+    for (const use of module.uses) {
+      const target = resolvePath(module, use.path);
+      if (!target) continue;
+      if (use.name) exports.set(use.name, { ...target, public: true });
+      else if ("module" in target) {
+        for (const [name, item] of exportsOf(target.module)) if (!exports.has(name)) exports.set(name, item);
+      }
+    }
+    return exports;
+  }
+
+  // Breadth-first, so items re-exported at the root are listed under their shortest path
+  const symbols: ApiSymbol[] = [];
+  const listed = new Set<ApiSymbol>();
+  const visited = new Set<Module>([root]);
+  const queue: [Module, string[]][] = [[root, []]];
+  while (queue.length > 0) {
+    const [module, prefix] = queue.shift() as [Module, string[]];
+    for (const [name, item] of exportsOf(module)) {
+      if ("module" in item) {
+        if (!visited.has(item.module)) {
+          visited.add(item.module);
+          queue.push([item.module, [...prefix, name]]);
+        }
+      } else if (!listed.has(item.symbol)) {
+        listed.add(item.symbol);
+        symbols.push({ ...item.symbol, name: [...prefix, name].join("::") });
+      }
+    }
+  }
+
+  return {
+    language,
+    entryFile,
+    files,
+    symbols,
+    external: [...external],
+    unresolved,
+  };
+}
@@ -0,0 +1,400 @@
+import { collapse, indexOfTopLevel, type ScanOptions, splitList, splitStatements, withBody } from "./source-scanner.js";
+import type { AbiEntry, AbiParameter, ApiMember, ApiSymbol, PackageApi, SourceReader } from "./types.js";
+
+/** Max contract files read, to bound requests for one package. */
+const MAX_FILE_READS = 40;
+
+export const SCAN_OPTIONS: ScanOptions = {
+  // NatSpec comments
+  docPrefixes: ["///", "/**"],
+  // `import { A } from "./A.sol"` is a symbol list, not a body
+  nonBodyWords: new Set(["import"]),
+};
+
+const CONTRACT = /^(abstract\s+)?(contract|library|interface)\s+([\w$]+)(?:\s+is\s+([\s\S]+))?$/;
+const FUNCTION = /^function\s+([\w$]+)\s*\(/;
+const SPECIAL_FUNCTION = /^(constructor|receive|fallback)\s*\(/;
+const EVENT = /^event\s+([\w$]+)\s*\(/;
+const ERROR = /^error\s+([\w$]+)\s*\(/;
+const MODIFIER = /^modifier\s+([\w$]+)/;
+const STRUCT = /^struct\s+([\w$]+)$/;
+const ENUM = /^enum\s+([\w$]+)$/;
+const VALUE_TYPE = /^type\s+([\w$]+)\s+is\s+([\w$]+)$/;
+const SKIPPED = /^(?:pragma|import|using)\b/;
+/** Type, modifiers (`public`, `constant`, ...) and name of a state variable or file-level constant. */
+const VARIABLE =
+  /^([\s\S]+?)((?:\s+(?:public|private|internal|constant|immutable|transient|override(?:\([^)]*\))?))*)\s+([\w$]+)$/;
+
+const DATA_LOCATIONS = new Set(["memory", "calldata", "storage"]);
+/** Test and mock contracts are not package API. */
+const EXCLUDED_PATH = /(?:^|\/)(?:test|tests|mocks?|node_modules)\/|\.t\.sol$/;
+
+type Mutability = NonNullable<AbiEntry["stateMutability"]>;
+
+interface Param {
+  name: string;
+  type: string;
+  indexed?: boolean;
+}
+
+/** An ABI entry with Solidity types, converted once every struct, enum and contract is known. */
+interface DraftEntry {
+  type: AbiEntry["type"];
+  name?: string;
+  inputs?: Param[];
+  outputs?: Param[];
+  stateMutability?: Mutability;
+  anonymous?: boolean;
+}
+
+interface Contract {
+  symbol: ApiSymbol;
+  entries: DraftEntry[];
+}
+
+/** User-defined types of the package, needed to turn Solidity types into ABI types. */
+interface TypeRegistry {
+  structs: Map<string, Param[]>;
+  enums: Set<string>;
+  contracts: Set<string>;
+  valueTypes: Map<string, string>;
+}
+
+/**
+ * The `.sol` files of a package that make up its API: everything under `contracts/`, or every
+ * Solidity file if the package has no `contracts/` directory. Tests and mocks are left out.
+ */
+export function solidityApiFiles(paths: string[]): string[] {
+  const sol = paths.filter((p) => p.endsWith(".sol") && !EXCLUDED_PATH.test(p));
+  const contracts = sol.filter((p) => p.startsWith("contracts/"));
+  return (contracts.length > 0 ? contracts : sol).sort();
+}
+
+/** Text inside the parentheses opening at or after `from`, and the index of the closing one. */
+function parenGroup(text: string, from: number): { inner: string; end: number } | undefined {
+  const open = text.indexOf("(", from);
+  if (open === -1) return undefined;
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === "(") depth++;
+    else if (text[i] === ")" && --depth === 0) return { inner: text.slice(open + 1, i), end: i };
+  }
+  return undefined;
+}
+
+/** Parameters like `uint256[] calldata leaves` or `address indexed from`. */
+function parseParams(list: string): Param[] {
+  return splitList(list).map((param) => {
+    // Keep `mapping(a => b)` and `function (...)` types whole
+    const tokens: string[] = collapse(param).match(/[^\s(]+(?:\([^)]*\)[^\s(]*)*|\([^)]*\)\S*/g) ?? [];
+    const indexed = tokens.includes("indexed");
+    const rest = tokens.filter((t) => t !== "indexed" && !DATA_LOCATIONS.has(t));
+    const name = rest.length > 1 && /^[\w$]+$/.test(rest[rest.length - 1]) ? (rest.pop() as string) : "";
+    return { name, type: rest.join(" "), ...(indexed && { indexed }) };
+  });
+}
+
+/** Fields of a struct body. */
+function parseFields(body: string): Param[] {
+  return splitStatements(body, SCAN_OPTIONS).flatMap(({ head }) => {
+    const field = /^([\s\S]+?)\s+([\w$]+)$/.exec(collapse(head));
+    return field ? [{ name: field[2], type: field[1] }] : [];
+  });
+}
+
+/**
+ * Getter of a public state variable: one `uint256` input per array dimension and one input per
+ * mapping key, returning the value type.
+ */
+function getterEntry(name: string, type: string): DraftEntry {
+  const inputs: Param[] = [];
+  let value = type.trim();
+  for (;;) {
+    if (/^mapping\s*\(/.test(value)) {
+      const group = parenGroup(value, 0);
+      const arrow = group ? group.inner.indexOf("=>") : -1;
+      if (!group || arrow === -1) break;
+      inputs.push({ name: "", type: group.inner.slice(0, arrow).trim().split(/\s+/)[0] });
+      value = group.inner.slice(arrow + 2).trim();
+      continue;
+    }
+    const array = /^(.+)\[[^\]]*\]$/.exec(value);
+    if (!array) break;
+    inputs.push({ name: "", type: "uint256" });
+    value = array[1].trim();
+  }
+  return { type: "function", name, inputs, outputs: [{ name: "", type: value }], stateMutability: "view" };
+}
+
+/** Convert a Solidity type to an ABI parameter, expanding structs to tuples. */
+function toAbiParameter(param: Param, types: TypeRegistry, depth = 0): AbiParameter {
+  const compact = param.type.replace(/\s+payable$/, "").replace(/\s+/g, "");
+  const suffix = /(?:\[\d*\])*$/.exec(compact)?.[0] ?? "";
+  const qualified = compact.slice(0, compact.length - suffix.length);
+  const base = qualified.split(".").pop() as string;
+  const result = (type: string, internalType = type): AbiParameter => ({
+    name: param.name,
+    type: `${type}${suffix}`,
+    ...(internalType !== type && { internalType: `${internalType}${suffix}` }),
+    ...(param.indexed !== undefined && { indexed: param.indexed }),
+  });
+
+  const fields = types.structs.get(base);
+  if (fields && depth < 8) {
+    return {
+      ...result("tuple", `struct ${qualified}`),
+      components: fields.map((f) => toAbiParameter(f, types, depth + 1)),
+    };
+  }
+  if (types.enums.has(base)) return result("uint8", `enum ${qualified}`);
+  if (types.contracts.has(base)) return result("address", `contract ${qualified}`);
+  const underlying = types.valueTypes.get(base);
+  if (underlying) return result(underlying, qualified);
+  if (base === "uint" || base === "int") return result(`${base}256`);
+  if (base === "byte") return result("bytes1");
+  return result(qualified);
+}
+
+function toAbiEntry(draft: DraftEntry, types: TypeRegistry): AbiEntry {
+  // Event inputs always say whether they are indexed
+  const convert = (params: Param[]) =>
+    params.map((p) => toAbiParameter(draft.type === "event" ? { ...p, indexed: p.indexed ?? false } : p, types));
+  return {
+    type: draft.type,
+    ...(draft.name !== undefined && { name: draft.name }),
+    ...(draft.inputs && { inputs: convert(draft.inputs) }),
+    ...(draft.outputs && { outputs: convert(draft.outputs) }),
+    ...(draft.stateMutability && { stateMutability: draft.stateMutability }),
+    ...(draft.anonymous !== undefined && { anonymous: draft.anonymous }),
+  };
+}
+
+function mutability(modifiers: string): Mutability {
+  return (/\b(pure|view|payable)\b/.exec(modifiers)?.[1] as Mutability | undefined) ?? "nonpayable";
+}
+
+/** A variable declaration without its initializer. */
+function variableDeclaration(head: string): string {
+  const assignment = indexOfTopLevel(head, "=");
+  return collapse(assignment === -1 ? head : head.slice(0, assignment));
+}
+
+/** Register structs, enums and value types declared in a file or contract body. */
+function registerType(head: string, body: string | undefined, types: TypeRegistry): void {
+  const struct = STRUCT.exec(head);
+  const enumeration = ENUM.exec(head);
+  const valueType = VALUE_TYPE.exec(head);
+  if (struct && body !== undefined) types.structs.set(struct[1], parseFields(body));
+  else if (enumeration) types.enums.add(enumeration[1]);
+  else if (valueType) types.valueTypes.set(valueType[1], valueType[2]);
+}
+
+/**
+ * A member of a contract body. External and public members are listed with their ABI entry;
+ * libraries also list their internal functions, which importing contracts call directly.
+ */
+function parseMember(
+  head: string,
+  body: string | undefined,
+  doc: string | undefined,
+  kind: string,
+): { member?: ApiMember; entry?: DraftEntry } {
+  const withDoc = (member: ApiMember): ApiMember => ({ ...member, ...(doc && { doc }) });
+  const fn = FUNCTION.exec(head);
+  const special = SPECIAL_FUNCTION.exec(head);
+
+  if (fn || special) {
+    const params = parenGroup(head, 0);
+    const after = params ? head.slice(params.end + 1) : "";
+    const returnsAt = after.search(/\breturns\s*\(/);
+    const modifiers = returnsAt === -1 ? after : after.slice(0, returnsAt);
+    const returns = returnsAt === -1 ? undefined : parenGroup(after, returnsAt);
+    const visibility =
+      /\b(external|public|internal|private)\b/.exec(modifiers)?.[1] ?? (kind === "interface" ? "external" : "public");
+    const exposed = visibility === "external" || visibility === "public";
+    const signature = collapse(head);
+
+    if (special) {
+      const name = special[1];
+      const entry: DraftEntry =
+        name === "constructor"
+          ? { type: "constructor", inputs: parseParams(params?.inner ?? ""), stateMutability: mutability(modifiers) }
+          : { type: name as "receive" | "fallback", stateMutability: mutability(modifiers) };
+      // Abstract contracts may declare internal constructors
+      if (name === "constructor" && !exposed) return {};
+      return { member: withDoc({ name, kind: name === "constructor" ? "constructor" : "function", signature }), entry };
+    }
+    if (!exposed && !(kind === "library" && visibility === "internal")) return {};
+    return {
+      member: withDoc({ name: (fn as RegExpExecArray)[1], kind: "function", signature }),
+      ...(exposed && {
+        entry: {
+          type: "function",
+          name: (fn as RegExpExecArray)[1],
+          inputs: parseParams(params?.inner ?? ""),
+          outputs: parseParams(returns?.inner ?? ""),
+          stateMutability: mutability(modifiers),
+        },
+      }),
+    };
+  }
+
+  const event = EVENT.exec(head);
+  if (event) {
+    const params = parenGroup(head, 0);
+    return {
+      member: withDoc({ name: event[1], kind: "event", signature: collapse(head) }),
+      entry: {
+        type: "event",
+        name: event[1],
+        inputs: parseParams(params?.inner ?? ""),
+        anonymous: /\banonymous\s*$/.test(head),
+      },
+    };
+  }
+  const error = ERROR.exec(head);
+  if (error) {
+    return {
+      member: withDoc({ name: error[1], kind: "error", signature: collapse(head) }),
+      entry: { type: "error", name: error[1], inputs: parseParams(parenGroup(head, 0)?.inner ?? "") },
+    };
+  }
+  const modifier = MODIFIER.exec(head);
+  if (modifier) return { member: withDoc({ name: modifier[1], kind: "modifier", signature: collapse(head) }) };
+  const struct = STRUCT.exec(head);
+  if (struct) return { member: withDoc({ name: struct[1], kind: "struct", signature: withBody(head, body) }) };
+  const enumeration = ENUM.exec(head);
+  if (enumeration) {
+    return { member: withDoc({ name: enumeration[1], kind: "enum", signature: withBody(head, body) }) };
+  }
+  if (SKIPPED.test(head) || VALUE_TYPE.test(head) || body !== undefined) return {};
+
+  // State variable: only public ones get a getter
+  const declaration = variableDeclaration(head);
+  const variable = VARIABLE.exec(declaration);
+  if (!variable || !/\bpublic\b/.test(variable[2])) return {};
+  return {
+    member: withDoc({ name: variable[3], kind: "variable", signature: declaration }),
+    entry: getterEntry(variable[3], variable[1]),
+  };
+}
+
+/** ABI of a contract followed by the entries it inherits from contracts of the package. */
+function linearizedAbi(name: string, contracts: Map<string, Contract>, types: TypeRegistry): AbiEntry[] {
+  const entries: AbiEntry[] = [];
+  const seen = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (contractName: string) => {
+    const contract = contracts.get(contractName);
+    if (!contract || visited.has(contractName)) return;
+    visited.add(contractName);
+    for (const draft of contract.entries) {
+      // Base constructors are not part of the derived contract's ABI
+      if (contractName !== name && draft.type === "constructor") continue;
+      const entry = toAbiEntry(draft, types);
+      const key = `${entry.type} ${entry.name ?? ""}(${entry.inputs?.map((i) => i.type).join(",") ?? ""})`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      entries.push(entry);
+    }
+    for (const base of contract.symbol.inherits ?? []) visit(base);
+  };
+  visit(name);
+  return entries;
+}
+
+/**
+ * Extract the contracts, libraries and interfaces of a Solidity package from all its contract
+ * files, with inheritance, external and public functions, events, custom errors and modifiers,
+ * plus an ABI for each, derived from the source without compiling.
+ */
+export async function extractSolidityApi(
+  paths: string[],
+  entryFile: string | undefined,
+  read: SourceReader,
+): Promise<PackageApi> {
+  // Entry files are guessed from the package name, so `LeanImt.sol` should find `LeanIMT.sol`
+  const entry = paths.find((p) => p === entryFile) ?? paths.find((p) => p.toLowerCase() === entryFile?.toLowerCase());
+  const ordered = entry ? [entry, ...paths.filter((p) => p !== entry)] : paths;
+  const files: string[] = [];
+  const symbols: ApiSymbol[] = [];
+  const unresolved: string[] = [];
+  const contracts = new Map<string, Contract>();
+  const types: TypeRegistry = { structs: new Map(), enums: new Set(), contracts: new Set(), valueTypes: new Map() };
+
+  for (const file of ordered.slice(0, MAX_FILE_READS)) {
+    const src = await read(file);
+    if (src === null) {
+      unresolved.push(file);
+      continue;
+    }
+    files.push(file);
+
+    for (const { head, body, doc } of splitStatements(src, SCAN_OPTIONS)) {
+      registerType(head, body, types);
+      const contract = CONTRACT.exec(head);
+      if (contract && body !== undefined) {
+        const [, , kind, name, bases] = contract;
+        const members: ApiMember[] = [];
+        const entries: DraftEntry[] = [];
+        for (const statement of splitStatements(body, SCAN_OPTIONS)) {
+          registerType(statement.head, statement.body, types);
+          const { member, entry } = parseMember(statement.head, statement.body, statement.doc, kind);
+          if (member) members.push(member);
+          if (entry) entries.push(entry);
+        }
+        // `is Base(arg)` passes constructor arguments
+        const inherits = bases ? splitList(bases).map((b) => b.split("(")[0].trim()) : [];
+        const symbol: ApiSymbol = {
+          name,
+          kind: kind as "contract" | "library" | "interface",
+          signature: collapse(head),
+          ...(doc && { doc }),
+          file,
+          ...(inherits.length > 0 && { inherits }),
+          members,
+        };
+        types.contracts.add(name);
+        contracts.set(name, { symbol, entries });
+        symbols.push(symbol);
+        continue;
+      }
+
+      // File-level declarations: constants, value types, structs, enums, events, errors and free functions
+      const constant = VARIABLE.exec(variableDeclaration(head));
+      const valueType = VALUE_TYPE.exec(head);
+      if (constant && body === undefined && /\bconstant\b/.test(constant[2])) {
+        symbols.push({ name: constant[3], kind: "variable", signature: collapse(head), ...(doc && { doc }), file });
+      } else if (valueType) {
+        symbols.push({ name: valueType[1], kind: "type", signature: collapse(head), ...(doc && { doc }), file });
+      } else {
+        const { member } = parseMember(head, body, doc, "file");
+        if (!member || member.kind === "variable" || member.kind === "modifier" || member.kind === "constructor")
+          continue;
+        symbols.push({
+          name: member.name,
+          kind: member.kind as "function" | "struct" | "enum" | "event" | "error",
+          signature: member.signature,
+          ...(doc && { doc }),
+          file,
+        });
+      }
+    }
+  }
+  if (paths.length > MAX_FILE_READS) unresolved.push(...paths.slice(MAX_FILE_READS));
+
+  const abi: Record<string, AbiEntry[]> = {};
+  for (const name of contracts.keys()) {
+    const entries = linearizedAbi(name, contracts, types);
+    if (entries.length > 0) abi[name] = entries;
+  }
+  return {
+    language: "solidity",
+    entryFile: files[0] ?? entryFile ?? "contracts",
+    files,
+    symbols,
+    external: [],
+    unresolved,
+    abi,
+  };
+}
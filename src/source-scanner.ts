@@ -0,0 +1,312 @@
+/**
+ * A small statement scanner for brace-delimited languages (TypeScript, Circom, Solidity, Rust,
+ * Noir). It splits a file into top-level statements, keeping declaration bodies whole, which is
+ * all the API extractors need. It does not build a syntax tree.
+ */
+
+/** A top-level statement (or class member) split out of a source file. */
+export interface Statement {
+  /** Statement text before its body block, with comments removed. */
+  head: string;
+  /** Raw text inside the `{ ... }` body of a class, function, contract, template, etc. */
+  body?: string;
+  /** Doc comment directly above the statement, without the comment markers. */
+  doc?: string;
+  /** Offset of the statement's first character in the scanned text, after its doc comment. */
+  start: number;
+  /** Offset just past the statement: after its `;`, closing brace or last character. */
+  end: number;
+}
+
+export interface ScanOptions {
+  /** Comment prefixes that document the statement below, e.g. `/**` or `///`. */
+  docPrefixes: string[];
+  /** End statements at line breaks where JavaScript's automatic semicolon insertion would. */
+  asi?: boolean;
+  /** Recognize JavaScript template and `/regex/` literals. */
+  jsLiterals?: boolean;
+  /** Scan `'` as a char literal only when it closes right away, so Rust lifetimes like `'a` stay code. */
+  lifetimes?: boolean;
+  /** Words before `{` that open an object, list or type literal rather than a declaration body. */
+  nonBodyWords?: ReadonlySet<string>;
+  /**
+   * Open a body at every `{` except after `::`, as in Rust, where item heads may end with a `where`
+   * clause's trailing comma and only `use a::{b, c}` lists are not bodies.
+   */
+  anyBraceOpensBody?: boolean;
+}
+
+const ID_CHAR = /[\w$]/;
+
+/** Characters after which `/` starts a regex literal rather than a division. */
+const REGEX_PRECEDERS = new Set("(,=:[!&|?{};+-*%<>~^");
+
+/** Trailing characters and words after which a statement continues on the next line. */
+const CONTINUES_AFTER = new Set(",|&=:(<.?+-*/%!");
+const CONTINUES_AFTER_WORD =
+  /\b(?:export|default|declare|abstract|async|class|function|interface|type|enum|const|let|var|extends|implements|new|keyof|typeof|as|from|is)$/;
+
+/** Leading characters and words of a line that continue the previous statement. */
+const CONTINUES_BEFORE = new Set("|&.?=:{(<>,)]}");
+const CONTINUES_BEFORE_WORD = /^(?:extends|implements|from|as|satisfies)\b/;
+
+const CHAR_LITERAL = /^'(?:\\[^']{1,10}|[^'\\])'/;
+
+function isCommentStart(src: string, i: number): boolean {
+  return src[i] === "/" && (src[i + 1] === "/" || src[i + 1] === "*");
+}
+
+/**
+ * If a comment, string, template or regex literal starts at `i`, return the index after it,
+ * otherwise -1. `prev` is the last significant character, used to tell regexes from divisions.
+ */
+function skipLiteral(src: string, i: number, prev: string, options: ScanOptions): number {
+  const c = src[i];
+  if (c === "/" && src[i + 1] === "/") {
+    const end = src.indexOf("\n", i);
+    return end === -1 ? src.length : end;
+  }
+  if (c === "/" && src[i + 1] === "*") {
+    const end = src.indexOf("*/", i + 2);
+    return end === -1 ? src.length : end + 2;
+  }
+  if (c === "'" && options.lifetimes) {
+    const literal = CHAR_LITERAL.exec(src.slice(i, i + 14));
+    return literal ? i + literal[0].length : -1;
+  }
+  if (c === '"' || c === "'") {
+    let j = i + 1;
+    while (j < src.length && src[j] !== c && src[j] !== "\n") j += src[j] === "\\" ? 2 : 1;
+    return j + 1;
+  }
+  if (c === "`" && options.jsLiterals) {
+    let j = i + 1;
+    while (j < src.length && src[j] !== "`") {
+      if (src[j] === "\\") j += 2;
+      else if (src[j] === "$" && src[j + 1] === "{") j = matchBrace(src, j + 1, options) + 1;
+      else j++;
+    }
+    return j + 1;
+  }
+  if (c === "/" && options.jsLiterals && (prev === "" || REGEX_PRECEDERS.has(prev))) {
+    let inClass = false;
+    for (let j = i + 1; j < src.length && src[j] !== "\n"; j++) {
+      if (src[j] === "\\") j++;
+      else if (src[j] === "[") inClass = true;
+      else if (src[j] === "]") inClass = false;
+      else if (src[j] === "/" && !inClass) {
+        j++;
+        while (j < src.length && /[a-z]/i.test(src[j])) j++;
+        return j;
+      }
+    }
+  }
+  return -1;
+}
+
+/** Index of the `}` matching the `{` at `open`, or the source length if it is never closed. */
+export function matchBrace(src: string, open: number, options: ScanOptions): number {
+  let depth = 0;
+  let prev = "";
+  for (let i = open; i < src.length; ) {
+    const end = skipLiteral(src, i, prev, options);
+    if (end !== -1) {
+      if (!isCommentStart(src, i)) prev = "a";
+      i = end;
+      continue;
+    }
+    const c = src[i];
+    if (c === "{") depth++;
+    else if (c === "}" && --depth === 0) return i;
+    if (!/\s/.test(c)) prev = c;
+    i++;
+  }
+  return src.length;
+}
+
+/** Whether a `{` after `head` opens a declaration body rather than an object or type literal. */
+function opensBody(head: string, options: ScanOptions): boolean {
+  const trimmed = head.trimEnd();
+  const last = trimmed.at(-1) ?? "";
+  if (options.anyBraceOpensBody) return !trimmed.endsWith("::");
+  if (last === ")" || last === "]" || last === "}") return true;
+  if (last === ">") return !trimmed.endsWith("=>");
+  if (!ID_CHAR.test(last)) return false;
+  return !options.nonBodyWords?.has(/[\w$]+$/.exec(trimmed)?.[0] ?? "");
+}
+
+/** Whether a newline after `head` ends the statement, judged by the text around it (like ASI). */
+function endsStatement(head: string, src: string, next: number): boolean {
+  const trimmed = head.trimEnd();
+  if (CONTINUES_AFTER.has(trimmed.at(-1) ?? "") || trimmed.endsWith("=>") || CONTINUES_AFTER_WORD.test(trimmed)) {
+    return false;
+  }
+  let i = next;
+  while (i < src.length && /\s/.test(src[i])) i++;
+  if (i >= src.length || isCommentStart(src, i)) return true;
+  return !CONTINUES_BEFORE.has(src[i]) && !CONTINUES_BEFORE_WORD.test(src.slice(i, i + 12));
+}
+
+/** Comment text without its markers: block comment delimiters and leading `*`s, or `//` line prefixes. */
+function cleanComment(comment: string): string {
+  if (comment.startsWith("//")) return comment.replace(/^\/\/+ ?/, "").trimEnd();
+  return comment
+    .replace(/^\/\*+/, "")
+    .replace(/\*+\/$/, "")
+    .split("\n")
+    .map((line) => line.replace(/^\s*\* ?/, "").trimEnd())
+    .join("\n")
+    .trim();
+}
+
+/** Split source text into statements. Declaration bodies are captured whole, not descended into. */
+export function splitStatements(src: string, options: ScanOptions): Statement[] {
+  const statements: Statement[] = [];
+  let head = "";
+  let doc: string | undefined;
+  let docEnd = -1;
+  let depth = 0;
+  let angle = 0;
+  let prev = "";
+  // Offsets of the head's first and (just past its) last non-space characters
+  let start = -1;
+  let last = -1;
+
+  const append = (text: string, at: number) => {
+    head += text;
+    const trimmed = text.trimEnd();
+    if (!trimmed) return;
+    if (start === -1) start = at + text.search(/\S/);
+    last = at + trimmed.length;
+  };
+
+  const finish = (body?: string, end = last) => {
+    const text = head.trim();
+    if (text) statements.push({ head: text, body, ...(doc && { doc: doc.trim() }), start, end });
+    head = "";
+    start = -1;
+    last = -1;
+    doc = undefined;
+    depth = 0;
+    angle = 0;
+    prev = ";";
+  };
+
+  for (let i = 0; i < src.length; ) {
+    const end = skipLiteral(src, i, prev, options);
+    if (end !== -1) {
+      if (!isCommentStart(src, i)) {
+        append(src.slice(i, end), i);
+        prev = "a";
+      } else if (depth === 0 && !head.trim() && options.docPrefixes.some((p) => src.startsWith(p, i))) {
+        const text = cleanComment(src.slice(i, end));
+        // Consecutive line comments form one doc comment
+        const continues = doc !== undefined && src[i + 1] === "/" && /^[ \t]*\r?\n[ \t]*$/.test(src.slice(docEnd, i));
+        doc = continues ? `${doc}\n${text}` : text;
+        docEnd = end;
+      }
+      i = end;
+      continue;
+    }
+
+    const c = src[i];
+    if (depth === 0 && angle === 0) {
+      if (c === ";") {
+        finish(undefined, i + 1);
+        i++;
+        continue;
+      }
+      if (options.asi && c === "\n" && head.trim() && endsStatement(head, src, i + 1)) {
+        finish();
+        i++;
+        continue;
+      }
+      if (c === "{" && opensBody(head, options)) {
+        const close = matchBrace(src, i, options);
+        finish(src.slice(i + 1, close), Math.min(close + 1, src.length));
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if ("([{".includes(c)) depth++;
+    else if (")]}".includes(c)) depth = Math.max(0, depth - 1);
+    else if (c === "<" && depth === 0 && ID_CHAR.test(src[i - 1] ?? "")) angle++;
+    else if (c === ">" && angle > 0 && src[i - 1] !== "=" && src[i - 1] !== "-") angle--;
+    append(c, i);
+    if (!/\s/.test(c)) prev = c;
+    i++;
+  }
+  finish();
+  return statements;
+}
+
+// Formatting helpers shared by the extractors
+
+/** Join a declaration onto one line, e.g. a parameter list split over several lines. */
+export function collapse(text: string): string {
+  return text
+    .replace(/\s+/g, " ")
+    .replace(/([(<[]) /g, "$1")
+    .replace(/,? ([)>\]])/g, "$1")
+    .trim();
+}
+
+/** Remove the common indentation of all lines but the first, which is already trimmed. */
+export function dedent(text: string): string {
+  const lines = text.split("\n");
+  const indents = lines
+    .slice(1)
+    .filter((line) => line.trim())
+    .map((line) => /^\s*/.exec(line)?.[0].length ?? 0);
+  const min = indents.length > 0 ? Math.min(...indents) : 0;
+  return [lines[0], ...lines.slice(1).map((line) => line.slice(min))].join("\n").trimEnd();
+}
+
+/** Declaration followed by its body, re-indented with two spaces, e.g. an interface or struct. */
+export function withBody(head: string, body: string | undefined): string {
+  const inner = body
+    ?.split("\n")
+    .filter((line) => line.trim())
+    .join("\n");
+  if (!inner) return `${collapse(head)} {}`;
+  const indented = dedent(`\n${inner}`)
+    .split("\n")
+    .slice(1)
+    .map((line) => `  ${line}`)
+    .join("\n");
+  return `${collapse(head)} {\n${indented}\n}`;
+}
+
+/** Index of `token` outside brackets, generics and strings, or -1. `=` never matches `=>` or `==`. */
+export function indexOfTopLevel(text: string, token: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"' || c === "'" || c === "`") {
+      const end = text.indexOf(c, i + 1);
+      if (end === -1) continue;
+      i = end;
+    } else if ("([{".includes(c) || (c === "<" && ID_CHAR.test(text[i - 1] ?? ""))) {
+      depth++;
+    } else if (")]}".includes(c) || (c === ">" && depth > 0 && text[i - 1] !== "=" && text[i - 1] !== "-")) {
+      depth--;
+    } else if (depth === 0 && text.startsWith(token, i)) {
+      if (token === "=" && ("=>".includes(text[i + 1]) || "=!<>".includes(text[i - 1]))) continue;
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Split a comma-separated list, ignoring commas inside brackets. */
+export function splitList(text: string): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  for (let i = indexOfTopLevel(rest, ","); i !== -1; i = indexOfTopLevel(rest, ",")) {
+    parts.push(rest.slice(0, i));
+    rest = rest.slice(i + 1);
+  }
+  parts.push(rest);
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
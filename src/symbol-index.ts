@@ -0,0 +1,413 @@
+import { SCAN_OPTIONS as CIRCOM_SCAN_OPTIONS } from "./circom-api.js";
+import { detectLanguageFromExtension } from "./github.js";
+import { SCAN_OPTIONS as RUST_SCAN_OPTIONS } from "./rust-api.js";
+import { SCAN_OPTIONS as SOLIDITY_SCAN_OPTIONS } from "./solidity-api.js";
+import { indexOfTopLevel, type ScanOptions, splitStatements } from "./source-scanner.js";
+import { SCAN_OPTIONS as TS_SCAN_OPTIONS } from "./ts-api.js";
+import type { ApiSymbolKind, Language } from "./types.js";
+
+/** Max files indexed per package, sources before tests. */
+const MAX_INDEXED_FILES = 150;
+/** Larger files are generated code or vendored data, not worth indexing. */
+const MAX_FILE_SIZE = 256 * 1024;
+/** Longest snippet shown for a definition, in lines. */
+const MAX_SNIPPET_LINES = 25;
+
+const SCAN_OPTIONS: Record<Language, ScanOptions> = {
+  typescript: TS_SCAN_OPTIONS,
+  circom: CIRCOM_SCAN_OPTIONS,
+  solidity: SOLIDITY_SCAN_OPTIONS,
+  rust: RUST_SCAN_OPTIONS,
+  noir: RUST_SCAN_OPTIONS,
+};
+
+const SOURCE_EXTENSIONS: Record<Language, RegExp> = {
+  typescript: /\.[cm]?tsx?$/,
+  circom: /\.circom$/,
+  solidity: /\.sol$/,
+  rust: /\.rs$/,
+  noir: /\.nr$/,
+};
+
+/** Dependencies and build output, never indexed. */
+const IGNORED_PATH = /(?:^|\/)(?:node_modules|dist|build|target|out|cache|artifacts|typechain-types|coverage)\//;
+/** Tests, mocks and fixtures: searched for references, but their declarations are not definitions. */
+const TEST_PATH = /(?:^|\/)(?:tests?|__tests__|mocks?|fixtures?)\/|\.(?:test|spec)\.[cm]?tsx?$|\.t\.sol$/;
+
+export type SymbolKind = ApiSymbolKind | "method" | "property" | "accessor" | "constructor" | "modifier";
+
+/** A declaration found in a package's sources. */
+export interface SymbolDefinition {
+  name: string;
+  kind: SymbolKind;
+  /** Enclosing class, contract, impl, trait or module, e.g. `LeanIMT` for its `insert` method. */
+  container?: string;
+  /** Package-relative path. */
+  file: string;
+  /** 1-based lines of the declaration, from its first line (attributes included) to its closing brace. */
+  startLine: number;
+  endLine: number;
+}
+
+export interface SymbolReference {
+  file: string;
+  line: number;
+  /** The line, trimmed. */
+  text: string;
+}
+
+export interface SourceFile {
+  /** Package-relative path. */
+  path: string;
+  content: string;
+}
+
+/** Declarations of one package, with its sources kept for snippets and references. */
+export interface SymbolIndex {
+  language: Language;
+  files: SourceFile[];
+  definitions: SymbolDefinition[];
+}
+
+/**
+ * Paths of a package's files worth indexing for its language: sources first, then tests, without
+ * dependencies, build output or oversized files.
+ */
+export function indexableFiles(language: Language, entries: { path: string; size?: number }[]): string[] {
+  const paths = entries
+    .filter((e) => SOURCE_EXTENSIONS[language].test(e.path) && !IGNORED_PATH.test(e.path))
+    .filter((e) => (e.size ?? 0) <= MAX_FILE_SIZE)
+    .map((e) => e.path)
+    .sort();
+  return [...paths.filter((p) => !TEST_PATH.test(p)), ...paths.filter((p) => TEST_PATH.test(p))].slice(
+    0,
+    MAX_INDEXED_FILES,
+  );
+}
+
+// Declarations
+
+/** A parsed declaration head. Rust `impl` blocks are not definitions, but name the container of their items. */
+interface Declaration {
+  name: string;
+  kind: SymbolKind | "impl";
+  /** Whether the declaration's body holds declarations to index, e.g. methods. */
+  nests: boolean;
+}
+
+const TS_MODIFIERS =
+  /^(?:@[\w$.]+(?:\([^)]*\))?\s+|(?:export|default|declare|abstract|async|public|private|protected|static|readonly|override|accessor)\s+)*/;
+/** Outer attributes and visibility of Rust and Noir items, e.g. `#[inline] pub(crate)`. */
+const RUST_PREFIX = /^(?:#!?\[(?:[^[\]]|\[[^\]]*\])*\]\s*|pub(?:\s*\([^)]*\))?\s+|(?:unconstrained|comptime)\s+)*/;
+
+const TS_DECLARATIONS: [RegExp, SymbolKind][] = [
+  [/^class\s+([\w$]+)/, "class"],
+  [/^function\b\s*\*?\s*([\w$]+)/, "function"],
+  [/^interface\s+([\w$]+)/, "interface"],
+  [/^(?:const\s+)?enum\s+([\w$]+)/, "enum"],
+  [/^type\s+([\w$]+)\s*[<=]/, "type"],
+  [/^(?:namespace|module)\s+([\w$]+)/, "namespace"],
+  [/^(?:const|let|var)\s+([\w$]+)/, "variable"],
+];
+
+const SOLIDITY_DECLARATIONS: [RegExp, SymbolKind][] = [
+  [/^(?:abstract\s+)?contract\s+([\w$]+)/, "contract"],
+  [/^library\s+([\w$]+)/, "library"],
+  [/^interface\s+([\w$]+)/, "interface"],
+  [/^function\s+([\w$]+)/, "function"],
+  [/^(constructor)\b/, "constructor"],
+  [/^modifier\s+([\w$]+)/, "modifier"],
+  [/^event\s+([\w$]+)/, "event"],
+  [/^error\s+([\w$]+)/, "error"],
+  [/^struct\s+([\w$]+)/, "struct"],
+  [/^enum\s+([\w$]+)/, "enum"],
+  [/^type\s+([\w$]+)\s+is\b/, "type"],
+];
+
+const CIRCOM_DECLARATIONS: [RegExp, SymbolKind][] = [
+  [/^template\s+(?:parallel\s+)?(?:custom\s+)?([\w$]+)/, "template"],
+  [/^function\s+([\w$]+)/, "function"],
+];
+
+const RUST_DECLARATIONS: [RegExp, SymbolKind][] = [
+  [/^(?:(?:const|async|unsafe|extern\s+"[^"]*")\s+)*fn\s+(\w+)/, "function"],
+  [/^struct\s+(\w+)/, "struct"],
+  [/^enum\s+(\w+)/, "enum"],
+  [/^(?:unsafe\s+)?trait\s+(\w+)/, "trait"],
+  [/^type\s+(\w+)/, "type"],
+  [/^mod\s+(\w+)/, "namespace"],
+  [/^(?:const|static(?:\s+mut)?|global)\s+(\w+)/, "variable"],
+];
+
+/** Kinds whose bodies declare members worth indexing. */
+const NESTING_KINDS = new Set<SymbolKind>(["class", "namespace", "contract", "library", "trait"]);
+
+/** Solidity statements that declare nothing. */
+const SOLIDITY_NON_DECLARATION = /^(?:pragma|import|using|return|emit|revert|require|delete)\b/;
+
+function match(patterns: [RegExp, SymbolKind][], head: string): Declaration | undefined {
+  for (const [pattern, kind] of patterns) {
+    const name = pattern.exec(head)?.[1];
+    if (name) return { name, kind, nests: NESTING_KINDS.has(kind) };
+  }
+  return undefined;
+}
+
+function parseTypeScript(head: string, inClass: boolean): Declaration | undefined {
+  const s = head.replace(TS_MODIFIERS, "");
+  if (!inClass) {
+    const declaration = match(TS_DECLARATIONS, s);
+    if (declaration?.kind === "variable") {
+      // Arrow functions and function expressions assigned to a variable
+      const eq = indexOfTopLevel(s, "=");
+      const init = eq === -1 ? "" : s.slice(eq + 1).trim();
+      if (/^(?:async\s+)?(?:function\b|(?:\([^)]*\)|[\w$]+)\s*(?::[^=]+)?=>)/.test(init)) declaration.kind = "function";
+    }
+    return declaration;
+  }
+  const member = /^(get\s+|set\s+)?\*?\s*(#?[\w$]+)\s*\??\s*([(<:=;!]|$)/.exec(s);
+  if (!member) return undefined;
+  const [, accessor, name, next] = member;
+  const kind: SymbolKind =
+    name === "constructor"
+      ? "constructor"
+      : accessor
+        ? "accessor"
+        : next === "(" || next === "<"
+          ? "method"
+          : "property";
+  return { name, kind, nests: false };
+}
+
+function parseSolidity(head: string): Declaration | undefined {
+  const declaration = match(SOLIDITY_DECLARATIONS, head);
+  // Interfaces declare functions, events and errors, unlike TypeScript's
+  if (declaration) return { ...declaration, nests: declaration.nests || declaration.kind === "interface" };
+  if (SOLIDITY_NON_DECLARATION.test(head) || head.includes("{")) return undefined;
+  // State variables and file-level constants: the name is the last word before any initializer
+  const eq = indexOfTopLevel(head, "=");
+  const declarator = (eq === -1 ? head : head.slice(0, eq)).trim();
+  const name = /^[\w$.]+(?:\s*\([\s\S]*\))?(?:\s*\[[^\]]*\])*\s+(?:[\w$]+\s+)*?([\w$]+)$/.exec(declarator)?.[1];
+  return name ? { name, kind: "variable", nests: false } : undefined;
+}
+
+function parseRust(head: string, inImpl: boolean): Declaration | undefined {
+  if (/#\[cfg\(test\)\]/.test(head)) return undefined;
+  const s = head.replace(RUST_PREFIX, "");
+  const impl = /^(?:unsafe\s+)?impl\b(?:\s*<(?:[^<>]|<[^<>]*>)*>)?\s+(?:[\w:]+(?:<[^{]*?>)?\s+for\s+)?([\w:]+)/.exec(s);
+  if (impl) return { name: impl[1].split("::").pop() as string, kind: "impl", nests: true };
+  const declaration = match(RUST_DECLARATIONS, s);
+  if (declaration?.kind === "function" && inImpl) declaration.kind = "method";
+  return declaration;
+}
+
+function parseDeclaration(
+  language: Language,
+  head: string,
+  containerKind?: Declaration["kind"],
+): Declaration | undefined {
+  switch (language) {
+    case "typescript":
+      return parseTypeScript(head, containerKind === "class");
+    case "solidity":
+      return parseSolidity(head);
+    case "circom":
+      return containerKind ? undefined : match(CIRCOM_DECLARATIONS, head);
+    case "rust":
+    case "noir":
+      return parseRust(head, containerKind === "impl" || containerKind === "trait");
+  }
+}
+
+/** 1-based line of each offset, from the offsets where lines start. */
+function lineLocator(content: string): (offset: number) => number {
+  const starts = [0];
+  for (let i = content.indexOf("\n"); i !== -1; i = content.indexOf("\n", i + 1)) starts.push(i + 1);
+  return (offset) => {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo + 1;
+  };
+}
+
+/**
+ * Declarations of one source file with their line ranges, including the members of classes,
+ * contracts, traits, impls and modules. Function bodies are not descended into.
+ */
+export function extractDeclarations(language: Language, file: string, content: string): SymbolDefinition[] {
+  const options = SCAN_OPTIONS[language];
+  const lineAt = lineLocator(content);
+  const definitions: SymbolDefinition[] = [];
+
+  const scan = (src: string, base: number, container?: string, containerKind?: Declaration["kind"]) => {
+    for (const { head, body, start, end } of splitStatements(src, options)) {
+      const declaration = parseDeclaration(language, head, containerKind);
+      if (!declaration) continue;
+      const { name, kind } = declaration;
+      if (kind !== "impl") {
+        definitions.push({
+          name,
+          kind,
+          ...(container && { container }),
+          file,
+          startLine: lineAt(base + start),
+          endLine: lineAt(base + end - 1),
+        });
+      }
+      // The body sits just before the closing brace at `end - 1`
+      if (body !== undefined && declaration.nests) scan(body, base + end - 1 - body.length, name, kind);
+    }
+  };
+  scan(content, 0);
+  return definitions;
+}
+
+/** Index the declarations of a package's files. Test files are kept for references only. */
+export function buildSymbolIndex(language: Language, files: SourceFile[]): SymbolIndex {
+  const definitions = files
+    .filter((f) => !TEST_PATH.test(f.path))
+    .flatMap((f) => extractDeclarations(language, f.path, f.content));
+  return { language, files, definitions };
+}
+
+// Lookups
+
+/** Split `Owner.name` or `Owner::name` into its owner and name. */
+function splitQualified(query: string): { owner?: string; name: string } {
+  const parts = query.split(/::|\./).filter(Boolean);
+  const name = parts.pop() ?? query;
+  return parts.length > 0 ? { owner: parts.pop(), name } : { name };
+}
+
+/** Definitions named `query`, which may be qualified by its container, e.g. `LeanIMT.insert`. */
+export function findDefinitions(index: SymbolIndex, query: string): SymbolDefinition[] {
+  const { owner, name } = splitQualified(query);
+  return index.definitions.filter((d) => d.name === name && (!owner || d.container === owner));
+}
+
+/** Names of indexed definitions that resemble `query`, for suggestions when nothing matches exactly. */
+export function similarSymbols(indexes: SymbolIndex[], query: string, limit = 10): string[] {
+  const needle = splitQualified(query).name.toLowerCase();
+  const names = new Set<string>();
+  for (const index of indexes) {
+    for (const d of index.definitions) {
+      const lower = d.name.toLowerCase();
+      if (lower === needle || (needle.length >= 3 && (lower.includes(needle) || needle.includes(lower)))) {
+        names.add(d.container ? `${d.container}.${d.name}` : d.name);
+      }
+    }
+  }
+  return [...names].sort((a, b) => a.length - b.length || a.localeCompare(b)).slice(0, limit);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Lines of the package that mention `query`'s name as a whole word, tests included, skipping
+ * comments and the declaration lines of `definitions`.
+ */
+export function findReferences(index: SymbolIndex, query: string, definitions: SymbolDefinition[]): SymbolReference[] {
+  const { name } = splitQualified(query);
+  const word = new RegExp(`(?<![\\w$])${escapeRegExp(name)}(?![\\w$])`);
+  const references: SymbolReference[] = [];
+  for (const file of index.files) {
+    const lines = file.content.split("\n");
+    // The line naming each definition, usually its first unless attributes or decorators come before
+    const declared = new Set(
+      definitions
+        .filter((d) => d.file === file.path)
+        .map((d) => {
+          for (let line = d.startLine; line <= d.endLine; line++) if (word.test(lines[line - 1] ?? "")) return line;
+          return d.startLine;
+        }),
+    );
+    lines.forEach((text, i) => {
+      const trimmed = text.trim();
+      if (declared.has(i + 1) || /^(?:\/\/|\/\*|\*)/.test(trimmed) || !word.test(text)) return;
+      references.push({ file: file.path, line: i + 1, text: trimmed });
+    });
+  }
+  return references;
+}
+
+/** Source lines of a definition, cut after {@link MAX_SNIPPET_LINES} lines. */
+export function definitionSnippet(index: SymbolIndex, definition: SymbolDefinition): string {
+  const file = index.files.find((f) => f.path === definition.file);
+  if (!file) return "";
+  const lines = file.content.split("\n").slice(definition.startLine - 1, definition.endLine);
+  const shown = lines.slice(0, MAX_SNIPPET_LINES);
+  const indent = Math.min(...shown.filter((l) => l.trim()).map((l) => /^\s*/.exec(l)?.[0].length ?? 0));
+  const snippet = shown.map((l) => l.slice(Number.isFinite(indent) ? indent : 0).trimEnd()).join("\n");
+  return lines.length > shown.length ? `${snippet}\n// ... ${lines.length - shown.length} more lines` : snippet;
+}
+
+// Formatting
+
+/** A definition found by `find_symbol`, with the package it belongs to and its source. */
+export interface SymbolMatch extends SymbolDefinition {
+  package: string;
+  language: Language;
+  /** Slug of the package's repo, telling apart packages of the same name in a fork. */
+  repo?: string;
+  snippet: string;
+}
+
+export interface PackageReferences {
+  package: string;
+  repo?: string;
+  /** Every reference, of which the markdown lists the first {@link MAX_LISTED_REFERENCES}. */
+  references: SymbolReference[];
+}
+
+const MAX_LISTED_REFERENCES = 30;
+
+function qualifiedName(d: SymbolDefinition): string {
+  return d.container ? `${d.container}.${d.name}` : d.name;
+}
+
+function lineRange(d: SymbolDefinition): string {
+  return d.startLine === d.endLine ? `line ${d.startLine}` : `lines ${d.startLine}-${d.endLine}`;
+}
+
+/** Markdown report of a symbol's definitions, with snippets, and its references per package. */
+export function formatSymbolResults(
+  query: string,
+  matches: SymbolMatch[],
+  references: PackageReferences[] | undefined,
+  indexedPackages: number,
+): string {
+  const packages = new Set(matches.map((m) => `${m.repo ?? ""}:${m.package}`)).size;
+  // Name the repo of packages found in several, such as a fork and upstream
+  const repos = new Map<string, Set<string | undefined>>();
+  for (const m of matches) repos.set(m.package, (repos.get(m.package) ?? new Set()).add(m.repo));
+  const inRepo = (pkg: string, repo?: string) => (repo && (repos.get(pkg)?.size ?? 0) > 1 ? ` in ${repo}` : "");
+  const searched = indexedPackages === 1 ? "1 indexed package" : `${indexedPackages} indexed packages`;
+  let md = `# Symbol: \`${query}\`\n\n`;
+  md += `${matches.length === 1 ? "1 definition" : `${matches.length} definitions`} in ${packages} of ${searched}.\n`;
+
+  for (const m of matches) {
+    md += `\n## \`${qualifiedName(m)}\` (${m.kind})\n\n`;
+    md += `\`${m.package}\` (${m.language}${inRepo(m.package, m.repo)}): \`${m.file}\` ${lineRange(m)}\n\n`;
+    md += `\`\`\`${detectLanguageFromExtension(m.file)}\n${m.snippet}\n\`\`\`\n`;
+  }
+
+  for (const { package: pkg, repo, references: refs } of references ?? []) {
+    md += `\n## References in \`${pkg}\`${inRepo(pkg, repo)} (${refs.length})\n\n`;
+    if (refs.length === 0) {
+      md += "No references outside the definitions.\n";
+      continue;
+    }
+    for (const r of refs.slice(0, MAX_LISTED_REFERENCES)) md += `- \`${r.file}:${r.line}\`: \`${r.text}\`\n`;
+    if (refs.length > MAX_LISTED_REFERENCES) {
+      md += `\n*...and ${refs.length - MAX_LISTED_REFERENCES} more, listed in the structured content.*\n`;
+    }
+  }
+  return md;
+}
@@ -0,0 +1,143 @@
+import type { Category, Package } from "./types.js";
+
+/** A concept that packages in several languages implement, like the Lean IMT or Baby Jubjub. */
+export interface Concept {
+  /** Canonical id, used as the cross-language ID of its packages, e.g. `baby-jubjub`. */
+  id: string;
+  label: string;
+  /** Categories the concept belongs to, most specific first. The first is the packages' category. */
+  categories: Category[];
+  /**
+   * Directory names and other names or spellings of the concept, e.g. `babyjubjub` or `sparse merkle
+   * tree`. Never generic words: a query containing an alias ranks the whole concept first.
+   */
+  aliases: string[];
+}
+
+/** Concepts of the ZK-Kit repos. A config file can add concepts or extend these. */
+export const CONCEPTS: Concept[] = [
+  {
+    id: "imt",
+    label: "Incremental Merkle Tree",
+    categories: ["merkle-trees"],
+    aliases: ["incremental merkle tree", "incremental-merkle-tree", "incrementalmerkletree"],
+  },
+  {
+    id: "lean-imt",
+    label: "Lean Incremental Merkle Tree",
+    categories: ["merkle-trees"],
+    aliases: ["leanimt", "lean imt", "lean incremental merkle tree"],
+  },
+  {
+    id: "lazy-imt",
+    label: "Lazy Incremental Merkle Tree",
+    categories: ["merkle-trees"],
+    aliases: ["lazyimt", "lazy imt", "lazy incremental merkle tree"],
+  },
+  {
+    id: "smt",
+    label: "Sparse Merkle Tree",
+    categories: ["merkle-trees"],
+    aliases: ["sparse merkle tree", "sparse-merkle-tree", "sparsemerkletree"],
+  },
+  {
+    id: "lazytower",
+    label: "LazyTower",
+    categories: ["merkle-trees"],
+    aliases: ["lazy tower", "lazy-tower"],
+  },
+  {
+    id: "binary-merkle-root",
+    label: "Binary Merkle Root",
+    categories: ["merkle-trees", "cryptography"],
+    aliases: ["binary merkle root", "binarymerkleroot"],
+  },
+  {
+    id: "baby-jubjub",
+    label: "Baby Jubjub",
+    categories: ["cryptography", "math"],
+    aliases: ["babyjubjub", "baby jubjub", "babyjub", "baby-jub"],
+  },
+  {
+    id: "eddsa-poseidon",
+    label: "EdDSA with Poseidon",
+    categories: ["cryptography", "identity"],
+    aliases: ["eddsa", "eddsa poseidon", "eddsaposeidon"],
+  },
+  {
+    id: "ecdh",
+    label: "Elliptic-curve Diffie-Hellman",
+    categories: ["cryptography"],
+    aliases: ["diffie hellman", "diffie-hellman", "elliptic curve diffie hellman"],
+  },
+  {
+    id: "poseidon-lite",
+    label: "Poseidon hash",
+    categories: ["cryptography"],
+    aliases: ["poseidon", "poseidon hash", "poseidonlite"],
+  },
+  {
+    id: "poseidon-cipher",
+    label: "Poseidon encryption",
+    categories: ["cryptography"],
+    aliases: ["poseidon encryption", "poseidoncipher"],
+  },
+  {
+    id: "poseidon-proof",
+    label: "Poseidon preimage proof",
+    categories: ["cryptography", "identity"],
+    aliases: ["poseidon preimage", "poseidonproof"],
+  },
+  {
+    id: "excubiae",
+    label: "Excubiae gatekeepers",
+    categories: ["access-control", "identity"],
+    aliases: ["gatekeeper", "gatekeepers"],
+  },
+  {
+    id: "utils",
+    label: "Utilities",
+    categories: ["math"],
+    aliases: ["zk-kit-utils", "f1field"],
+  },
+];
+
+/** Lowercase, with runs of spaces, `_` and `.` as a single `-`: the form ids and aliases are compared in. */
+export function normalizeAlias(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_.]+/g, "-")
+    .replace(/-+/g, "-");
+}
+
+/** The concept a directory name, id or alias stands for, if any. */
+export function findConcept(concepts: readonly Concept[], name: string): Concept | undefined {
+  const key = normalizeAlias(name);
+  return concepts.find((c) => c.id === key || c.aliases.some((a) => normalizeAlias(a) === key));
+}
+
+/**
+ * Concepts a free-text query names, matching the longest aliases first on word boundaries, and
+ * the words left once they are taken out. `incremental merkle tree proofs` names `imt` and
+ * leaves `proofs`.
+ */
+export function conceptsInQuery(concepts: readonly Concept[], query: string): { concepts: Concept[]; rest: string } {
+  let rest = ` ${normalizeAlias(query).replace(/-/g, " ")} `;
+  const phrases = concepts
+    .flatMap((concept) => [concept.id, ...concept.aliases].map((alias) => ({ concept, alias })))
+    .map(({ concept, alias }) => ({ concept, phrase: normalizeAlias(alias).replace(/-/g, " ") }))
+    .sort((a, b) => b.phrase.length - a.phrase.length);
+  const found: Concept[] = [];
+  for (const { concept, phrase } of phrases) {
+    if (!rest.includes(` ${phrase} `)) continue;
+    rest = rest.replace(` ${phrase} `, " ");
+    if (!found.includes(concept)) found.push(concept);
+  }
+  return { concepts: found, rest: rest.trim() };
+}
+
+/** The concept of a package, from its cross-language ID, so snapshots taken before an alias was added still group. */
+export function conceptOf(concepts: readonly Concept[], pkg: Pick<Package, "crossLanguageId">): Concept | undefined {
+  return findConcept(concepts, pkg.crossLanguageId);
+}
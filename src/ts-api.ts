@@ -0,0 +1,369 @@
+import { posix } from "node:path";
+import {
+  collapse,
+  dedent,
+  indexOfTopLevel,
+  type ScanOptions,
+  type Statement,
+  splitStatements,
+  withBody,
+} from "./source-scanner.js";
+import type { ApiMember, ApiSymbol, ApiSymbolKind, PackageApi, SourceReader } from "./types.js";
+
+/** Max files read while following re-exports, counting misses, to bound requests for one package. */
+const MAX_FILE_READS = 60;
+
+export const SCAN_OPTIONS: ScanOptions = {
+  docPrefixes: ["/**"],
+  asi: true,
+  jsLiterals: true,
+  nonBodyWords: new Set(["export", "import", "type", "default", "return", "as", "in", "of", "satisfies"]),
+};
+
+// Declarations
+
+/** Longest initializer shown in a variable signature, e.g. `const TREE_DEPTH = 32`. */
+const MAX_INLINE_VALUE = 80;
+
+function describeVariable(text: string): { kind: ApiSymbolKind; signature: string } {
+  const eq = indexOfTopLevel(text, "=");
+  const declaration = collapse(eq === -1 ? text : text.slice(0, eq));
+  if (eq === -1) return { kind: "variable", signature: declaration };
+
+  const init = text.slice(eq + 1).trim();
+  const arrow = indexOfTopLevel(init, "=>");
+  if (arrow !== -1 && /^(?:async\b|[(<]|[\w$]+\s*=>)/.test(init)) {
+    return { kind: "function", signature: `${declaration} = ${collapse(init.slice(0, arrow + 2))}` };
+  }
+  if (indexOfTopLevel(declaration, ":") !== -1) return { kind: "variable", signature: declaration };
+  if (init.length <= MAX_INLINE_VALUE && !init.includes("\n")) {
+    return { kind: "variable", signature: `${declaration} = ${init}` };
+  }
+  return { kind: "variable", signature: declaration };
+}
+
+const MEMBER_MODIFIERS =
+  /^(?:(?:public|private|protected|static|readonly|abstract|async|override|declare|accessor)\s+)*/;
+const MEMBER_NAME = /^(?:[\w$]+|\[[^\]]+\]|"[^"]*"|'[^']*')/;
+
+/** Public members of a class body. Private and `#` members, decorators and static blocks are skipped. */
+function parseClassMembers(body: string): ApiMember[] {
+  const members: ApiMember[] = [];
+  const implemented = new Set<string>();
+
+  for (const statement of splitStatements(body, SCAN_OPTIONS)) {
+    const modifiers = MEMBER_MODIFIERS.exec(statement.head)?.[0] ?? "";
+    if (/\bprivate\b/.test(modifiers) || statement.head.startsWith("@") || statement.head === "static") continue;
+    let rest = statement.head.slice(modifiers.length);
+    if (rest.startsWith("#")) continue;
+
+    const accessor = /^(?:get|set)\s+(?=[\w$[])/.exec(rest)?.[0] ?? "";
+    rest = rest.slice(accessor.length);
+    const name = MEMBER_NAME.exec(rest)?.[0];
+    if (!name) continue;
+
+    const after = rest.slice(name.length).replace(/^[?!]/, "").trimStart();
+    const kind: ApiMember["kind"] = accessor
+      ? "accessor"
+      : name === "constructor"
+        ? "constructor"
+        : after.startsWith("(") || after.startsWith("<")
+          ? "method"
+          : "property";
+    const prefix = modifiers.replace(/\bpublic\s+/, "") + accessor;
+    const initializer = kind === "property" ? indexOfTopLevel(rest, "=") : -1;
+    const signature = collapse(prefix + (initializer === -1 ? rest : rest.slice(0, initializer)));
+    const isStatic = /\bstatic\b/.test(modifiers);
+    const member: ApiMember = {
+      name,
+      kind,
+      signature,
+      ...(statement.doc && { doc: statement.doc }),
+      ...(isStatic && { static: true }),
+    };
+
+    // Overloads: keep the declared signatures and drop the implementation's
+    const key = `${isStatic ? "static " : ""}${name}`;
+    const existing =
+      kind === "method" || kind === "constructor"
+        ? members.find((m) => m.name === name && m.kind === kind && !!m.static === isStatic)
+        : undefined;
+    if (existing) {
+      if (!implemented.has(key)) {
+        if (statement.body === undefined) existing.signature += `\n${signature}`;
+        else implemented.add(key);
+      }
+      continue;
+    }
+    if (statement.body !== undefined) implemented.add(key);
+    members.push(member);
+  }
+  return members;
+}
+
+/** Declaration keywords and the kind they declare. Class and function names are optional for default exports. */
+const DECLARATION_PATTERNS: [RegExp, ApiSymbolKind][] = [
+  [/^(?:abstract\s+)?class\b\s*([\w$]*)/, "class"],
+  [/^(?:async\s+)?function\b\s*\*?\s*([\w$]*)/, "function"],
+  [/^interface\s+([\w$]+)/, "interface"],
+  [/^(?:const\s+)?enum\s+([\w$]+)/, "enum"],
+  [/^type\s+([\w$]+)/, "type"],
+  [/^(?:namespace|module)\s+([\w$]+)/, "namespace"],
+  [/^(?:const|let|var)\s+([\w$]+)/, "variable"],
+];
+
+/** Parse a declaration statement (without `export`). Returns undefined for anything else. */
+function parseDeclaration(
+  text: string,
+  statement: Statement,
+  file: string,
+): { symbol: ApiSymbol; hasBody: boolean } | undefined {
+  const s = text.replace(/^declare\s+/, "");
+  const hasBody = statement.body !== undefined;
+  const make = (name: string, kind: ApiSymbolKind, signature: string, members?: ApiMember[]) => ({
+    symbol: {
+      name,
+      kind,
+      signature,
+      ...(statement.doc && { doc: statement.doc }),
+      file,
+      ...(members && { members }),
+    },
+    hasBody,
+  });
+
+  for (const [pattern, kind] of DECLARATION_PATTERNS) {
+    const name = pattern.exec(s)?.[1];
+    if (name === undefined) continue;
+    switch (kind) {
+      case "class":
+        return make(name, kind, collapse(s), parseClassMembers(statement.body ?? ""));
+      case "interface":
+      case "enum":
+        return make(name, kind, withBody(s, statement.body));
+      case "type":
+        return make(name, kind, dedent(s));
+      case "variable": {
+        const variable = describeVariable(s);
+        return make(name, variable.kind, variable.signature);
+      }
+      default:
+        return make(name, kind, collapse(s));
+    }
+  }
+  return undefined;
+}
+
+// Modules
+
+interface ModuleExport {
+  /** Name the symbol is exported as, or `*` for `export * from`. */
+  name: string;
+  /** Name in the source module: a declaration, an import, or `*` for `export * as name`. */
+  local: string;
+  /** Module specifier for `export ... from`. */
+  from?: string;
+}
+
+interface ParsedModule {
+  declarations: Map<string, ApiSymbol>;
+  imports: Map<string, { from: string; imported: string }>;
+  /** Exports in source order. */
+  exports: ModuleExport[];
+}
+
+/** Parse `a, b as c, type d` from an import or export list. */
+function parseSpecifiers(list: string): { local: string; exported: string }[] {
+  return list
+    .split(",")
+    .map((s) => s.trim().replace(/^type\s+/, ""))
+    .filter(Boolean)
+    .map((s) => {
+      const [local, exported = local] = s.split(/\s+as\s+/);
+      return { local: local.trim(), exported: exported.trim() };
+    });
+}
+
+function parseImportClause(clause: string): { local: string; imported: string }[] {
+  const bindings: { local: string; imported: string }[] = [];
+  const named = /\{([^}]*)\}/.exec(clause);
+  if (named) {
+    for (const { local, exported } of parseSpecifiers(named[1])) bindings.push({ local: exported, imported: local });
+  }
+  const namespace = /\*\s+as\s+([\w$]+)/.exec(clause);
+  if (namespace) bindings.push({ local: namespace[1], imported: "*" });
+  const defaultImport = /^([\w$]+)\s*(?:,|$)/.exec(clause.trim());
+  if (defaultImport) bindings.push({ local: defaultImport[1], imported: "default" });
+  return bindings;
+}
+
+const IMPORT_FROM = /^import\s+(?:type\s+)?([\s\S]+?)\s+from\s+["']([^"']+)["']/;
+const EXPORT_STAR = /^export\s+(?:type\s+)?\*\s+from\s+["']([^"']+)["']/;
+const EXPORT_NAMESPACE = /^export\s+(?:type\s+)?\*\s+as\s+([\w$]+)\s+from\s+["']([^"']+)["']/;
+const EXPORT_LIST = /^export\s+(?:type\s+)?\{([^}]*)\}(?:\s*from\s+["']([^"']+)["'])?/;
+
+function parseModule(src: string, file: string): ParsedModule {
+  const mod: ParsedModule = { declarations: new Map(), imports: new Map(), exports: [] };
+  const exported = new Set<string>();
+  const implemented = new Set<string>();
+
+  const declare = (decl: { symbol: ApiSymbol; hasBody: boolean }, exportAs?: string) => {
+    const { symbol, hasBody } = decl;
+    const key = symbol.name || "default";
+    const existing = mod.declarations.get(key);
+    if (existing?.kind === "function" && symbol.kind === "function" && !implemented.has(key)) {
+      // Overloads: keep the declared signatures and drop the implementation's
+      if (hasBody) implemented.add(key);
+      else existing.signature += `\n${symbol.signature}`;
+    } else if (!existing) {
+      mod.declarations.set(key, symbol);
+      if (hasBody && symbol.kind === "function") implemented.add(key);
+    }
+    if (exportAs !== undefined && !exported.has(exportAs)) {
+      exported.add(exportAs);
+      mod.exports.push({ name: exportAs, local: key });
+    }
+  };
+
+  for (const statement of splitStatements(src, SCAN_OPTIONS)) {
+    const { head } = statement;
+    const importFrom = IMPORT_FROM.exec(head);
+    const starExport = EXPORT_STAR.exec(head);
+    const namespaceExport = EXPORT_NAMESPACE.exec(head);
+    const listExport = EXPORT_LIST.exec(head);
+
+    if (importFrom) {
+      for (const { local, imported } of parseImportClause(importFrom[1])) {
+        mod.imports.set(local, { from: importFrom[2], imported });
+      }
+    } else if (starExport) {
+      mod.exports.push({ name: "*", local: "*", from: starExport[1] });
+    } else if (namespaceExport) {
+      mod.exports.push({ name: namespaceExport[1], local: "*", from: namespaceExport[2] });
+    } else if (listExport) {
+      const from = listExport[2];
+      for (const { local, exported: name } of parseSpecifiers(listExport[1])) {
+        mod.exports.push({ name, local, ...(from && { from }) });
+      }
+    } else if (/^export\s+default\s/.test(head)) {
+      const rest = head.replace(/^export\s+default\s+/, "");
+      const decl = parseDeclaration(rest, statement, file);
+      if (decl) declare(decl, "default");
+      else if (/^[\w$]+$/.test(rest)) mod.exports.push({ name: "default", local: rest });
+    } else if (/^export\s/.test(head)) {
+      const decl = parseDeclaration(head.replace(/^export\s+/, ""), statement, file);
+      if (decl) declare(decl, decl.symbol.name);
+    } else {
+      const decl = parseDeclaration(head, statement, file);
+      if (decl) declare(decl);
+    }
+  }
+  return mod;
+}
+
+/** Files a relative module specifier may refer to, most likely first. */
+function moduleCandidates(base: string): string[] {
+  if (/\.(?:ts|tsx|mts|cts)$/.test(base)) return [base];
+  const js = /\.(m|c)?jsx?$/.exec(base);
+  if (js) {
+    const stem = base.slice(0, -js[0].length);
+    return [`${stem}.${js[1] ?? ""}ts`, `${stem}.tsx`, base];
+  }
+  return [`${base}.ts`, `${base}.tsx`, `${base}/index.ts`, `${base}.d.ts`, `${base}.js`, `${base}/index.js`];
+}
+
+/**
+ * Extract the public API of a TypeScript package from its entry file, following `export * from`,
+ * `export { ... } from` and imported-then-exported names across the package's relative modules.
+ */
+export async function extractTypeScriptApi(entryFile: string, read: SourceReader): Promise<PackageApi> {
+  const modules = new Map<string, ParsedModule | null>();
+  const files: string[] = [];
+  const external = new Set<string>();
+  const unresolved = new Set<string>();
+  const resolved = new Map<string, Map<string, ApiSymbol>>();
+  const inProgress = new Set<string>();
+
+  async function load(file: string): Promise<ParsedModule | null> {
+    if (modules.has(file)) return modules.get(file) ?? null;
+    if (modules.size >= MAX_FILE_READS) return null;
+    const src = await read(file);
+    const mod = src === null ? null : parseModule(src, file);
+    modules.set(file, mod);
+    if (mod) files.push(file);
+    return mod;
+  }
+
+  async function resolveModule(from: string, spec: string): Promise<string | undefined> {
+    if (!spec.startsWith(".")) {
+      external.add(spec);
+      return undefined;
+    }
+    const base = posix.normalize(posix.join(posix.dirname(from), spec));
+    for (const candidate of moduleCandidates(base)) {
+      if (await load(candidate)) return candidate;
+    }
+    unresolved.add(base);
+    return undefined;
+  }
+
+  async function resolveImported(from: string, spec: string, name: string, exportAs: string) {
+    const target = await resolveModule(from, spec);
+    if (!target) return undefined;
+    if (name === "*") {
+      return {
+        name: exportAs,
+        kind: "namespace" as const,
+        signature: `export * as ${exportAs} from "${spec}"`,
+        file: target,
+      };
+    }
+    return (await exportsOf(target)).get(name);
+  }
+
+  async function exportsOf(file: string): Promise<Map<string, ApiSymbol>> {
+    const done = resolved.get(file);
+    if (done) return done;
+    const mod = await load(file);
+    // A module re-exporting itself through a cycle contributes nothing the second time
+    if (!mod || inProgress.has(file)) return new Map();
+    inProgress.add(file);
+
+    // Explicit exports win over `export *`, as in TypeScript
+    const explicit = new Set(mod.exports.map((e) => e.name));
+    const result = new Map<string, ApiSymbol>();
+    for (const exp of mod.exports) {
+      if (exp.name === "*") {
+        const target = await resolveModule(file, exp.from as string);
+        if (!target) continue;
+        for (const [name, symbol] of await exportsOf(target)) {
+          if (name !== "default" && !explicit.has(name) && !result.has(name)) result.set(name, symbol);
+        }
+        continue;
+      }
+      if (result.has(exp.name)) continue;
+      let symbol: ApiSymbol | undefined;
+      if (exp.from !== undefined) {
+        symbol = await resolveImported(file, exp.from, exp.local, exp.name);
+      } else {
+        symbol = mod.declarations.get(exp.local);
+        const imported = mod.imports.get(exp.local);
+        if (!symbol && imported) symbol = await resolveImported(file, imported.from, imported.imported, exp.name);
+      }
+      if (symbol) result.set(exp.name, symbol.name === exp.name ? symbol : { ...symbol, name: exp.name });
+    }
+    inProgress.delete(file);
+    resolved.set(file, result);
+    return result;
+  }
+
+  const symbols = [...(await exportsOf(entryFile)).values()];
+  return {
+    language: "typescript",
+    entryFile,
+    files,
+    symbols,
+    external: [...external].sort(),
+    unresolved: [...unresolved].sort(),
+  };
+}
@@ -11,90 +11,243 @@ export interface RepoConfig {
   language: Language;
   packagePath: string;
   branch: string;
+  /** Read this repo from a local checkout instead of GitHub. */
+  localPath?: string;
 }
 
-export interface Package {
-  name: string;
-  dirName: string;
-  language: Language;
-  category: Category;
-  repo: string;
-  description: string;
-  installCommand: string;
-  crossLanguageId: string;
-  version?: string;
-  zkKitDependencies: string[];
-}
+// Shapes returned by the tools as structured content are zod schemas, so they double as output schemas
 
-export interface PackageDependencies {
-  dependencies: Record<string, string>;
-  devDependencies: Record<string, string>;
-  peerDependencies: Record<string, string>;
-}
+export const Package = z.object({
+  name: z.string(),
+  dirName: z.string(),
+  language: Language,
+  category: Category,
+  repo: z.string(),
+  description: z.string(),
+  installCommand: z.string(),
+  crossLanguageId: z.string(),
+  version: z.string().optional(),
+  zkKitDependencies: z.array(z.string()),
+  /** Slug of the repo the package was discovered in. Absent in snapshots from older versions. */
+  repoSlug: z.string().optional(),
+});
+export type Package = z.infer<typeof Package>;
 
-export interface RepoStats {
-  slug: string;
-  description: string;
-  stars: number;
-  forks: number;
-  openIssues: number;
-  lastPushed: string;
-  license: string;
-  topics: string[];
-  language: string;
-  url: string;
-}
+export const PackageDependencies = z.object({
+  dependencies: z.record(z.string()),
+  devDependencies: z.record(z.string()),
+  peerDependencies: z.record(z.string()),
+});
+export type PackageDependencies = z.infer<typeof PackageDependencies>;
 
-export interface DirectoryEntry {
-  name: string;
+export const RepoStats = z.object({
+  slug: z.string(),
+  description: z.string(),
+  stars: z.number(),
+  forks: z.number(),
+  openIssues: z.number(),
+  lastPushed: z.string(),
+  license: z.string(),
+  topics: z.array(z.string()),
+  language: z.string(),
+  url: z.string(),
+});
+export type RepoStats = z.infer<typeof RepoStats>;
+
+/** One entry of a recursive git tree, with its path relative to the repo root. */
+export interface GitTreeEntry {
   path: string;
-  type: "file" | "dir";
+  type: "blob" | "tree";
   size?: number;
+  /** Git object id. Absent for local working trees. */
+  sha?: string;
 }
 
-export interface CodeSearchResult {
-  path: string;
-  repo: string;
-  url: string;
-  fragment: string;
+export interface RepoTree {
+  entries: GitTreeEntry[];
+  /** True when GitHub cut the listing short because the repo is too large. */
+  truncated: boolean;
 }
 
-export interface PackageCommit {
-  sha: string;
-  message: string;
-  author: string;
-  date: string;
-  url: string;
-}
+export const DirectoryEntry = z.object({
+  name: z.string(),
+  path: z.string(),
+  type: z.enum(["file", "dir"]),
+  size: z.number().optional(),
+  /** Git blob id, when known. Equal ids mean equal content. */
+  sha: z.string().optional(),
+});
+export type DirectoryEntry = z.infer<typeof DirectoryEntry>;
 
-export interface PackageDownloads {
-  weeklyDownloads: number;
-  monthlyDownloads: number;
-  source: "npm" | "crates.io" | "unavailable";
-}
+export const CodeSearchResult = z.object({
+  path: z.string(),
+  repo: z.string(),
+  url: z.string(),
+  fragment: z.string(),
+});
+export type CodeSearchResult = z.infer<typeof CodeSearchResult>;
 
-export interface WorkflowRun {
-  name: string;
-  status: string;
-  conclusion: string | null;
-  branch: string;
-  createdAt: string;
-  url: string;
-}
+export const PackageCommit = z.object({
+  sha: z.string(),
+  message: z.string(),
+  author: z.string(),
+  date: z.string(),
+  url: z.string(),
+});
+export type PackageCommit = z.infer<typeof PackageCommit>;
+
+export const PackageDownloads = z.object({
+  weeklyDownloads: z.number(),
+  monthlyDownloads: z.number(),
+  source: z.enum(["npm", "crates.io", "unavailable"]),
+});
+export type PackageDownloads = z.infer<typeof PackageDownloads>;
+
+export const WorkflowRun = z.object({
+  name: z.string(),
+  status: z.string(),
+  conclusion: z.string().nullable(),
+  branch: z.string(),
+  createdAt: z.string(),
+  url: z.string(),
+});
+export type WorkflowRun = z.infer<typeof WorkflowRun>;
+
+export const GithubRelease = z.object({
+  tag: z.string(),
+  name: z.string(),
+  date: z.string(),
+  url: z.string(),
+  body: z.string(),
+});
+export type GithubRelease = z.infer<typeof GithubRelease>;
+
+export const GithubIssue = z.object({
+  number: z.number(),
+  title: z.string(),
+  state: z.string(),
+  url: z.string(),
+  labels: z.array(z.string()),
+  created: z.string(),
+});
+export type GithubIssue = z.infer<typeof GithubIssue>;
+
+export const ApiSymbolKind = z.enum([
+  "class",
+  "contract",
+  "library",
+  "template",
+  "function",
+  "interface",
+  "trait",
+  "struct",
+  "type",
+  "enum",
+  "event",
+  "error",
+  "variable",
+  "namespace",
+]);
+export type ApiSymbolKind = z.infer<typeof ApiSymbolKind>;
 
-export interface GithubRelease {
-  tag: string;
+export const ApiMember = z.object({
+  name: z.string(),
+  /**
+   * Class members, `input`/`output` for Circom template signals, and functions, events, errors,
+   * modifiers, structs, enums and public state variables of Solidity contracts.
+   */
+  kind: z.enum([
+    "constructor",
+    "method",
+    "property",
+    "accessor",
+    "input",
+    "output",
+    "function",
+    "event",
+    "error",
+    "modifier",
+    "struct",
+    "enum",
+    "variable",
+  ]),
+  signature: z.string(),
+  doc: z.string().optional(),
+  static: z.boolean().optional(),
+  /** Array dimensions of a signal, e.g. `["MAX_DEPTH", "2"]` for `siblings[MAX_DEPTH][2]`. */
+  dimensions: z.array(z.string()).optional(),
+});
+export type ApiMember = z.infer<typeof ApiMember>;
+
+/** An exported declaration of a package's public API. */
+export const ApiSymbol = z.object({
+  /** Name the symbol is exported as from the entry file. */
+  name: z.string(),
+  kind: ApiSymbolKind,
+  /** Declaration without its body, e.g. `function hash(message: string): bigint`. */
+  signature: z.string(),
+  doc: z.string().optional(),
+  /** Package-relative file the symbol is declared in. */
+  file: z.string(),
+  /** Parameter names of Circom templates and functions. */
+  parameters: z.array(z.string()).optional(),
+  /** Inherited contracts and interfaces, in declaration order. */
+  inherits: z.array(z.string()).optional(),
+  /** Traits implemented by a Rust or Noir type. */
+  implements: z.array(z.string()).optional(),
+  members: z.array(ApiMember).optional(),
+});
+export type ApiSymbol = z.infer<typeof ApiSymbol>;
+
+export interface AbiParameter {
   name: string;
-  date: string;
-  url: string;
-  body: string;
+  type: string;
+  internalType?: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
 }
 
-export interface GithubIssue {
-  number: number;
-  title: string;
-  state: string;
-  url: string;
-  labels: string[];
-  created: string;
-}
+export const AbiParameter: z.ZodType<AbiParameter> = z.lazy(() =>
+  z.object({
+    name: z.string(),
+    type: z.string(),
+    internalType: z.string().optional(),
+    indexed: z.boolean().optional(),
+    components: z.array(AbiParameter).optional(),
+  }),
+);
+
+/** An entry of a Solidity JSON ABI. */
+export const AbiEntry = z.object({
+  type: z.enum(["function", "constructor", "event", "error", "receive", "fallback"]),
+  name: z.string().optional(),
+  inputs: z.array(AbiParameter).optional(),
+  outputs: z.array(AbiParameter).optional(),
+  stateMutability: z.enum(["pure", "view", "nonpayable", "payable"]).optional(),
+  anonymous: z.boolean().optional(),
+});
+export type AbiEntry = z.infer<typeof AbiEntry>;
+
+export const PackageApi = z.object({
+  language: Language,
+  entryFile: z.string(),
+  /** Package-relative files read to build the API, entry file first. */
+  files: z.array(z.string()),
+  symbols: z.array(ApiSymbol),
+  /** Other packages whose exports are re-exported, e.g. `@zk-kit/utils`. */
+  external: z.array(z.string()),
+  /** Relative modules that are re-exported (or included) but could not be read. */
+  unresolved: z.array(z.string()),
+  /** Files included by Circom sources, as written in the `include` statements. */
+  includes: z.array(z.string()).optional(),
+  /** The Circom `component main` instantiation, if the sources declare one. */
+  main: z
+    .object({ template: z.string(), arguments: z.array(z.string()), publicInputs: z.array(z.string()) })
+    .optional(),
+  /** Minimal ABI per Solidity contract, library and interface, derived from the source without compiling. */
+  abi: z.record(z.array(AbiEntry)).optional(),
+});
+export type PackageApi = z.infer<typeof PackageApi>;
+
+/** Reads a package-relative file. Resolves to null when the file does not exist. */
+export type SourceReader = (path: string) => Promise<string | null>;
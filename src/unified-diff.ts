@@ -0,0 +1,130 @@
+interface DiffOp {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+/** Above this many edit-graph cells the Myers trace gets too large, and the middle is diffed as one block. */
+const MAX_TRACE_CELLS = 4_000_000;
+
+/**
+ * Line diff using Myers' O(ND) algorithm. Common prefix and suffix are stripped first, which keeps
+ * the edit graph small for the typical "a few hunks in a large file" case.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix = a.slice(0, start).map((line): DiffOp => ({ type: " ", line }));
+  const suffix = a.slice(endA).map((line): DiffOp => ({ type: " ", line }));
+  return [...prefix, ...myers(a.slice(start, endA), b.slice(start, endB)), ...suffix];
+}
+
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if ((trace.length + 1) * v.length > MAX_TRACE_CELLS) {
+      return [...a.map((line): DiffOp => ({ type: "-", line })), ...b.map((line): DiffOp => ({ type: "+", line }))];
+    }
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, a, b, offset);
+    }
+  }
+  return [];
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[], offset: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : v[offset + prevK];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: " ", line: a[--x] });
+      y--;
+    }
+    if (d === 0) break;
+    if (x === prevX) ops.push({ type: "+", line: b[--y] });
+    else ops.push({ type: "-", line: a[--x] });
+  }
+  return ops.reverse();
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Unified diff of two texts, in the format `git diff` prints. Returns an empty string when the
+ * texts are identical. `null` stands for a file that does not exist on that side.
+ */
+export function unifiedDiff(
+  before: string | null,
+  after: string | null,
+  oldName: string,
+  newName: string,
+  context = 3,
+): string {
+  if (before === after) return "";
+  const ops = diffLines(splitLines(before ?? ""), splitLines(after ?? ""));
+
+  const out = [
+    `--- ${before === null ? "/dev/null" : `a/${oldName}`}`,
+    `+++ ${after === null ? "/dev/null" : `b/${newName}`}`,
+  ];
+  const changed = ops.map((op, i) => (op.type !== " " ? i : -1)).filter((i) => i !== -1);
+  if (changed.length === 0) return "";
+
+  let i = 0;
+  while (i < changed.length) {
+    // Extend the hunk while the next change is within 2 * context lines
+    let j = i;
+    while (j + 1 < changed.length && changed[j + 1] - changed[j] <= 2 * context) j++;
+    const from = Math.max(0, changed[i] - context);
+    const to = Math.min(ops.length, changed[j] + context + 1);
+
+    let oldLine = 1;
+    let newLine = 1;
+    for (let p = 0; p < from; p++) {
+      if (ops[p].type !== "+") oldLine++;
+      if (ops[p].type !== "-") newLine++;
+    }
+    const hunk = ops.slice(from, to);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+    out.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`,
+    );
+    for (const op of hunk) out.push(`${op.type}${op.line}`);
+    i = j + 1;
+  }
+
+  return out.join("\n");
+}
@@ -0,0 +1,204 @@
+import type { Language } from "./types.js";
+
+/** A code snippet showing a package in use: a README code block or a test. */
+export interface UsageExample {
+  source: "readme" | "test";
+  /** Heading path of a README block, e.g. `Usage > Proofs`, or the test name with its `describe` blocks. */
+  title: string;
+  /** Package-relative path and 1-based line of a test. */
+  file?: string;
+  line?: number;
+  /** Code block language, e.g. `typescript` or `solidity`. */
+  language: string;
+  code: string;
+}
+
+/** Max test files read per package. */
+const MAX_TEST_FILES = 40;
+/** Larger files are generated fixtures, not worth mining. */
+const MAX_FILE_SIZE = 256 * 1024;
+/** Longest example returned, in lines. Longer tests are cut. */
+const MAX_EXAMPLE_LINES = 60;
+
+/** Test files of TypeScript, Circom and Solidity packages. Circom circuits are tested from TypeScript. */
+const TEST_FILE = /(?:^|\/)(?:tests?|__tests__)\/.*\.(?:[cm]?[jt]sx?|sol)$|\.(?:test|spec)\.[cm]?[jt]sx?$|\.t\.sol$/;
+/** Rust and Noir keep `#[test]` functions next to the code, so every source file may hold tests. */
+const INLINE_TEST_FILE: Partial<Record<Language, RegExp>> = { rust: /\.rs$/, noir: /\.nr$/ };
+const IGNORED_PATH = /(?:^|\/)(?:node_modules|dist|build|target|out|cache|artifacts|typechain-types|coverage)\//;
+
+/** Lines of a README block that only install something, like `npm i @zk-kit/imt`. */
+const INSTALL_LINE =
+  /^\s*(?:\$\s*)?(?:(?:npm|pnpm|bun)\s+(?:i|install|add)|yarn\s+add|cargo\s+add|forge\s+install|nargo\s+(?:new|init))\b/;
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  tsx: "typescript",
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  jsx: "javascript",
+  sol: "solidity",
+  rs: "rust",
+  nr: "noir",
+};
+
+/** Paths of a package's files that may hold tests, without dependencies, build output or oversized files. */
+export function exampleFiles(language: Language, entries: { path: string; size?: number }[]): string[] {
+  const inline = INLINE_TEST_FILE[language];
+  return entries
+    .filter((e) => (TEST_FILE.test(e.path) || inline?.test(e.path)) && !IGNORED_PATH.test(e.path))
+    .filter((e) => (e.size ?? 0) <= MAX_FILE_SIZE)
+    .map((e) => e.path)
+    .sort()
+    .slice(0, MAX_TEST_FILES);
+}
+
+/**
+ * Code blocks of a README, each titled with the headings above it. Blocks that only install the
+ * package are skipped: `get_package_readme` with `summary` shows the install command.
+ */
+export function readmeExamples(readme: string): UsageExample[] {
+  const examples: UsageExample[] = [];
+  const headings: string[] = [];
+  let block: { language: string; lines: string[] } | undefined;
+
+  for (const line of readme.split("\n")) {
+    const fence = line.match(/^\s*(?:```|~~~)\s*([\w+-]*)/);
+    if (block) {
+      if (!fence) {
+        block.lines.push(line);
+        continue;
+      }
+      const code = block.lines.join("\n").trim();
+      const install = code.split("\n").every((l) => !l.trim() || l.trim().startsWith("#") || INSTALL_LINE.test(l));
+      if (code && !install) {
+        examples.push({
+          source: "readme",
+          title: headings.filter(Boolean).join(" > "),
+          language: block.language,
+          code,
+        });
+      }
+      block = undefined;
+    } else if (fence) {
+      block = { language: fence[1].toLowerCase(), lines: [] };
+    } else {
+      const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+      if (heading) {
+        headings.length = heading[1].length;
+        headings[heading[1].length - 1] = heading[2].replace(/<[^>]*>|[`*]/g, "").trim();
+      }
+    }
+  }
+  return examples;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/** A test found in a file: its name, its first line and the line opening its body, after any attributes. */
+interface FoundTest {
+  title: string;
+  start: number;
+  head: number;
+}
+
+/**
+ * The lines of a test, up to the end of the block its head opens: the first later line indented
+ * no deeper, included when it closes the block with `}`, `)` or `]`. Cut at {@link MAX_EXAMPLE_LINES}.
+ */
+function blockAt(lines: string[], { start, head }: FoundTest): string {
+  const indent = indentOf(lines[head]);
+  let end = head + 1;
+  while (end < lines.length && (!lines[end].trim() || indentOf(lines[end]) > indent)) end++;
+  if (end < lines.length && /^\s*[})\]]/.test(lines[end])) end++;
+  // Trailing blank lines belong to the next block
+  while (end > head + 1 && !lines[end - 1].trim()) end--;
+  const block = lines.slice(start, end).map((l) => l.slice(Math.min(indent, indentOf(l))));
+  if (block.length <= MAX_EXAMPLE_LINES) return block.join("\n");
+  return [...block.slice(0, MAX_EXAMPLE_LINES), "// ..."].join("\n");
+}
+
+/** `it`/`test` cases of a JavaScript or TypeScript test file, titled with their `describe` blocks. */
+function jsTests(lines: string[]): FoundTest[] {
+  const tests: FoundTest[] = [];
+  const describes: { indent: number; name: string }[] = [];
+  lines.forEach((line, i) => {
+    const m = line.match(/^(\s*)(describe|it|test)(?:\.\w+)*\(\s*(["'`])(.*?)\3/);
+    if (!m) return;
+    while (describes.length > 0 && describes[describes.length - 1].indent >= m[1].length) describes.pop();
+    if (m[2] === "describe") describes.push({ indent: m[1].length, name: m[4] });
+    else tests.push({ title: [...describes.map((d) => d.name), m[4]].join(" > "), start: i, head: i });
+  });
+  return tests;
+}
+
+/** Foundry tests: `test*` functions of a Solidity test contract. */
+function solidityTests(lines: string[]): FoundTest[] {
+  return lines.flatMap((line, i) => {
+    const m = line.match(/^\s*function\s+(test\w*)\s*\(/);
+    return m ? [{ title: m[1], start: i, head: i }] : [];
+  });
+}
+
+/** Rust and Noir `#[test]` functions, starting at their attribute. */
+function attributeTests(lines: string[]): FoundTest[] {
+  return lines.flatMap((line, i) => {
+    if (!/^\s*#\[test\b/.test(line)) return [];
+    // The function follows its attributes
+    for (let j = i + 1; j < Math.min(lines.length, i + 5); j++) {
+      const fn = lines[j].match(/^\s*(?:pub(?:\([^)]*\))?\s+)?(?:(?:unconstrained|async)\s+)*fn\s+(\w+)/);
+      if (fn) return [{ title: fn[1], start: i, head: j }];
+    }
+    return [];
+  });
+}
+
+/** The tests of a file, by its extension: JavaScript/TypeScript cases, Foundry tests or `#[test]` functions. */
+export function testExamples(file: string, content: string): UsageExample[] {
+  const extension = file.split(".").pop() ?? "";
+  const language = LANGUAGE_BY_EXTENSION[extension];
+  if (!language) return [];
+  const lines = content.split("\n");
+  const tests =
+    language === "solidity"
+      ? solidityTests(lines)
+      : language === "rust" || language === "noir"
+        ? attributeTests(lines)
+        : jsTests(lines);
+  return tests.map((test) => ({
+    source: "test" as const,
+    title: test.title,
+    file,
+    line: test.start + 1,
+    language,
+    code: blockAt(lines, test),
+  }));
+}
+
+/**
+ * Examples calling a function or constructing a type, e.g. `generateProof` or `LeanIMT`. A
+ * qualified name like `LeanIMT.insert` matches calls of its last part.
+ */
+export function examplesCalling(examples: UsageExample[], name: string): UsageExample[] {
+  const last = name.split(/\.|::/).pop() ?? name;
+  const escaped = last.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const call = new RegExp(`(?<![\\w$])${escaped}\\s*(?:::<[^>]*>|<[^>()]*>)?\\s*[({]`);
+  return examples.filter((e) => call.test(e.code));
+}
+
+/** Markdown of examples, each under its title with where it comes from. */
+export function formatUsageExamples(pkgName: string, examples: UsageExample[], total: number, calls?: string): string {
+  const what = calls ? ` calling \`${calls}\`` : "";
+  if (examples.length === 0) return `No usage examples${what} found in the README or tests of ${pkgName}.`;
+  const shown = total > examples.length ? `Showing ${examples.length} of ${total}` : `${total}`;
+  let md = `# ${pkgName} - Usage Examples${what}\n\n${shown} example${total === 1 ? "" : "s"} from the README and tests.\n`;
+  for (const e of examples) {
+    const where = e.source === "readme" ? "README" : `\`${e.file}:${e.line}\``;
+    md += `\n## ${e.title || "(untitled)"}\n\n${where}\n\n\`\`\`${e.language}\n${e.code}\n\`\`\`\n`;
+  }
+  return md;
+}
@@ -0,0 +1,111 @@
+import type { DirectoryEntry } from "./types.js";
+
+export type FileChangeStatus = "added" | "removed" | "modified";
+
+export interface FileChange {
+  path: string;
+  status: FileChangeStatus;
+}
+
+/** Max changed files listed before the list is summarized. */
+const MAX_LISTED_FILES = 200;
+/** Max entry file diffs shown. The others are named, to read with `get_package_source`. */
+const MAX_DIFFED_FILES = 10;
+/** Smallest share of the budget worth showing a diff in. */
+const MIN_DIFF_LENGTH = 500;
+
+/**
+ * Compare two package file trees. Files are matched by path and compared by git blob id, or by
+ * size when an id is missing (local working trees).
+ */
+export function compareTrees(before: readonly DirectoryEntry[], after: readonly DirectoryEntry[]): FileChange[] {
+  const files = (entries: readonly DirectoryEntry[]) =>
+    new Map(entries.filter((e) => e.type === "file").map((e) => [e.path, e]));
+  const oldFiles = files(before);
+  const newFiles = files(after);
+
+  const changes: FileChange[] = [];
+  for (const [path, next] of newFiles) {
+    const prev = oldFiles.get(path);
+    if (!prev) {
+      changes.push({ path, status: "added" });
+    } else if (prev.sha && next.sha ? prev.sha !== next.sha : prev.size !== next.size) {
+      changes.push({ path, status: "modified" });
+    }
+  }
+  for (const path of oldFiles.keys()) {
+    if (!newFiles.has(path)) changes.push({ path, status: "removed" });
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export interface EntryFileDiff {
+  path: string;
+  diff: string;
+}
+
+/** Cut a diff to `limit` characters at a line boundary. */
+function truncateDiff(diff: string, limit: number): { text: string; truncated: boolean } {
+  if (diff.length <= limit) return { text: diff, truncated: false };
+  const cut = diff.lastIndexOf("\n", limit);
+  return { text: diff.slice(0, cut > 0 ? cut : limit), truncated: true };
+}
+
+/**
+ * Render the changed file list and entry file diffs as markdown within `maxLength` characters.
+ * The remaining budget after the file list is split evenly between entry file diffs, showing only
+ * as many as get {@link MIN_DIFF_LENGTH} characters each, at most {@link MAX_DIFFED_FILES}.
+ */
+export function formatVersionDiff(options: {
+  title: string;
+  changes: FileChange[];
+  entryDiffs: EntryFileDiff[];
+  maxLength: number;
+}): string {
+  const { title, changes, entryDiffs, maxLength } = options;
+  const counts = (status: FileChangeStatus) => changes.filter((c) => c.status === status).length;
+
+  let md = `# ${title}\n\n`;
+  if (changes.length === 0) {
+    return `${md}No files changed in the package between these refs.`;
+  }
+
+  md += `## Changed files (${changes.length}: ${counts("added")} added, ${counts("modified")} modified, ${counts("removed")} removed)\n\n`;
+  md += changes
+    .slice(0, MAX_LISTED_FILES)
+    .map((c) => `- ${c.status}: \`${c.path}\``)
+    .join("\n");
+  if (changes.length > MAX_LISTED_FILES) {
+    md += `\n- ... and ${changes.length - MAX_LISTED_FILES} more`;
+  }
+
+  md += "\n\n## Entry file diffs\n\n";
+  if (entryDiffs.length === 0) {
+    return `${md}The public entry files did not change.`;
+  }
+
+  // Headings, fences and a possible truncation note per file
+  const overhead = (diffs: EntryFileDiff[]) => diffs.reduce((sum, d) => sum + d.path.length * 2 + 200, 0);
+  const omittedNote = (omitted: EntryFileDiff[]) =>
+    omitted.length > 0
+      ? `\n\n*[${omitted.length} more entry file${omitted.length === 1 ? "" : "s"} changed: ${omitted.map((d) => `\`${d.path}\``).join(", ")}. Use \`get_package_source\` with \`ref\` to read them.]*`
+      : "";
+  let shown = Math.min(entryDiffs.length, MAX_DIFFED_FILES);
+  const budget = (count: number) =>
+    maxLength - md.length - overhead(entryDiffs.slice(0, count)) - omittedNote(entryDiffs.slice(count)).length;
+  while (shown > 0 && budget(shown) < shown * MIN_DIFF_LENGTH) shown--;
+  if (shown === 0) return md + omittedNote(entryDiffs).trimStart();
+  const perFile = Math.floor(budget(shown) / shown);
+
+  md += entryDiffs
+    .slice(0, shown)
+    .map((d) => {
+      const { text, truncated } = truncateDiff(d.diff, perFile);
+      const note = truncated
+        ? `\n\n*[Diff truncated at ${perFile} characters. Use \`get_package_source\` with \`ref\` to read \`${d.path}\` in full.]*`
+        : "";
+      return `### \`${d.path}\`\n\n\`\`\`diff\n${text}\n\`\`\`${note}`;
+    })
+    .join("\n\n");
+  return md + omittedNote(entryDiffs.slice(shown));
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+  alignOperations,
+  apiOperations,
+  formatApiParity,
+  operationKey,
+  type ParityVariant,
+} from "../src/api-parity.js";
+import type { PackageApi } from "../src/types.js";
+
+function api(language: PackageApi["language"], symbols: PackageApi["symbols"]): PackageApi {
+  return { language, entryFile: "entry", files: ["entry"], symbols, external: [], unresolved: [] };
+}
+
+const TYPESCRIPT = api("typescript", [
+  {
+    name: "LeanIMT",
+    kind: "class",
+    signature: "class LeanIMT",
+    file: "src/lean-imt.ts",
+    members: [
+      { name: "constructor", kind: "constructor", signature: "constructor(hash: Hash)" },
+      { name: "root", kind: "accessor", signature: "get root(): bigint" },
+      { name: "insert", kind: "method", signature: "insert(leaf: bigint): void" },
+      { name: "insertMany", kind: "method", signature: "insertMany(leaves: bigint[]): void" },
+      { name: "generateProof", kind: "method", signature: "generateProof(index: number): LeanIMTMerkleProof" },
+      { name: "size", kind: "property", signature: "readonly size: number" },
+    ],
+  },
+  {
+    name: "verifyProof",
+    kind: "function",
+    signature: "function verifyProof(proof: LeanIMTMerkleProof): boolean",
+    file: "src/index.ts",
+  },
+]);
+
+const SOLIDITY = api("solidity", [
+  {
+    name: "InternalLeanIMT",
+    kind: "library",
+    signature: "library InternalLeanIMT",
+    file: "contracts/InternalLeanIMT.sol",
+    members: [
+      { name: "_insert", kind: "function", signature: "function _insert(LeanIMTData storage self, uint256 leaf)" },
+      {
+        name: "_insertMany",
+        kind: "function",
+        signature: "function _insertMany(LeanIMTData storage self, uint256[] calldata leaves)",
+      },
+      { name: "_root", kind: "function", signature: "function _root(LeanIMTData storage self)" },
+      { name: "LeafInserted", kind: "event", signature: "event LeafInserted(uint256 leaf)" },
+    ],
+  },
+]);
+
+const RUST = api("rust", [
+  {
+    name: "LeanIMT",
+    kind: "struct",
+    signature: "pub struct LeanIMT",
+    file: "src/lib.rs",
+    members: [
+      { name: "new", kind: "method", signature: "pub fn new() -> Self" },
+      { name: "insert_many", kind: "method", signature: "pub fn insert_many(&mut self, leaves: &[Vec<u8>])" },
+      { name: "add", kind: "method", signature: "pub fn add(&mut self, leaf: Vec<u8>)" },
+    ],
+  },
+]);
+
+describe("operationKey", () => {
+  it("normalizes case, separators, leading underscores and owners", () => {
+    expect(operationKey("LeanIMT._insertMany")).toBe("insertMany");
+    expect(operationKey("insert_many")).toBe("insertMany");
+    expect(operationKey("utils::generate_merkle_proof")).toBe("generateProof");
+  });
+
+  it("maps known synonyms to one operation", () => {
+    expect(operationKey("add")).toBe("insert");
+    expect(operationKey("new")).toBe("constructor");
+    expect(operationKey("prove")).toBe("generateProof");
+    expect(operationKey("verify")).toBe("verifyProof");
+  });
+
+  it("keeps other names, without case or separators", () => {
+    expect(operationKey("compute_siblings")).toBe(operationKey("computeSiblings"));
+  });
+});
+
+describe("apiOperations", () => {
+  it("lists functions, templates and callable members, qualified by their owner", () => {
+    expect(apiOperations(TYPESCRIPT).map((o) => o.name)).toEqual([
+      "LeanIMT.constructor",
+      "LeanIMT.root",
+      "LeanIMT.insert",
+      "LeanIMT.insertMany",
+      "LeanIMT.generateProof",
+      "verifyProof",
+    ]);
+    expect(apiOperations(SOLIDITY).map((o) => o.name)).toEqual([
+      "InternalLeanIMT._insert",
+      "InternalLeanIMT._insertMany",
+      "InternalLeanIMT._root",
+    ]);
+  });
+});
+
+describe("alignOperations", () => {
+  const variants: ParityVariant[] = [
+    { package: "@zk-kit/lean-imt", language: "typescript", api: TYPESCRIPT },
+    { package: "@zk-kit/lean-imt.sol", language: "solidity", api: SOLIDITY },
+    { package: "zk-kit-lean-imt", language: "rust", api: RUST },
+    { package: "lean-imt-noir", language: "noir", note: "no public API could be extracted" },
+  ];
+
+  it("aligns equivalent operations and sorts shared ones first", () => {
+    const rows = alignOperations(variants);
+
+    expect(rows.map((r) => [r.operation, r.missing])).toEqual([
+      ["insert", []],
+      ["insertMany", []],
+      ["constructor", ["@zk-kit/lean-imt.sol"]],
+      ["root", ["zk-kit-lean-imt"]],
+      ["generateProof", ["@zk-kit/lean-imt.sol", "zk-kit-lean-imt"]],
+      ["verifyProof", ["@zk-kit/lean-imt.sol", "zk-kit-lean-imt"]],
+    ]);
+    expect(rows[0].implementations).toEqual({
+      "@zk-kit/lean-imt": [{ name: "LeanIMT.insert", signature: "insert(leaf: bigint): void" }],
+      "@zk-kit/lean-imt.sol": [
+        { name: "InternalLeanIMT._insert", signature: "function _insert(LeanIMTData storage self, uint256 leaf)" },
+      ],
+      "zk-kit-lean-imt": [{ name: "LeanIMT.add", signature: "pub fn add(&mut self, leaf: Vec<u8>)" }],
+    });
+  });
+
+  it("renders a table per variant with the gaps and skipped variants", () => {
+    const md = formatApiParity("lean-imt", variants, alignOperations(variants));
+
+    expect(md).toContain("# API Parity: lean-imt");
+    expect(md).toContain("| Operation | typescript | solidity | rust |");
+    expect(md).toContain("| insert | `LeanIMT.insert` | `InternalLeanIMT._insert` | `LeanIMT.add` |");
+    expect(md).toContain("| generateProof | `LeanIMT.generateProof` | - | - |");
+    expect(md).toContain("- **root**: missing in rust (available in typescript, solidity)");
+    expect(md).toContain("## Not Compared\n\n- `lean-imt-noir` (noir): no public API could be extracted");
+  });
+
+  it("says when every operation is shared", () => {
+    const same: ParityVariant[] = [
+      {
+        package: "a",
+        language: "typescript",
+        api: api("typescript", [{ name: "hash", kind: "function", signature: "", file: "" }]),
+      },
+      {
+        package: "b",
+        language: "rust",
+        api: api("rust", [{ name: "hash", kind: "function", signature: "", file: "" }]),
+      },
+    ];
+    expect(formatApiParity("poseidon", same, alignOperations(same))).toContain(
+      "All operations (1) are available in every compared variant.",
+    );
+  });
+});
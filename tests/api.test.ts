@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import { extractPackageApi, formatPackageApi } from "../src/api.js";
+import type { PackageApi } from "../src/types.js";
+
+const API: PackageApi = {
+  language: "typescript",
+  entryFile: "src/index.ts",
+  files: ["src/index.ts", "src/lean-imt.ts"],
+  symbols: [
+    {
+      name: "hash",
+      kind: "function",
+      signature: "function hash(a: bigint): bigint",
+      file: "src/index.ts",
+    },
+    {
+      name: "LeanIMT",
+      kind: "class",
+      signature: "class LeanIMT<N = bigint>",
+      doc: "Lean incremental Merkle tree.",
+      file: "src/lean-imt.ts",
+      members: [
+        { name: "insert", kind: "method", signature: "insert(leaf: N): void", doc: "Inserts a leaf.\n\nDetails." },
+        { name: "has", kind: "method", signature: "has(leaf: N): boolean\nhas(leaf: N, i: number): boolean" },
+      ],
+    },
+  ],
+  external: ["@zk-kit/utils"],
+  unresolved: ["src/missing"],
+};
+
+describe("formatPackageApi", () => {
+  it("groups symbols by kind with members inside the class signature", () => {
+    const md = formatPackageApi(API, "lean-imt - API");
+
+    expect(md).toContain("# lean-imt - API\n\n2 public symbols from 2 files.");
+    expect(md.indexOf("## Classes")).toBeLessThan(md.indexOf("## Functions"));
+    expect(md).toContain(
+      "```typescript\nclass LeanIMT<N = bigint> {\n  insert(leaf: N): void\n  has(leaf: N): boolean\n  has(leaf: N, i: number): boolean\n}\n```",
+    );
+    expect(md).toContain("Lean incremental Merkle tree.");
+    expect(md).toContain("- `insert`: Inserts a leaf.");
+    expect(md).not.toContain("Details.");
+    expect(md).toContain("*Defined in `src/lean-imt.ts`.*");
+    expect(md).toContain("## Re-exported Packages\n\n- `@zk-kit/utils`");
+    expect(md).toContain("`src/missing`");
+  });
+});
+
+describe("formatPackageApi for Circom", () => {
+  it("renders signals inside the template and the main component", () => {
+    const md = formatPackageApi(
+      {
+        language: "circom",
+        entryFile: "src/poseidon-proof.circom",
+        files: ["src/poseidon-proof.circom"],
+        symbols: [
+          {
+            name: "PoseidonProof",
+            kind: "template",
+            signature: "template PoseidonProof(NUMBER_OF_INPUTS)",
+            file: "src/poseidon-proof.circom",
+            parameters: ["NUMBER_OF_INPUTS"],
+            members: [
+              { name: "scope", kind: "input", signature: "signal input scope" },
+              { name: "digest", kind: "output", signature: "signal output digest" },
+            ],
+          },
+        ],
+        external: [],
+        unresolved: [],
+        includes: ["circomlib/circuits/poseidon.circom"],
+        main: { template: "PoseidonProof", arguments: ["2"], publicInputs: ["scope"] },
+      },
+      "poseidon-proof - API",
+    );
+
+    expect(md).toContain("1 public symbol from 1 file.");
+    expect(md).toContain(
+      "## Templates\n\n### `PoseidonProof`\n\n```circom\ntemplate PoseidonProof(NUMBER_OF_INPUTS) {\n  signal input scope\n  signal output digest\n}\n```",
+    );
+    expect(md).toContain("## Main Component\n\n```circom\ncomponent main {public [scope]} = PoseidonProof(2);\n```");
+    expect(md).toContain("## Includes\n\n- `circomlib/circuits/poseidon.circom`");
+  });
+});
+
+describe("formatPackageApi for Solidity", () => {
+  it("renders inheritance and the ABI of each contract", () => {
+    const md = formatPackageApi(
+      {
+        language: "solidity",
+        entryFile: "contracts/LeanIMT.sol",
+        files: ["contracts/LeanIMT.sol"],
+        symbols: [
+          {
+            name: "LeanIMT",
+            kind: "contract",
+            signature: "contract LeanIMT is ILeanIMT",
+            file: "contracts/LeanIMT.sol",
+            inherits: ["ILeanIMT"],
+            members: [
+              {
+                name: "insert",
+                kind: "function",
+                signature: "function insert(uint256 leaf) external returns (uint256)",
+                doc: "@notice Inserts a leaf.\n@param leaf The leaf.",
+              },
+            ],
+          },
+        ],
+        external: [],
+        unresolved: [],
+        abi: {
+          LeanIMT: [
+            {
+              type: "function",
+              name: "insert",
+              inputs: [{ name: "leaf", type: "uint256" }],
+              outputs: [{ name: "", type: "uint256" }],
+              stateMutability: "nonpayable",
+            },
+          ],
+        },
+      },
+      "@zk-kit/lean-imt.sol - API",
+    );
+
+    expect(md).toContain("## Contracts");
+    expect(md).toContain(
+      "```solidity\ncontract LeanIMT is ILeanIMT {\n  function insert(uint256 leaf) external returns (uint256)\n}\n```",
+    );
+    expect(md).toContain("Inherits `ILeanIMT`.");
+    expect(md).toContain("- `insert`: Inserts a leaf.");
+    expect(md).toContain("## ABI");
+    const json = /```json\n([\s\S]*?)\n```/.exec(md)?.[1] ?? "";
+    expect(JSON.parse(json)).toHaveLength(1);
+  });
+});
+
+describe("formatPackageApi for Rust", () => {
+  it("lists implemented traits", () => {
+    const md = formatPackageApi(
+      {
+        language: "rust",
+        entryFile: "src/lib.rs",
+        files: ["src/lib.rs"],
+        symbols: [
+          {
+            name: "LeanIMT",
+            kind: "struct",
+            signature: "pub struct LeanIMT",
+            file: "src/lib.rs",
+            implements: ["Default", "Clone"],
+            members: [{ name: "new", kind: "method", signature: "pub fn new() -> Self" }],
+          },
+        ],
+        external: [],
+        unresolved: [],
+      },
+      "lean-imt - API",
+    );
+    expect(md).toContain("## Structs");
+    expect(md).toContain("```rust\npub struct LeanIMT {\n  pub fn new() -> Self\n}\n```");
+    expect(md).toContain("Implements `Default`, `Clone`.");
+  });
+});
+
+describe("extractPackageApi", () => {
+  const files = (content: string, paths: string[] = []) => ({ read: async () => content, list: async () => paths });
+
+  it("extracts Noir and Rust packages", async () => {
+    const noir = await extractPackageApi("noir", "src/lib.nr", files("pub fn hash(x: Field) -> Field { x }"));
+    const rust = await extractPackageApi("rust", "src/lib.rs", files("pub struct Tree;\nfn private() {}"));
+    expect(noir?.symbols.map((s) => [s.name, s.kind])).toEqual([["hash", "function"]]);
+    expect(rust?.symbols.map((s) => [s.name, s.kind])).toEqual([["Tree", "struct"]]);
+  });
+
+  it("extracts Circom packages", async () => {
+    const api = await extractPackageApi("circom", "src/a.circom", files("template A() {\n  signal input x;\n}"));
+    expect(api?.symbols.map((s) => [s.name, s.kind])).toEqual([["A", "template"]]);
+  });
+
+  it("extracts TypeScript packages", async () => {
+    const api = await extractPackageApi("typescript", "src/index.ts", files("export const a = 1"));
+    expect(api?.symbols.map((s) => s.name)).toEqual(["a"]);
+  });
+
+  it("extracts Solidity packages from their contract files", async () => {
+    const api = await extractPackageApi(
+      "solidity",
+      "contracts/Ia.sol",
+      files("interface IA {\n  function a() external;\n}", [
+        "package.json",
+        "contracts/IA.sol",
+        "contracts/test/A.sol",
+      ]),
+    );
+    expect(api?.files).toEqual(["contracts/IA.sol"]);
+    expect(api?.symbols.map((s) => [s.name, s.kind])).toEqual([["IA", "interface"]]);
+  });
+
+  it("returns undefined for Solidity packages without contracts", async () => {
+    expect(await extractPackageApi("solidity", "contracts/A.sol", files("", ["README.md"]))).toBeUndefined();
+  });
+});
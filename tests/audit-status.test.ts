@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+  auditReportFiles,
+  formatAuditStatus,
+  packageAuditStatus,
+  readmeAudits,
+  reportFromFile,
+  reportPackages,
+} from "../src/audit-status.js";
+
+const README = `# Lean IMT
+
+[![Audited by Veridise](https://img.shields.io/badge/audited-Veridise-green)](https://github.com/zk-kit/zk-kit/blob/main/audits/2024-05-veridise-lean-imt.pdf)
+
+This library was audited by Trail of Bits in March 2024 at v2.0.0 (commit 3f2a9c1).
+
+\`\`\`bash
+npm audit
+\`\`\`
+
+## Audits
+
+- [Second review](https://example.com/review.pdf)
+
+## Usage
+`;
+
+describe("readmeAudits", () => {
+  it("reads badges, mentions and links under an Audits heading", () => {
+    const { audits, unauditedNotes } = readmeAudits(README);
+    expect(unauditedNotes).toEqual([]);
+    expect(audits.map(({ text, ...a }) => a)).toEqual([
+      {
+        source: "readme",
+        auditor: "Veridise",
+        date: "2024-05",
+        url: "https://github.com/zk-kit/zk-kit/blob/main/audits/2024-05-veridise-lean-imt.pdf",
+      },
+      { source: "readme", auditor: "Trail of Bits", date: "2024-03", version: "2.0.0", commit: "3f2a9c1" },
+      { source: "readme", url: "https://example.com/review.pdf" },
+    ]);
+  });
+
+  it("ignores lines mentioning audits in passing", () => {
+    const { audits } = readmeAudits(
+      [
+        "# Lean IMT",
+        "",
+        "See our [audit policy](https://example.com/security/audit-policy) before contributing.",
+        "Report issues found during audits [here](https://github.com/zk-kit/zk-kit/issues).",
+        "The [audit](https://github.com/zk-kit/zk-kit/blob/main/audits/lean-imt-report.md) is public.",
+      ].join("\n"),
+    );
+    expect(audits.map((a) => a.url)).toEqual(["https://github.com/zk-kit/zk-kit/blob/main/audits/lean-imt-report.md"]);
+  });
+
+  it("collects statements that the package is not audited", () => {
+    const { audits, unauditedNotes } = readmeAudits(
+      "# Smt\n\n> ⚠️ This library has not been audited yet.\n\nAn audit is planned.",
+    );
+    expect(audits).toEqual([]);
+    expect(unauditedNotes).toEqual(["> ⚠️ This library has not been audited yet."]);
+  });
+});
+
+describe("auditReportFiles", () => {
+  it("keeps PDFs and markdown in audit folders or named after an audit", () => {
+    expect(
+      auditReportFiles([
+        { path: "audits/2024-05-veridise-lean-imt.pdf" },
+        { path: "audits/README.md" },
+        { path: "packages/imt/audit-report.md" },
+        { path: "packages/imt/src/audit.ts" },
+        { path: "node_modules/x/audits/a.pdf" },
+        { path: "docs/guide.pdf" },
+      ]),
+    ).toEqual(["audits/2024-05-veridise-lean-imt.pdf", "packages/imt/audit-report.md"]);
+  });
+});
+
+describe("reportFromFile", () => {
+  it("reads the auditor, date, version and commit from the file name", () => {
+    expect(reportFromFile("audits/PSE-Security_2024.06.12_lean-imt-v2.1.0_commit-a1b2c3d4.pdf")).toEqual({
+      source: "report",
+      auditor: "PSE Security",
+      date: "2024-06-12",
+      version: "2.1.0",
+      commit: "a1b2c3d4",
+      file: "audits/PSE-Security_2024.06.12_lean-imt-v2.1.0_commit-a1b2c3d4.pdf",
+    });
+  });
+});
+
+describe("reportPackages", () => {
+  it("matches whole package names, not names inside longer ones", () => {
+    const dirNames = ["imt", "lean-imt", "smt"];
+    expect(reportPackages("audits/2024-05-veridise-lean-imt.pdf", dirNames)).toEqual(["lean-imt"]);
+    expect(reportPackages("audits/LeanIMT.pdf", dirNames)).toEqual(["lean-imt"]);
+    expect(reportPackages("audits/imt-and-smt.pdf", dirNames)).toEqual(["imt", "smt"]);
+    expect(reportPackages("audits/2023-zellic.pdf", dirNames)).toEqual([]);
+  });
+});
+
+describe("packageAuditStatus", () => {
+  const report = reportFromFile("audits/2024-05-veridise-lean-imt-v2.0.0.pdf", "https://github.com/x/blob/main/a");
+
+  it("is audited only when an audit names the version checked", () => {
+    expect(packageAuditStatus("@zk-kit/lean-imt", [report], [], "v2.0.0")).toMatchObject({
+      status: "audited",
+      version: "2.0.0",
+      versionCovered: true,
+    });
+    expect(packageAuditStatus("@zk-kit/lean-imt", [report], [], "2.1.0")).toMatchObject({
+      status: "other-version-audited",
+      versionCovered: false,
+    });
+  });
+
+  it("leaves the version unconfirmed when no audit names one, or no version is checked", () => {
+    const unversioned = reportFromFile("audits/2024-05-veridise-lean-imt.pdf");
+    expect(packageAuditStatus("@zk-kit/lean-imt", [unversioned], [], "2.0.0").status).toBe("version-unconfirmed");
+    expect(packageAuditStatus("@zk-kit/lean-imt", [report], []).status).toBe("version-unconfirmed");
+  });
+
+  it("is unaudited when the README says so, unknown otherwise", () => {
+    expect(packageAuditStatus("@zk-kit/smt", [], ["Not audited."]).status).toBe("unaudited");
+    expect(packageAuditStatus("@zk-kit/smt", [], [])).toEqual({
+      package: "@zk-kit/smt",
+      status: "unknown",
+      audits: [],
+    });
+  });
+
+  it("lists a report the README links to once", () => {
+    const mention = {
+      source: "readme" as const,
+      auditor: "Veridise",
+      url: "../../audits/2024-05-veridise-lean-imt-v2.0.0.pdf",
+    };
+    const { audits } = packageAuditStatus("@zk-kit/lean-imt", [mention, report], []);
+    expect(audits).toEqual([{ ...report, source: "readme", url: mention.url }]);
+  });
+});
+
+describe("formatAuditStatus", () => {
+  it("tabulates statuses and flags unaudited versions", () => {
+    const report = reportFromFile("audits/2024-05-veridise-lean-imt-v2.0.0.pdf");
+    const md = formatAuditStatus(
+      [
+        packageAuditStatus("@zk-kit/lean-imt", [report], [], "2.1.0"),
+        packageAuditStatus("@zk-kit/smt", [], [], "1.0.0"),
+      ],
+      [{ repo: "zk-kit/zk-kit", reports: [reportFromFile("audits/2023-zellic.pdf")] }],
+    );
+    expect(md).toContain(
+      "| @zk-kit/lean-imt | 2.1.0 | other-version-audited | no |\n| @zk-kit/smt | 1.0.0 | unknown | - |",
+    );
+    expect(md).toContain("- `other-version-audited`: audits name other versions only: treat this version as unaudited");
+    expect(md).toContain("- Veridise, 2024-05, v2.0.0 (`audits/2024-05-veridise-lean-imt-v2.0.0.pdf`)");
+    expect(md).toContain("**v2.1.0 is not an audited version** (audited: v2.0.0).");
+    expect(md).toContain("## Reports in zk-kit/zk-kit naming no package");
+    expect(md).toContain("- Zellic, 2023 (`audits/2023-zellic.pdf`)");
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { extractCircomApi } from "../src/circom-api.js";
+import { reader } from "./helpers.js";
+
+const BINARY_MERKLE_ROOT = `pragma circom 2.1.5;
+
+include "circomlib/circuits/poseidon.circom";
+include "circomlib/circuits/mux1.circom";
+include "./utils.circom";
+
+// This circuit calculates the root of a binary Merkle tree
+// given a leaf, its depth, and the necessary sibling information.
+template BinaryMerkleRoot(MAX_DEPTH) {
+    signal input leaf, depth, indices[MAX_DEPTH];
+    // Sibling nodes, one per level.
+    signal input siblings[MAX_DEPTH][1];
+
+    signal output out;
+
+    signal nodes[MAX_DEPTH + 1];
+    nodes[0] <== leaf;
+
+    for (var i = 0; i < MAX_DEPTH; i++) {
+        var c[2][2] = [ [nodes[i], siblings[i][0]], [siblings[i][0], nodes[i]] ];
+        nodes[i + 1] <== Poseidon(2)(MultiMux1(2)(c, indices[i]));
+    }
+
+    out <== nodes[MAX_DEPTH];
+}
+`;
+
+const UTILS = `pragma circom 2.1.5;
+
+/* Number of bits needed to represent a. */
+function nbits(a) {
+    var n = 1;
+    var r = 0;
+    while (n - 1 < a) {
+        r++;
+        n *= 2;
+    }
+    return r;
+}
+
+template IsBinary() {
+    signal input {binary} in;
+    signal output {binary} out <== in;
+}
+`;
+
+describe("extractCircomApi", () => {
+  it("lists templates with parameters and input and output signals", async () => {
+    const api = await extractCircomApi(
+      "src/binary-merkle-root.circom",
+      reader({ "src/binary-merkle-root.circom": BINARY_MERKLE_ROOT }),
+    );
+
+    const [template] = api.symbols;
+    expect(template).toMatchObject({
+      name: "BinaryMerkleRoot",
+      kind: "template",
+      signature: "template BinaryMerkleRoot(MAX_DEPTH)",
+      doc: "This circuit calculates the root of a binary Merkle tree\ngiven a leaf, its depth, and the necessary sibling information.",
+      parameters: ["MAX_DEPTH"],
+    });
+    expect(template.members).toEqual([
+      { name: "leaf", kind: "input", signature: "signal input leaf" },
+      { name: "depth", kind: "input", signature: "signal input depth" },
+      { name: "indices", kind: "input", signature: "signal input indices[MAX_DEPTH]", dimensions: ["MAX_DEPTH"] },
+      {
+        name: "siblings",
+        kind: "input",
+        signature: "signal input siblings[MAX_DEPTH][1]",
+        doc: "Sibling nodes, one per level.",
+        dimensions: ["MAX_DEPTH", "1"],
+      },
+      { name: "out", kind: "output", signature: "signal output out" },
+    ]);
+  });
+
+  it("follows relative includes and lists library includes", async () => {
+    const api = await extractCircomApi(
+      "src/binary-merkle-root.circom",
+      reader({ "src/binary-merkle-root.circom": BINARY_MERKLE_ROOT, "src/utils.circom": UTILS }),
+    );
+
+    expect(api.files).toEqual(["src/binary-merkle-root.circom", "src/utils.circom"]);
+    expect(api.includes).toEqual([
+      "circomlib/circuits/poseidon.circom",
+      "circomlib/circuits/mux1.circom",
+      "./utils.circom",
+    ]);
+    expect(api.symbols.map((s) => [s.name, s.kind, s.file])).toEqual([
+      ["BinaryMerkleRoot", "template", "src/binary-merkle-root.circom"],
+      ["nbits", "function", "src/utils.circom"],
+      ["IsBinary", "template", "src/utils.circom"],
+    ]);
+    expect(api.symbols[1]).toMatchObject({ doc: "Number of bits needed to represent a.", parameters: ["a"] });
+    expect(api.symbols[2].members).toEqual([
+      { name: "in", kind: "input", signature: "signal input {binary} in" },
+      { name: "out", kind: "output", signature: "signal output {binary} out" },
+    ]);
+  });
+
+  it("reports relative includes that cannot be read", async () => {
+    const api = await extractCircomApi(
+      "src/binary-merkle-root.circom",
+      reader({ "src/binary-merkle-root.circom": BINARY_MERKLE_ROOT }),
+    );
+    expect(api.unresolved).toEqual(["src/utils.circom"]);
+  });
+
+  it("parses the main component with its public inputs", async () => {
+    const api = await extractCircomApi(
+      "circuits/main.circom",
+      reader({
+        "circuits/main.circom":
+          'include "../src/binary-merkle-root.circom";\n\ncomponent main {public [leaf, depth]} = BinaryMerkleRoot(20);\n',
+        "src/binary-merkle-root.circom": BINARY_MERKLE_ROOT,
+      }),
+    );
+
+    expect(api.main).toEqual({ template: "BinaryMerkleRoot", arguments: ["20"], publicInputs: ["leaf", "depth"] });
+    expect(api.symbols.map((s) => s.name)).toContain("BinaryMerkleRoot");
+  });
+});
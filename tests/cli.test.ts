@@ -0,0 +1,140 @@
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  parseCacheDir,
+  parseCodeIndex,
+  parseConfigPath,
+  parseRefreshInterval,
+  parseTransportOptions,
+  readFlag,
+} from "../src/cli.js";
+
+describe("readFlag", () => {
+  it("reads space-separated values", () => {
+    expect(readFlag(["--port", "8080"], "port")).toBe("8080");
+  });
+
+  it("reads equals-separated values", () => {
+    expect(readFlag(["--port=8080"], "port")).toBe("8080");
+  });
+
+  it("returns undefined when absent", () => {
+    expect(readFlag(["--host", "0.0.0.0"], "port")).toBeUndefined();
+  });
+
+  it("throws when the value is missing", () => {
+    expect(() => readFlag(["--port"], "port")).toThrow("Missing value for --port");
+    expect(() => readFlag(["--port", "--host", "x"], "port")).toThrow("Missing value for --port");
+  });
+});
+
+describe("parseTransportOptions", () => {
+  it("defaults to stdio on localhost:3000", () => {
+    expect(parseTransportOptions([], {})).toEqual({ mode: "stdio", port: 3000, host: "127.0.0.1" });
+  });
+
+  it("reads CLI flags", () => {
+    expect(parseTransportOptions(["--transport", "http", "--port", "8080", "--host", "0.0.0.0"], {})).toEqual({
+      mode: "http",
+      port: 8080,
+      host: "0.0.0.0",
+    });
+  });
+
+  it("reads environment variables", () => {
+    expect(parseTransportOptions([], { MCP_TRANSPORT: "HTTP", MCP_PORT: "9000", MCP_HOST: "::" })).toEqual({
+      mode: "http",
+      port: 9000,
+      host: "::",
+    });
+  });
+
+  it("falls back to PORT when MCP_PORT is unset", () => {
+    expect(parseTransportOptions([], { PORT: "4000" }).port).toBe(4000);
+  });
+
+  it("CLI flags take precedence over environment", () => {
+    const options = parseTransportOptions(["--transport=stdio", "--port=1234"], {
+      MCP_TRANSPORT: "http",
+      MCP_PORT: "9000",
+    });
+    expect(options.mode).toBe("stdio");
+    expect(options.port).toBe(1234);
+  });
+
+  it("reads comma-separated allowed hosts", () => {
+    expect(parseTransportOptions(["--allowed-hosts", "mcp.internal, build-box"], {}).allowedHosts).toEqual([
+      "mcp.internal",
+      "build-box",
+    ]);
+    expect(parseTransportOptions([], { MCP_ALLOWED_HOSTS: "mcp.internal" }).allowedHosts).toEqual(["mcp.internal"]);
+  });
+
+  it("rejects unknown transports", () => {
+    expect(() => parseTransportOptions(["--transport", "websocket"], {})).toThrow('Invalid transport "websocket"');
+  });
+
+  it("rejects invalid ports", () => {
+    expect(() => parseTransportOptions(["--port", "abc"], {})).toThrow('Invalid port "abc"');
+    expect(() => parseTransportOptions([], { MCP_PORT: "70000" })).toThrow('Invalid port "70000"');
+  });
+});
+
+describe("parseCacheDir", () => {
+  it("defaults to the XDG cache directory", () => {
+    expect(parseCacheDir([], { XDG_CACHE_HOME: "/xdg" })).toBe(join("/xdg", "zk-kit-mcp"));
+  });
+
+  it("honors --cache-dir over ZK_KIT_MCP_CACHE_DIR", () => {
+    expect(parseCacheDir(["--cache-dir", "/flag"], { ZK_KIT_MCP_CACHE_DIR: "/env" })).toBe("/flag");
+    expect(parseCacheDir([], { ZK_KIT_MCP_CACHE_DIR: "/env" })).toBe("/env");
+  });
+
+  it("is disabled by --no-cache or ZK_KIT_MCP_NO_CACHE", () => {
+    expect(parseCacheDir(["--no-cache"], {})).toBeUndefined();
+    expect(parseCacheDir([], { ZK_KIT_MCP_NO_CACHE: "1" })).toBeUndefined();
+  });
+});
+
+describe("parseConfigPath", () => {
+  it("prefers --config over ZK_KIT_MCP_CONFIG", () => {
+    expect(parseConfigPath(["--config", "a.yaml"], { ZK_KIT_MCP_CONFIG: "b.json" })).toBe("a.yaml");
+    expect(parseConfigPath([], { ZK_KIT_MCP_CONFIG: "b.json" })).toBe("b.json");
+  });
+
+  it("is undefined when not set", () => {
+    expect(parseConfigPath([], {})).toBeUndefined();
+  });
+});
+
+describe("parseRefreshInterval", () => {
+  it("defaults to 60 minutes", () => {
+    expect(parseRefreshInterval([], {})).toBe(60 * 60_000);
+  });
+
+  it("reads minutes from the flag or env", () => {
+    expect(parseRefreshInterval(["--refresh-interval", "15"], { ZK_KIT_MCP_REFRESH_INTERVAL: "5" })).toBe(15 * 60_000);
+    expect(parseRefreshInterval([], { ZK_KIT_MCP_REFRESH_INTERVAL: "5" })).toBe(5 * 60_000);
+  });
+
+  it("allows 0 to disable", () => {
+    expect(parseRefreshInterval(["--refresh-interval=0"], {})).toBe(0);
+  });
+
+  it("rejects invalid values", () => {
+    expect(() => parseRefreshInterval(["--refresh-interval", "soon"], {})).toThrow(/Invalid refresh interval/);
+    expect(() => parseRefreshInterval(["--refresh-interval", "-1"], {})).toThrow(/Invalid refresh interval/);
+  });
+});
+
+describe("parseCodeIndex", () => {
+  it("is off by default", () => {
+    expect(parseCodeIndex([], {})).toBe(false);
+  });
+
+  it("is enabled by --code-index or ZK_KIT_MCP_CODE_INDEX", () => {
+    expect(parseCodeIndex(["--code-index"], {})).toBe(true);
+    expect(parseCodeIndex([], { ZK_KIT_MCP_CODE_INDEX: "1" })).toBe(true);
+    expect(parseCodeIndex([], { ZK_KIT_MCP_CODE_INDEX: "true" })).toBe(true);
+  });
+});
@@ -0,0 +1,323 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CodeIndex,
+  formatCodeIndexResults,
+  indexRepo,
+  isUnsafeRegex,
+  type RepoIndex,
+  searchableFiles,
+  searchCodeIndex,
+} from "../src/code-index.js";
+import { DiskCache } from "../src/disk-cache.js";
+import * as github from "../src/github.js";
+import type { RepoConfig, RepoTree } from "../src/types.js";
+
+vi.mock("../src/github.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/github.js")>();
+  return { ...actual, fetchRepoTree: vi.fn(), fetchRawFile: vi.fn() };
+});
+
+const mockRepoTree = vi.mocked(github.fetchRepoTree);
+const mockRawFile = vi.mocked(github.fetchRawFile);
+
+const REPO: RepoConfig = { slug: "zk-kit/zk-kit", language: "typescript", branch: "main", packagePath: "packages" };
+
+const LEAN_IMT = `import { poseidon2 } from "poseidon-lite"
+
+export class LeanIMT {
+    public insert(leaf: bigint) {
+        this._nodes[0].push(leaf)
+    }
+
+    public update(index: number, newLeaf: bigint) {
+        this._nodes[0][index] = newLeaf
+    }
+}
+`;
+
+function tree(files: Record<string, string>): RepoTree {
+  return {
+    entries: Object.entries(files).map(([path, sha]) => ({ path, type: "blob", size: 100, sha })),
+    truncated: false,
+  };
+}
+
+function index(files: Record<string, string>, slug = "zk-kit/zk-kit"): RepoIndex {
+  return {
+    slug,
+    branch: "main",
+    files: Object.entries(files).map(([path, content]) => ({ path, content })),
+    builtAt: 0,
+  };
+}
+
+describe("searchableFiles", () => {
+  it("keeps text sources and drops dependencies, build output, lock files and large files", () => {
+    const files = searchableFiles([
+      { path: "packages/lean-imt/src/index.ts", type: "blob", size: 100 },
+      { path: "packages/lean-imt/src", type: "tree" },
+      { path: "packages/lean-imt/package.json", type: "blob", size: 100 },
+      { path: "packages/lean-imt/README.md", type: "blob", size: 100 },
+      { path: "packages/lean-imt/dist/index.js", type: "blob", size: 100 },
+      { path: "node_modules/x/index.js", type: "blob", size: 100 },
+      { path: "yarn.lock", type: "blob", size: 100 },
+      { path: "packages/lean-imt/logo.png", type: "blob", size: 100 },
+      { path: "packages/lean-imt/src/huge.ts", type: "blob", size: 10_000_000 },
+    ]);
+    expect(files.map((f) => f.path)).toEqual([
+      "packages/lean-imt/src/index.ts",
+      "packages/lean-imt/package.json",
+      "packages/lean-imt/README.md",
+    ]);
+  });
+});
+
+describe("indexRepo", () => {
+  beforeEach(() => {
+    mockRepoTree.mockReset();
+    mockRawFile.mockReset();
+  });
+
+  it("downloads every searchable file of the tree", async () => {
+    mockRepoTree.mockResolvedValue(tree({ "a.ts": "sha-a", "b.sol": "sha-b", "c.png": "sha-c" }));
+    mockRawFile.mockImplementation(async (_slug, _branch, path) => (path === "b.sol" ? null : `content of ${path}`));
+
+    const { index, downloaded } = await indexRepo(REPO);
+    expect(index).toMatchObject({
+      slug: "zk-kit/zk-kit",
+      branch: "main",
+      files: [{ path: "a.ts", sha: "sha-a", content: "content of a.ts" }],
+    });
+    expect(downloaded).toBe(1);
+    expect(mockRawFile).toHaveBeenCalledTimes(2);
+  });
+
+  it("only downloads files whose blob changed", async () => {
+    mockRepoTree.mockResolvedValue(tree({ "a.ts": "sha-a", "moved/b.ts": "sha-b", "c.ts": "sha-c2" }));
+    mockRawFile.mockResolvedValue("new content");
+    const previous: RepoIndex = {
+      slug: "zk-kit/zk-kit",
+      branch: "main",
+      builtAt: 0,
+      files: [
+        { path: "a.ts", sha: "sha-a", content: "a" },
+        { path: "b.ts", sha: "sha-b", content: "b" },
+        { path: "c.ts", sha: "sha-c1", content: "old c" },
+      ],
+    };
+
+    const { index, downloaded } = await indexRepo(REPO, previous);
+    expect(index.files).toEqual([
+      { path: "a.ts", sha: "sha-a", content: "a" },
+      { path: "moved/b.ts", sha: "sha-b", content: "b" },
+      { path: "c.ts", sha: "sha-c2", content: "new content" },
+    ]);
+    expect(downloaded).toBe(1);
+    expect(mockRawFile).toHaveBeenCalledWith("zk-kit/zk-kit", "main", "c.ts");
+  });
+});
+
+describe("searchCodeIndex", () => {
+  const indexes = [
+    index({ "packages/lean-imt/src/lean-imt.ts": LEAN_IMT, "packages/imt/src/imt.ts": "// Insert a leaf\n" }),
+    index(
+      { "packages/lean-imt/contracts/LeanIMT.sol": "function insert(uint256 leaf) external;\n" },
+      "zk-kit/zk-kit.solidity",
+    ),
+  ];
+
+  it("finds literal text, ignoring case by default", async () => {
+    const { matches, total, searched } = await searchCodeIndex(indexes, "insert(");
+    expect(total).toBe(2);
+    expect(searched).toBe(3);
+    expect(matches.map((m) => `${m.repo}:${m.path}:${m.line}`)).toEqual([
+      "zk-kit/zk-kit:packages/lean-imt/src/lean-imt.ts:4",
+      "zk-kit/zk-kit.solidity:packages/lean-imt/contracts/LeanIMT.sol:1",
+    ]);
+    expect((await searchCodeIndex(indexes, "Insert", { caseSensitive: true })).total).toBe(1);
+  });
+
+  it("supports regular expressions", async () => {
+    const { matches } = await searchCodeIndex(indexes, String.raw`public \w+\(`, { regex: true });
+    expect(matches.map((m) => m.line)).toEqual([4, 8]);
+    await expect(searchCodeIndex(indexes, "(", { regex: true })).rejects.toThrow(SyntaxError);
+    await expect(searchCodeIndex(indexes, "(a+)+$", { regex: true })).rejects.toThrow(/exponential time/);
+    await expect(searchCodeIndex(indexes, "(a|aa)+$", { regex: true })).rejects.toThrow(/exponential time/);
+    await expect(searchCodeIndex(indexes, "x".repeat(201), { regex: true })).rejects.toThrow(/limited to 200/);
+  });
+
+  it("stops regular expression searches that run too long", async () => {
+    await expect(searchCodeIndex(indexes, "insert", { regex: true, timeoutMs: 1 })).rejects.toThrow(
+      /stopped after 0.001 s/,
+    );
+  });
+
+  it("only searches the start of long lines", async () => {
+    const long = index({ "a.min.js": `${"x".repeat(1000)}needle\nneedle` });
+    expect((await searchCodeIndex([long], "needle")).total).toBe(1);
+    expect((await searchCodeIndex([long], "needle", { regex: true })).total).toBe(1);
+  });
+
+  it("returns context lines around each match", async () => {
+    const [match] = (await searchCodeIndex(indexes, "= newLeaf", { context: 1 })).matches;
+    expect(match).toEqual({
+      repo: "zk-kit/zk-kit",
+      path: "packages/lean-imt/src/lean-imt.ts",
+      line: 9,
+      text: "        this._nodes[0][index] = newLeaf",
+      before: ["    public update(index: number, newLeaf: bigint) {"],
+      after: ["    }"],
+    });
+  });
+
+  it("filters by path prefix and language", async () => {
+    expect(
+      (await searchCodeIndex(indexes, "insert", { pathPrefix: "packages/imt/" })).matches.map((m) => m.path),
+    ).toEqual(["packages/imt/src/imt.ts"]);
+    expect((await searchCodeIndex(indexes, "insert", { language: "solidity" })).matches.map((m) => m.repo)).toEqual([
+      "zk-kit/zk-kit.solidity",
+    ]);
+  });
+
+  it("caps the matches returned but counts them all", async () => {
+    const big = index({ "a.ts": "leaf\n".repeat(150) });
+    const { matches, total } = await searchCodeIndex([big], "leaf");
+    expect(matches).toHaveLength(100);
+    expect(total).toBe(150);
+  });
+
+  it("skips the matches before an offset", async () => {
+    const big = index({ "a.ts": "leaf\n".repeat(150) });
+    const { matches, offset, total } = await searchCodeIndex([big], "leaf", { offset: 100 });
+    expect(matches.map((m) => m.line)).toEqual(Array.from({ length: 50 }, (_, i) => 101 + i));
+    expect(offset).toBe(100);
+    expect(total).toBe(150);
+  });
+});
+
+describe("isUnsafeRegex", () => {
+  it("rejects repeated groups holding a repetition or alternatives, chained wildcards and backreferences", () => {
+    for (const source of [
+      "(a+)+$",
+      "(\\w*\\s?)*x",
+      "((ab)+c)*",
+      "(?:a{2,})+",
+      "(a)\\1",
+      "(a|a)*$",
+      "(a|aa)+$",
+      String.raw`(\w|\d)+$`,
+      ".*.*.*=x",
+      ".+?.*",
+    ]) {
+      expect(isUnsafeRegex(source), source).toBe(true);
+    }
+  });
+
+  it("accepts repetitions of plain groups, optional groups and separated wildcards", () => {
+    for (const source of [
+      String.raw`public \w+\(`,
+      "(ab)+",
+      "(a+)?b",
+      "(foo|bar)",
+      "[(a+)]+",
+      String.raw`\(a+\)+`,
+      "x{2}",
+      "import .* from .*",
+    ]) {
+      expect(isUnsafeRegex(source), source).toBe(false);
+    }
+  });
+});
+
+describe("formatCodeIndexResults", () => {
+  const branches = { "zk-kit/zk-kit": "main" };
+
+  it("shows each match with line numbers and a link", async () => {
+    const outcome = await searchCodeIndex([index({ "src/lean-imt.ts": LEAN_IMT })], "push", { context: 1 });
+    const md = formatCodeIndexResults(outcome, branches);
+    expect(md).toContain("1 match in 1 file (local code index, 1 file searched).");
+    expect(md).toContain("**zk-kit/zk-kit** - `src/lean-imt.ts:5`");
+    expect(md).toContain("https://github.com/zk-kit/zk-kit/blob/main/src/lean-imt.ts#L5");
+    expect(md).toContain(
+      "```\n  4      public insert(leaf: bigint) {\n> 5          this._nodes[0].push(leaf)\n  6      }\n```",
+    );
+  });
+
+  it("merges matches whose context overlaps", async () => {
+    const outcome = await searchCodeIndex([index({ "src/lean-imt.ts": LEAN_IMT })], "public", { context: 2 });
+    const md = formatCodeIndexResults(outcome, branches);
+    expect(md.match(/```\n/g)).toHaveLength(1);
+    expect(md).toContain(">  4      public insert");
+    expect(md).toContain(">  8      public update");
+  });
+
+  it("reports the matches cut off", async () => {
+    const outcome = await searchCodeIndex([index({ "a.ts": "leaf\n".repeat(150) })], "leaf");
+    expect(formatCodeIndexResults(outcome, branches)).toContain("Showing the first 100 of 150 matches");
+    const next = await searchCodeIndex([index({ "a.ts": "leaf\n".repeat(150) })], "leaf", { offset: 100 });
+    expect(formatCodeIndexResults(next, branches)).toContain("Showing matches 101-150 of 150");
+  });
+
+  it("says when nothing matches", async () => {
+    const outcome = await searchCodeIndex([index({ "a.ts": "x" })], "nope");
+    expect(formatCodeIndexResults(outcome, branches)).toBe("No code matches found in 1 indexed file.");
+  });
+});
+
+describe("CodeIndex", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "zk-kit-code-index-"));
+    mockRepoTree.mockReset();
+    mockRawFile.mockReset();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("is empty until built", async () => {
+    const codeIndex = new CodeIndex();
+    expect(codeIndex.get("zk-kit/zk-kit", "main")).toBeUndefined();
+
+    mockRepoTree.mockResolvedValue(tree({ "a.ts": "sha-a" }));
+    mockRawFile.mockResolvedValue("a");
+    const update = codeIndex.update([REPO]);
+    expect(codeIndex.updating).toBe(true);
+    // Concurrent callers share the update in flight
+    expect(codeIndex.update([REPO])).toBe(update);
+    await update;
+
+    expect(codeIndex.updating).toBe(false);
+    expect(codeIndex.get("zk-kit/zk-kit", "main")?.files).toHaveLength(1);
+    expect(codeIndex.get("zk-kit/zk-kit", "other")).toBeUndefined();
+  });
+
+  it("persists indexes so a restart only downloads changed files", async () => {
+    mockRepoTree.mockResolvedValue(tree({ "a.ts": "sha-a" }));
+    mockRawFile.mockResolvedValue("a");
+    await new CodeIndex(new DiskCache(dir)).update([REPO]);
+    expect(mockRawFile).toHaveBeenCalledTimes(1);
+
+    mockRawFile.mockClear();
+    const restarted = new CodeIndex(new DiskCache(dir));
+    await restarted.update([REPO]);
+    expect(mockRawFile).not.toHaveBeenCalled();
+    expect(restarted.get("zk-kit/zk-kit", "main")?.files).toEqual([{ path: "a.ts", sha: "sha-a", content: "a" }]);
+  });
+
+  it("keeps the previous index when an update fails", async () => {
+    const codeIndex = new CodeIndex();
+    mockRepoTree.mockResolvedValueOnce(tree({ "a.ts": "sha-a" }));
+    mockRawFile.mockResolvedValue("a");
+    await codeIndex.update([REPO]);
+
+    mockRepoTree.mockRejectedValueOnce(new Error("GitHub API 500"));
+    await codeIndex.update([REPO]);
+    expect(codeIndex.get("zk-kit/zk-kit", "main")?.files).toHaveLength(1);
+  });
+});
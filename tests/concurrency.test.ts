@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { mapConcurrent } from "../src/concurrency.js";
+
+describe("mapConcurrent", () => {
+  it("keeps at most `limit` calls in flight and the results in order", async () => {
+    let inFlight = 0;
+    let most = 0;
+    const results = await mapConcurrent([5, 1, 4, 2, 3], 2, async (n) => {
+      inFlight++;
+      most = Math.max(most, inFlight);
+      await new Promise((r) => setTimeout(r, n));
+      inFlight--;
+      return n * 10;
+    });
+    expect(results).toEqual([50, 10, 40, 20, 30]);
+    expect(most).toBe(2);
+  });
+});
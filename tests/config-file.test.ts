@@ -0,0 +1,181 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { defaultConfig } from "../src/config.js";
+import { loadConfigFile, parseConfigFile, resolveConfig } from "../src/config-file.js";
+
+describe("parseConfigFile", () => {
+  it("parses JSON", () => {
+    const file = parseConfigFile('{"repos":[{"slug":"acme/zk","language":"typescript"}]}', "zk.json");
+    expect(file.repos?.[0].slug).toBe("acme/zk");
+  });
+
+  it("parses YAML for .yaml and .yml", () => {
+    const yaml = "repos:\n  - slug: acme/zk\n    language: rust\n    packagePath: crates\n";
+    expect(parseConfigFile(yaml, "zk.yaml").repos?.[0].language).toBe("rust");
+    expect(parseConfigFile(yaml, "zk.yml").repos?.[0].packagePath).toBe("crates");
+  });
+
+  it("accepts an empty file", () => {
+    expect(parseConfigFile("", "zk.yaml")).toEqual({});
+  });
+
+  it("reports syntax errors with the file path", () => {
+    expect(() => parseConfigFile("{nope", "zk.json")).toThrow("Config file zk.json could not be parsed");
+  });
+
+  it("reports every validation issue with its path", () => {
+    const content = JSON.stringify({
+      repos: [{ slug: "not-a-slug", language: "cobol" }],
+      categoryRules: [{ pattern: "(", category: "merkle-trees" }],
+    });
+    try {
+      parseConfigFile(content, "zk.json");
+      expect.fail("Should have thrown");
+    } catch (e) {
+      const msg = (e as Error).message;
+      expect(msg).toContain("Invalid config file zk.json");
+      expect(msg).toContain("repos.0.slug: Expected 'owner/name'");
+      expect(msg).toContain("repos.0.language");
+      expect(msg).toContain("categoryRules.0.pattern: Invalid regular expression");
+    }
+  });
+
+  it("rejects unknown keys", () => {
+    expect(() => parseConfigFile('{"repositories":[]}', "zk.json")).toThrow("repositories");
+  });
+});
+
+describe("resolveConfig", () => {
+  const defaults = defaultConfig();
+
+  it("adds new repos with default branch and packagePath", () => {
+    const { config, summary } = resolveConfig({ repos: [{ slug: "acme/zk", language: "typescript" }] }, defaults);
+    expect(config.repos).toHaveLength(defaults.repos.length + 1);
+    expect(config.repos.at(-1)).toEqual({
+      slug: "acme/zk",
+      language: "typescript",
+      packagePath: "packages",
+      branch: "main",
+    });
+    expect(summary.added).toEqual(["acme/zk"]);
+  });
+
+  it("overrides fields of built-in repos by slug", () => {
+    const { config, summary } = resolveConfig({ repos: [{ slug: "zk-kit/zk-kit", branch: "dev" }] }, defaults);
+    const repo = config.repos.find((r) => r.slug === "zk-kit/zk-kit");
+    expect(repo?.branch).toBe("dev");
+    expect(repo?.language).toBe("typescript");
+    expect(summary.modified).toEqual(["zk-kit/zk-kit"]);
+    // Defaults are not mutated
+    expect(defaults.repos.find((r) => r.slug === "zk-kit/zk-kit")?.branch).toBe("main");
+  });
+
+  it("disables repos with enabled: false", () => {
+    const { config, summary } = resolveConfig({ repos: [{ slug: "zk-kit/zk-kit.noir", enabled: false }] }, defaults);
+    expect(config.repos.map((r) => r.slug)).not.toContain("zk-kit/zk-kit.noir");
+    expect(summary.disabled).toEqual(["zk-kit/zk-kit.noir"]);
+  });
+
+  it("replaces the default repos", () => {
+    const { config } = resolveConfig(
+      { replaceDefaultRepos: true, repos: [{ slug: "acme/zk", language: "noir", branch: "trunk" }] },
+      defaults,
+    );
+    expect(config.repos.map((r) => r.slug)).toEqual(["acme/zk"]);
+  });
+
+  it("requires a language for new repos", () => {
+    expect(() => resolveConfig({ repos: [{ slug: "acme/zk" }] }, defaults)).toThrow('needs a "language"');
+  });
+
+  it("rejects configs that leave no repos", () => {
+    expect(() => resolveConfig({ replaceDefaultRepos: true }, defaults)).toThrow("no repositories");
+  });
+
+  it("merges name overrides over the defaults", () => {
+    const { config } = resolveConfig({ nameOverrides: { typescript: { "lean-imt": "@acme/lean-imt" } } }, defaults);
+    expect(config.nameOverrides.typescript?.["lean-imt"]).toBe("@acme/lean-imt");
+    expect(config.nameOverrides.solidity?.excubiae).toBe("@zk-kit/excubiae");
+  });
+
+  it("checks custom category rules before the built-in ones", () => {
+    const { config } = resolveConfig({ categoryRules: [{ pattern: "^lean-", category: "math" }] }, defaults);
+    expect(config.categoryRules[0][1]).toBe("math");
+    expect(config.categoryRules).toHaveLength(defaults.categoryRules.length + 1);
+  });
+
+  it("extends built-in concepts and adds new ones", () => {
+    const { config } = resolveConfig(
+      {
+        concepts: [
+          { id: "smt", aliases: ["sparse tree"] },
+          { id: "Lean IMT", categories: ["merkle-trees", "identity"] },
+          {
+            id: "rln",
+            label: "Rate-Limiting Nullifier",
+            categories: ["identity"],
+            aliases: ["rate limiting nullifier"],
+          },
+        ],
+      },
+      defaults,
+    );
+    expect(config.concepts.find((c) => c.id === "smt")?.aliases).toContain("sparse tree");
+    expect(config.concepts.find((c) => c.id === "lean-imt")?.categories).toEqual(["merkle-trees", "identity"]);
+    expect(config.concepts.at(-1)).toEqual({
+      id: "rln",
+      label: "Rate-Limiting Nullifier",
+      categories: ["identity"],
+      aliases: ["rate limiting nullifier"],
+    });
+    // The defaults are left as they were
+    expect(defaults.concepts.find((c) => c.id === "smt")?.aliases).not.toContain("sparse tree");
+  });
+
+  it("requires categories for new concepts", () => {
+    expect(() => resolveConfig({ concepts: [{ id: "rln" }] }, defaults)).toThrow(
+      'concepts.0 (rln) is a new concept and needs "categories"',
+    );
+  });
+});
+
+describe("loadConfigFile", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "zk-kit-mcp-config-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads and resolves a file from disk", async () => {
+    const path = join(dir, "zk-kit.yaml");
+    await writeFile(path, "repos:\n  - slug: acme/zk\n    language: circom\n");
+    const { config } = await loadConfigFile(path, defaultConfig());
+    expect(config.repos.map((r) => r.slug)).toContain("acme/zk");
+  });
+
+  it("reports missing files", async () => {
+    await expect(loadConfigFile(join(dir, "missing.json"), defaultConfig())).rejects.toThrow("could not be read");
+  });
+
+  it("resolves localPath relative to the config file", async () => {
+    await mkdir(join(dir, "checkouts", "zk-kit.rust"), { recursive: true });
+    const path = join(dir, "zk-kit.yaml");
+    await writeFile(path, "repos:\n  - slug: zk-kit/zk-kit.rust\n    localPath: checkouts/zk-kit.rust\n");
+    const { config } = await loadConfigFile(path, defaultConfig());
+    const rust = config.repos.find((r) => r.slug === "zk-kit/zk-kit.rust");
+    expect(rust?.localPath).toBe(join(dir, "checkouts", "zk-kit.rust"));
+    expect(rust?.packagePath).toBe("crates");
+  });
+
+  it("rejects a localPath that is not a directory", async () => {
+    const path = join(dir, "zk-kit.json");
+    await writeFile(path, JSON.stringify({ repos: [{ slug: "zk-kit/zk-kit", localPath: "nowhere" }] }));
+    await expect(loadConfigFile(path, defaultConfig())).rejects.toThrow("repos.0.localPath");
+  });
+});
@@ -1,5 +1,15 @@
-import { describe, expect, it } from "vitest";
-import { deriveCrossLanguageId, deriveInstallCommand, deriveName, inferCategory, REPOS } from "../src/config.js";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  defaultConfig,
+  deriveCrossLanguageId,
+  deriveInstallCommand,
+  deriveName,
+  getRepos,
+  inferCategory,
+  REPOS,
+  resetActiveConfig,
+  setActiveConfig,
+} from "../src/config.js";
 
 describe("REPOS", () => {
   it("has 5 repo configs", () => {
@@ -126,10 +136,14 @@ describe("inferCategory", () => {
   });
 
   it("other: unknown names", () => {
-    expect(inferCategory("lazytower")).toBe("other");
     expect(inferCategory("something-new")).toBe("other");
   });
 
+  it("falls back to the category of the concept a name is an alias of", () => {
+    expect(inferCategory("lazytower")).toBe("merkle-trees");
+    expect(inferCategory("gatekeepers")).toBe("access-control");
+  });
+
   it("does not false-match substrings (word boundaries)", () => {
     expect(inferCategory("commitment")).toBe("other"); // "imt" is a substring
     expect(inferCategory("limitation")).toBe("other"); // "imt" is a substring
@@ -137,8 +151,55 @@ describe("inferCategory", () => {
 });
 
 describe("deriveCrossLanguageId", () => {
-  it("returns dirName unchanged", () => {
+  it("returns the dirName of a canonical concept or unknown directory unchanged", () => {
     expect(deriveCrossLanguageId("lean-imt")).toBe("lean-imt");
     expect(deriveCrossLanguageId("excubiae")).toBe("excubiae");
+    expect(deriveCrossLanguageId("something-new")).toBe("something-new");
+  });
+
+  it("maps aliases to their concept, so differently named variants link up", () => {
+    expect(deriveCrossLanguageId("babyjubjub")).toBe("baby-jubjub");
+    expect(deriveCrossLanguageId("sparse_merkle_tree")).toBe("smt");
+    expect(deriveCrossLanguageId("incremental-merkle-tree")).toBe("imt");
+  });
+});
+
+describe("active config", () => {
+  afterEach(() => {
+    resetActiveConfig();
+  });
+
+  it("defaults to the built-in repos", () => {
+    expect(getRepos()).toBe(REPOS);
+  });
+
+  it("applies repos, name overrides and category rules", () => {
+    setActiveConfig({
+      repos: [{ slug: "acme/zk", language: "typescript", packagePath: "libs", branch: "main" }],
+      nameOverrides: { typescript: { "lean-imt": "@acme/lean-imt" } },
+      categoryRules: [[/^custom$/, "identity"]],
+      concepts: [],
+    });
+    expect(getRepos().map((r) => r.slug)).toEqual(["acme/zk"]);
+    expect(deriveName("lean-imt", "typescript")).toBe("@acme/lean-imt");
+    expect(inferCategory("custom")).toBe("identity");
+    expect(inferCategory("lean-imt")).toBe("other");
+  });
+
+  it("resetActiveConfig() restores the defaults", () => {
+    setActiveConfig({ ...defaultConfig(), repos: [] });
+    resetActiveConfig();
+    expect(getRepos()).toHaveLength(5);
+  });
+});
+
+describe("deriveInstallCommand packagePath", () => {
+  it("uses the repo packagePath for Noir", () => {
+    expect(deriveInstallCommand("foo", "foo", "noir", "acme/zk.noir", "libs")).toContain('directory = "libs/foo"');
+  });
+
+  it("uses the repo branch for Noir", () => {
+    expect(deriveInstallCommand("foo", "foo", "noir", "acme/zk.noir", "libs", "dev")).toContain('tag = "dev"');
+    expect(deriveInstallCommand("foo", "foo", "noir", "acme/zk.noir")).toContain('tag = "main"');
   });
 });
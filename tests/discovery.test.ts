@@ -1,15 +1,45 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
-import { discoverAllPackages } from "../src/discovery.js";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { defaultConfig, resetActiveConfig, setActiveConfig } from "../src/config.js";
+import {
+  discoverAllPackages,
+  discoverPackages,
+  loadPackages,
+  packageDirsFromTree,
+  SNAPSHOT_MAX_AGE_MS,
+  snapshotKey,
+} from "../src/discovery.js";
+import { DiskCache } from "../src/disk-cache.js";
 import * as github from "../src/github.js";
+import type { GitTreeEntry, RepoTree } from "../src/types.js";
+
+vi.mock("../src/github.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/github.js")>();
+  return {
+    ...actual,
+    fetchRepoTree: vi.fn(),
+    fetchDirectoryListing: vi.fn(),
+    fetchManifestInfo: vi.fn(),
+  };
+});
 
-vi.mock("../src/github.js", () => ({
-  fetchDirectoryListing: vi.fn(),
-  fetchManifestInfo: vi.fn(),
-}));
-
+const mockRepoTree = vi.mocked(github.fetchRepoTree);
 const mockDirListing = vi.mocked(github.fetchDirectoryListing);
 const mockManifest = vi.mocked(github.fetchManifestInfo);
 
+/** A git tree with a directory and package.json per package under `packagePath`. */
+function repoTree(dirs: string[], packagePath = "packages"): RepoTree {
+  return {
+    entries: dirs.flatMap((dir): GitTreeEntry[] => [
+      { path: `${packagePath}/${dir}`, type: "tree" },
+      { path: `${packagePath}/${dir}/package.json`, type: "blob", size: 100 },
+    ]),
+    truncated: false,
+  };
+}
+
 beforeEach(() => {
   vi.clearAllMocks();
 });
@@ -17,12 +47,12 @@ beforeEach(() => {
 describe("discoverAllPackages", () => {
   it("discovers packages from all repos", async () => {
     // Mock directory listings for each repo
-    mockDirListing
-      .mockResolvedValueOnce(["lean-imt", "poseidon-lite"]) // typescript
-      .mockResolvedValueOnce(["poseidon-proof"]) // circom
-      .mockResolvedValueOnce(["lean-imt"]) // solidity
-      .mockResolvedValueOnce(["lean-imt"]) // noir
-      .mockResolvedValueOnce(["lean-imt"]); // rust
+    mockRepoTree
+      .mockResolvedValueOnce(repoTree(["lean-imt", "poseidon-lite"])) // typescript
+      .mockResolvedValueOnce(repoTree(["poseidon-proof"])) // circom
+      .mockResolvedValueOnce(repoTree(["lean-imt"])) // solidity
+      .mockResolvedValueOnce(repoTree(["lean-imt"])) // noir
+      .mockResolvedValueOnce(repoTree(["lean-imt"], "crates")); // rust
 
     mockManifest.mockResolvedValue({ description: "A description", version: "1.0.0", zkKitDependencies: [] });
 
@@ -33,12 +63,12 @@ describe("discoverAllPackages", () => {
   });
 
   it("every package has required fields", async () => {
-    mockDirListing
-      .mockResolvedValueOnce(["lean-imt"])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([]);
+    mockRepoTree
+      .mockResolvedValueOnce(repoTree(["lean-imt"]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([], "crates"));
 
     mockManifest.mockResolvedValue({ description: "Description", version: "0.1.0", zkKitDependencies: [] });
 
@@ -56,12 +86,12 @@ describe("discoverAllPackages", () => {
   });
 
   it("handles partial repo failures gracefully", async () => {
-    mockDirListing
-      .mockResolvedValueOnce(["lean-imt"]) // typescript succeeds
+    mockRepoTree
+      .mockResolvedValueOnce(repoTree(["lean-imt"])) // typescript succeeds
       .mockRejectedValueOnce(new Error("Network error")) // circom fails
-      .mockResolvedValueOnce(["lean-imt"]) // solidity succeeds
+      .mockResolvedValueOnce(repoTree(["lean-imt"])) // solidity succeeds
       .mockRejectedValueOnce(new Error("Timeout")) // noir fails
-      .mockResolvedValueOnce(["lean-imt"]); // rust succeeds
+      .mockResolvedValueOnce(repoTree(["lean-imt"], "crates")); // rust succeeds
 
     mockManifest.mockResolvedValue({ description: "Desc", version: "0.2.0", zkKitDependencies: [] });
 
@@ -73,19 +103,19 @@ describe("discoverAllPackages", () => {
   });
 
   it("returns empty array if all repos fail", async () => {
-    mockDirListing.mockRejectedValue(new Error("All down"));
+    mockRepoTree.mockRejectedValue(new Error("All down"));
 
     const packages = await discoverAllPackages();
     expect(packages).toEqual([]);
   });
 
   it("sorts by language order then name", async () => {
-    mockDirListing
-      .mockResolvedValueOnce(["poseidon-lite", "lean-imt"]) // typescript
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce(["lean-imt"]); // rust
+    mockRepoTree
+      .mockResolvedValueOnce(repoTree(["poseidon-lite", "lean-imt"])) // typescript
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree(["lean-imt"], "crates")); // rust
 
     mockManifest.mockResolvedValue({ description: "", zkKitDependencies: [] });
 
@@ -100,12 +130,12 @@ describe("discoverAllPackages", () => {
   });
 
   it("survives individual package manifest failures within a repo", async () => {
-    mockDirListing
-      .mockResolvedValueOnce(["lean-imt", "poseidon-lite", "imt"]) // typescript: 3 packages
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([]);
+    mockRepoTree
+      .mockResolvedValueOnce(repoTree(["lean-imt", "poseidon-lite", "imt"])) // typescript: 3 packages
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([], "crates"));
 
     // First and third succeed, second throws
     mockManifest
@@ -123,13 +153,44 @@ describe("discoverAllPackages", () => {
     expect(packages.map((p) => p.name)).not.toContain("@zk-kit/poseidon-lite");
   });
 
+  it("records the repo slug each package came from", async () => {
+    mockRepoTree
+      .mockResolvedValueOnce(repoTree(["lean-imt"]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree(["lean-imt"], "crates"));
+    mockManifest.mockResolvedValue({ description: "", zkKitDependencies: [] });
+
+    const packages = await discoverAllPackages();
+    expect(packages.map((p) => p.repoSlug)).toEqual(["zk-kit/zk-kit", "zk-kit/zk-kit.rust"]);
+  });
+
+  it("discovers from configured repos", async () => {
+    setActiveConfig({
+      ...defaultConfig(),
+      repos: [{ slug: "acme/zk", language: "typescript", packagePath: "libs", branch: "dev" }],
+    });
+    mockRepoTree.mockResolvedValueOnce(repoTree(["widget"], "libs"));
+    mockManifest.mockResolvedValue({ description: "", zkKitDependencies: [] });
+
+    try {
+      const packages = await discoverAllPackages();
+      expect(mockRepoTree).toHaveBeenCalledWith("acme/zk", "dev");
+      expect(packages).toHaveLength(1);
+      expect(packages[0].repo).toBe("https://github.com/acme/zk/tree/dev/libs/widget");
+    } finally {
+      resetActiveConfig();
+    }
+  });
+
   it("populates version from manifest", async () => {
-    mockDirListing
-      .mockResolvedValueOnce(["lean-imt"])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([]);
+    mockRepoTree
+      .mockResolvedValueOnce(repoTree(["lean-imt"]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([], "crates"));
 
     mockManifest.mockResolvedValue({
       description: "Description",
@@ -142,12 +203,12 @@ describe("discoverAllPackages", () => {
   });
 
   it("populates zkKitDependencies from manifest", async () => {
-    mockDirListing
-      .mockResolvedValueOnce(["lean-imt"])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([]);
+    mockRepoTree
+      .mockResolvedValueOnce(repoTree(["lean-imt"]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([], "crates"));
 
     mockManifest.mockResolvedValue({
       description: "Description",
@@ -160,12 +221,12 @@ describe("discoverAllPackages", () => {
   });
 
   it("version is undefined when manifest has none", async () => {
-    mockDirListing
-      .mockResolvedValueOnce(["lean-imt"])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([])
-      .mockResolvedValueOnce([]);
+    mockRepoTree
+      .mockResolvedValueOnce(repoTree(["lean-imt"]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([], "crates"));
 
     mockManifest.mockResolvedValue({ description: "Desc", zkKitDependencies: [] });
 
@@ -174,12 +235,12 @@ describe("discoverAllPackages", () => {
   });
 
   it("derives correct names for each language", async () => {
-    mockDirListing
-      .mockResolvedValueOnce(["lean-imt"]) // typescript
-      .mockResolvedValueOnce(["poseidon-proof"]) // circom
-      .mockResolvedValueOnce(["excubiae"]) // solidity (override)
-      .mockResolvedValueOnce(["lazytower"]) // noir (override)
-      .mockResolvedValueOnce(["lean-imt"]); // rust
+    mockRepoTree
+      .mockResolvedValueOnce(repoTree(["lean-imt"])) // typescript
+      .mockResolvedValueOnce(repoTree(["poseidon-proof"])) // circom
+      .mockResolvedValueOnce(repoTree(["excubiae"])) // solidity (override)
+      .mockResolvedValueOnce(repoTree(["lazytower"])) // noir (override)
+      .mockResolvedValueOnce(repoTree(["lean-imt"], "crates")); // rust
 
     mockManifest.mockResolvedValue({ description: "", zkKitDependencies: [] });
 
@@ -193,3 +254,148 @@ describe("discoverAllPackages", () => {
     expect(names).toContain("zk-kit-lean-imt");
   });
 });
+
+describe("git tree discovery", () => {
+  it("groups tree entries into package directories with their files", () => {
+    const dirs = packageDirsFromTree(
+      [
+        { path: "README.md", type: "blob" },
+        { path: "packages", type: "tree" },
+        { path: "packages/lean-imt", type: "tree" },
+        { path: "packages/lean-imt/package.json", type: "blob" },
+        { path: "packages/lean-imt/src", type: "tree" },
+        { path: "packages/lean-imt/src/index.ts", type: "blob" },
+        { path: "packages/empty", type: "tree" },
+        { path: "packages/.gitkeep", type: "blob" },
+        { path: "packagesextra/x", type: "tree" },
+      ],
+      "packages",
+    );
+    expect([...dirs.keys()]).toEqual(["lean-imt", "empty"]);
+    expect([...dirs.get("lean-imt")!]).toEqual(["package.json", "src/index.ts"]);
+    expect(dirs.get("empty")!.size).toBe(0);
+  });
+
+  it("passes each package's file list to fetchManifestInfo", async () => {
+    mockRepoTree
+      .mockResolvedValueOnce(repoTree(["lean-imt"]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([], "crates"));
+    mockManifest.mockResolvedValue({ description: "", zkKitDependencies: [] });
+
+    await discoverAllPackages();
+
+    expect(mockManifest).toHaveBeenCalledWith(
+      "zk-kit/zk-kit",
+      "main",
+      "packages",
+      "lean-imt",
+      "typescript",
+      new Set(["package.json"]),
+    );
+    expect(mockDirListing).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the directory listing when the tree is truncated", async () => {
+    mockRepoTree
+      .mockResolvedValueOnce({ entries: [], truncated: true })
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([], "crates"));
+    mockDirListing.mockResolvedValueOnce(["lean-imt"]);
+    mockManifest.mockResolvedValue({ description: "", zkKitDependencies: [] });
+
+    const packages = await discoverAllPackages();
+
+    expect(packages.map((p) => p.name)).toEqual(["@zk-kit/lean-imt"]);
+    expect(mockDirListing).toHaveBeenCalledWith("zk-kit/zk-kit", "packages");
+    expect(mockManifest.mock.calls[0][5]).toBeUndefined();
+  });
+
+  it("reports the number of requests made", async () => {
+    for (let i = 0; i < 5; i++) mockRepoTree.mockResolvedValueOnce(repoTree([]));
+    const result = await discoverPackages();
+    expect(result.requests).toEqual({ api: 0, raw: 0, notModified: 0 });
+  });
+});
+
+describe("loadPackages", () => {
+  let dir: string;
+  let cache: DiskCache;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "zk-kit-mcp-discovery-"));
+    cache = new DiskCache(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function mockSingleRepo(dirs: string[]) {
+    mockRepoTree
+      .mockResolvedValueOnce(repoTree(dirs))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([]))
+      .mockResolvedValueOnce(repoTree([], "crates"));
+    mockManifest.mockResolvedValue({ description: "Desc", zkKitDependencies: [] });
+  }
+
+  it("discovers from GitHub without a cache", async () => {
+    mockSingleRepo(["lean-imt"]);
+    const loaded = await loadPackages();
+    expect(loaded.source).toBe("github");
+    expect(loaded.packages).toHaveLength(1);
+    expect(loaded.staleAsOf).toBeUndefined();
+  });
+
+  it("writes a snapshot and reuses it on the next load", async () => {
+    mockSingleRepo(["lean-imt"]);
+    await loadPackages(cache);
+
+    const loaded = await loadPackages(cache);
+    expect(loaded.source).toBe("snapshot");
+    expect(loaded.packages.map((p) => p.name)).toEqual(["@zk-kit/lean-imt"]);
+    expect(loaded.staleAsOf).toBeUndefined();
+    // Only the first load hit GitHub
+    expect(mockRepoTree).toHaveBeenCalledTimes(5);
+  });
+
+  it("re-discovers when the snapshot is older than SNAPSHOT_MAX_AGE_MS", async () => {
+    const old = Date.now() - SNAPSHOT_MAX_AGE_MS - 1000;
+    await cache.set(snapshotKey(), { value: [{ name: "old" }], fetchedAt: old });
+    mockSingleRepo(["lean-imt"]);
+
+    const loaded = await loadPackages(cache);
+    expect(loaded.source).toBe("github");
+    expect(loaded.packages[0].name).toBe("@zk-kit/lean-imt");
+  });
+
+  it("falls back to an outdated snapshot when discovery finds nothing", async () => {
+    const old = Date.now() - SNAPSHOT_MAX_AGE_MS - 1000;
+    await cache.set(snapshotKey(), { value: [{ name: "@zk-kit/cached" }], fetchedAt: old });
+    mockRepoTree.mockRejectedValue(new Error("Network down"));
+
+    const loaded = await loadPackages(cache);
+    expect(loaded.source).toBe("snapshot");
+    expect(loaded.staleAsOf).toBe(old);
+    expect(loaded.packages[0].name).toBe("@zk-kit/cached");
+  });
+
+  it("keys snapshots by the configured repos", async () => {
+    const defaultKey = snapshotKey();
+    setActiveConfig({
+      ...defaultConfig(),
+      repos: [{ slug: "acme/zk", language: "rust", packagePath: "crates", branch: "main" }],
+    });
+    try {
+      expect(snapshotKey()).not.toBe(defaultKey);
+    } finally {
+      resetActiveConfig();
+    }
+  });
+});
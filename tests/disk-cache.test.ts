@@ -0,0 +1,98 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DiskCache, defaultCacheDir, formatStaleNote, markStale, trackStaleness } from "../src/disk-cache.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "zk-kit-mcp-test-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("DiskCache", () => {
+  it("stores and retrieves entries across instances", async () => {
+    await new DiskCache(dir).set("https://example.com/a", { value: "hello", fetchedAt: 1000, etag: '"abc"' });
+    const entry = await new DiskCache(dir).get<string>("https://example.com/a");
+    expect(entry).toEqual({ value: "hello", fetchedAt: 1000, etag: '"abc"' });
+  });
+
+  it("returns undefined for missing keys", async () => {
+    expect(await new DiskCache(dir).get("missing")).toBeUndefined();
+  });
+
+  it("round-trips structured values", async () => {
+    const cache = new DiskCache(dir);
+    await cache.set("pkgs", { value: [{ name: "@zk-kit/lean-imt" }], fetchedAt: 5 });
+    const entry = await cache.get<{ name: string }[]>("pkgs");
+    expect(entry?.value[0].name).toBe("@zk-kit/lean-imt");
+  });
+
+  it("creates the cache directory on first write", async () => {
+    const cache = new DiskCache(join(dir, "nested", "cache"));
+    await cache.set("k", { value: 1, fetchedAt: 1 });
+    expect((await cache.get<number>("k"))?.value).toBe(1);
+  });
+
+  it("clear() removes all entries", async () => {
+    const cache = new DiskCache(dir);
+    await cache.set("k", { value: 1, fetchedAt: 1 });
+    await cache.clear();
+    expect(await cache.get("k")).toBeUndefined();
+  });
+});
+
+describe("defaultCacheDir", () => {
+  it("uses XDG_CACHE_HOME when set", () => {
+    expect(defaultCacheDir({ XDG_CACHE_HOME: "/xdg" })).toBe(join("/xdg", "zk-kit-mcp"));
+  });
+
+  it("falls back to ~/.cache", () => {
+    expect(defaultCacheDir({})).toMatch(/\.cache[\\/]zk-kit-mcp$/);
+  });
+});
+
+describe("trackStaleness", () => {
+  it("reports no staleness when nothing stale was served", async () => {
+    const result = await trackStaleness(async () => 42);
+    expect(result).toEqual({ value: 42, staleAsOf: undefined });
+  });
+
+  it("reports the oldest stale timestamp", async () => {
+    const result = await trackStaleness(async () => {
+      markStale(2000);
+      markStale(1000);
+      markStale(3000);
+      return "x";
+    });
+    expect(result.staleAsOf).toBe(1000);
+  });
+
+  it("isolates concurrent scopes", async () => {
+    const [a, b] = await Promise.all([
+      trackStaleness(async () => {
+        await new Promise((r) => setTimeout(r, 5));
+        markStale(1000);
+      }),
+      trackStaleness(async () => {
+        await new Promise((r) => setTimeout(r, 1));
+      }),
+    ]);
+    expect(a.staleAsOf).toBe(1000);
+    expect(b.staleAsOf).toBeUndefined();
+  });
+
+  it("ignores marks outside a tracking scope", () => {
+    expect(() => markStale(1000)).not.toThrow();
+  });
+});
+
+describe("formatStaleNote", () => {
+  it("includes the ISO timestamp", () => {
+    expect(formatStaleNote(Date.UTC(2024, 0, 2))).toContain("stale as of 2024-01-02T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+  apiPassages,
+  buildDocIndex,
+  excerpt,
+  formatDocResults,
+  markdownPassages,
+  type PackageDocs,
+  searchDocIndex,
+  tokenize,
+} from "../src/doc-search.js";
+import type { PackageApi } from "../src/types.js";
+
+const SMT_README = `<p align="center">
+    <h1 align="center">Sparse Merkle Tree</h1>
+</p>
+
+[![npm](https://img.shields.io/npm/v/@zk-kit/smt)](https://www.npmjs.com/package/@zk-kit/smt)
+
+A sparse Merkle tree with membership and non-membership proofs.
+
+## Install
+
+\`\`\`bash
+npm i @zk-kit/smt
+\`\`\`
+
+## Usage
+
+### Create proofs
+
+You can prove that a key is not in the tree with a non-membership proof.
+
+\`\`\`typescript
+const proof = tree.createProof(key)
+\`\`\`
+`;
+
+const GROUP_README = `# Group
+
+Semaphore groups let members prove they belong to a set without revealing who they are.
+
+## Usage
+
+Add members with \`addMember\`.
+`;
+
+const docs: PackageDocs[] = [
+  { package: "@zk-kit/smt", language: "typescript", passages: markdownPassages(SMT_README, "readme") },
+  {
+    package: "@zk-kit/lean-imt",
+    language: "typescript",
+    passages: [
+      { source: "description", text: "Lean Incremental Merkle Tree implementation" },
+      { source: "api", heading: "LeanIMT.insert", text: "insert(leaf: N): void\n\nInserts a new leaf." },
+    ],
+  },
+  { package: "@semaphore/group", language: "typescript", passages: markdownPassages(GROUP_README, "readme") },
+];
+
+describe("tokenize", () => {
+  it("splits identifiers, drops stop words and stems", () => {
+    expect(tokenize("How to generateProof for the LeanIMT")).toEqual([
+      "generat",
+      "proof",
+      "generateproof",
+      "lean",
+      "imt",
+      "leanimt",
+    ]);
+    expect(tokenize("proves proving proofs trees sets")).toEqual(["prov", "prov", "proof", "tree", "set"]);
+    expect(tokenize("insert_many hashes")).toEqual(["insert", "many", "insertmany", "hash"]);
+  });
+});
+
+describe("markdownPassages", () => {
+  it("splits sections by heading path and strips HTML, badges and link targets", () => {
+    const passages = markdownPassages(SMT_README, "readme");
+    expect(passages.map((p) => p.heading)).toEqual([undefined, "Install", "Usage > Create proofs"]);
+    expect(passages[0].text).toBe(
+      "Sparse Merkle Tree\n\nA sparse Merkle tree with membership and non-membership proofs.",
+    );
+    expect(passages[2].text).toContain("const proof = tree.createProof(key)");
+  });
+
+  it("does not take comments in code blocks for headings", () => {
+    const passages = markdownPassages("## Usage\n\n```bash\n# install\nnpm i x\n```\n", "readme");
+    expect(passages).toEqual([{ source: "readme", heading: "Usage", text: "```bash\n# install\nnpm i x\n```" }]);
+  });
+
+  it("splits long sections at paragraph boundaries", () => {
+    const paragraph = "word ".repeat(100).trim();
+    const passages = markdownPassages(`## Long\n\n${paragraph}\n\n${paragraph}\n`, "changelog");
+    expect(passages).toHaveLength(2);
+    expect(passages.every((p) => p.heading === "Long" && p.source === "changelog")).toBe(true);
+  });
+});
+
+describe("apiPassages", () => {
+  it("keeps documented symbols and members only", () => {
+    const api: PackageApi = {
+      language: "typescript",
+      entryFile: "src/index.ts",
+      files: ["src/index.ts"],
+      external: [],
+      unresolved: [],
+      symbols: [
+        {
+          name: "LeanIMT",
+          kind: "class",
+          signature: "class LeanIMT",
+          doc: "Lean incremental Merkle tree.",
+          file: "src/index.ts",
+          members: [
+            { name: "insert", kind: "method", signature: "insert(leaf: N): void", doc: "Inserts a leaf." },
+            { name: "root", kind: "accessor", signature: "get root(): N" },
+          ],
+        },
+        { name: "hash", kind: "function", signature: "function hash(x: bigint): bigint", file: "src/index.ts" },
+      ],
+    };
+    expect(apiPassages(api)).toEqual([
+      { source: "api", heading: "LeanIMT", text: "class LeanIMT\n\nLean incremental Merkle tree." },
+      { source: "api", heading: "LeanIMT.insert", text: "insert(leaf: N): void\n\nInserts a leaf." },
+    ]);
+  });
+});
+
+describe("searchDocIndex", () => {
+  const index = buildDocIndex(docs);
+
+  it("ranks packages by their best passage", () => {
+    const results = searchDocIndex(index, "sparse tree with non-membership proofs");
+    expect(results[0].package).toBe("@zk-kit/smt");
+    expect(results[0].passages[0].text).toContain("non-membership proofs");
+    expect(results[0].score).toBe(results[0].passages[0].score);
+  });
+
+  it("matches words in other forms", () => {
+    const [first] = searchDocIndex(index, "prove membership in a set");
+    expect(first.package).toBe("@semaphore/group");
+    expect(first.passages[0].text).toContain("prove they belong to a set");
+  });
+
+  it("searches doc comments and descriptions", () => {
+    const results = searchDocIndex(index, "incremental insert leaf");
+    expect(results[0].package).toBe("@zk-kit/lean-imt");
+    expect(results[0].passages.map((p) => p.source)).toEqual(["api", "description"]);
+  });
+
+  it("keeps packages of the same name in different repos apart", () => {
+    const lean = docs.find((d) => d.package === "@zk-kit/lean-imt")!;
+    const forked = buildDocIndex([
+      { ...lean, repo: "zk-kit/zk-kit" },
+      { ...lean, repo: "acme/zk-kit" },
+    ]);
+    const results = searchDocIndex(forked, "incremental insert leaf");
+    expect(results.map((r) => r.repo)).toEqual(["zk-kit/zk-kit", "acme/zk-kit"]);
+    expect(results[0].passages).toHaveLength(2);
+    expect(formatDocResults("insert", results, 2)).toContain("## 2. @zk-kit/lean-imt (typescript, acme/zk-kit)");
+  });
+
+  it("limits packages and drops those without matches", () => {
+    expect(searchDocIndex(index, "merkle", 1)).toHaveLength(1);
+    expect(searchDocIndex(index, "elliptic curve")).toEqual([]);
+    expect(searchDocIndex(buildDocIndex([]), "merkle")).toEqual([]);
+  });
+});
+
+describe("excerpt", () => {
+  it("cuts long passages around the best matching line", () => {
+    const lines = Array.from({ length: 40 }, (_, i) => `line ${i} about nothing in particular`);
+    lines[30] = "the sparse merkle tree";
+    const text = excerpt(lines.join("\n"), new Set(tokenize("sparse tree")));
+    expect(text.startsWith("...\nline 29")).toBe(true);
+    expect(text).toContain("the sparse merkle tree");
+    expect(text.length).toBeLessThan(520);
+    expect(excerpt("short", new Set(["short"]))).toBe("short");
+  });
+});
+
+describe("formatDocResults", () => {
+  it("quotes the matching passages of each package", () => {
+    const results = searchDocIndex(buildDocIndex(docs), "non-membership");
+    const md = formatDocResults("non-membership", results, 3);
+    expect(md).toContain('# Docs: "non-membership"');
+    expect(md).toContain("1 best matching package of 3 packages");
+    expect(md).toContain("## 1. @zk-kit/smt (typescript)");
+    expect(md).toMatch(/\*\*README: Usage > Create proofs\*\* \(score [\d.]+\)/);
+    expect(md).toContain("> You can prove that a key is not in the tree with a non-membership proof.");
+  });
+
+  it("says when nothing matches", () => {
+    expect(formatDocResults("elliptic", [], 1)).toContain('No documentation matches "elliptic" in 1 package.');
+  });
+});
@@ -1,5 +1,11 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DiskCache, trackStaleness } from "../src/disk-cache.js";
 import {
+  clearConditionalCache,
+  countRequests,
   detectLanguageFromExtension,
   extractDescriptionFromReadme,
   extractFirstCodeBlock,
@@ -13,6 +19,7 @@ import {
   fetchReadme,
   fetchReleases,
   fetchRepoStats,
+  fetchRepoTree,
   fetchWorkflowRuns,
   formatCodeSearchResults,
   formatCommit,
@@ -24,8 +31,10 @@ import {
   formatRelease,
   formatRepoStats,
   formatWorkflowRuns,
+  resolveCommitSha,
   searchCode,
   searchIssues,
+  setDiskCache,
   truncate,
 } from "../src/github.js";
 
@@ -34,6 +43,7 @@ const mockFetch = vi.fn();
 beforeEach(() => {
   mockFetch.mockReset();
   vi.stubGlobal("fetch", mockFetch);
+  clearConditionalCache();
 });
 
 afterEach(() => {
@@ -407,6 +417,32 @@ describe("fetchManifestInfo", () => {
     expect(info.version).toBe("0.1.0");
   });
 
+  it("only fetches files present in the given file list", async () => {
+    const readme = `# Lean IMT\n\nContracts docs.\n\n${"More text. ".repeat(20)}`;
+    mockFetch.mockResolvedValueOnce({ ok: true, text: async () => readme });
+
+    const info = await fetchManifestInfo(
+      "zk-kit/zk-kit.solidity",
+      "main",
+      "packages",
+      "lean-imt",
+      "solidity",
+      new Set(["contracts/README.md", "contracts/LeanIMT.sol"]),
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      "https://raw.githubusercontent.com/zk-kit/zk-kit.solidity/main/packages/lean-imt/contracts/README.md",
+    );
+    expect(info.description).toBe("Contracts docs.");
+  });
+
+  it("makes no requests when the file list has no manifest or README", async () => {
+    const info = await fetchManifestInfo("zk-kit/zk-kit", "main", "packages", "bare", "typescript", new Set());
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(info).toEqual({ description: "", version: undefined, zkKitDependencies: [] });
+  });
+
   it("returns undefined version for noir", async () => {
     const noirReadme = `# Lean IMT\n\nA lean Merkle tree for Noir.\n\n${"Additional documentation. ".repeat(10)}`;
     mockFetch.mockResolvedValueOnce({
@@ -672,6 +708,66 @@ describe("formatRepoStats", () => {
 
 // fetchDirectoryTree
 
+describe("fetchRepoTree", () => {
+  it("returns blobs and trees with the truncated flag", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        tree: [
+          { path: "packages", type: "tree" },
+          { path: "packages/a/package.json", type: "blob", size: 10 },
+          { path: "vendor/lib", type: "commit" },
+        ],
+        truncated: true,
+      }),
+    });
+
+    const tree = await fetchRepoTree("zk-kit/zk-kit", "main");
+    expect(tree.truncated).toBe(true);
+    expect(tree.entries.map((e) => e.path)).toEqual(["packages", "packages/a/package.json"]);
+    expect(mockFetch.mock.calls[0][0]).toBe("https://api.github.com/repos/zk-kit/zk-kit/git/trees/main?recursive=1");
+  });
+});
+
+describe("resolveCommitSha", () => {
+  it("requests the bare SHA for a tag, keeping slashes in the path", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => "abc123\n" });
+
+    expect(await resolveCommitSha("zk-kit/zk-kit", "@zk-kit/lean-imt@2.0.0")).toBe("abc123");
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://api.github.com/repos/zk-kit/zk-kit/commits/%40zk-kit/lean-imt%402.0.0");
+    expect(init.headers.Accept).toBe("application/vnd.github.sha");
+  });
+
+  it("returns null for unknown refs", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 422, headers: new Headers() });
+    expect(await resolveCommitSha("zk-kit/zk-kit", "nope")).toBeNull();
+  });
+});
+
+describe("countRequests", () => {
+  it("counts API and raw requests made inside the scope", async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ tree: [], truncated: false }) })
+      .mockResolvedValueOnce({ ok: true, status: 200, text: async () => "{}" })
+      .mockResolvedValueOnce({ ok: false, status: 404 });
+
+    const { requests } = await countRequests(async () => {
+      await fetchRepoTree("zk-kit/zk-kit", "main");
+      await fetchRawFile("zk-kit/zk-kit", "main", "a/package.json");
+      await fetchRawFile("zk-kit/zk-kit", "main", "b/package.json");
+    });
+    expect(requests).toEqual({ api: 1, raw: 2, notModified: 0 });
+  });
+
+  it("ignores requests made outside the scope", async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 404 });
+    await fetchRawFile("zk-kit/zk-kit", "main", "outside.md");
+    const { requests } = await countRequests(async () => {});
+    expect(requests.raw).toBe(0);
+  });
+});
+
 describe("fetchDirectoryTree", () => {
   it("returns flat directory listing via Git Trees API", async () => {
     mockFetch.mockResolvedValueOnce({
@@ -760,7 +856,8 @@ describe("searchCode", () => {
       }),
     });
 
-    const results = await searchCode("function insert");
+    const { results, total } = await searchCode("function insert");
+    expect(total).toBe(1);
     expect(results).toHaveLength(1);
     expect(results[0].path).toBe("packages/lean-imt/src/lean-imt.ts");
     expect(results[0].repo).toBe("zk-kit/zk-kit");
@@ -773,8 +870,7 @@ describe("searchCode", () => {
       json: async () => ({ items: [] }),
     });
 
-    const results = await searchCode("nonexistent");
-    expect(results).toEqual([]);
+    expect(await searchCode("nonexistent")).toEqual({ results: [], total: 0 });
   });
 
   it("handles missing text_matches gracefully", async () => {
@@ -793,7 +889,7 @@ describe("searchCode", () => {
       }),
     });
 
-    const results = await searchCode("test");
+    const { results } = await searchCode("test");
     expect(results[0].fragment).toBe("");
   });
 
@@ -890,6 +986,19 @@ describe("searchCode scoping", () => {
 
     const calledUrl = mockFetch.mock.calls[0][0] as string;
     expect(calledUrl).toContain(encodeURIComponent("org:zk-kit"));
+    expect(calledUrl).not.toContain("&page=");
+  });
+
+  it("requests later pages and reports the total", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ total_count: 45, items: [] }),
+    });
+
+    const { total } = await searchCode("insert", undefined, undefined, undefined, 3);
+
+    expect(mockFetch.mock.calls[0][0] as string).toContain("&per_page=20&page=3");
+    expect(total).toBe(45);
   });
 });
 
@@ -1278,3 +1387,214 @@ describe("fetchReleases filtering", () => {
     expect(releases).toHaveLength(2);
   });
 });
+
+// Disk cache
+
+describe("disk cache integration", () => {
+  let dir: string;
+  let cache: DiskCache;
+  const rawUrl = "https://raw.githubusercontent.com/zk-kit/zk-kit/main/packages/lean-imt/README.md";
+  const treeUrl = "https://api.github.com/repos/zk-kit/zk-kit/git/trees/main?recursive=1";
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "zk-kit-mcp-github-"));
+    cache = new DiskCache(dir);
+    setDiskCache(cache);
+  });
+
+  afterEach(async () => {
+    setDiskCache(undefined);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("stores raw files with their ETag", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers({ etag: '"v1"' }),
+      text: async () => "# Hello",
+    });
+    await fetchRawFile("zk-kit/zk-kit", "main", "packages/lean-imt/README.md");
+    await vi.waitFor(async () => expect((await cache.get<string>(rawUrl))?.etag).toBe('"v1"'));
+  });
+
+  it("sends If-None-Match and serves the cached copy on 304", async () => {
+    await cache.set(rawUrl, { value: "# Cached", fetchedAt: 1000, etag: '"v1"' });
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 304 });
+
+    const content = await fetchRawFile("zk-kit/zk-kit", "main", "packages/lean-imt/README.md");
+    expect(content).toBe("# Cached");
+    const init = mockFetch.mock.calls[0][1] as { headers: Record<string, string> };
+    expect(init.headers["If-None-Match"]).toBe('"v1"');
+    // Revalidation refreshes fetchedAt
+    await vi.waitFor(async () => expect((await cache.get<string>(rawUrl))?.fetchedAt).toBeGreaterThan(1000));
+  });
+
+  it("serves a stale raw file on network error and reports staleness", async () => {
+    await cache.set(rawUrl, { value: "# Cached", fetchedAt: 1000 });
+    mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+    const { value, staleAsOf } = await trackStaleness(() =>
+      fetchRawFile("zk-kit/zk-kit", "main", "packages/lean-imt/README.md"),
+    );
+    expect(value).toBe("# Cached");
+    expect(staleAsOf).toBe(1000);
+  });
+
+  it("serves a stale raw file on 5xx", async () => {
+    await cache.set(rawUrl, { value: "# Cached", fetchedAt: 1000 });
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+    expect(await fetchRawFile("zk-kit/zk-kit", "main", "packages/lean-imt/README.md")).toBe("# Cached");
+  });
+
+  it("returns null on 404 even with a cached copy", async () => {
+    await cache.set(rawUrl, { value: "# Cached", fetchedAt: 1000 });
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404 });
+    expect(await fetchRawFile("zk-kit/zk-kit", "main", "packages/lean-imt/README.md")).toBeNull();
+  });
+
+  it("revalidates trees and serves the cached copy on 304", async () => {
+    const tree = { tree: [{ path: "packages/lean-imt/index.ts", type: "blob", size: 1 }], truncated: false };
+    await cache.set(treeUrl, { value: tree, fetchedAt: 1000, etag: '"t1"' });
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 304 });
+
+    const entries = await fetchDirectoryTree("zk-kit/zk-kit", "main", "packages/lean-imt");
+    expect(entries).toEqual([{ name: "index.ts", path: "index.ts", type: "file", size: 1 }]);
+    const init = mockFetch.mock.calls[0][1] as { headers: Record<string, string> };
+    expect(init.headers["If-None-Match"]).toBe('"t1"');
+  });
+
+  it("serves a stale tree when rate-limited", async () => {
+    const tree = { tree: [{ path: "packages/lean-imt/index.ts", type: "blob", size: 1 }], truncated: false };
+    await cache.set(treeUrl, { value: tree, fetchedAt: 1000 });
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 403,
+      headers: new Headers({ "x-ratelimit-remaining": "0", "x-ratelimit-reset": "1706000000" }),
+    });
+
+    const { value, staleAsOf } = await trackStaleness(() =>
+      fetchDirectoryTree("zk-kit/zk-kit", "main", "packages/lean-imt"),
+    );
+    expect(value).toHaveLength(1);
+    expect(staleAsOf).toBe(1000);
+  });
+
+  it("does not serve stale trees for client errors", async () => {
+    await cache.set(treeUrl, { value: { tree: [], truncated: false }, fetchedAt: 1000 });
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404 });
+    await expect(fetchDirectoryTree("zk-kit/zk-kit", "main", "packages/lean-imt")).rejects.toThrow("GitHub API 404");
+  });
+});
+
+// Conditional requests
+
+describe("conditional requests", () => {
+  const etagged = (body: unknown, etag = '"abc"') => ({
+    ok: true,
+    status: 200,
+    headers: new Headers({ etag }),
+    json: async () => body,
+  });
+
+  it("sends If-None-Match with the remembered ETag and reuses the body on 304", async () => {
+    mockFetch.mockResolvedValueOnce(etagged([{ name: "lean-imt", type: "dir" }]));
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 304, headers: new Headers() });
+
+    expect(await fetchDirectoryListing("zk-kit/zk-kit", "packages")).toEqual(["lean-imt"]);
+    expect(await fetchDirectoryListing("zk-kit/zk-kit", "packages")).toEqual(["lean-imt"]);
+
+    const first = mockFetch.mock.calls[0][1] as { headers: Record<string, string> };
+    const second = mockFetch.mock.calls[1][1] as { headers: Record<string, string> };
+    expect(first.headers["If-None-Match"]).toBeUndefined();
+    expect(second.headers["If-None-Match"]).toBe('"abc"');
+  });
+
+  it("sends If-Modified-Since when only Last-Modified is known", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers({ "last-modified": "Tue, 02 Jan 2024 00:00:00 GMT" }),
+      json: async () => ({ workflow_runs: [] }),
+    });
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 304, headers: new Headers() });
+
+    await fetchWorkflowRuns("zk-kit/zk-kit", 5);
+    await fetchWorkflowRuns("zk-kit/zk-kit", 5);
+
+    const second = mockFetch.mock.calls[1][1] as { headers: Record<string, string> };
+    expect(second.headers["If-Modified-Since"]).toBe("Tue, 02 Jan 2024 00:00:00 GMT");
+  });
+
+  it("replaces the remembered body when the resource changed", async () => {
+    mockFetch.mockResolvedValueOnce(
+      etagged(
+        [{ sha: "aaaaaaa1", commit: { message: "old", author: { name: "a", date: "2024-01-01" } }, html_url: "u" }],
+        '"v1"',
+      ),
+    );
+    mockFetch.mockResolvedValueOnce(
+      etagged(
+        [{ sha: "bbbbbbb2", commit: { message: "new", author: { name: "b", date: "2024-01-02" } }, html_url: "u" }],
+        '"v2"',
+      ),
+    );
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 304, headers: new Headers() });
+
+    await fetchPackageCommits("zk-kit/zk-kit", "packages/lean-imt");
+    await fetchPackageCommits("zk-kit/zk-kit", "packages/lean-imt");
+    const commits = await fetchPackageCommits("zk-kit/zk-kit", "packages/lean-imt");
+
+    expect(commits[0].message).toBe("new");
+    const third = mockFetch.mock.calls[2][1] as { headers: Record<string, string> };
+    expect(third.headers["If-None-Match"]).toBe('"v2"');
+  });
+
+  it("covers releases", async () => {
+    mockFetch.mockResolvedValueOnce(
+      etagged([{ tag_name: "v1", name: "v1", published_at: "2024-01-01", html_url: "u", body: "" }]),
+    );
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 304, headers: new Headers() });
+
+    await fetchReleases("zk-kit/zk-kit", 5);
+    const releases = await fetchReleases("zk-kit/zk-kit", 5);
+    expect(releases[0].tag).toBe("v1");
+  });
+
+  it("does not remember responses without validators", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [] });
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => [] });
+
+    await fetchDirectoryListing("zk-kit/zk-kit", "packages");
+    await fetchDirectoryListing("zk-kit/zk-kit", "packages");
+
+    const second = mockFetch.mock.calls[1][1] as { headers: Record<string, string> };
+    expect(second.headers["If-None-Match"]).toBeUndefined();
+  });
+
+  it("serves the remembered body when rate-limited", async () => {
+    mockFetch.mockResolvedValueOnce(etagged([{ name: "lean-imt", type: "dir" }]));
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 403,
+      headers: new Headers({ "x-ratelimit-remaining": "0", "x-ratelimit-reset": "1706000000" }),
+    });
+
+    await fetchDirectoryListing("zk-kit/zk-kit", "packages");
+    const { value, staleAsOf } = await trackStaleness(() => fetchDirectoryListing("zk-kit/zk-kit", "packages"));
+    expect(value).toEqual(["lean-imt"]);
+    expect(staleAsOf).toBeDefined();
+  });
+
+  it("clearConditionalCache() forgets remembered validators", async () => {
+    mockFetch.mockResolvedValueOnce(etagged([]));
+    mockFetch.mockResolvedValueOnce(etagged([]));
+
+    await fetchDirectoryListing("zk-kit/zk-kit", "packages");
+    clearConditionalCache();
+    await fetchDirectoryListing("zk-kit/zk-kit", "packages");
+
+    const second = mockFetch.mock.calls[1][1] as { headers: Record<string, string> };
+    expect(second.headers["If-None-Match"]).toBeUndefined();
+  });
+});
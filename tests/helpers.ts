@@ -0,0 +1,9 @@
+/** A file reader over in-memory files, as the API extractors take it. Records the paths it was asked for in `reads`. */
+export function reader(files: Record<string, string>) {
+  const reads: string[] = [];
+  const read = async (path: string) => {
+    reads.push(path);
+    return files[path] ?? null;
+  };
+  return Object.assign(read, { reads });
+}
@@ -0,0 +1,261 @@
+import { request } from "node:http";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { allowedHostnames, type HttpServerHandle, startHttpServer } from "../src/http.js";
+import { createCaches, createServer } from "../src/index.js";
+import { PackageRegistry } from "../src/registry.js";
+import type { Package } from "../src/types.js";
+
+vi.mock("../src/github.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/github.js")>();
+  return { ...actual, fetchReadme: vi.fn() };
+});
+
+vi.mock("../src/discovery.js", () => ({
+  discoverAllPackages: vi.fn().mockResolvedValue([]),
+}));
+
+import { fetchReadme } from "../src/github.js";
+
+const mockFetchReadme = vi.mocked(fetchReadme);
+
+const PACKAGE: Package = {
+  name: "@zk-kit/lean-imt",
+  dirName: "lean-imt",
+  language: "typescript",
+  category: "merkle-trees",
+  repo: "https://github.com/zk-kit/zk-kit/tree/main/packages/lean-imt",
+  description: "Lean Incremental Merkle Tree implementation",
+  installCommand: "npm i @zk-kit/lean-imt",
+  crossLanguageId: "lean-imt",
+  zkKitDependencies: [],
+};
+
+let handle: HttpServerHandle;
+let baseUrl: string;
+let createdServers = 0;
+
+beforeAll(async () => {
+  const registry = new PackageRegistry();
+  registry.load([PACKAGE]);
+  const caches = createCaches();
+  handle = await startHttpServer(
+    () => {
+      createdServers++;
+      return createServer(registry, caches).server;
+    },
+    { port: 0, host: "127.0.0.1" },
+  );
+  baseUrl = `http://127.0.0.1:${handle.port}`;
+});
+
+afterAll(async () => {
+  await handle.close();
+});
+
+function textOf(result: Awaited<ReturnType<Client["callTool"]>>): string {
+  const content = result.content as { type: string; text: string }[];
+  return content.map((c) => c.text).join("\n");
+}
+
+describe("Streamable HTTP transport", () => {
+  it("serves tools over /mcp", async () => {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    const result = await client.callTool({ name: "list_packages", arguments: {} });
+    expect(textOf(result)).toContain("@zk-kit/lean-imt");
+    await client.close();
+  });
+
+  it("creates one McpServer per session and shares caches between them", async () => {
+    mockFetchReadme.mockResolvedValue("# Lean IMT\n\nShared readme");
+    const before = createdServers;
+    const a = new Client({ name: "a", version: "1.0.0" });
+    const b = new Client({ name: "b", version: "1.0.0" });
+    await a.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    await b.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    expect(createdServers - before).toBe(2);
+
+    await a.callTool({ name: "get_package_readme", arguments: { name: "lean-imt" } });
+    const result = await b.callTool({ name: "get_package_readme", arguments: { name: "lean-imt" } });
+    expect(textOf(result)).toContain("Shared readme");
+    expect(mockFetchReadme).toHaveBeenCalledTimes(1);
+
+    await a.close();
+    await b.close();
+  });
+
+  it("rejects non-initialize requests without a session", async () => {
+    const resp = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(resp.status).toBe(400);
+  });
+
+  it("rejects malformed JSON", async () => {
+    const resp = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{not json",
+    });
+    expect(resp.status).toBe(400);
+  });
+});
+
+describe("legacy SSE transport", () => {
+  it("serves tools over /sse", async () => {
+    const client = new Client({ name: "sse-client", version: "1.0.0" });
+    await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name)).toContain("list_packages");
+    await client.close();
+  });
+
+  it("rejects messages for unknown sessions", async () => {
+    const resp = await fetch(`${baseUrl}/messages?sessionId=nope`, { method: "POST", body: "{}" });
+    expect(resp.status).toBe(400);
+  });
+});
+
+/** GET `path` with an explicit Host header, which fetch does not let callers set. */
+function getWithHost(path: string, host: string): Promise<number> {
+  return new Promise((resolvePromise, reject) => {
+    const req = request(`${baseUrl}${path}`, { headers: { Host: host } }, (res) => {
+      res.resume();
+      resolvePromise(res.statusCode ?? 0);
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+describe("DNS rebinding protection", () => {
+  it("allows loopback names, the bound host and extra hosts", () => {
+    expect([...allowedHostnames("127.0.0.1")]).toEqual(["localhost", "127.0.0.1", "[::1]"]);
+    expect([...allowedHostnames("::1")]).toEqual(["localhost", "127.0.0.1", "[::1]"]);
+    expect(allowedHostnames("0.0.0.0", ["MCP.internal"])).toEqual(
+      new Set(["localhost", "127.0.0.1", "[::1]", "mcp.internal"]),
+    );
+    expect(allowedHostnames("10.0.0.5").has("10.0.0.5")).toBe(true);
+  });
+
+  it("rejects requests whose Host header is not allowed", async () => {
+    expect(await getWithHost("/health", `localhost:${handle.port}`)).toBe(200);
+    expect(await getWithHost("/health", "attacker.example")).toBe(403);
+    expect(await getWithHost("/sse", `attacker.example:${handle.port}`)).toBe(403);
+  });
+});
+
+describe("idle sessions", () => {
+  let idle: HttpServerHandle;
+  let idleUrl: string;
+
+  beforeAll(async () => {
+    const registry = new PackageRegistry();
+    registry.load([PACKAGE]);
+    idle = await startHttpServer(() => createServer(registry, createCaches()).server, {
+      port: 0,
+      host: "127.0.0.1",
+      sessionIdleTimeoutMs: 50,
+    });
+    idleUrl = `http://127.0.0.1:${idle.port}/mcp`;
+  });
+
+  afterAll(async () => {
+    await idle.close();
+  });
+
+  /** Initialize a session with plain POSTs, so that no GET stream is left open. */
+  async function initializeSession(): Promise<string> {
+    const headers = { "Content-Type": "application/json", Accept: "application/json, text/event-stream" };
+    const resp = await fetch(idleUrl, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 0,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-06-18",
+          capabilities: {},
+          clientInfo: { name: "idle-client", version: "1.0.0" },
+        },
+      }),
+    });
+    await resp.text();
+    const sessionId = resp.headers.get("mcp-session-id") ?? "";
+    await fetch(idleUrl, {
+      method: "POST",
+      headers: { ...headers, "Mcp-Session-Id": sessionId },
+      body: JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }),
+    }).then((r) => r.text());
+    return sessionId;
+  }
+
+  it("closes sessions without requests and answers 404 for them", async () => {
+    const sessionId = await initializeSession();
+    expect(idle.sessionCount()).toBe(1);
+
+    await new Promise((r) => setTimeout(r, 200));
+    expect(idle.sessionCount()).toBe(0);
+
+    const resp = await fetch(idleUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(resp.status).toBe(404);
+  });
+
+  it("keeps sessions open while a GET stream is listening", async () => {
+    const sessionId = await initializeSession();
+    const controller = new AbortController();
+    const stream = await fetch(idleUrl, {
+      headers: { Accept: "text/event-stream", "Mcp-Session-Id": sessionId },
+      signal: controller.signal,
+    });
+    expect(stream.status).toBe(200);
+
+    await new Promise((r) => setTimeout(r, 200));
+    expect(idle.sessionCount()).toBe(1);
+
+    controller.abort();
+    await new Promise((r) => setTimeout(r, 200));
+    expect(idle.sessionCount()).toBe(0);
+  });
+
+  it("keeps SSE sessions open while their stream is connected", async () => {
+    const client = new Client({ name: "idle-sse-client", version: "1.0.0" });
+    await client.connect(new SSEClientTransport(new URL(`http://127.0.0.1:${idle.port}/sse`)));
+    try {
+      await new Promise((r) => setTimeout(r, 200));
+      expect(idle.sessionCount()).toBe(1);
+      const result = await client.listTools();
+      expect(result.tools.length).toBeGreaterThan(0);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("misc routes", () => {
+  it("reports health", async () => {
+    const resp = await fetch(`${baseUrl}/health`);
+    expect(resp.status).toBe(200);
+    const body = (await resp.json()) as { status: string };
+    expect(body.status).toBe("ok");
+  });
+
+  it("returns 404 for unknown paths", async () => {
+    const resp = await fetch(`${baseUrl}/nope`);
+    expect(resp.status).toBe(404);
+  });
+});
@@ -1,7 +1,13 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
 import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { CodeIndex } from "../src/code-index.js";
+import { defaultConfig, getRepos, resetActiveConfig, setActiveConfig } from "../src/config.js";
+import { discoverPackages } from "../src/discovery.js";
+import { markStale } from "../src/disk-cache.js";
 import { createServer } from "../src/index.js";
+import { createManualRefresh } from "../src/refresh.js";
 import { PackageRegistry } from "../src/registry.js";
 import type { Package } from "../src/types.js";
 
@@ -17,17 +23,26 @@ vi.mock("../src/github.js", async (importOriginal) => {
     fetchRepoStats: vi.fn(),
     fetchDirectoryTree: vi.fn(),
     fetchRawFile: vi.fn(),
+    fetchRepoTree: vi.fn(),
     searchCode: vi.fn(),
     fetchPackageCommits: vi.fn(),
     fetchPackageDownloads: vi.fn(),
     fetchWorkflowRuns: vi.fn(),
+    resolveCommitSha: vi.fn(),
   };
 });
 
-// Mock discovery to prevent any accidental real API calls from main()
-vi.mock("../src/discovery.js", () => ({
-  discoverAllPackages: vi.fn().mockResolvedValue([]),
-}));
+// Mock discovery to prevent any accidental real API calls from main() and refresh_registry
+vi.mock("../src/discovery.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/discovery.js")>();
+  return {
+    ...actual,
+    discoverAllPackages: vi.fn().mockResolvedValue([]),
+    discoverPackages: vi
+      .fn()
+      .mockResolvedValue({ packages: [], failedRepos: [], requests: { api: 0, raw: 0, notModified: 0 } }),
+  };
+});
 
 import {
   fetchDirectoryTree,
@@ -38,7 +53,9 @@ import {
   fetchReadme,
   fetchReleases,
   fetchRepoStats,
+  fetchRepoTree,
   fetchWorkflowRuns,
+  resolveCommitSha,
   searchCode,
   searchIssues,
 } from "../src/github.js";
@@ -50,10 +67,12 @@ const mockFetchDeps = vi.mocked(fetchPackageDependencies);
 const mockFetchRepoStats = vi.mocked(fetchRepoStats);
 const mockFetchDirTree = vi.mocked(fetchDirectoryTree);
 const mockFetchRawFile = vi.mocked(fetchRawFile);
+const mockFetchRepoTree = vi.mocked(fetchRepoTree);
 const mockSearchCode = vi.mocked(searchCode);
 const mockFetchCommits = vi.mocked(fetchPackageCommits);
 const mockFetchDownloads = vi.mocked(fetchPackageDownloads);
 const mockFetchWorkflowRuns = vi.mocked(fetchWorkflowRuns);
+const mockResolveCommitSha = vi.mocked(resolveCommitSha);
 
 function makePackage(overrides: Partial<Package> = {}): Package {
   return {
@@ -142,11 +161,15 @@ function textOf(result: Awaited<ReturnType<typeof client.callTool>>): string {
 }
 
 describe("MCP introspection", () => {
-  it("lists all 17 tools with correct names", async () => {
+  it("lists all 24 tools with correct names", async () => {
     const { tools } = await client.listTools();
     const names = tools.map((t) => t.name).sort();
     expect(names).toEqual([
       "compare_packages",
+      "diff_package_versions",
+      "find_symbol",
+      "get_api_parity",
+      "get_audit_status",
       "get_build_status",
       "get_cross_language_coverage",
       "get_dependency_graph",
@@ -160,15 +183,25 @@ describe("MCP introspection", () => {
       "get_package_source",
       "get_releases",
       "get_repo_stats",
+      "get_usage_examples",
       "list_packages",
+      "refresh_registry",
       "search_code",
+      "search_docs",
       "search_issues",
     ]);
   });
 
-  it("all tools have readOnlyHint and idempotentHint annotations", async () => {
+  it("every tool declares an object output schema", async () => {
     const { tools } = await client.listTools();
     for (const tool of tools) {
+      expect(tool.outputSchema?.type, `${tool.name} should declare an output schema`).toBe("object");
+    }
+  });
+
+  it("all query tools have readOnlyHint and idempotentHint annotations", async () => {
+    const { tools } = await client.listTools();
+    for (const tool of tools.filter((t) => t.name !== "refresh_registry")) {
       expect(tool.annotations?.readOnlyHint).toBe(true);
       expect(tool.annotations?.idempotentHint).toBe(true);
     }
@@ -206,8 +239,9 @@ describe("MCP introspection", () => {
 
   it("lists the resource template", async () => {
     const { resourceTemplates } = await client.listResourceTemplates();
-    expect(resourceTemplates).toHaveLength(1);
+    expect(resourceTemplates).toHaveLength(2);
     expect(resourceTemplates[0].uriTemplate).toBe("zk-kit://packages/{language}/{dirName}");
+    expect(resourceTemplates[1].uriTemplate).toBe("zk-kit://packages/{owner}/{repo}/{language}/{dirName}");
   });
 
   it("lists all 4 prompts", async () => {
@@ -254,6 +288,12 @@ describe("list_packages", () => {
     });
     const text = textOf(result);
     expect(text).toContain("No packages found");
+    expect(result.structuredContent).toEqual({ packages: [] });
+  });
+
+  it("returns the matching packages as structured content", async () => {
+    const result = await client.callTool({ name: "list_packages", arguments: { language: "solidity" } });
+    expect(result.structuredContent).toEqual({ packages: [TEST_PACKAGES[2]] });
   });
 
   it("supports multi-word search", async () => {
@@ -288,6 +328,23 @@ describe("get_package_readme", () => {
     expect(text).toContain("list_packages");
   });
 
+  it("resolves a close, unambiguous misspelling with a note", async () => {
+    clearCaches();
+    mockFetchReadme.mockResolvedValueOnce("# Poseidon Lite\n\nLightweight Poseidon hash.");
+    const text = textOf(await client.callTool({ name: "get_package_readme", arguments: { name: "poseidn-lite" } }));
+    expect(text).toMatch(
+      /^\*Package "poseidn-lite" not found, using the closest match `@zk-kit\/poseidon-lite` \(confidence 0\.92\)\.\*\n\n/,
+    );
+    expect(text).toContain("# Poseidon Lite");
+  });
+
+  it("ranks suggestions by confidence when the match is ambiguous", async () => {
+    const text = textOf(await client.callTool({ name: "get_package_readme", arguments: { name: "lean" } }));
+    expect(text).toContain(
+      'Package "lean" not found. Did you mean:\n- @zk-kit/lean-imt (confidence 0.75)\n- @zk-kit/lean-imt.sol (confidence 0.67)',
+    );
+  });
+
   it("fetches README for known package", async () => {
     mockFetchReadme.mockResolvedValueOnce("# Lean IMT\n\nA lean incremental Merkle tree.");
     const result = await client.callTool({
@@ -308,6 +365,22 @@ describe("get_package_readme", () => {
     expect(text).toContain("README could not be fetched");
     expect(text).toContain("@zk-kit/poseidon-lite");
   });
+
+  it("marks stale disk-cached READMEs and does not memory-cache them", async () => {
+    const callsBefore = mockFetchReadme.mock.calls.length;
+    mockFetchReadme.mockImplementation(async () => {
+      markStale(Date.UTC(2024, 0, 2));
+      return "# Lean IMT\n\nCached copy";
+    });
+    const args = { name: "get_package_readme", arguments: { name: "@zk-kit/lean-imt" } };
+    const text = textOf(await client.callTool(args));
+    expect(text).toContain("Cached copy");
+    expect(text).toContain("stale as of 2024-01-02");
+
+    await client.callTool(args);
+    expect(mockFetchReadme.mock.calls.length - callsBefore).toBe(2);
+    mockFetchReadme.mockReset();
+  });
 });
 
 describe("get_ecosystem_overview", () => {
@@ -342,6 +415,27 @@ describe("compare_packages", () => {
     expect(text).toContain("Not found");
     expect(text).toContain("nonexistent");
   });
+
+  it("returns the packages, their concepts and other variants as structured content", async () => {
+    const result = await client.callTool({
+      name: "compare_packages",
+      arguments: { names: ["@zk-kit/lean-imt", "poseidon-lite", "nonexistent"] },
+    });
+    expect(result.structuredContent).toMatchObject({
+      packages: [
+        { name: "@zk-kit/lean-imt", concept: { id: "lean-imt", label: "Lean Incremental Merkle Tree" } },
+        { name: "@zk-kit/poseidon-lite", concept: { id: "poseidon-lite" } },
+      ],
+      notFound: ["nonexistent"],
+      variants: [{ name: "@zk-kit/lean-imt.sol", language: "solidity" }],
+    });
+  });
+
+  it("returns an error when no package matches", async () => {
+    const result = await client.callTool({ name: "compare_packages", arguments: { names: ["nope", "nada"] } });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain("No packages found for: nope, nada");
+  });
 });
 
 describe("get_releases", () => {
@@ -736,6 +830,9 @@ describe("get_repo_stats", () => {
     expect(text).toContain("500");
     expect(text).toContain("MIT");
     expect(text).toContain("zk-kit.solidity");
+    expect(result.structuredContent).toEqual({
+      repos: [expect.objectContaining({ slug: "zk-kit/zk-kit.solidity", stars: 500, license: "MIT" })],
+    });
   });
 
   it("returns stats for a language", async () => {
@@ -955,18 +1052,312 @@ describe("prompt: troubleshoot-package", () => {
   });
 });
 
+describe("search_code with the local code index", () => {
+  let indexClient: Client;
+  let codeIndex: CodeIndex;
+
+  beforeAll(async () => {
+    const registry = new PackageRegistry();
+    registry.load(TEST_PACKAGES);
+    codeIndex = new CodeIndex();
+    const { server } = createServer(registry, undefined, undefined, codeIndex);
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverSide);
+    indexClient = new Client({ name: "test-client-index", version: "1.0.0" });
+    await indexClient.connect(clientSide);
+  });
+
+  it("falls back to GitHub Code Search while the index is being built", async () => {
+    mockSearchCode.mockResolvedValueOnce({ results: [], total: 0 });
+    const text = textOf(await indexClient.callTool({ name: "search_code", arguments: { query: "leaf" } }));
+    expect(text).toContain("No code matches found");
+    expect(text).toContain("The local code index is still being built");
+
+    const regex = textOf(
+      await indexClient.callTool({ name: "search_code", arguments: { query: "le+af", regex: true } }),
+    );
+    expect(regex).toContain("still being built");
+  });
+
+  it("searches the index once built, with context lines", async () => {
+    mockFetchRepoTree.mockImplementation(async (slug) => ({
+      entries:
+        slug === "zk-kit/zk-kit.solidity"
+          ? [{ path: "packages/lean-imt/contracts/LeanIMT.sol", type: "blob", size: 100, sha: "s1" }]
+          : slug === "zk-kit/zk-kit"
+            ? [
+                { path: "packages/lean-imt/src/index.ts", type: "blob", size: 100, sha: "t1" },
+                { path: "packages/imt/src/index.ts", type: "blob", size: 100, sha: "t2" },
+              ]
+            : [],
+      truncated: false,
+    }));
+    mockFetchRawFile.mockImplementation(async (_slug, _ref, path) =>
+      path.endsWith(".sol")
+        ? "contract LeanIMT {\n    function insert(uint256 leaf) external {}\n}\n"
+        : "export class Tree {\n  insert(leaf: bigint) {}\n}\n",
+    );
+    await codeIndex.update(getRepos());
+    mockSearchCode.mockClear();
+
+    const text = textOf(
+      await indexClient.callTool({ name: "search_code", arguments: { query: "insert(", context: 1 } }),
+    );
+    expect(text).toContain("3 matches in 3 files (local code index, 3 files searched).");
+    expect(text).toContain("**zk-kit/zk-kit.solidity** - `packages/lean-imt/contracts/LeanIMT.sol:2`");
+    expect(text).toContain("  1  contract LeanIMT {\n> 2      function insert(uint256 leaf) external {}\n  3  }");
+    expect(mockSearchCode).not.toHaveBeenCalled();
+  });
+
+  it("scopes to a package and supports regular expressions", async () => {
+    const text = textOf(
+      await indexClient.callTool({
+        name: "search_code",
+        arguments: { query: String.raw`insert\(\w+:`, regex: true, package: "@zk-kit/lean-imt" },
+      }),
+    );
+    expect(text).toContain("1 match in 1 file (local code index, 1 file searched).");
+    expect(text).toContain("`packages/lean-imt/src/index.ts:2`");
+    expect(text).toContain("https://github.com/zk-kit/zk-kit/blob/main/packages/lean-imt/src/index.ts#L2");
+  });
+
+  it("pages past the first 100 matches", async () => {
+    mockFetchRepoTree.mockImplementation(async (slug) => ({
+      entries:
+        slug === "zk-kit/zk-kit" ? [{ path: "packages/lean-imt/src/many.ts", type: "blob", size: 100, sha: "m1" }] : [],
+      truncated: false,
+    }));
+    mockFetchRawFile.mockImplementation(async () => "insert(leaf)\n".repeat(180));
+    await codeIndex.update(getRepos());
+
+    const first = await indexClient.callTool({ name: "search_code", arguments: { query: "insert(" } });
+    const { nextCursor } = first.structuredContent as { nextCursor: string };
+    expect(first.structuredContent).toMatchObject({ offset: 0, total: 180 });
+    expect(textOf(first)).toContain(`cursor: "${nextCursor}"`);
+
+    const second = await indexClient.callTool({
+      name: "search_code",
+      arguments: { query: "insert(", cursor: nextCursor },
+    });
+    expect(second.structuredContent).toMatchObject({ offset: 100, total: 180 });
+    expect((second.structuredContent as { matches: unknown[] }).matches).toHaveLength(80);
+    expect(second.structuredContent).not.toHaveProperty("nextCursor");
+    expect(textOf(second)).toContain("Showing matches 101-180 of 180");
+
+    // A cursor only continues the search it came from
+    const other = await indexClient.callTool({
+      name: "search_code",
+      arguments: { query: "leaf", cursor: nextCursor },
+    });
+    expect(other.isError).toBe(true);
+    expect(textOf(other)).toContain("Invalid cursor");
+  });
+
+  it("reports invalid regular expressions", async () => {
+    const result = await indexClient.callTool({ name: "search_code", arguments: { query: "(", regex: true } });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain("Invalid regular expression");
+  });
+});
+
+// --- find_symbol ---
+
+describe("search_docs", () => {
+  beforeEach(() => {
+    clearCaches();
+    mockFetchReadme.mockReset();
+    mockFetchRawFile.mockReset();
+    mockFetchDirTree.mockReset();
+    mockFetchDirTree.mockResolvedValue([]);
+    mockFetchReadme.mockImplementation(async (slug, _ref, _path, dirName) =>
+      slug === "zk-kit/zk-kit" && dirName === "lean-imt"
+        ? "# LeanIMT\n\nAppend leaves and generate membership proofs for a lean incremental Merkle tree.\n"
+        : null,
+    );
+    mockFetchRawFile.mockImplementation(async (_slug, _ref, path) =>
+      path === "packages/poseidon-lite/CHANGELOG.md"
+        ? "# Changelog\n\n## 0.5.0\n\n- Faster hashing of two inputs.\n"
+        : null,
+    );
+  });
+
+  it("ranks packages by their documentation", async () => {
+    const result = await client.callTool({ name: "search_docs", arguments: { query: "prove membership" } });
+    const text = textOf(result);
+    expect(text).toContain('# Docs: "prove membership"');
+    expect(text).toContain("1 best matching package of 5 packages");
+    expect(text).toContain("## 1. @zk-kit/lean-imt (typescript)");
+    expect(text).toContain("**README: LeanIMT**");
+    expect(text).toContain("> Append leaves and generate membership proofs");
+    expect(result.structuredContent).toMatchObject({
+      query: "prove membership",
+      results: [{ package: "@zk-kit/lean-imt", passages: [{ source: "readme", heading: "LeanIMT" }] }],
+      indexedPackages: 5,
+    });
+  });
+
+  it("searches changelogs and descriptions of one package", async () => {
+    const text = textOf(
+      await client.callTool({
+        name: "search_docs",
+        arguments: { query: "faster poseidon hashes", package: "@zk-kit/poseidon-lite" },
+      }),
+    );
+    expect(text).toContain("of 1 package,");
+    expect(text).toContain("**CHANGELOG: Changelog > 0.5.0**");
+    expect(text).toContain("**Description**");
+    expect(mockFetchReadme).toHaveBeenCalledTimes(1);
+  });
+
+  it("reads each package once and caches its passages", async () => {
+    await client.callTool({ name: "search_docs", arguments: { query: "merkle", language: "rust" } });
+    await client.callTool({ name: "search_docs", arguments: { query: "curve", language: "rust" } });
+    expect(mockFetchReadme).toHaveBeenCalledTimes(1);
+  });
+
+  it("says when nothing matches", async () => {
+    const text = textOf(await client.callTool({ name: "search_docs", arguments: { query: "quantum teleportation" } }));
+    expect(text).toContain('No documentation matches "quantum teleportation" in 5 packages.');
+  });
+});
+
+describe("find_symbol", () => {
+  const LEAN_IMT_SOL = `struct LeanIMTData {
+    uint256 size;
+}
+
+library InternalLeanIMT {
+    function _insert(LeanIMTData storage self, uint256 leaf) internal returns (uint256) {
+        return leaf;
+    }
+}
+`;
+  const LEAN_IMT_TS = `export class LeanIMT {
+  insert(leaf: bigint): void {}
+}
+`;
+
+  beforeEach(() => {
+    mockFetchRawFile.mockReset();
+    mockFetchDirTree.mockReset();
+    mockFetchRawFile.mockImplementation(async (slug, _ref, path) => {
+      if (slug.endsWith("solidity") && path === "packages/lean-imt/contracts/InternalLeanIMT.sol") return LEAN_IMT_SOL;
+      if (slug.endsWith("solidity") && path === "packages/lean-imt/test/LeanIMT.t.sol") {
+        return "contract LeanIMTTest {\n  LeanIMTData tree;\n}\n";
+      }
+      if (path === "packages/lean-imt/src/index.ts") return LEAN_IMT_TS;
+      return null;
+    });
+    mockFetchDirTree.mockImplementation(async (slug, _ref, path) => {
+      if (slug.endsWith("solidity") && path === "packages/lean-imt") {
+        return [
+          { name: "contracts", path: "contracts", type: "dir" },
+          { name: "InternalLeanIMT.sol", path: "contracts/InternalLeanIMT.sol", type: "file", size: 200 },
+          { name: "LeanIMT.t.sol", path: "test/LeanIMT.t.sol", type: "file", size: 50 },
+        ];
+      }
+      if (path === "packages/lean-imt") return [{ name: "index.ts", path: "src/index.ts", type: "file", size: 50 }];
+      return [];
+    });
+  });
+
+  it("returns the definition, snippet and references within the package", async () => {
+    const result = await client.callTool({
+      name: "find_symbol",
+      arguments: { name: "LeanIMTData", package: "@zk-kit/lean-imt.sol" },
+    });
+    const text = textOf(result);
+
+    expect(text).toContain("# Symbol: `LeanIMTData`");
+    expect(text).toContain("1 definition in 1 of 1 indexed package.");
+    expect(text).toContain("`@zk-kit/lean-imt.sol` (solidity): `contracts/InternalLeanIMT.sol` lines 1-3");
+    expect(text).toContain("```solidity\nstruct LeanIMTData {\n    uint256 size;\n}\n```");
+    expect(text).toContain("## References in `@zk-kit/lean-imt.sol` (2)");
+    expect(text).toContain(
+      "- `contracts/InternalLeanIMT.sol:6`: `function _insert(LeanIMTData storage self, uint256 leaf) internal returns (uint256) {`",
+    );
+    expect(text).toContain("- `test/LeanIMT.t.sol:2`: `LeanIMTData tree;`");
+    expect(result.structuredContent).toMatchObject({
+      name: "LeanIMTData",
+      definitions: [
+        {
+          name: "LeanIMTData",
+          kind: "struct",
+          file: "contracts/InternalLeanIMT.sol",
+          startLine: 1,
+          endLine: 3,
+          package: "@zk-kit/lean-imt.sol",
+        },
+      ],
+      references: [{ package: "@zk-kit/lean-imt.sol", references: [{ line: 6 }, { line: 2 }] }],
+      indexedPackages: ["@zk-kit/lean-imt.sol"],
+    });
+  });
+
+  it("searches every package of a language and caches the indexes", async () => {
+    const args = { name: "find_symbol", arguments: { name: "LeanIMT.insert", language: "typescript" } };
+    const text = textOf(await client.callTool(args));
+    expect(text).toContain("## `LeanIMT.insert` (method)");
+    expect(text).toContain("1 definition in 1 of 3 indexed packages.");
+
+    const calls = mockFetchDirTree.mock.calls.length;
+    await client.callTool(args);
+    expect(mockFetchDirTree.mock.calls.length).toBe(calls);
+  });
+
+  it("omits references when asked", async () => {
+    const result = await client.callTool({
+      name: "find_symbol",
+      arguments: { name: "_insert", package: "@zk-kit/lean-imt.sol", references: false },
+    });
+    expect(textOf(result)).not.toContain("## References");
+    expect(result.structuredContent).not.toHaveProperty("references");
+  });
+
+  it("suggests similar symbols when nothing matches", async () => {
+    const result = await client.callTool({
+      name: "find_symbol",
+      arguments: { name: "leanimtdata", package: "@zk-kit/lean-imt.sol" },
+    });
+    const text = textOf(result);
+    expect(text).toContain("No definition of `leanimtdata` found in `@zk-kit/lean-imt.sol`.");
+    expect(text).toContain("Similar symbols: `LeanIMTData`");
+    expect(text).toContain("search_code");
+    expect(result.structuredContent).toEqual({
+      name: "leanimtdata",
+      definitions: [],
+      indexedPackages: ["@zk-kit/lean-imt.sol"],
+      similar: ["LeanIMTData"],
+    });
+  });
+
+  it("notes packages whose sources could not be fetched", async () => {
+    mockFetchDirTree.mockImplementation(async (slug) => {
+      if (slug.endsWith("solidity")) throw new Error("GitHub API 500");
+      return [];
+    });
+    const text = textOf(await client.callTool({ name: "find_symbol", arguments: { name: "LeanIMTData" } }));
+    expect(text).toContain("No definition of `LeanIMTData` found in 4 indexed packages.");
+    expect(text).toContain("## Not Indexed");
+    expect(text).toContain("- `@zk-kit/lean-imt.sol`: could not fetch its sources (GitHub API 500)");
+  });
+});
+
 // --- search_code ---
 
 describe("search_code", () => {
   it("returns code search results", async () => {
-    mockSearchCode.mockResolvedValueOnce([
-      {
-        path: "packages/lean-imt/src/lean-imt.ts",
-        repo: "zk-kit/zk-kit",
-        url: "https://github.com/zk-kit/zk-kit/blob/main/packages/lean-imt/src/lean-imt.ts",
-        fragment: "export function insert(tree: LeanIMT, leaf: bigint)",
-      },
-    ]);
+    mockSearchCode.mockResolvedValueOnce({
+      results: [
+        {
+          path: "packages/lean-imt/src/lean-imt.ts",
+          repo: "zk-kit/zk-kit",
+          url: "https://github.com/zk-kit/zk-kit/blob/main/packages/lean-imt/src/lean-imt.ts",
+          fragment: "export function insert(tree: LeanIMT, leaf: bigint)",
+        },
+      ],
+      total: 1,
+    });
     const result = await client.callTool({
       name: "search_code",
       arguments: { query: "function insert" },
@@ -978,7 +1369,7 @@ describe("search_code", () => {
   });
 
   it("returns no-matches message", async () => {
-    mockSearchCode.mockResolvedValueOnce([]);
+    mockSearchCode.mockResolvedValueOnce({ results: [], total: 0 });
     const result = await client.callTool({
       name: "search_code",
       arguments: { query: "xyznonexistent123" },
@@ -987,20 +1378,27 @@ describe("search_code", () => {
     expect(text).toContain("No code matches found");
   });
 
+  it("explains that regular expressions need the local code index", async () => {
+    const text = textOf(await client.callTool({ name: "search_code", arguments: { query: "le+af", regex: true } }));
+    expect(text).toContain("needs the local code index");
+    expect(text).toContain("--code-index");
+  });
+
   it("passes language filter", async () => {
-    mockSearchCode.mockResolvedValueOnce([]);
+    mockSearchCode.mockResolvedValueOnce({ results: [], total: 0 });
     await client.callTool({
       name: "search_code",
       arguments: { query: "poseidon", language: "solidity" },
     });
-    expect(mockSearchCode).toHaveBeenCalledWith("poseidon", "solidity", undefined, undefined);
+    expect(mockSearchCode).toHaveBeenCalledWith("poseidon", "solidity", undefined, undefined, 1);
   });
 
   it("caches results", async () => {
     const callsBefore = mockSearchCode.mock.calls.length;
-    mockSearchCode.mockResolvedValueOnce([
-      { path: "test.ts", repo: "zk-kit/zk-kit", url: "https://example.com", fragment: "test" },
-    ]);
+    mockSearchCode.mockResolvedValueOnce({
+      results: [{ path: "test.ts", repo: "zk-kit/zk-kit", url: "https://example.com", fragment: "test" }],
+      total: 1,
+    });
     await client.callTool({
       name: "search_code",
       arguments: { query: "cache-test-query-unique" },
@@ -1012,6 +1410,29 @@ describe("search_code", () => {
     expect(mockSearchCode.mock.calls.length - callsBefore).toBe(1);
   });
 
+  it("pages GitHub Code Search results", async () => {
+    const files = Array.from({ length: 20 }, (_, i) => ({
+      path: `f${i}.ts`,
+      repo: "zk-kit/zk-kit",
+      url: "https://example.com",
+      fragment: "",
+    }));
+    mockSearchCode.mockResolvedValueOnce({ results: files, total: 25 });
+    const first = await client.callTool({ name: "search_code", arguments: { query: "paged-query" } });
+    const { nextCursor } = first.structuredContent as { nextCursor: string };
+    expect(textOf(first)).toContain("Files 1-20 of 25.");
+
+    mockSearchCode.mockResolvedValueOnce({ results: files.slice(0, 5), total: 25 });
+    const second = await client.callTool({
+      name: "search_code",
+      arguments: { query: "paged-query", cursor: nextCursor },
+    });
+    expect(mockSearchCode).toHaveBeenLastCalledWith("paged-query", undefined, undefined, undefined, 2);
+    expect(second.structuredContent).toMatchObject({ offset: 20, total: 25 });
+    expect(second.structuredContent).not.toHaveProperty("nextCursor");
+    expect(textOf(second)).toContain("Files 21-25 of 25.]*");
+  });
+
   it("returns isError on failure", async () => {
     mockSearchCode.mockRejectedValueOnce(new Error("Rate limit"));
     const result = await client.callTool({
@@ -1026,9 +1447,17 @@ describe("search_code", () => {
 
 describe("search_code scoped to package", () => {
   it("scopes search to a specific package repo and path", async () => {
-    mockSearchCode.mockResolvedValueOnce([
-      { path: "packages/lean-imt/src/index.ts", repo: "zk-kit/zk-kit", url: "https://example.com", fragment: "insert" },
-    ]);
+    mockSearchCode.mockResolvedValueOnce({
+      results: [
+        {
+          path: "packages/lean-imt/src/index.ts",
+          repo: "zk-kit/zk-kit",
+          url: "https://example.com",
+          fragment: "insert",
+        },
+      ],
+      total: 1,
+    });
     const result = await client.callTool({
       name: "search_code",
       arguments: { query: "insert", package: "@zk-kit/lean-imt" },
@@ -1036,7 +1465,7 @@ describe("search_code scoped to package", () => {
     const text = textOf(result);
     expect(text).toContain("insert");
     // searchCode should be called with repo and path params
-    expect(mockSearchCode).toHaveBeenCalledWith("insert", undefined, "zk-kit/zk-kit", "packages/lean-imt");
+    expect(mockSearchCode).toHaveBeenCalledWith("insert", undefined, "zk-kit/zk-kit", "packages/lean-imt", 1);
   });
 
   it("returns suggestions for unknown package", async () => {
@@ -1108,6 +1537,180 @@ describe("get_package_readme summary mode", () => {
   });
 });
 
+describe("get_package_readme sections", () => {
+  const readme =
+    "# Lean IMT\n\n## 🛠 Install\n\n```bash\nnpm i @zk-kit/lean-imt\n```\n\n## 📜 Usage\n\n### Proofs\n\nGenerate proofs.\n\n## License\n\nMIT\n";
+
+  it("lists the headings with their anchors", async () => {
+    mockFetchReadme.mockResolvedValueOnce(readme);
+    const result = await client.callTool({
+      name: "get_package_readme",
+      arguments: { name: "@zk-kit/ecdh", toc: true },
+    });
+    const text = textOf(result);
+    expect(text).toContain("# @zk-kit/ecdh - README Contents");
+    expect(text).toContain(
+      "- [Lean IMT](#lean-imt)\n  - [🛠 Install](#-install)\n  - [📜 Usage](#-usage)\n    - [Proofs](#proofs)",
+    );
+    expect(result.structuredContent).toMatchObject({
+      headings: [
+        { level: 1, text: "Lean IMT", anchor: "lean-imt" },
+        { anchor: "-install" },
+        { anchor: "-usage" },
+        { anchor: "proofs" },
+        { anchor: "license" },
+      ],
+    });
+    expect(result.structuredContent).not.toHaveProperty("readme");
+  });
+
+  it("returns one section with its subsections", async () => {
+    mockFetchReadme.mockResolvedValueOnce(readme);
+    const result = await client.callTool({
+      name: "get_package_readme",
+      arguments: { name: "@zk-kit/ecdh", section: "usage" },
+    });
+    expect(textOf(result)).toBe("## 📜 Usage\n\n### Proofs\n\nGenerate proofs.\n");
+    expect(result.structuredContent).toMatchObject({ section: { text: "📜 Usage", anchor: "-usage" } });
+  });
+
+  it("lists the headings when no section matches", async () => {
+    mockFetchReadme.mockResolvedValueOnce(readme);
+    const result = await client.callTool({
+      name: "get_package_readme",
+      arguments: { name: "@zk-kit/ecdh", section: "benchmarks" },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain(
+      'No section "benchmarks" in the README of @zk-kit/ecdh. Available: Lean IMT, 🛠 Install',
+    );
+  });
+});
+
+describe("get_usage_examples", () => {
+  beforeEach(() => {
+    mockFetchReadme.mockReset();
+    mockFetchRawFile.mockReset();
+    mockFetchDirTree.mockReset();
+    mockFetchReadme.mockResolvedValue(
+      "# LeanIMT\n\n## Install\n\n```bash\nnpm i @zk-kit/lean-imt\n```\n\n## Usage\n\n```typescript\nconst tree = new LeanIMT(hash)\ntree.insert(1n)\n```\n",
+    );
+    mockFetchDirTree.mockResolvedValue([
+      { name: "src", path: "src", type: "dir" },
+      { name: "index.ts", path: "src/index.ts", type: "file", size: 100 },
+      { name: "tests", path: "tests", type: "dir" },
+      { name: "index.test.ts", path: "tests/index.test.ts", type: "file", size: 100 },
+    ]);
+    mockFetchRawFile.mockImplementation(async (_slug, _ref, path) =>
+      path === "packages/lean-imt/tests/index.test.ts"
+        ? 'describe("LeanIMT", () => {\n  it("Should generate a proof", () => {\n    const proof = tree.generateProof(0)\n  })\n})\n'
+        : null,
+    );
+  });
+
+  it("collects README code blocks and tests, skipping install commands", async () => {
+    const result = await client.callTool({ name: "get_usage_examples", arguments: { name: "lean-imt" } });
+    const text = textOf(result);
+    expect(text).toContain("# @zk-kit/lean-imt - Usage Examples");
+    expect(text).toContain("## LeanIMT > Usage\n\nREADME\n\n```typescript\nconst tree = new LeanIMT(hash)");
+    expect(text).toContain("## LeanIMT > Should generate a proof\n\n`tests/index.test.ts:2`");
+    expect(text).not.toContain("npm i");
+    expect(result.structuredContent).toMatchObject({
+      package: "@zk-kit/lean-imt",
+      total: 2,
+      examples: [{ source: "readme" }, { source: "test", file: "tests/index.test.ts", line: 2 }],
+    });
+    // Only test files are read
+    expect(mockFetchRawFile).toHaveBeenCalledTimes(1);
+  });
+
+  it("filters by the function called", async () => {
+    const result = await client.callTool({
+      name: "get_usage_examples",
+      arguments: { name: "lean-imt", calls: "generateProof" },
+    });
+    expect(result.structuredContent).toMatchObject({
+      total: 1,
+      examples: [{ title: "LeanIMT > Should generate a proof" }],
+    });
+
+    const none = await client.callTool({
+      name: "get_usage_examples",
+      arguments: { name: "lean-imt", calls: "verify" },
+    });
+    expect(textOf(none)).toBe("No usage examples calling `verify` found in the README or tests of @zk-kit/lean-imt.");
+  });
+});
+
+describe("get_audit_status", () => {
+  const SHA = "1a2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b";
+
+  beforeEach(() => {
+    mockFetchReadme.mockReset();
+    mockFetchRepoTree.mockReset();
+    mockResolveCommitSha.mockReset();
+    mockFetchReadme.mockImplementation(async (_slug, _ref, _path, dirName) =>
+      dirName === "ecdh" ? "# ECDH\n\n> This library has not been audited.\n" : "# Package\n",
+    );
+    mockFetchRepoTree.mockImplementation(async (slug) => ({
+      entries:
+        slug === "zk-kit/zk-kit"
+          ? [
+              { path: "audits/2024-05-veridise-lean-imt-v2.0.0.pdf", type: "blob" },
+              { path: "audits/2023-zellic.pdf", type: "blob" },
+              { path: "packages/poseidon-lite/audit-report.md", type: "blob" },
+              { path: "packages/lean-imt/src/index.ts", type: "blob" },
+            ]
+          : [],
+      truncated: false,
+    }));
+  });
+
+  it("reports each package's audits and whether they cover its version", async () => {
+    const result = await client.callTool({ name: "get_audit_status", arguments: { language: "typescript" } });
+    const text = textOf(result);
+    expect(text).toContain("| @zk-kit/lean-imt | 1.2.3 | other-version-audited | no |");
+    expect(text).toContain("**v1.2.3 is not an audited version** (audited: v2.0.0).");
+    expect(text).toContain("- Zellic, 2023 (`audits/2023-zellic.pdf`)");
+    expect(result.structuredContent).toMatchObject({
+      packages: [
+        { package: "@zk-kit/lean-imt", status: "other-version-audited", versionCovered: false },
+        {
+          package: "@zk-kit/poseidon-lite",
+          status: "version-unconfirmed",
+          audits: [{ file: "packages/poseidon-lite/audit-report.md" }],
+        },
+        { package: "@zk-kit/ecdh", status: "unaudited", unauditedNotes: ["> This library has not been audited."] },
+      ],
+      repoReports: [{ repo: "zk-kit/zk-kit", reports: [{ auditor: "Zellic", file: "audits/2023-zellic.pdf" }] }],
+    });
+    // One tree per repo
+    expect(mockFetchRepoTree).toHaveBeenCalledTimes(1);
+  });
+
+  it("checks a package at a release", async () => {
+    mockResolveCommitSha.mockResolvedValueOnce(SHA);
+    const result = await client.callTool({
+      name: "get_audit_status",
+      arguments: { name: "lean-imt", version: "2.0.0" },
+    });
+    expect(mockFetchRepoTree).toHaveBeenCalledWith("zk-kit/zk-kit", SHA);
+    expect(textOf(result)).toContain("at `@zk-kit/lean-imt@2.0.0` (1a2b3c4)");
+    expect(result.structuredContent).toMatchObject({
+      ref: SHA,
+      packages: [{ package: "@zk-kit/lean-imt", version: "2.0.0", status: "audited", versionCovered: true }],
+    });
+    const [audit] = (result.structuredContent as { packages: { audits: { url: string }[] }[] }).packages[0].audits;
+    expect(audit.url).toBe(`https://github.com/zk-kit/zk-kit/blob/${SHA}/audits/2024-05-veridise-lean-imt-v2.0.0.pdf`);
+  });
+
+  it("asks for a package to check a version", async () => {
+    const result = await client.callTool({ name: "get_audit_status", arguments: { version: "2.0.0" } });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain("Pass `name` with `version` or `ref`");
+  });
+});
+
 // --- get_package_commits ---
 
 describe("get_package_commits", () => {
@@ -1331,6 +1934,14 @@ describe("get_build_status", () => {
     expect(text).toContain("CI Status");
     expect(text).toContain("PASS");
     expect(text).toContain("main");
+    expect(result.structuredContent).toEqual({
+      repos: [
+        {
+          repo: "zk-kit/zk-kit.solidity",
+          runs: [expect.objectContaining({ name: "CI", conclusion: "success", branch: "main" })],
+        },
+      ],
+    });
   });
 
   it("returns CI status for a language", async () => {
@@ -1645,6 +2256,18 @@ describe("resource template: packages", () => {
     expect(text).toContain("not found");
   });
 
+  it("reads package metadata by repo too", async () => {
+    mockFetchReadme.mockResolvedValueOnce("# Lean IMT docs");
+    const found = await client.readResource({ uri: "zk-kit://packages/zk-kit/zk-kit/typescript/lean-imt" });
+    expect((found.contents[0] as { text: string }).text).toContain("npm i @zk-kit/lean-imt");
+
+    const result = await client.readResource({
+      uri: "zk-kit://packages/someone/zk-kit/typescript/lean-imt",
+    });
+    const text = (result.contents[0] as { text: string }).text;
+    expect(text).toContain("Package not found: someone/zk-kit/typescript/lean-imt");
+  });
+
   it("includes README when available", async () => {
     mockFetchReadme.mockResolvedValueOnce("# Poseidon\n\nHash function docs.");
     const result = await client.readResource({
@@ -1663,6 +2286,105 @@ describe("resource template: packages", () => {
     expect(pkgResources.some((r) => r.name === "@zk-kit/lean-imt")).toBe(true);
     expect(pkgResources.some((r) => r.name === "@zk-kit/lean-imt.sol")).toBe(true);
   });
+  it("notifies clients when the registry is reloaded", async () => {
+    const registry = new PackageRegistry();
+    registry.load(TEST_PACKAGES);
+    const { server } = createServer(registry);
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverSide);
+    const listener = new Client({ name: "listener", version: "1.0.0" });
+    const notified = new Promise<void>((resolve) => {
+      listener.setNotificationHandler(ResourceListChangedNotificationSchema, () => resolve());
+    });
+    await listener.connect(clientSide);
+
+    registry.load(TEST_PACKAGES.slice(0, 2));
+    await notified;
+
+    const { resources } = await listener.listResources();
+    expect(resources.filter((r) => r.uri.startsWith("zk-kit://packages/"))).toHaveLength(2);
+    await listener.close();
+  });
+});
+
+// --- forks next to upstream ---
+
+describe("packages of a fork", () => {
+  const upstream = makePackage({ repoSlug: "zk-kit/zk-kit" });
+  const fork = makePackage({ repoSlug: "acme/zk-kit" });
+  let forkClient: Client;
+
+  beforeAll(async () => {
+    setActiveConfig({
+      ...defaultConfig(),
+      repos: [
+        ...defaultConfig().repos,
+        { slug: "acme/zk-kit", language: "typescript", packagePath: "packages", branch: "main" },
+      ],
+    });
+    const registry = new PackageRegistry();
+    registry.load([upstream, fork]);
+    const { server } = createServer(registry);
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverSide);
+    forkClient = new Client({ name: "fork-client", version: "1.0.0" });
+    await forkClient.connect(clientSide);
+  });
+
+  afterAll(async () => {
+    await forkClient.close();
+    resetActiveConfig();
+    mockFetchReadme.mockReset();
+  });
+
+  it("caches each repo's README separately and notes the other repos", async () => {
+    mockFetchReadme.mockImplementation(async (slug) => `# README of ${slug}`);
+    const plain = textOf(await forkClient.callTool({ name: "get_package_readme", arguments: { name: "lean-imt" } }));
+    expect(plain).toContain("# README of zk-kit/zk-kit");
+    expect(plain).toContain("`@zk-kit/lean-imt` is also in `acme/zk-kit`");
+
+    const forked = textOf(
+      await forkClient.callTool({ name: "get_package_readme", arguments: { name: "acme/zk-kit:lean-imt" } }),
+    );
+    expect(forked).toContain("# README of acme/zk-kit");
+  });
+
+  it("finds symbols and their references per repo", async () => {
+    mockFetchDirTree.mockImplementation(async (_slug, _ref, path) =>
+      path === "packages/lean-imt" ? [{ name: "index.ts", path: "src/index.ts", type: "file", size: 50 }] : [],
+    );
+    mockFetchRawFile.mockImplementation(async (slug, _ref, path) => {
+      if (path !== "packages/lean-imt/src/index.ts") return null;
+      const extra = slug === "acme/zk-kit" ? "const tree = new LeanIMT()\n" : "";
+      return `export class LeanIMT {}\n${extra}`;
+    });
+    const result = await forkClient.callTool({ name: "find_symbol", arguments: { name: "LeanIMT" } });
+    const { definitions, references } = result.structuredContent as {
+      definitions: { repo: string }[];
+      references: { repo: string; references: unknown[] }[];
+    };
+    expect(definitions.map((d) => d.repo)).toEqual(["zk-kit/zk-kit", "acme/zk-kit"]);
+    expect(references.map((r) => [r.repo, r.references.length])).toEqual([
+      ["zk-kit/zk-kit", 0],
+      ["acme/zk-kit", 1],
+    ]);
+    mockFetchDirTree.mockReset();
+    mockFetchRawFile.mockReset();
+  });
+
+  it("lists upstream's package by path and the fork's by repo", async () => {
+    const { resources } = await forkClient.listResources();
+    expect(resources.filter((r) => r.uri.startsWith("zk-kit://packages/")).map((r) => r.uri)).toEqual([
+      "zk-kit://packages/typescript/lean-imt",
+      "zk-kit://packages/acme/zk-kit/typescript/lean-imt",
+    ]);
+  });
+
+  it("resolves the path URI to the first configured repo", async () => {
+    mockFetchReadme.mockImplementation(async (slug) => `# README of ${slug}`);
+    const result = await forkClient.readResource({ uri: "zk-kit://packages/typescript/lean-imt" });
+    expect((result.contents[0] as { text: string }).text).toContain("# README of zk-kit/zk-kit");
+  });
 });
 
 // --- prompt completions ---
@@ -1685,6 +2407,14 @@ describe("prompt completions", () => {
     expect(result.completion.values).toContain("@zk-kit/poseidon-lite");
   });
 
+  it("completes misspelled package names", async () => {
+    const result = await client.complete({
+      ref: { type: "ref/prompt", name: "troubleshoot-package" },
+      argument: { name: "packageName", value: "poseidn" },
+    });
+    expect(result.completion.values[0]).toBe("@zk-kit/poseidon-lite");
+  });
+
   it("completes packageName for migration-guide", async () => {
     const result = await client.complete({
       ref: { type: "ref/prompt", name: "migration-guide" },
@@ -1710,6 +2440,20 @@ describe("prompt completions", () => {
     expect(result.completion.values).not.toContain("solidity");
   });
 
+  it("completes resource template owner and repo variables", async () => {
+    const owners = await client.complete({
+      ref: { type: "ref/resource", uri: "zk-kit://packages/{owner}/{repo}/{language}/{dirName}" },
+      argument: { name: "owner", value: "zk" },
+    });
+    expect(owners.completion.values).toEqual(["zk-kit"]);
+    const repos = await client.complete({
+      ref: { type: "ref/resource", uri: "zk-kit://packages/{owner}/{repo}/{language}/{dirName}" },
+      argument: { name: "repo", value: "zk-kit.s" },
+      context: { arguments: { owner: "zk-kit" } },
+    });
+    expect(repos.completion.values).toEqual(["zk-kit.solidity"]);
+  });
+
   it("completes resource template dirName variable", async () => {
     const result = await client.complete({
       ref: { type: "ref/resource", uri: "zk-kit://packages/{language}/{dirName}" },
@@ -1859,17 +2603,39 @@ describe("search_issues scoping", () => {
 // --- v0.3.0: response size limits ---
 
 describe("response size limits", () => {
-  it("truncates oversized README with hint", async () => {
-    const largeContent = `# Large README\n\n${"x".repeat(60_000)}`;
+  it("pages an oversized README at section boundaries", async () => {
+    const sections = Array.from({ length: 30 }, (_, i) => `## Section ${i}\n\n${"word ".repeat(400)}\n`);
+    const largeContent = `# Large README\n\n${sections.join("\n")}`;
     mockFetchReadme.mockResolvedValueOnce(largeContent);
-    const result = await client.callTool({
+    const first = await client.callTool({
       name: "get_package_readme",
       arguments: { name: "zk-kit-baby-jubjub" },
     });
-    const text = textOf(result);
-    expect(text).toContain("Content truncated");
-    expect(text).toContain("summary: true");
-    expect(text.length).toBeLessThan(largeContent.length);
+    const firstPage = first.structuredContent as { readme: string; nextCursor: string; totalLength: number };
+    expect(firstPage.readme.length).toBeLessThanOrEqual(50_000);
+    expect(firstPage.readme.endsWith("\n")).toBe(true);
+    expect(firstPage.totalLength).toBe(largeContent.length);
+    expect(textOf(first)).toContain(`Characters 1-${firstPage.readme.length} of ${largeContent.length}`);
+    expect(textOf(first)).toContain(`cursor: "${firstPage.nextCursor}"`);
+
+    // The rest is read from the cached README
+    const second = await client.callTool({
+      name: "get_package_readme",
+      arguments: { name: "zk-kit-baby-jubjub", cursor: firstPage.nextCursor },
+    });
+    const secondPage = second.structuredContent as { readme: string; offset: number; nextCursor?: string };
+    expect(secondPage.readme.startsWith("## Section")).toBe(true);
+    expect(secondPage.offset).toBe(firstPage.readme.length);
+    expect(secondPage.nextCursor).toBeUndefined();
+    expect(firstPage.readme + secondPage.readme).toBe(largeContent);
+    expect(textOf(second)).toContain("the end.");
+
+    const invalid = await client.callTool({
+      name: "get_package_readme",
+      arguments: { name: "zk-kit-baby-jubjub", cursor: "bm90LWEtY3Vyc29y" },
+    });
+    expect(invalid.isError).toBe(true);
+    expect(textOf(invalid)).toContain("Invalid cursor");
   });
 
   it("does not truncate README within limit", async () => {
@@ -1880,19 +2646,29 @@ describe("response size limits", () => {
       arguments: { name: "@zk-kit/lean-imt" },
     });
     const text = textOf(result);
-    expect(text).not.toContain("Content truncated");
+    expect(text).not.toContain("Characters 1-");
+    expect(result.structuredContent).not.toHaveProperty("nextCursor");
   });
 
-  it("truncates oversized source file with hint", async () => {
-    const largeFile = `export const data = [\n${"  1,\n".repeat(20_000)}];`;
-    mockFetchRawFile.mockResolvedValueOnce(largeFile);
-    const result = await client.callTool({
+  it("pages an oversized source file at line boundaries", async () => {
+    const largeFile = `export const data = [\n${"  1,\n".repeat(15_000)}];`;
+    mockFetchRawFile.mockResolvedValueOnce(largeFile).mockResolvedValueOnce(largeFile);
+    const first = await client.callTool({
       name: "get_package_source",
       arguments: { name: "@zk-kit/poseidon-lite", filePath: "src/index.ts" },
     });
-    const text = textOf(result);
-    expect(text).toContain("truncated at 50000 characters");
-    expect(text.length).toBeLessThan(largeFile.length + 1000); // +1000 for wrapper markdown
+    const firstPage = first.structuredContent as { content: string; nextCursor: string };
+    expect(firstPage.content).toHaveLength(49_997);
+    expect(firstPage.content.endsWith("  1,\n")).toBe(true);
+    expect(textOf(first)).toContain(`Characters 1-49997 of ${largeFile.length}`);
+
+    const second = await client.callTool({
+      name: "get_package_source",
+      arguments: { name: "@zk-kit/poseidon-lite", filePath: "src/index.ts", cursor: firstPage.nextCursor },
+    });
+    const secondPage = second.structuredContent as { content: string; nextCursor?: string };
+    expect(firstPage.content + secondPage.content).toBe(largeFile);
+    expect(secondPage.nextCursor).toBeUndefined();
   });
 });
 
@@ -1943,13 +2719,55 @@ describe("get_package_api", () => {
     mockFetchRawFile.mockResolvedValueOnce("pragma solidity ^0.8.0;\ncontract LeanIMT { }");
     const result = await client.callTool({
       name: "get_package_api",
-      arguments: { name: "@zk-kit/lean-imt.sol" },
+      arguments: { name: "@zk-kit/lean-imt.sol", raw: true },
     });
     const text = textOf(result);
     expect(text).toContain("```solidity");
     expect(text).toContain("LeanIMT");
   });
 
+  it("extracts Solidity contracts from the whole contracts tree with an ABI", async () => {
+    mockFetchRawFile.mockReset();
+    mockFetchRawFile.mockImplementation(async (_slug, _ref, path) => {
+      if (path === "packages/lean-imt/contracts/LeanIMT.sol") {
+        return 'import {ILeanIMT} from "./ILeanIMT.sol";\n\ncontract LeanIMT is ILeanIMT {\n  function insert(uint256 leaf) external returns (uint256) {}\n}\n';
+      }
+      if (path === "packages/lean-imt/contracts/ILeanIMT.sol") {
+        return "interface ILeanIMT {\n  /// @notice Emitted on insert.\n  event LeafInserted(uint256 indexed leaf);\n}\n";
+      }
+      return null;
+    });
+    mockFetchDirTree.mockResolvedValueOnce([
+      { name: "contracts", path: "contracts", type: "dir" },
+      { name: "ILeanIMT.sol", path: "contracts/ILeanIMT.sol", type: "file", size: 100 },
+      { name: "LeanIMT.sol", path: "contracts/LeanIMT.sol", type: "file", size: 100 },
+      { name: "LeanIMTTest.sol", path: "contracts/test/LeanIMTTest.sol", type: "file", size: 100 },
+    ]);
+
+    const result = await client.callTool({ name: "get_package_api", arguments: { name: "@zk-kit/lean-imt.sol" } });
+    const text = textOf(result);
+
+    expect(text).toContain("# @zk-kit/lean-imt.sol - API (`contracts/LeanIMT.sol`)");
+    expect(text).toContain("## Contracts");
+    expect(text).toContain(
+      "contract LeanIMT is ILeanIMT {\n  function insert(uint256 leaf) external returns (uint256)\n}",
+    );
+    expect(text).toContain("*Defined in `contracts/ILeanIMT.sol`.*");
+    expect(text).toContain("## ABI");
+    expect(result.structuredContent).toMatchObject({
+      package: "@zk-kit/lean-imt.sol",
+      language: "solidity",
+      files: ["contracts/LeanIMT.sol", "contracts/ILeanIMT.sol"],
+      abi: {
+        LeanIMT: [
+          { type: "function", name: "insert", stateMutability: "nonpayable" },
+          { type: "event", name: "LeafInserted", inputs: [{ name: "leaf", type: "uint256", indexed: true }] },
+        ],
+      },
+    });
+    mockFetchRawFile.mockReset();
+  });
+
   it("returns isError on failure", async () => {
     mockFetchRawFile.mockRejectedValueOnce(new Error("API error"));
     const result = await client.callTool({
@@ -1959,15 +2777,77 @@ describe("get_package_api", () => {
     expect(result.isError).toBe(true);
   });
 
-  it("truncates oversized API files", async () => {
+  it("pages oversized API files, cutting a single long line", async () => {
     const largeFile = `export const data = ${"x".repeat(60_000)}`;
     mockFetchRawFile.mockResolvedValueOnce(largeFile);
     const result = await client.callTool({
       name: "get_package_api",
-      arguments: { name: "@zk-kit/lean-imt" },
+      arguments: { name: "@zk-kit/lean-imt", raw: true },
+    });
+    expect(textOf(result)).toContain(`Characters 1-50000 of ${largeFile.length}`);
+    expect(result.structuredContent).toMatchObject({ offset: 0, totalLength: largeFile.length });
+    expect((result.structuredContent as { nextCursor?: string }).nextCursor).toBeDefined();
+  });
+
+  it("extracts TypeScript exports across re-exported files as markdown and structured content", async () => {
+    mockFetchRawFile.mockReset();
+    mockFetchRawFile.mockImplementation(async (_slug, _ref, path) => {
+      if (path === "packages/lean-imt/src/index.ts") return 'export { default as LeanIMT } from "./lean-imt"\n';
+      if (path === "packages/lean-imt/src/lean-imt.ts") {
+        return "/** Lean IMT. */\nexport default class LeanIMT {\n  /** Adds a leaf. */\n  insert(leaf: bigint): void {}\n}\n";
+      }
+      return null;
+    });
+
+    const result = await client.callTool({ name: "get_package_api", arguments: { name: "lean-imt" } });
+    const text = textOf(result);
+
+    expect(text).toContain("# @zk-kit/lean-imt - API (`src/index.ts`)");
+    expect(text).toContain("### `LeanIMT`");
+    expect(text).toContain("class LeanIMT {\n  insert(leaf: bigint): void\n}");
+    expect(text).toContain("- `insert`: Adds a leaf.");
+    expect(result.structuredContent).toMatchObject({
+      package: "@zk-kit/lean-imt",
+      entryFile: "src/index.ts",
+      files: ["src/index.ts", "src/lean-imt.ts"],
+      symbols: [{ name: "LeanIMT", kind: "class", file: "src/lean-imt.ts" }],
+    });
+
+    // Served from cache the second time
+    await client.callTool({ name: "get_package_api", arguments: { name: "lean-imt" } });
+    expect(mockFetchRawFile).toHaveBeenCalledTimes(2);
+    mockFetchRawFile.mockReset();
+  });
+
+  it("extracts Rust items across mod files", async () => {
+    mockFetchRawFile.mockReset();
+    mockFetchRawFile.mockImplementation(async (_slug, _ref, path) => {
+      if (path === "crates/baby-jubjub/src/lib.rs") return "mod point;\n\npub use point::Point;\n";
+      if (path === "crates/baby-jubjub/src/point.rs") {
+        return "/// A curve point.\npub struct Point {\n    pub x: Fq,\n}\n\nimpl Point {\n    pub fn add(&self, other: &Point) -> Point {\n        todo!()\n    }\n}\n";
+      }
+      return null;
     });
+
+    const result = await client.callTool({ name: "get_package_api", arguments: { name: "zk-kit-baby-jubjub" } });
     const text = textOf(result);
-    expect(text).toContain("truncated at 50000 characters");
+
+    expect(text).toContain("# zk-kit-baby-jubjub - API (`src/lib.rs`)");
+    expect(text).toContain(
+      "```rust\npub struct Point {\n  pub x: Fq\n  pub fn add(&self, other: &Point) -> Point\n}\n```",
+    );
+    expect(result.structuredContent).toMatchObject({
+      language: "rust",
+      files: ["src/lib.rs", "src/point.rs"],
+      symbols: [{ name: "Point", kind: "struct", file: "src/point.rs" }],
+    });
+    mockFetchRawFile.mockReset();
+  });
+
+  it("returns the entry file as is with raw", async () => {
+    mockFetchRawFile.mockResolvedValueOnce('export * from "./lean-imt"');
+    const text = textOf(await client.callTool({ name: "get_package_api", arguments: { name: "lean-imt", raw: true } }));
+    expect(text).toContain('```typescript\nexport * from "./lean-imt"\n```');
   });
 });
 
@@ -2021,17 +2901,23 @@ describe("get_package_changelog", () => {
     expect(text).toContain("Initial");
   });
 
-  it("truncates oversized changelog", async () => {
+  it("pages an oversized changelog", async () => {
     const largeChangelog = `# Changelog\n\n${"- Entry\n".repeat(10_000)}`;
     mockFetchRawFile.mockResolvedValueOnce(largeChangelog);
-    const result = await client.callTool({
+    const first = await client.callTool({
       name: "get_package_changelog",
       arguments: { name: "@zk-kit/lean-imt.sol" },
     });
-    const text = textOf(result);
-    expect(text).toContain("Content truncated");
-    expect(text).toContain("CHANGELOG.md");
-    expect(text.length).toBeLessThan(largeChangelog.length);
+    const firstPage = first.structuredContent as { changelog: string; nextCursor: string };
+    expect(firstPage.changelog.endsWith("- Entry\n")).toBe(true);
+    expect(textOf(first)).toContain(`cursor: "${firstPage.nextCursor}"`);
+
+    // The rest is read from the cached changelog
+    const second = await client.callTool({
+      name: "get_package_changelog",
+      arguments: { name: "@zk-kit/lean-imt.sol", cursor: firstPage.nextCursor },
+    });
+    expect(firstPage.changelog + (second.structuredContent as { changelog: string }).changelog).toBe(largeChangelog);
   });
 
   it("caches results", async () => {
@@ -2060,3 +2946,353 @@ describe("get_package_changelog", () => {
     expect(text).toContain("Error");
   });
 });
+
+describe("version-pinned content", () => {
+  const SHA = "1a2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d7e8f9a0b";
+
+  beforeEach(() => {
+    mockResolveCommitSha.mockReset();
+    mockFetchRawFile.mockReset();
+    mockFetchReadme.mockReset();
+    mockFetchDirTree.mockReset();
+  });
+
+  it("resolves a version to its name@version release tag", async () => {
+    mockResolveCommitSha.mockResolvedValueOnce(SHA);
+    mockFetchReadme.mockResolvedValueOnce("# Lean IMT v2 docs");
+
+    const text = textOf(
+      await client.callTool({ name: "get_package_readme", arguments: { name: "lean-imt", version: "2.0.0" } }),
+    );
+
+    expect(mockResolveCommitSha).toHaveBeenCalledWith("zk-kit/zk-kit", "@zk-kit/lean-imt@2.0.0");
+    expect(mockFetchReadme).toHaveBeenCalledWith("zk-kit/zk-kit", SHA, "packages", "lean-imt");
+    expect(text).toContain("at `@zk-kit/lean-imt@2.0.0` (1a2b3c4)");
+    expect(text).toContain("Lean IMT v2 docs");
+  });
+
+  it("falls back to other tag conventions", async () => {
+    mockResolveCommitSha.mockResolvedValueOnce(null).mockResolvedValueOnce(SHA);
+    mockFetchRawFile.mockResolvedValueOnce("export const v1 = true;");
+
+    const text = textOf(
+      await client.callTool({ name: "get_package_api", arguments: { name: "lean-imt", version: "v1.0.0" } }),
+    );
+
+    expect(mockResolveCommitSha).toHaveBeenLastCalledWith("zk-kit/zk-kit", "v@zk-kit/lean-imt@1.0.0");
+    expect(mockFetchRawFile).toHaveBeenCalledWith("zk-kit/zk-kit", SHA, "packages/lean-imt/src/index.ts");
+    expect(text).toContain("API (`src/index.ts`) at `v@zk-kit/lean-imt@1.0.0`");
+  });
+
+  it("lists the tags tried when a version has no release", async () => {
+    mockResolveCommitSha.mockResolvedValue(null);
+    const text = textOf(
+      await client.callTool({ name: "get_package_changelog", arguments: { name: "lean-imt", version: "9.9.9" } }),
+    );
+    expect(text).toContain("No release tag found for @zk-kit/lean-imt version 9.9.9");
+    expect(text).toContain("`@zk-kit/lean-imt@9.9.9`");
+    expect(text).toContain("get_releases");
+    expect(mockFetchRawFile).not.toHaveBeenCalled();
+  });
+
+  it("reads source files and trees at a git ref", async () => {
+    mockResolveCommitSha.mockResolvedValue(SHA);
+    mockFetchRawFile.mockResolvedValueOnce("old code");
+    mockFetchDirTree.mockResolvedValueOnce([{ name: "index.ts", path: "index.ts", type: "file", size: 10 }]);
+
+    const file = textOf(
+      await client.callTool({
+        name: "get_package_source",
+        arguments: { name: "lean-imt", filePath: "src/index.ts", ref: "release/v1" },
+      }),
+    );
+    const tree = textOf(
+      await client.callTool({ name: "get_package_source", arguments: { name: "lean-imt", ref: "release/v1" } }),
+    );
+
+    expect(mockFetchRawFile).toHaveBeenCalledWith("zk-kit/zk-kit", SHA, "packages/lean-imt/src/index.ts");
+    expect(file).toContain("`src/index.ts` at `release/v1` (1a2b3c4)");
+    expect(mockFetchDirTree).toHaveBeenCalledWith("zk-kit/zk-kit", SHA, "packages/lean-imt");
+    expect(tree).toContain("File Tree at `release/v1`");
+    // The ref is resolved once, then served from cache
+    expect(mockResolveCommitSha).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps pinned and default-branch content in separate cache entries", async () => {
+    mockResolveCommitSha.mockResolvedValue(SHA);
+    mockFetchRawFile.mockResolvedValueOnce("# Changelog at tag").mockResolvedValueOnce("# Changelog on main");
+
+    const pinned = textOf(
+      await client.callTool({ name: "get_package_changelog", arguments: { name: "lean-imt", ref: "v1" } }),
+    );
+    const latest = textOf(await client.callTool({ name: "get_package_changelog", arguments: { name: "lean-imt" } }));
+
+    expect(pinned).toContain("Changelog at tag");
+    expect(latest).toContain("Changelog on main");
+    expect(mockFetchRawFile).toHaveBeenLastCalledWith("zk-kit/zk-kit", "main", "packages/lean-imt/CHANGELOG.md");
+  });
+
+  it("reports unknown refs", async () => {
+    mockResolveCommitSha.mockResolvedValueOnce(null);
+    const text = textOf(
+      await client.callTool({ name: "get_package_source", arguments: { name: "lean-imt", ref: "nope" } }),
+    );
+    expect(text).toContain("Git ref `nope` not found in zk-kit/zk-kit");
+  });
+
+  it("rejects ref and version together, and malformed refs", async () => {
+    const both = textOf(
+      await client.callTool({
+        name: "get_package_api",
+        arguments: { name: "lean-imt", ref: "main", version: "1.0.0" },
+      }),
+    );
+    expect(both).toContain("either `ref` or `version`");
+
+    const bad = await client.callTool({
+      name: "get_package_source",
+      arguments: { name: "lean-imt", ref: "--output=x" },
+    });
+    expect(bad.isError).toBe(true);
+    expect(mockResolveCommitSha).not.toHaveBeenCalled();
+  });
+});
+
+describe("get_api_parity", () => {
+  it("aligns operations across language variants and lists the gaps", async () => {
+    mockFetchRawFile.mockReset();
+    mockFetchRawFile.mockImplementation(async (_slug, _ref, path) => {
+      if (path === "packages/lean-imt/src/index.ts") {
+        return "export class LeanIMT {\n  insert(leaf: bigint): void {}\n  generateProof(index: number): Proof {}\n}\n";
+      }
+      if (path === "packages/lean-imt/contracts/LeanIMT.sol") {
+        return "library LeanIMT {\n  function insert(uint256 leaf) external returns (uint256) {}\n}\n";
+      }
+      return null;
+    });
+    mockFetchDirTree.mockResolvedValueOnce([
+      { name: "LeanIMT.sol", path: "contracts/LeanIMT.sol", type: "file", size: 100 },
+    ]);
+
+    const result = await client.callTool({ name: "get_api_parity", arguments: { concept: "lean-imt" } });
+    const text = textOf(result);
+
+    expect(text).toContain("# API Parity: lean-imt");
+    expect(text).toContain("| Operation | typescript | solidity |");
+    expect(text).toContain("| insert | `LeanIMT.insert` | `LeanIMT.insert` |");
+    expect(text).toContain("| generateProof | `LeanIMT.generateProof` | - |");
+    expect(text).toContain("- **generateProof**: missing in solidity (available in typescript)");
+    expect(result.structuredContent).toMatchObject({
+      concept: "lean-imt",
+      packages: [
+        { name: "@zk-kit/lean-imt", language: "typescript", compared: true },
+        { name: "@zk-kit/lean-imt.sol", language: "solidity", compared: true },
+      ],
+      operations: [
+        { operation: "insert", missing: [] },
+        { operation: "generateProof", missing: ["@zk-kit/lean-imt.sol"] },
+      ],
+    });
+    mockFetchRawFile.mockReset();
+  });
+
+  it("accepts a package name and notes variants without an API", async () => {
+    mockFetchRawFile.mockReset();
+    mockFetchRawFile.mockImplementation(async (_slug, _ref, path) =>
+      path === "packages/lean-imt/src/index.ts" ? "export function insert(leaf: bigint): void {}" : null,
+    );
+    mockFetchDirTree.mockResolvedValueOnce([]);
+
+    const text = textOf(
+      await client.callTool({ name: "get_api_parity", arguments: { concept: "@zk-kit/lean-imt.sol" } }),
+    );
+    expect(text).toContain("## Not Compared");
+    expect(text).toContain("- `@zk-kit/lean-imt.sol` (solidity): no public API could be extracted");
+    mockFetchRawFile.mockReset();
+  });
+
+  it("accepts concept aliases", async () => {
+    const text = textOf(
+      await client.callTool({
+        name: "get_api_parity",
+        arguments: { concept: "lean incremental merkle tree", languages: ["typescript"] },
+      }),
+    );
+    expect(text).toContain('Concept "lean-imt" needs at least two language variants');
+  });
+
+  it("needs at least two variants", async () => {
+    const text = textOf(
+      await client.callTool({ name: "get_api_parity", arguments: { concept: "lean-imt", languages: ["typescript"] } }),
+    );
+    expect(text).toContain("needs at least two language variants");
+    expect(text).toContain("`@zk-kit/lean-imt` (typescript)");
+  });
+
+  it("explains unknown concepts", async () => {
+    const text = textOf(await client.callTool({ name: "get_api_parity", arguments: { concept: "nope" } }));
+    expect(text).toContain("Unknown concept");
+    expect(text).toContain("get_cross_language_coverage");
+  });
+});
+
+describe("diff_package_versions", () => {
+  const OLD_SHA = "1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+  const NEW_SHA = "2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+  beforeEach(() => {
+    mockResolveCommitSha.mockReset();
+    mockFetchRawFile.mockReset();
+    mockFetchDirTree.mockReset();
+  });
+
+  it("lists changed files and diffs the changed entry file", async () => {
+    mockResolveCommitSha.mockImplementation(async (_slug, ref) =>
+      ref === "@zk-kit/lean-imt@1.0.0" ? OLD_SHA : ref === "main" ? NEW_SHA : null,
+    );
+    mockFetchDirTree
+      .mockResolvedValueOnce([
+        { name: "index.ts", path: "src/index.ts", type: "file", size: 30, sha: "a1" },
+        { name: "README.md", path: "README.md", type: "file", size: 10, sha: "r1" },
+        { name: "old.ts", path: "src/old.ts", type: "file", size: 5, sha: "o1" },
+      ])
+      .mockResolvedValueOnce([
+        { name: "index.ts", path: "src/index.ts", type: "file", size: 40, sha: "a2" },
+        { name: "README.md", path: "README.md", type: "file", size: 10, sha: "r1" },
+        { name: "new.ts", path: "src/new.ts", type: "file", size: 5, sha: "n1" },
+      ]);
+    mockFetchRawFile
+      .mockResolvedValueOnce("export function insert() {}\n")
+      .mockResolvedValueOnce("export function insert() {}\nexport function remove() {}\n");
+
+    const text = textOf(
+      await client.callTool({ name: "diff_package_versions", arguments: { name: "lean-imt", from: "1.0.0" } }),
+    );
+
+    expect(mockFetchDirTree).toHaveBeenCalledWith("zk-kit/zk-kit", OLD_SHA, "packages/lean-imt");
+    expect(mockFetchDirTree).toHaveBeenCalledWith("zk-kit/zk-kit", NEW_SHA, "packages/lean-imt");
+    expect(text).toContain("# @zk-kit/lean-imt: `@zk-kit/lean-imt@1.0.0` (1111111) -> `main` (2222222)");
+    expect(text).toContain("## Changed files (3: 1 added, 1 modified, 1 removed)");
+    expect(text).toContain("- added: `src/new.ts`");
+    expect(text).toContain("- removed: `src/old.ts`");
+    expect(text).not.toContain("README.md");
+    expect(text).toContain("### `src/index.ts`");
+    expect(text).toContain("+export function remove() {}");
+    expect(mockFetchRawFile).toHaveBeenCalledWith("zk-kit/zk-kit", OLD_SHA, "packages/lean-imt/src/index.ts");
+  });
+
+  it("treats a non-version value as a git ref and serves repeats from cache", async () => {
+    mockResolveCommitSha.mockImplementation(async (_slug, ref) => (ref === "old-branch" ? OLD_SHA : NEW_SHA));
+    mockFetchDirTree.mockResolvedValue([{ name: "index.ts", path: "src/index.ts", type: "file", size: 1, sha: "a" }]);
+
+    const args = { name: "lean-imt", from: "old-branch", to: "new-branch" };
+    const first = textOf(await client.callTool({ name: "diff_package_versions", arguments: args }));
+    await client.callTool({ name: "diff_package_versions", arguments: args });
+
+    expect(first).toContain("No files changed in the package between these refs.");
+    expect(mockResolveCommitSha).toHaveBeenCalledWith("zk-kit/zk-kit", "old-branch");
+    expect(mockFetchDirTree).toHaveBeenCalledTimes(2);
+    expect(mockFetchRawFile).not.toHaveBeenCalled();
+  });
+
+  it("reports refs that cannot be resolved", async () => {
+    mockResolveCommitSha.mockResolvedValue(null);
+    const text = textOf(
+      await client.callTool({ name: "diff_package_versions", arguments: { name: "lean-imt", from: "0.9.0" } }),
+    );
+    expect(text).toContain("Could not resolve `0.9.0` in zk-kit/zk-kit");
+    expect(text).toContain("`@zk-kit/lean-imt@0.9.0`");
+    expect(text).toContain("`0.9.0`");
+    expect(mockFetchDirTree).not.toHaveBeenCalled();
+  });
+
+  it("rejects malformed refs", async () => {
+    const result = await client.callTool({
+      name: "diff_package_versions",
+      arguments: { name: "lean-imt", from: "main..evil" },
+    });
+    expect(result.isError).toBe(true);
+    expect(mockResolveCommitSha).not.toHaveBeenCalled();
+  });
+});
+
+describe("refresh_registry", () => {
+  const NO_REQUESTS = { api: 0, raw: 0, notModified: 0 };
+  const mockDiscover = vi.mocked(discoverPackages);
+
+  async function connect(registry: PackageRegistry, cooldownMs?: number) {
+    const created = createServer(registry, undefined, createManualRefresh(registry, undefined, cooldownMs));
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await created.server.connect(serverSide);
+    const admin = new Client({ name: "admin", version: "1.0.0" });
+    await admin.connect(clientSide);
+    return admin;
+  }
+
+  it("reports added, removed and changed packages", async () => {
+    const registry = new PackageRegistry();
+    registry.load(TEST_PACKAGES.slice(0, 2));
+    const [leanImt, poseidon] = TEST_PACKAGES;
+    mockDiscover.mockResolvedValueOnce({
+      packages: [{ ...leanImt, version: "2.0.0" }, TEST_PACKAGES[2]],
+      failedRepos: [],
+      requests: NO_REQUESTS,
+    });
+    const admin = await connect(registry);
+
+    const result = await admin.callTool({ name: "refresh_registry", arguments: {} });
+    const text = textOf(result);
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain("### Added (1)");
+    expect(text).toContain(TEST_PACKAGES[2].name);
+    expect(text).toContain("### Removed (1)");
+    expect(text).toContain(poseidon.name);
+    expect(text).toContain("version: 1.2.3 -> 2.0.0");
+    expect(text).toContain("caches were cleared");
+    expect(registry.getByName("@zk-kit/lean-imt")?.version).toBe("2.0.0");
+    await admin.close();
+  });
+
+  it("says when nothing changed", async () => {
+    const registry = new PackageRegistry();
+    registry.load([TEST_PACKAGES[0]]);
+    mockDiscover.mockResolvedValueOnce({ packages: [TEST_PACKAGES[0]], failedRepos: [], requests: NO_REQUESTS });
+    const admin = await connect(registry);
+
+    const text = textOf(await admin.callTool({ name: "refresh_registry", arguments: {} }));
+    expect(text).toContain("No changes. 1 packages re-discovered");
+    await admin.close();
+  });
+
+  it("rejects calls within the cooldown", async () => {
+    const registry = new PackageRegistry();
+    registry.load([TEST_PACKAGES[0]]);
+    mockDiscover.mockResolvedValueOnce({ packages: [TEST_PACKAGES[0]], failedRepos: [], requests: NO_REQUESTS });
+    const admin = await connect(registry, 60_000);
+
+    await admin.callTool({ name: "refresh_registry", arguments: {} });
+    const callsBefore = mockDiscover.mock.calls.length;
+    const second = await admin.callTool({ name: "refresh_registry", arguments: {} });
+
+    expect(second.isError).toBe(true);
+    expect(textOf(second)).toMatch(/refreshed recently\. Try again in \d+s/);
+    expect(mockDiscover.mock.calls.length).toBe(callsBefore);
+    await admin.close();
+  });
+
+  it("clears the in-memory caches", async () => {
+    const registry = new PackageRegistry();
+    registry.load([TEST_PACKAGES[0]]);
+    mockDiscover.mockResolvedValueOnce({ packages: [TEST_PACKAGES[0]], failedRepos: [], requests: NO_REQUESTS });
+    const admin = await connect(registry);
+
+    mockFetchReadme.mockResolvedValueOnce("# Old README");
+    await admin.callTool({ name: "get_package_readme", arguments: { name: "@zk-kit/lean-imt" } });
+    await admin.callTool({ name: "refresh_registry", arguments: {} });
+    mockFetchReadme.mockResolvedValueOnce("# New README");
+    const text = textOf(await admin.callTool({ name: "get_package_readme", arguments: { name: "@zk-kit/lean-imt" } }));
+
+    expect(text).toContain("New README");
+    await admin.close();
+  });
+});
@@ -0,0 +1,157 @@
+import { execFileSync } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { defaultConfig, resetActiveConfig, setActiveConfig } from "../src/config.js";
+import { discoverAllPackages } from "../src/discovery.js";
+import { fetchDirectoryTree, fetchPackageCommits, fetchRawFile, fetchReadme, resolveCommitSha } from "../src/github.js";
+import {
+  listLocalDirectories,
+  localGitLog,
+  readLocalFile,
+  readLocalFileAt,
+  readLocalTree,
+  readLocalTreeAt,
+  resolveLocalRef,
+} from "../src/local-source.js";
+
+let root: string;
+
+function git(...args: string[]): void {
+  execFileSync("git", ["-C", root, "-c", "user.name=Alice", "-c", "user.email=alice@example.com", ...args]);
+}
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), "zk-kit-mcp-local-"));
+  await mkdir(join(root, "packages", "lean-imt", "src"), { recursive: true });
+  await mkdir(join(root, "packages", "utils"), { recursive: true });
+  await mkdir(join(root, "node_modules", "dep"), { recursive: true });
+  await writeFile(
+    join(root, "packages", "lean-imt", "package.json"),
+    JSON.stringify({ name: "@zk-kit/lean-imt", description: "Lean IMT", version: "2.0.0" }),
+  );
+  await writeFile(join(root, "packages", "lean-imt", "README.md"), "# Lean IMT\n\nLocal docs.");
+  await writeFile(join(root, "packages", "lean-imt", "src", "index.ts"), "export const x = 1;\n");
+  await writeFile(join(root, "packages", "utils", "README.md"), "# Utils\n\nShared helpers for packages.");
+  await writeFile(join(root, "node_modules", "dep", "index.js"), "");
+
+  git("init", "-q");
+  git("add", "packages");
+  git("commit", "-q", "-m", "feat: add lean-imt\n\nbody");
+  git("tag", "@zk-kit/lean-imt@1.0.0");
+  await writeFile(join(root, "packages", "utils", "README.md"), "# Utils\n\nUpdated.");
+  git("commit", "-q", "-am", "docs(utils): update readme");
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe("local source", () => {
+  it("reads files and returns null for missing ones", async () => {
+    expect(await readLocalFile(root, "packages/lean-imt/README.md")).toContain("Local docs.");
+    expect(await readLocalFile(root, "packages/lean-imt/CHANGELOG.md")).toBeNull();
+    expect(await readLocalFile(root, "packages/lean-imt")).toBeNull();
+  });
+
+  it("rejects paths outside the checkout", async () => {
+    await expect(readLocalFile(root, "../etc/passwd")).rejects.toThrow("escapes the local checkout");
+  });
+
+  it("lists directories", async () => {
+    expect(await listLocalDirectories(root, "packages")).toEqual(["lean-imt", "utils"]);
+    await expect(listLocalDirectories(root, "crates")).rejects.toThrow();
+  });
+
+  it("walks the tree, skipping .git and node_modules", async () => {
+    const { entries, truncated } = await readLocalTree(root);
+    const paths = entries.map((e) => e.path);
+    expect(truncated).toBe(false);
+    expect(paths).toContain("packages/lean-imt/src/index.ts");
+    expect(entries.find((e) => e.path === "packages/lean-imt/src")?.type).toBe("tree");
+    expect(entries.find((e) => e.path === "packages/lean-imt/src/index.ts")?.size).toBe(20);
+    expect(paths.some((p) => p.startsWith(".git") || p.startsWith("node_modules"))).toBe(false);
+  });
+
+  it("reads commits with git log", async () => {
+    const commits = await localGitLog(root, "zk-kit/zk-kit", "packages/utils", 10);
+    expect(commits.map((c) => c.message)).toEqual(["docs(utils): update readme", "feat: add lean-imt"]);
+    expect(commits[0].author).toBe("Alice");
+    expect(commits[0].sha).toHaveLength(7);
+    expect(commits[0].url).toMatch(/^https:\/\/github\.com\/zk-kit\/zk-kit\/commit\/[0-9a-f]{40}$/);
+
+    const limited = await localGitLog(root, "zk-kit/zk-kit", "packages/lean-imt", 1);
+    expect(limited).toHaveLength(1);
+  });
+});
+
+describe("local source at a git ref", () => {
+  it("resolves tags to commits", async () => {
+    expect(await resolveLocalRef(root, "@zk-kit/lean-imt@1.0.0")).toMatch(/^[0-9a-f]{40}$/);
+    expect(await resolveLocalRef(root, "@zk-kit/lean-imt@9.9.9")).toBeNull();
+  });
+
+  it("reads files as they were at the ref", async () => {
+    expect(await readLocalFileAt(root, "@zk-kit/lean-imt@1.0.0", "packages/utils/README.md")).toContain(
+      "Shared helpers",
+    );
+    expect(await readLocalFile(root, "packages/utils/README.md")).toContain("Updated.");
+    expect(await readLocalFileAt(root, "@zk-kit/lean-imt@1.0.0", "packages/missing.md")).toBeNull();
+  });
+
+  it("lists the tree at the ref", async () => {
+    const { entries } = await readLocalTreeAt(root, "@zk-kit/lean-imt@1.0.0");
+    expect(entries.find((e) => e.path === "packages/lean-imt/src")?.type).toBe("tree");
+    expect(entries.find((e) => e.path === "packages/lean-imt/src/index.ts")?.size).toBe(20);
+    expect(entries.some((e) => e.path.startsWith("node_modules"))).toBe(false);
+  });
+});
+
+describe("repos with a localPath", () => {
+  const mockFetch = vi.fn();
+
+  beforeAll(() => {
+    vi.stubGlobal("fetch", mockFetch);
+    setActiveConfig({
+      ...defaultConfig(),
+      repos: [
+        { slug: "zk-kit/zk-kit", language: "typescript", packagePath: "packages", branch: "main", localPath: root },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  afterAll(() => {
+    resetActiveConfig();
+    vi.unstubAllGlobals();
+  });
+
+  it("discovers packages without network access", async () => {
+    const packages = await discoverAllPackages();
+    expect(packages.map((p) => [p.name, p.version, p.description])).toEqual([
+      ["@zk-kit/lean-imt", "2.0.0", "Lean IMT"],
+      ["@zk-kit/utils", undefined, "Updated."],
+    ]);
+  });
+
+  it("serves READMEs, files, trees and commits from disk", async () => {
+    expect(await fetchReadme("zk-kit/zk-kit", "main", "packages", "lean-imt")).toContain("Local docs.");
+    expect(await fetchRawFile("zk-kit/zk-kit", "main", "packages/lean-imt/src/index.ts")).toContain("export const x");
+    const tree = await fetchDirectoryTree("zk-kit/zk-kit", "main", "packages/lean-imt");
+    expect(tree.map((e) => e.path)).toEqual(["README.md", "package.json", "src", "src/index.ts"]);
+    const commits = await fetchPackageCommits("zk-kit/zk-kit", "packages/lean-imt");
+    expect(commits[0].message).toBe("feat: add lean-imt");
+  });
+
+  it("reads content at other refs through git", async () => {
+    const sha = await resolveCommitSha("zk-kit/zk-kit", "@zk-kit/lean-imt@1.0.0");
+    expect(sha).toMatch(/^[0-9a-f]{40}$/);
+    expect(await fetchReadme("zk-kit/zk-kit", sha!, "packages", "utils")).toContain("Shared helpers");
+    const tree = await fetchDirectoryTree("zk-kit/zk-kit", sha!, "packages/utils");
+    expect(tree.map((e) => e.path)).toEqual(["README.md"]);
+  });
+});
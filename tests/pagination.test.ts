@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { decodeCursor, encodeCursor, formatPageNote, pageText } from "../src/pagination.js";
+
+describe("cursors", () => {
+  it("round-trip the offset for the same key only", () => {
+    const cursor = encodeCursor(1234, "content");
+    expect(decodeCursor(cursor, "content")).toBe(1234);
+    expect(decodeCursor(cursor, "changed content")).toBeUndefined();
+    expect(decodeCursor("not a cursor", "content")).toBeUndefined();
+  });
+});
+
+describe("pageText", () => {
+  it("returns short content whole", () => {
+    expect(pageText("abc\ndef", 0, 100)).toEqual({ text: "abc\ndef", offset: 0 });
+    expect(pageText("abc\ndef", 4, 100)).toEqual({ text: "def", offset: 4 });
+  });
+
+  it("ends pages at line boundaries", () => {
+    const content = "line one\nline two\nline three\n";
+    expect(pageText(content, 0, 20)).toEqual({ text: "line one\nline two\n", offset: 0, next: 18 });
+    expect(pageText(content, 18, 20)).toEqual({ text: "line three\n", offset: 18 });
+  });
+
+  it("ends markdown pages before the last heading in their second half", () => {
+    const content = `# Title\n\nintro\n\n## Usage\n\n${"text\n".repeat(4)}## API\n\nmore\n`;
+    const page = pageText(content, 0, 50, true);
+    expect(page.text.endsWith("text\n")).toBe(true);
+    expect(content.slice(page.next)).toMatch(/^## API/);
+    // Without sections, as many lines as fit
+    expect(pageText(content, 0, 50).next).toBe(content.lastIndexOf("\n", 50) + 1);
+  });
+
+  it("cuts a line longer than a page, but not inside a surrogate pair", () => {
+    expect(pageText("x".repeat(25), 0, 10)).toEqual({ text: "x".repeat(10), offset: 0, next: 10 });
+    const page = pageText(`${"x".repeat(9)}😀yyy`, 0, 10);
+    expect(page.text).toBe("x".repeat(9));
+    expect(page.next).toBe(9);
+  });
+});
+
+describe("formatPageNote", () => {
+  it("gives the range and the cursor of the next page", () => {
+    expect(formatPageNote("abc", { offset: 0, totalLength: 10, nextCursor: "c1" })).toBe(
+      '\n\n---\n*[Characters 1-3 of 10. Call again with `cursor: "c1"` for the rest.]*',
+    );
+    expect(formatPageNote("defg", { offset: 6, totalLength: 10 })).toBe("\n\n---\n*[Characters 7-10 of 10, the end.]*");
+    expect(formatPageNote("abc", { offset: 0, totalLength: 3 })).toBe("");
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { findReadmeSection, formatReadmeOutline, readmeHeadings } from "../src/readme-sections.js";
+
+const README = `<h1 align="center">IMT</h1>
+
+# Incremental Merkle Tree
+
+## 🛠 Install
+
+\`\`\`bash
+# npm
+npm i @zk-kit/imt
+\`\`\`
+
+## 📜 Usage
+
+### Create a tree
+
+\`\`\`typescript
+const tree = new IMT(poseidon2, 16, 0, 2)
+\`\`\`
+
+### [Proofs](https://example.com) with \`createProof\`
+
+## API
+
+### Usage
+
+Notes on \`IMT\`.
+`;
+
+describe("readmeHeadings", () => {
+  it("lists headings with GitHub anchors, skipping code blocks", () => {
+    expect(readmeHeadings(README)).toEqual([
+      { level: 1, text: "Incremental Merkle Tree", anchor: "incremental-merkle-tree" },
+      { level: 2, text: "🛠 Install", anchor: "-install" },
+      { level: 2, text: "📜 Usage", anchor: "-usage" },
+      { level: 3, text: "Create a tree", anchor: "create-a-tree" },
+      { level: 3, text: "Proofs with createProof", anchor: "proofs-with-createproof" },
+      { level: 2, text: "API", anchor: "api" },
+      { level: 3, text: "Usage", anchor: "usage" },
+    ]);
+  });
+
+  it("numbers repeated anchors", () => {
+    expect(readmeHeadings("## Example\n\n## Example\n\n## Example").map((h) => h.anchor)).toEqual([
+      "example",
+      "example-1",
+      "example-2",
+    ]);
+  });
+});
+
+describe("findReadmeSection", () => {
+  it("returns a heading's subtree, up to the next heading of its level", () => {
+    const section = findReadmeSection(README, "usage");
+    expect(section?.heading.text).toBe("📜 Usage");
+    expect(section?.content).toBe(
+      "## 📜 Usage\n\n### Create a tree\n\n```typescript\nconst tree = new IMT(poseidon2, 16, 0, 2)\n```\n\n### [Proofs](https://example.com) with `createProof`\n",
+    );
+  });
+
+  it("matches anchors, then whole heading words, then a heading containing them", () => {
+    expect(findReadmeSection(README, "#usage")?.content).toBe("### Usage\n\nNotes on `IMT`.\n");
+    expect(findReadmeSection(README, "Install")?.content).toContain("npm i @zk-kit/imt");
+    expect(findReadmeSection(README, "proofs")?.heading.anchor).toBe("proofs-with-createproof");
+    expect(findReadmeSection(README, "API")?.content).toContain("### Usage");
+  });
+
+  it("returns undefined when no heading matches", () => {
+    expect(findReadmeSection(README, "benchmarks")).toBeUndefined();
+    expect(findReadmeSection(README, "!!")).toBeUndefined();
+  });
+});
+
+describe("formatReadmeOutline", () => {
+  it("indents headings by level and links their anchors", () => {
+    expect(formatReadmeOutline(readmeHeadings(README).slice(1, 4))).toBe(
+      "- [🛠 Install](#-install)\n- [📜 Usage](#-usage)\n  - [Create a tree](#create-a-tree)",
+    );
+  });
+});
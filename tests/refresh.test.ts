@@ -0,0 +1,294 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CodeIndex } from "../src/code-index.js";
+import { getRepos } from "../src/config.js";
+import * as discovery from "../src/discovery.js";
+import {
+  createManualRefresh,
+  diffPackages,
+  formatRefreshOutcome,
+  isEmptyDiff,
+  refreshRegistry,
+  startBackgroundRefresh,
+} from "../src/refresh.js";
+import { PackageRegistry } from "../src/registry.js";
+import type { Package } from "../src/types.js";
+
+vi.mock("../src/discovery.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../src/discovery.js")>();
+  return { ...actual, discoverPackages: vi.fn(), saveSnapshot: vi.fn() };
+});
+
+const mockDiscover = vi.mocked(discovery.discoverPackages);
+const NO_REQUESTS = { api: 0, raw: 0, notModified: 0 };
+const mockSaveSnapshot = vi.mocked(discovery.saveSnapshot);
+
+function makePackage(overrides: Partial<Package> = {}): Package {
+  return {
+    name: "@zk-kit/lean-imt",
+    dirName: "lean-imt",
+    language: "typescript",
+    category: "merkle-trees",
+    repo: "https://github.com/zk-kit/zk-kit/tree/main/packages/lean-imt",
+    description: "Lean IMT",
+    installCommand: "npm i @zk-kit/lean-imt",
+    crossLanguageId: "lean-imt",
+    zkKitDependencies: [],
+    version: "1.0.0",
+    repoSlug: "zk-kit/zk-kit",
+    ...overrides,
+  };
+}
+
+const leanImt = makePackage();
+const eddsa = makePackage({
+  name: "@zk-kit/eddsa-poseidon",
+  dirName: "eddsa-poseidon",
+  crossLanguageId: "eddsa-poseidon",
+});
+const leanImtSol = makePackage({
+  name: "@zk-kit/lean-imt.sol",
+  language: "solidity",
+  repoSlug: "zk-kit/zk-kit.solidity",
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("diffPackages", () => {
+  it("reports added, removed and changed packages", () => {
+    const bumped = { ...leanImt, version: "1.1.0" };
+    const diff = diffPackages([leanImt, eddsa], [bumped, leanImtSol]);
+    expect(diff.added.map((p) => p.name)).toEqual(["@zk-kit/lean-imt.sol"]);
+    expect(diff.removed.map((p) => p.name)).toEqual(["@zk-kit/eddsa-poseidon"]);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].fields).toEqual(["version"]);
+    expect(diff.changed[0].before.version).toBe("1.0.0");
+    expect(diff.changed[0].after.version).toBe("1.1.0");
+  });
+
+  it("is empty for identical lists", () => {
+    expect(isEmptyDiff(diffPackages([leanImt, eddsa], [{ ...eddsa }, { ...leanImt }]))).toBe(true);
+  });
+
+  it("detects dependency changes", () => {
+    const diff = diffPackages([leanImt], [{ ...leanImt, zkKitDependencies: ["utils"] }]);
+    expect(diff.changed[0].fields).toEqual(["zkKitDependencies"]);
+  });
+});
+
+describe("refreshRegistry", () => {
+  it("loads new packages and saves a snapshot", async () => {
+    const registry = new PackageRegistry();
+    registry.load([leanImt]);
+    mockDiscover.mockResolvedValue({ packages: [leanImt, eddsa], failedRepos: [], requests: NO_REQUESTS });
+
+    const outcome = await refreshRegistry(registry);
+
+    expect(outcome.updated).toBe(true);
+    expect(outcome.diff.added.map((p) => p.name)).toEqual(["@zk-kit/eddsa-poseidon"]);
+    expect(registry.count).toBe(2);
+    expect(mockSaveSnapshot).toHaveBeenCalledOnce();
+  });
+
+  it("does not reload or notify when nothing changed", async () => {
+    const registry = new PackageRegistry();
+    registry.load([leanImt]);
+    const listener = vi.fn();
+    registry.onChange(listener);
+    mockDiscover.mockResolvedValue({ packages: [{ ...leanImt }], failedRepos: [], requests: NO_REQUESTS });
+
+    const outcome = await refreshRegistry(registry);
+
+    expect(isEmptyDiff(outcome.diff)).toBe(true);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("clears staleness even when nothing changed", async () => {
+    const registry = new PackageRegistry();
+    registry.load([leanImt], Date.now() - 60_000);
+    mockDiscover.mockResolvedValue({ packages: [{ ...leanImt }], failedRepos: [], requests: NO_REQUESTS });
+
+    await refreshRegistry(registry);
+
+    expect(registry.staleAsOf).toBeUndefined();
+  });
+
+  it("carries over packages from repos that failed to list", async () => {
+    const registry = new PackageRegistry();
+    registry.load([leanImt, leanImtSol]);
+    mockDiscover.mockResolvedValue({
+      packages: [leanImt],
+      failedRepos: ["zk-kit/zk-kit.solidity"],
+      requests: NO_REQUESTS,
+    });
+
+    const outcome = await refreshRegistry(registry);
+
+    expect(outcome.diff.removed).toEqual([]);
+    expect(outcome.failedRepos).toEqual(["zk-kit/zk-kit.solidity"]);
+    expect(registry.getByName("@zk-kit/lean-imt.sol")).toBeDefined();
+  });
+
+  it("keeps the registry when discovery returns nothing", async () => {
+    const registry = new PackageRegistry();
+    registry.load([leanImt]);
+    mockDiscover.mockResolvedValue({ packages: [], failedRepos: ["zk-kit/zk-kit"], requests: NO_REQUESTS });
+
+    const outcome = await refreshRegistry(registry);
+
+    expect(outcome.updated).toBe(false);
+    expect(registry.count).toBe(1);
+    expect(mockSaveSnapshot).not.toHaveBeenCalled();
+  });
+
+  it("updates the code index after a successful discovery", async () => {
+    const registry = new PackageRegistry();
+    const codeIndex = { update: vi.fn().mockResolvedValue(undefined) } as unknown as CodeIndex;
+    mockDiscover.mockResolvedValueOnce({ packages: [], failedRepos: ["zk-kit/zk-kit"], requests: NO_REQUESTS });
+    await refreshRegistry(registry, undefined, codeIndex);
+    expect(codeIndex.update).not.toHaveBeenCalled();
+
+    mockDiscover.mockResolvedValueOnce({ packages: [leanImt], failedRepos: [], requests: NO_REQUESTS });
+    await refreshRegistry(registry, undefined, codeIndex);
+    expect(codeIndex.update).toHaveBeenCalledWith(getRepos());
+  });
+
+  it("does not wait for the code index update", async () => {
+    const registry = new PackageRegistry();
+    const codeIndex = { update: vi.fn(() => new Promise(() => {})) } as unknown as CodeIndex;
+    mockDiscover.mockResolvedValueOnce({ packages: [leanImt], failedRepos: [], requests: NO_REQUESTS });
+    const outcome = await refreshRegistry(registry, undefined, codeIndex);
+    expect(outcome.updated).toBe(true);
+    expect(codeIndex.update).toHaveBeenCalled();
+  });
+});
+
+describe("startBackgroundRefresh", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("refreshes on every interval until stopped", async () => {
+    const registry = new PackageRegistry();
+    mockDiscover.mockResolvedValue({ packages: [leanImt], failedRepos: [], requests: NO_REQUESTS });
+
+    const refresher = startBackgroundRefresh(registry, 1000);
+    expect(mockDiscover).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockDiscover).toHaveBeenCalledTimes(1);
+    expect(registry.count).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockDiscover).toHaveBeenCalledTimes(2);
+
+    refresher.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(mockDiscover).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips a tick while the previous refresh is still running", async () => {
+    const registry = new PackageRegistry();
+    let release: () => void = () => {};
+    mockDiscover.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          release = () => resolve({ packages: [leanImt], failedRepos: [], requests: NO_REQUESTS });
+        }),
+    );
+
+    const refresher = startBackgroundRefresh(registry, 1000);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(mockDiscover).toHaveBeenCalledTimes(1);
+
+    release();
+    refresher.stop();
+  });
+
+  it("survives a failing refresh", async () => {
+    const registry = new PackageRegistry();
+    mockDiscover
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValueOnce({ packages: [leanImt], failedRepos: [], requests: NO_REQUESTS });
+
+    const refresher = startBackgroundRefresh(registry, 1000);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(mockDiscover).toHaveBeenCalledTimes(2);
+    expect(registry.count).toBe(1);
+    refresher.stop();
+  });
+});
+
+describe("createManualRefresh", () => {
+  it("enforces the cooldown between refreshes", async () => {
+    const registry = new PackageRegistry();
+    mockDiscover.mockResolvedValue({ packages: [leanImt], failedRepos: [], requests: NO_REQUESTS });
+    const manual = createManualRefresh(registry, undefined, 60_000);
+
+    const first = await manual.run();
+    expect("outcome" in first).toBe(true);
+
+    const second = await manual.run();
+    expect("retryAfterMs" in second && second.retryAfterMs).toBeGreaterThan(59_000);
+    expect(mockDiscover).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares a refresh that is already running", async () => {
+    const registry = new PackageRegistry();
+    mockDiscover.mockResolvedValue({ packages: [leanImt], failedRepos: [], requests: NO_REQUESTS });
+    const manual = createManualRefresh(registry, undefined, 60_000);
+
+    const [a, b] = await Promise.all([manual.run(), manual.run()]);
+    expect(a).toBe(b);
+    expect(mockDiscover).toHaveBeenCalledTimes(1);
+  });
+
+  it("allows another refresh once the cooldown has passed", async () => {
+    const registry = new PackageRegistry();
+    mockDiscover.mockResolvedValue({ packages: [leanImt], failedRepos: [], requests: NO_REQUESTS });
+    const manual = createManualRefresh(registry, undefined, 0);
+
+    await manual.run();
+    await manual.run();
+    expect(mockDiscover).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("formatRefreshOutcome", () => {
+  const base = { updated: true, failedRepos: [], durationMs: 1500 };
+
+  it("lists added, removed and changed packages", () => {
+    const diff = diffPackages(
+      [leanImt, eddsa],
+      [{ ...leanImt, version: "2.0.0", description: "New", zkKitDependencies: ["utils"] }, leanImtSol],
+    );
+    const text = formatRefreshOutcome({ ...base, diff }, 2);
+    expect(text).toContain("2 packages re-discovered in 1.5s");
+    expect(text).toContain("### Added (1)\n\n- **@zk-kit/lean-imt.sol** v1.0.0 (solidity, merkle-trees)");
+    expect(text).toContain("### Removed (1)\n\n- **@zk-kit/eddsa-poseidon**");
+    expect(text).toContain('version: 1.0.0 -> 2.0.0; description: "Lean IMT" -> "New"; dependencies +utils');
+  });
+
+  it("reports an unchanged registry", () => {
+    const text = formatRefreshOutcome({ ...base, diff: diffPackages([leanImt], [leanImt]) }, 1);
+    expect(text).toBe("No changes. 1 packages re-discovered in 1.5s.");
+  });
+
+  it("explains a failed discovery and failed repos", () => {
+    const empty = diffPackages([], []);
+    expect(formatRefreshOutcome({ ...base, updated: false, diff: empty }, 3)).toContain(
+      "the current 3 packages were kept",
+    );
+    const partial = formatRefreshOutcome(
+      { ...base, diff: empty, failedRepos: ["zk-kit/zk-kit.noir"], requests: NO_REQUESTS },
+      3,
+    );
+    expect(partial).toContain("could not list zk-kit/zk-kit.noir");
+  });
+});
@@ -1,5 +1,7 @@
-import { beforeEach, describe, expect, it } from "vitest";
-import { PackageRegistry } from "../src/registry.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { defaultConfig, resetActiveConfig, setActiveConfig } from "../src/config.js";
+import { logger } from "../src/logger.js";
+import { PackageRegistry, packageKey } from "../src/registry.js";
 import type { Package } from "../src/types.js";
 
 function makePackage(overrides: Partial<Package> = {}): Package {
@@ -161,6 +163,37 @@ describe("PackageRegistry", () => {
     it("multi-term suggest requires ALL terms to match", () => {
       expect(registry.suggest("lean nonexistent")).toEqual([]);
     });
+
+    it("tolerates typos", () => {
+      expect(registry.suggest("excubia")[0]?.name).toBe("@zk-kit/excubiae");
+      expect(registry.suggest("poseidn-lite")[0]?.name).toBe("@zk-kit/poseidon-lite");
+    });
+  });
+
+  describe("match", () => {
+    const ranked = (name: string) => registry.match(name).map((m) => [m.pkg.name, m.confidence]);
+
+    it("scores typos by edit distance, best first", () => {
+      expect(ranked("lean-imtt")).toEqual([
+        ["@zk-kit/lean-imt", 0.89],
+        ["@zk-kit/lean-imt.sol", 0.67],
+      ]);
+      expect(ranked("@zk-kit/ecdhh")).toEqual([["@zk-kit/ecdh", 0.8]]);
+    });
+
+    it("credits a shared directory name to the package it resolves to", () => {
+      expect(registry.match("lean_imt")[0]).toEqual({ pkg: registry.getByName("lean-imt"), confidence: 1 });
+    });
+
+    it("matches reordered words and partial names", () => {
+      expect(ranked("imt lean")[0]).toEqual(["@zk-kit/lean-imt", 0.95]);
+      expect(ranked("excub")).toEqual([["@zk-kit/excubiae", 0.81]]);
+    });
+
+    it("drops unrelated names", () => {
+      expect(registry.match("semaphore")).toEqual([]);
+      expect(registry.match("")).toEqual([]);
+    });
   });
 
   describe("search", () => {
@@ -213,6 +246,25 @@ describe("PackageRegistry", () => {
       const results = registry.search("ecdh");
       expect(results[0].name).toBe("@zk-kit/ecdh");
     });
+
+    it("matches every package of a concept named by an alias", () => {
+      expect(registry.search("lean incremental merkle tree").map((p) => p.name)).toEqual([
+        "@zk-kit/lean-imt",
+        "@zk-kit/lean-imt.sol",
+        "zk-kit-lean-imt",
+      ]);
+      expect(registry.search("diffie hellman").map((p) => p.name)).toEqual(["@zk-kit/ecdh"]);
+      // Words besides the concept must still match
+      expect(registry.search("leanimt solidity").map((p) => p.name)).toEqual(["@zk-kit/lean-imt.sol"]);
+    });
+
+    it("matches single words against concept aliases", () => {
+      expect(registry.search("gatekeeper").map((p) => p.name)).toEqual(["@zk-kit/excubiae"]);
+    });
+
+    it("filters by any category of a package's concept", () => {
+      expect(registry.search(undefined, undefined, "identity").map((p) => p.name)).toEqual(["@zk-kit/excubiae"]);
+    });
   });
 
   describe("compare", () => {
@@ -237,6 +289,19 @@ describe("PackageRegistry", () => {
       expect(md).toContain("nonexistent");
     });
 
+    it("shows the concept and its categories", () => {
+      const md = registry.compare(["@zk-kit/excubiae", "@zk-kit/ecdh"]);
+      expect(md).toContain(
+        "| Concept | Excubiae gatekeepers (access-control, identity) | Elliptic-curve Diffie-Hellman (cryptography) |",
+      );
+    });
+
+    it("resolves concept aliases to a package of the concept", () => {
+      const md = registry.compare(["lean incremental merkle tree", "diffie-hellman"]);
+      expect(md).toContain("| Property | @zk-kit/lean-imt | @zk-kit/ecdh |");
+      expect(md).not.toContain("Not found");
+    });
+
     it("returns message if all not found", () => {
       const md = registry.compare(["nope1", "nope2"]);
       expect(md).toContain("No packages found");
@@ -265,6 +330,17 @@ describe("PackageRegistry", () => {
     });
   });
 
+  describe("onChange", () => {
+    it("notifies listeners on load until unsubscribed", () => {
+      const calls: number[] = [];
+      const unsubscribe = registry.onChange(() => calls.push(registry.count));
+      registry.load(SYNTHETIC_PACKAGES.slice(0, 2));
+      unsubscribe();
+      registry.load(SYNTHETIC_PACKAGES);
+      expect(calls).toEqual([2]);
+    });
+  });
+
   describe("getRepoForLanguage", () => {
     it("returns repo config for known language", () => {
       const repo = registry.getRepoForLanguage("typescript");
@@ -272,6 +348,76 @@ describe("PackageRegistry", () => {
     });
   });
 
+  describe("getRepoForPackage", () => {
+    afterEach(() => {
+      resetActiveConfig();
+    });
+
+    it("falls back to the language repo without repoSlug", () => {
+      const pkg = registry.getByName("@zk-kit/lean-imt")!;
+      expect(registry.getRepoForPackage(pkg)?.slug).toBe("zk-kit/zk-kit");
+    });
+
+    it("uses repoSlug when several repos share a language", () => {
+      setActiveConfig({
+        ...defaultConfig(),
+        repos: [
+          ...defaultConfig().repos,
+          { slug: "acme/zk", language: "typescript", packagePath: "libs", branch: "dev" },
+        ],
+      });
+      const pkg = { ...registry.getByName("@zk-kit/lean-imt")!, repoSlug: "acme/zk" };
+      const repo = registry.getRepoForPackage(pkg);
+      expect(repo?.slug).toBe("acme/zk");
+      expect(repo?.branch).toBe("dev");
+    });
+  });
+
+  describe("forks", () => {
+    const upstream = makePackage({ repoSlug: "zk-kit/zk-kit" });
+    const fork = makePackage({ repoSlug: "acme/zk-kit", description: "Fork" });
+
+    beforeEach(() => {
+      setActiveConfig({
+        ...defaultConfig(),
+        repos: [
+          ...defaultConfig().repos,
+          { slug: "acme/zk-kit", language: "typescript", packagePath: "packages", branch: "main" },
+        ],
+      });
+    });
+
+    afterEach(() => {
+      resetActiveConfig();
+      vi.restoreAllMocks();
+    });
+
+    it("keys packages by repo", () => {
+      expect(packageKey(upstream)).toBe("zk-kit/zk-kit/typescript/lean-imt");
+      expect(packageKey(fork)).toBe("acme/zk-kit/typescript/lean-imt");
+      expect(packageKey(makePackage())).toBe("typescript/lean-imt");
+    });
+
+    it("resolves plain names to the first repo and qualified names to their repo", () => {
+      const forked = new PackageRegistry();
+      forked.load([upstream, fork]);
+      expect(forked.getByName("lean-imt")).toBe(upstream);
+      expect(forked.getByName("acme/zk-kit:lean-imt")).toBe(fork);
+      expect(forked.getByName("ACME/zk-kit:@zk-kit/lean-imt")).toBe(fork);
+      expect(forked.getByName("zk-kit/zk-kit:lean-imt")).toBe(upstream);
+      expect(forked.getByName("other/repo:lean-imt")).toBeUndefined();
+      expect(forked.getDuplicates(upstream)).toEqual([fork]);
+    });
+
+    it("warns about names shared by several repos", () => {
+      const warn = vi.spyOn(logger, "warn").mockImplementation(() => {});
+      new PackageRegistry().load([upstream, fork]);
+      expect(warn).toHaveBeenCalledWith("registry", expect.stringContaining("owner/repo:name"), {
+        names: ["@zk-kit/lean-imt (zk-kit/zk-kit, acme/zk-kit)"],
+      });
+    });
+  });
+
   describe("version in compare", () => {
     it("shows version row in comparison table", () => {
       const md = registry.compare(["@zk-kit/lean-imt", "@zk-kit/poseidon-lite"]);
@@ -351,6 +497,19 @@ describe("PackageRegistry", () => {
       expect(md).toContain("excubiae");
     });
 
+    it("groups variants named differently across repos by concept", () => {
+      const reg = new PackageRegistry();
+      reg.load([
+        makePackage({ name: "@zk-kit/baby-jubjub", dirName: "baby-jubjub", crossLanguageId: "baby-jubjub" }),
+        // Snapshot taken before the alias was known: grouped all the same
+        makePackage({ name: "babyjubjub", dirName: "babyjubjub", language: "noir", crossLanguageId: "babyjubjub" }),
+      ]);
+      const md = reg.getCrossLanguageCoverage();
+      expect(md).toContain("| baby-jubjub | yes | yes |");
+      expect(md).not.toContain("| babyjubjub |");
+      expect(md).toContain("## Linked by Alias\n- **baby-jubjub**: `baby-jubjub` (typescript), `babyjubjub` (noir)");
+    });
+
     it("returns message for empty registry", () => {
       const empty = new PackageRegistry();
       empty.load([]);
@@ -0,0 +1,208 @@
+import { describe, expect, it } from "vitest";
+import { extractRustApi } from "../src/rust-api.js";
+import { reader } from "./helpers.js";
+
+const LIB_RS = `//! Lean incremental Merkle tree.
+#![no_std]
+
+mod tree;
+mod hash;
+pub mod utils;
+
+pub use hash::*;
+pub use tree::{LeanIMT, LeanIMTError as Error};
+
+#[cfg(test)]
+mod tests;
+`;
+
+const TREE_RS = `use crate::hash::Hasher;
+
+/// Lean incremental Merkle tree.
+#[derive(Debug, Clone)]
+pub struct LeanIMT<'a, H: Hasher> {
+    /// Number of leaves.
+    pub size: usize,
+    pub(crate) nodes: Vec<Vec<&'a [u8]>>,
+    hasher: H,
+}
+
+impl<'a, H: Hasher> LeanIMT<'a, H> {
+    /// Maximum depth of the tree.
+    pub const MAX_DEPTH: usize = 32;
+
+    /// Creates an empty tree.
+    pub fn new(hasher: H) -> Self {
+        Self { size: 0, nodes: vec![], hasher }
+    }
+
+    /// Inserts a leaf.
+    pub fn insert(&mut self, leaf: &'a [u8]) -> Result<(), LeanIMTError>
+    where
+        H: Clone,
+    {
+        let c = '{';
+        Ok(())
+    }
+
+    fn update_root(&mut self) {}
+}
+
+impl<'a, H: Hasher + Default> Default for LeanIMT<'a, H> {
+    fn default() -> Self {
+        Self::new(H::default())
+    }
+}
+
+/// Errors of tree operations.
+#[derive(Debug)]
+pub enum LeanIMTError {
+    /// The leaf is already in the tree.
+    Duplicate,
+    Full { depth: usize },
+}
+
+fn helper() {}
+`;
+
+const HASH_RS = `/// Hash function of a tree.
+pub trait Hasher {
+    /// Output size in bytes.
+    const SIZE: usize;
+
+    /// Hashes two nodes.
+    fn hash(&self, left: &[u8], right: &[u8]) -> Vec<u8>;
+}
+
+pub fn poseidon(input: &[u8]) -> Vec<u8> {
+    input.to_vec()
+}
+`;
+
+const UTILS_RS = `pub use ark_ff::Field;
+
+/// Default tree depth.
+pub const DEPTH: usize = 16;
+
+pub(crate) fn internal() {}
+
+pub fn is_power_of_two(n: usize) -> bool {
+    n & (n - 1) == 0
+}
+`;
+
+describe("extractRustApi", () => {
+  const crate = {
+    "src/lib.rs": LIB_RS,
+    "src/tree.rs": TREE_RS,
+    "src/hash/mod.rs": HASH_RS,
+    "src/utils.rs": UTILS_RS,
+  };
+
+  it("follows mod declarations across files and lists items under their public paths", async () => {
+    const read = reader(crate);
+    const api = await extractRustApi("rust", "src/lib.rs", read);
+
+    expect(api.language).toBe("rust");
+    expect(api.files).toEqual(["src/lib.rs", "src/tree.rs", "src/hash/mod.rs", "src/utils.rs"]);
+    expect(api.symbols.map((s) => [s.name, s.kind, s.file])).toEqual([
+      ["Hasher", "trait", "src/hash/mod.rs"],
+      ["poseidon", "function", "src/hash/mod.rs"],
+      ["LeanIMT", "struct", "src/tree.rs"],
+      ["Error", "enum", "src/tree.rs"],
+      ["utils::DEPTH", "variable", "src/utils.rs"],
+      ["utils::is_power_of_two", "function", "src/utils.rs"],
+    ]);
+    expect(api.external).toEqual(["ark_ff::Field"]);
+    // `#[cfg(test)] mod tests` is not read
+    expect(read.reads).not.toContain("src/tests.rs");
+    expect(api.unresolved).toEqual([]);
+  });
+
+  it("attaches public fields, inherent impl members and implemented traits to types", async () => {
+    const api = await extractRustApi("rust", "src/lib.rs", reader(crate));
+    const tree = api.symbols.find((s) => s.name === "LeanIMT");
+
+    expect(tree?.signature).toBe("pub struct LeanIMT<'a, H: Hasher>");
+    expect(tree?.doc).toBe("Lean incremental Merkle tree.");
+    expect(tree?.implements).toEqual(["Default"]);
+    expect(tree?.members).toEqual([
+      { name: "size", kind: "property", signature: "pub size: usize", doc: "Number of leaves." },
+      {
+        name: "MAX_DEPTH",
+        kind: "property",
+        signature: "pub const MAX_DEPTH: usize",
+        doc: "Maximum depth of the tree.",
+      },
+      { name: "new", kind: "method", signature: "pub fn new(hasher: H) -> Self", doc: "Creates an empty tree." },
+      {
+        name: "insert",
+        kind: "method",
+        signature: "pub fn insert(&mut self, leaf: &'a [u8]) -> Result<(), LeanIMTError> where H: Clone",
+        doc: "Inserts a leaf.",
+      },
+    ]);
+  });
+
+  it("lists trait items and enum variants", async () => {
+    const api = await extractRustApi("rust", "src/lib.rs", reader(crate));
+
+    expect(api.symbols.find((s) => s.name === "Hasher")?.members).toEqual([
+      { name: "SIZE", kind: "property", signature: "const SIZE: usize", doc: "Output size in bytes." },
+      {
+        name: "hash",
+        kind: "method",
+        signature: "fn hash(&self, left: &[u8], right: &[u8]) -> Vec<u8>",
+        doc: "Hashes two nodes.",
+      },
+    ]);
+    expect(api.symbols.find((s) => s.name === "Error")?.signature).toBe(
+      "pub enum LeanIMTError {\n  /// The leaf is already in the tree.\n  Duplicate,\n  Full { depth: usize },\n}",
+    );
+  });
+
+  it("reports module files that cannot be read", async () => {
+    const api = await extractRustApi("rust", "src/lib.rs", reader({ "src/lib.rs": "pub mod missing;\npub fn a() {}" }));
+    expect(api.symbols.map((s) => s.name)).toEqual(["a"]);
+    expect(api.unresolved).toEqual(["src/missing.rs"]);
+  });
+
+  it("extracts Noir packages", async () => {
+    const api = await extractRustApi(
+      "noir",
+      "src/lib.nr",
+      reader({
+        "src/lib.nr": "mod merkle;\n\npub use merkle::binary_merkle_root;\nuse dep::std::hash::poseidon;\n",
+        "src/merkle.nr": `pub global MAX_DEPTH: u32 = 32;
+
+/// Computes the root of a binary Merkle tree.
+pub fn binary_merkle_root<let N: u32>(
+    hasher: fn([Field; 2]) -> Field,
+    leaf: Field,
+    depth: u32,
+    indices: [u1; N],
+    siblings: [Field; N],
+) -> Field {
+    let mut node = leaf;
+    node
+}
+
+unconstrained fn debug(x: Field) {}
+`,
+      }),
+    );
+
+    expect(api.language).toBe("noir");
+    expect(api.symbols).toEqual([
+      {
+        name: "binary_merkle_root",
+        kind: "function",
+        signature:
+          "pub fn binary_merkle_root<let N: u32>(hasher: fn([Field; 2]) -> Field, leaf: Field, depth: u32, indices: [u1; N], siblings: [Field; N]) -> Field",
+        doc: "Computes the root of a binary Merkle tree.",
+        file: "src/merkle.nr",
+      },
+    ]);
+    expect(api.external).toEqual([]);
+  });
+});
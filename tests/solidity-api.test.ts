@@ -0,0 +1,293 @@
+import { describe, expect, it } from "vitest";
+import { extractSolidityApi, solidityApiFiles } from "../src/solidity-api.js";
+import { reader } from "./helpers.js";
+
+const INTERNAL_LEAN_IMT = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.4;
+
+import {PoseidonT3} from "poseidon-solidity/PoseidonT3.sol";
+import {SNARK_SCALAR_FIELD} from "./Constants.sol";
+
+struct LeanIMTData {
+    // Tracks the current number of leaves in the tree.
+    uint256 size;
+    // Represents the current depth of the tree.
+    uint256 depth;
+    mapping(uint256 => uint256) sideNodes;
+    mapping(uint256 => uint256) leaves;
+}
+
+error WrongSiblingNodes();
+error LeafGreaterThanSnarkScalarField();
+
+/// @title Lean Incremental binary Merkle tree.
+/// @dev The LeanIMT is an optimized version of the BinaryIMT.
+library InternalLeanIMT {
+    /// @dev Inserts a new leaf into the incremental merkle tree.
+    /// @param self: A storage reference to the 'LeanIMTData' struct.
+    /// @param leaf: The value of the new leaf to be inserted into the tree.
+    /// @return The new hash of the node after the leaf has been inserted.
+    function _insert(LeanIMTData storage self, uint256 leaf) internal returns (uint256) {
+        if (leaf >= SNARK_SCALAR_FIELD) {
+            revert LeafGreaterThanSnarkScalarField();
+        }
+        return leaf;
+    }
+
+    function _hash(uint256 a, uint256 b) private pure returns (uint256) {
+        return PoseidonT3.hash([a, b]);
+    }
+}
+`;
+
+const CONSTANTS = `pragma solidity ^0.8.4;
+
+uint256 constant SNARK_SCALAR_FIELD = 21888242871839275222246405745257275088548364400416034343698204186575808495617;
+`;
+
+const LEAN_IMT = `pragma solidity ^0.8.4;
+
+import {InternalLeanIMT, LeanIMTData} from "./InternalLeanIMT.sol";
+
+/**
+ * @title Registry of tree members.
+ */
+interface IRegistry {
+    /// @notice Emitted when a member is added.
+    event MemberAdded(uint256 indexed groupId, uint256 index, uint256 identityCommitment);
+
+    error MemberAlreadyExists(uint256 identityCommitment);
+
+    function addMember(uint256 groupId, uint256 identityCommitment) external;
+}
+
+abstract contract Ownable {
+    address public owner;
+
+    modifier onlyOwner() {
+        require(msg.sender == owner);
+        _;
+    }
+
+    constructor(address initialOwner) {
+        owner = initialOwner;
+    }
+}
+
+contract Registry is IRegistry, Ownable(msg.sender) {
+    using InternalLeanIMT for LeanIMTData;
+
+    enum Status { Active, Frozen }
+
+    struct Group {
+        address admin;
+        Status status;
+    }
+
+    mapping(uint256 => Group) public groups;
+    mapping(uint256 => mapping(address => bool)) public members;
+    uint256[] public roots;
+    uint256 internal counter;
+
+    /// @notice Adds a member.
+    function addMember(uint256 groupId, uint256 identityCommitment) external override onlyOwner {
+        emit MemberAdded(groupId, 0, identityCommitment);
+    }
+
+    function getGroup(uint256 groupId) public view returns (Group memory group) {
+        return groups[groupId];
+    }
+
+    function addMembers(uint256 groupId, uint256[] calldata identityCommitments) external payable returns (uint256) {
+        return identityCommitments.length;
+    }
+
+    function _check(uint256 groupId) internal view {}
+
+    receive() external payable {}
+}
+`;
+
+describe("solidityApiFiles", () => {
+  it("keeps contract files and drops tests and mocks", () => {
+    expect(
+      solidityApiFiles([
+        "package.json",
+        "contracts/LeanIMT.sol",
+        "contracts/Constants.sol",
+        "contracts/test/LeanIMTTest.sol",
+        "contracts/mocks/Mock.sol",
+        "test/LeanIMT.t.sol",
+        "README.md",
+      ]),
+    ).toEqual(["contracts/Constants.sol", "contracts/LeanIMT.sol"]);
+  });
+
+  it("falls back to every Solidity file without a contracts directory", () => {
+    expect(solidityApiFiles(["src/Token.sol", "src/Token.t.sol", "foundry.toml"])).toEqual(["src/Token.sol"]);
+  });
+});
+
+describe("extractSolidityApi", () => {
+  const files = {
+    "contracts/Constants.sol": CONSTANTS,
+    "contracts/InternalLeanIMT.sol": INTERNAL_LEAN_IMT,
+    "contracts/Registry.sol": LEAN_IMT,
+  };
+
+  it("lists contracts, libraries, interfaces and file-level declarations", async () => {
+    const api = await extractSolidityApi(Object.keys(files), "contracts/Registry.sol", reader(files));
+
+    expect(api.language).toBe("solidity");
+    expect(api.entryFile).toBe("contracts/Registry.sol");
+    expect(api.files).toEqual(["contracts/Registry.sol", "contracts/Constants.sol", "contracts/InternalLeanIMT.sol"]);
+    expect(api.symbols.map((s) => [s.name, s.kind])).toEqual([
+      ["IRegistry", "interface"],
+      ["Ownable", "contract"],
+      ["Registry", "contract"],
+      ["SNARK_SCALAR_FIELD", "variable"],
+      ["LeanIMTData", "struct"],
+      ["WrongSiblingNodes", "error"],
+      ["LeafGreaterThanSnarkScalarField", "error"],
+      ["InternalLeanIMT", "library"],
+    ]);
+  });
+
+  it("lists external and public members with NatSpec and inheritance", async () => {
+    const api = await extractSolidityApi(Object.keys(files), "contracts/Registry.sol", reader(files));
+    const registry = api.symbols.find((s) => s.name === "Registry");
+    const registryInterface = api.symbols.find((s) => s.name === "IRegistry");
+
+    expect(registry?.signature).toBe("contract Registry is IRegistry, Ownable(msg.sender)");
+    expect(registry?.inherits).toEqual(["IRegistry", "Ownable"]);
+    expect(registry?.members?.map((m) => [m.name, m.kind])).toEqual([
+      ["Status", "enum"],
+      ["Group", "struct"],
+      ["groups", "variable"],
+      ["members", "variable"],
+      ["roots", "variable"],
+      ["addMember", "function"],
+      ["getGroup", "function"],
+      ["addMembers", "function"],
+      ["receive", "function"],
+    ]);
+    expect(registry?.members?.find((m) => m.name === "addMember")).toEqual({
+      name: "addMember",
+      kind: "function",
+      signature: "function addMember(uint256 groupId, uint256 identityCommitment) external override onlyOwner",
+      doc: "@notice Adds a member.",
+    });
+    expect(registry?.members?.find((m) => m.name === "Group")?.signature).toBe(
+      "struct Group {\n  address admin;\n  Status status;\n}",
+    );
+    expect(registryInterface?.doc).toBe("@title Registry of tree members.");
+    expect(registryInterface?.members?.map((m) => [m.name, m.kind])).toEqual([
+      ["MemberAdded", "event"],
+      ["MemberAlreadyExists", "error"],
+      ["addMember", "function"],
+    ]);
+    expect(api.symbols.find((s) => s.name === "Ownable")?.members?.map((m) => [m.name, m.kind])).toEqual([
+      ["owner", "variable"],
+      ["onlyOwner", "modifier"],
+      ["constructor", "constructor"],
+    ]);
+  });
+
+  it("lists the internal functions of libraries, but not private ones", async () => {
+    const api = await extractSolidityApi(Object.keys(files), undefined, reader(files));
+    const library = api.symbols.find((s) => s.name === "InternalLeanIMT");
+
+    expect(library?.doc).toBe(
+      "@title Lean Incremental binary Merkle tree.\n@dev The LeanIMT is an optimized version of the BinaryIMT.",
+    );
+    expect(library?.members).toEqual([
+      {
+        name: "_insert",
+        kind: "function",
+        signature: "function _insert(LeanIMTData storage self, uint256 leaf) internal returns (uint256)",
+        doc: expect.stringContaining("@dev Inserts a new leaf"),
+      },
+    ]);
+    // Internal functions are not part of the ABI
+    expect(api.abi?.InternalLeanIMT).toBeUndefined();
+  });
+
+  it("derives an ABI with inherited entries, getters and tuples", async () => {
+    const api = await extractSolidityApi(Object.keys(files), "contracts/Registry.sol", reader(files));
+    const abi = api.abi?.Registry ?? [];
+
+    expect(abi.find((e) => e.name === "getGroup")).toEqual({
+      type: "function",
+      name: "getGroup",
+      inputs: [{ name: "groupId", type: "uint256" }],
+      outputs: [
+        {
+          name: "group",
+          type: "tuple",
+          internalType: "struct Group",
+          components: [
+            { name: "admin", type: "address" },
+            { name: "status", type: "uint8", internalType: "enum Status" },
+          ],
+        },
+      ],
+      stateMutability: "view",
+    });
+    expect(abi.find((e) => e.name === "addMembers")).toMatchObject({
+      inputs: [
+        { name: "groupId", type: "uint256" },
+        { name: "identityCommitments", type: "uint256[]" },
+      ],
+      outputs: [{ name: "", type: "uint256" }],
+      stateMutability: "payable",
+    });
+    expect(abi.find((e) => e.name === "members")).toMatchObject({
+      inputs: [
+        { name: "", type: "uint256" },
+        { name: "", type: "address" },
+      ],
+      outputs: [{ name: "", type: "bool" }],
+      stateMutability: "view",
+    });
+    expect(abi.find((e) => e.name === "roots")).toMatchObject({ inputs: [{ name: "", type: "uint256" }] });
+    expect(abi.find((e) => e.type === "receive")).toEqual({ type: "receive", stateMutability: "payable" });
+
+    // Inherited from IRegistry and Ownable, once each, without the base constructor
+    expect(abi.find((e) => e.name === "MemberAdded")).toEqual({
+      type: "event",
+      name: "MemberAdded",
+      inputs: [
+        { name: "groupId", type: "uint256", indexed: true },
+        { name: "index", type: "uint256", indexed: false },
+        { name: "identityCommitment", type: "uint256", indexed: false },
+      ],
+      anonymous: false,
+    });
+    expect(abi.filter((e) => e.name === "addMember")).toHaveLength(1);
+    expect(abi.find((e) => e.name === "owner")).toMatchObject({ outputs: [{ type: "address" }] });
+    expect(abi.some((e) => e.type === "constructor")).toBe(false);
+    expect(api.abi?.Ownable?.find((e) => e.type === "constructor")).toEqual({
+      type: "constructor",
+      inputs: [{ name: "initialOwner", type: "address" }],
+      stateMutability: "nonpayable",
+    });
+  });
+
+  it("matches the guessed entry file regardless of case", async () => {
+    const api = await extractSolidityApi(Object.keys(files), "contracts/registry.sol", reader(files));
+    expect(api.entryFile).toBe("contracts/Registry.sol");
+  });
+
+  it("reports files that cannot be read", async () => {
+    const api = await extractSolidityApi(
+      ["contracts/A.sol", "contracts/B.sol"],
+      undefined,
+      reader({
+        "contracts/A.sol": "contract A {}",
+      }),
+    );
+    expect(api.files).toEqual(["contracts/A.sol"]);
+    expect(api.unresolved).toEqual(["contracts/B.sol"]);
+    expect(api.abi).toEqual({});
+  });
+});
@@ -0,0 +1,335 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSymbolIndex,
+  definitionSnippet,
+  extractDeclarations,
+  findDefinitions,
+  findReferences,
+  formatSymbolResults,
+  indexableFiles,
+  type SymbolMatch,
+  similarSymbols,
+} from "../src/symbol-index.js";
+
+const LEAN_IMT_TS = `import type { LeanIMTHashFunction } from "./types"
+
+/**
+ * The LeanIMT is an optimized binary version of the IMT.
+ */
+export default class LeanIMT<N = bigint> {
+    private _nodes: N[][]
+
+    private readonly _hash: LeanIMTHashFunction<N>
+
+    constructor(hash: LeanIMTHashFunction<N>, leaves: N[] = []) {
+        this._nodes = [[]]
+        this._hash = hash
+    }
+
+    public get root(): N {
+        return this._nodes[this.depth][0]
+    }
+
+    public insert(leaf: N) {
+        this._nodes[0].push(leaf)
+    }
+}
+
+export const hashPair = (a: bigint, b: bigint): bigint => a + b
+
+export type LeanIMTMerkleProof<N = bigint> = {
+    root: N
+    siblings: N[]
+}
+`;
+
+const INTERNAL_LEAN_IMT_SOL = `pragma solidity ^0.8.4;
+
+import {PoseidonT3} from "poseidon-solidity/PoseidonT3.sol";
+
+uint256 constant SNARK_SCALAR_FIELD = 21888242871839275222246405745257275088548364400416034343698204186575808495617;
+
+struct LeanIMTData {
+    uint256 size;
+    mapping(uint256 => uint256) sideNodes;
+}
+
+error WrongSiblingNodes();
+
+library InternalLeanIMT {
+    event LeafInserted(uint256 leaf);
+
+    mapping(uint256 => uint256) public roots;
+
+    function _insert(LeanIMTData storage self, uint256 leaf) internal returns (uint256) {
+        return PoseidonT3.hash([leaf, self.size]);
+    }
+}
+
+interface ILeanIMT {
+    function insert(uint256 leaf) external;
+}
+`;
+
+const POSEIDON_CIRCOM = `pragma circom 2.0.0;
+
+include "./constants.circom";
+
+// Poseidon hash of n inputs.
+template Poseidon(nInputs) {
+    signal input inputs[nInputs];
+    signal output out;
+}
+
+function POSEIDON_C(t) {
+    return t;
+}
+
+component main = Poseidon(2);
+`;
+
+const LIB_RS = `use crate::hash::Hasher;
+
+/// Lean incremental Merkle tree.
+#[derive(Debug, Clone)]
+pub struct LeanIMT<H: Hasher> {
+    pub size: usize,
+}
+
+impl<H: Hasher> LeanIMT<H> {
+    pub const MAX_DEPTH: usize = 32;
+
+    pub fn new(hasher: H) -> Self {
+        LeanIMT { size: 0 }
+    }
+}
+
+pub trait Hasher {
+    fn hash(&self, input: &[u8]) -> Vec<u8>;
+}
+
+impl Hasher for Sha256 {
+    fn hash(&self, input: &[u8]) -> Vec<u8> {
+        vec![]
+    }
+}
+
+pub(crate) mod utils {
+    pub static mut COUNTER: u32 = 0;
+}
+
+#[cfg(test)]
+mod tests {
+    fn helper() {}
+}
+`;
+
+const MAIN_NR = `use dep::std;
+
+pub global TREE_DEPTH: u32 = 10;
+
+pub unconstrained fn verify(root: Field, leaf: Field) -> bool {
+    std::hash::poseidon2([root, leaf]) == root
+}
+`;
+
+const kinds = (defs: { name: string; kind: string; container?: string }[]) =>
+  defs.map((d) => [d.container ? `${d.container}.${d.name}` : d.name, d.kind]);
+
+describe("indexableFiles", () => {
+  it("keeps sources of the package language, sources before tests", () => {
+    expect(
+      indexableFiles("typescript", [
+        { path: "tests/index.test.ts" },
+        { path: "src/index.ts" },
+        { path: "src/types.ts", size: 100 },
+        { path: "src/huge.ts", size: 10_000_000 },
+        { path: "dist/index.d.ts" },
+        { path: "node_modules/x/index.ts" },
+        { path: "README.md" },
+      ]),
+    ).toEqual(["src/index.ts", "src/types.ts", "tests/index.test.ts"]);
+    expect(indexableFiles("solidity", [{ path: "contracts/A.sol" }, { path: "test/A.t.sol" }])).toEqual([
+      "contracts/A.sol",
+      "test/A.t.sol",
+    ]);
+  });
+});
+
+describe("extractDeclarations", () => {
+  it("indexes TypeScript declarations and class members with line ranges", () => {
+    const defs = extractDeclarations("typescript", "src/lean-imt.ts", LEAN_IMT_TS);
+    expect(kinds(defs)).toEqual([
+      ["LeanIMT", "class"],
+      ["LeanIMT._nodes", "property"],
+      ["LeanIMT._hash", "property"],
+      ["LeanIMT.constructor", "constructor"],
+      ["LeanIMT.root", "accessor"],
+      ["LeanIMT.insert", "method"],
+      ["hashPair", "function"],
+      ["LeanIMTMerkleProof", "type"],
+    ]);
+    expect(defs[0]).toMatchObject({ file: "src/lean-imt.ts", startLine: 6, endLine: 23 });
+    expect(defs.find((d) => d.name === "insert")).toMatchObject({ startLine: 20, endLine: 22 });
+    expect(defs.find((d) => d.name === "LeanIMTMerkleProof")).toMatchObject({ startLine: 27, endLine: 30 });
+  });
+
+  it("indexes Solidity contracts, members and file-level declarations", () => {
+    const defs = extractDeclarations("solidity", "contracts/InternalLeanIMT.sol", INTERNAL_LEAN_IMT_SOL);
+    expect(kinds(defs)).toEqual([
+      ["SNARK_SCALAR_FIELD", "variable"],
+      ["LeanIMTData", "struct"],
+      ["WrongSiblingNodes", "error"],
+      ["InternalLeanIMT", "library"],
+      ["InternalLeanIMT.LeafInserted", "event"],
+      ["InternalLeanIMT.roots", "variable"],
+      ["InternalLeanIMT._insert", "function"],
+      ["ILeanIMT", "interface"],
+      ["ILeanIMT.insert", "function"],
+    ]);
+    expect(defs.find((d) => d.name === "LeanIMTData")).toMatchObject({ startLine: 7, endLine: 10 });
+  });
+
+  it("indexes Circom templates and functions", () => {
+    const defs = extractDeclarations("circom", "circuits/poseidon.circom", POSEIDON_CIRCOM);
+    expect(defs).toEqual([
+      { name: "Poseidon", kind: "template", file: "circuits/poseidon.circom", startLine: 6, endLine: 9 },
+      { name: "POSEIDON_C", kind: "function", file: "circuits/poseidon.circom", startLine: 11, endLine: 13 },
+    ]);
+  });
+
+  it("indexes Rust items, impl methods and modules, skipping test modules", () => {
+    const defs = extractDeclarations("rust", "src/lib.rs", LIB_RS);
+    expect(kinds(defs)).toEqual([
+      ["LeanIMT", "struct"],
+      ["LeanIMT.MAX_DEPTH", "variable"],
+      ["LeanIMT.new", "method"],
+      ["Hasher", "trait"],
+      ["Hasher.hash", "method"],
+      ["Sha256.hash", "method"],
+      ["utils", "namespace"],
+      ["utils.COUNTER", "variable"],
+    ]);
+    // Attributes are part of the definition
+    expect(defs[0]).toMatchObject({ startLine: 4, endLine: 7 });
+  });
+
+  it("indexes Noir globals and functions", () => {
+    expect(kinds(extractDeclarations("noir", "src/main.nr", MAIN_NR))).toEqual([
+      ["TREE_DEPTH", "variable"],
+      ["verify", "function"],
+    ]);
+  });
+});
+
+describe("symbol lookups", () => {
+  const index = buildSymbolIndex("typescript", [
+    { path: "src/lean-imt.ts", content: LEAN_IMT_TS },
+    {
+      path: "src/index.ts",
+      content: `export { default as LeanIMT } from "./lean-imt"\n// LeanIMT is re-exported\nexport * from "./types"\n`,
+    },
+    { path: "tests/lean-imt.test.ts", content: `class LeanIMT {}\nconst tree = new LeanIMT(hash)\ntree.insert(1n)\n` },
+  ]);
+
+  it("does not take declarations in tests for definitions", () => {
+    expect(findDefinitions(index, "LeanIMT").map((d) => d.file)).toEqual(["src/lean-imt.ts"]);
+  });
+
+  it("finds members by their qualified name", () => {
+    expect(findDefinitions(index, "LeanIMT.insert")).toHaveLength(1);
+    expect(findDefinitions(index, "LeanIMT::root")).toHaveLength(1);
+    expect(findDefinitions(index, "Other.insert")).toEqual([]);
+  });
+
+  it("finds references across the package, tests included, without definitions or comments", () => {
+    const definitions = findDefinitions(index, "LeanIMT");
+    expect(findReferences(index, "LeanIMT", definitions)).toEqual([
+      { file: "src/index.ts", line: 1, text: 'export { default as LeanIMT } from "./lean-imt"' },
+      { file: "tests/lean-imt.test.ts", line: 1, text: "class LeanIMT {}" },
+      { file: "tests/lean-imt.test.ts", line: 2, text: "const tree = new LeanIMT(hash)" },
+    ]);
+  });
+
+  it("matches whole words only", () => {
+    expect(findReferences(index, "LeanIMTHashFunction", []).map((r) => r.line)).toEqual([1, 9, 11]);
+  });
+
+  it("suggests similar names", () => {
+    expect(similarSymbols([index], "leanimt")).toEqual(["LeanIMT", "LeanIMTMerkleProof"]);
+    expect(similarSymbols([index], "xyz")).toEqual([]);
+  });
+
+  it("returns the dedented source of a definition", () => {
+    const [insert] = findDefinitions(index, "insert");
+    expect(definitionSnippet(index, insert)).toBe("public insert(leaf: N) {\n    this._nodes[0].push(leaf)\n}");
+  });
+
+  it("cuts long snippets", () => {
+    const long = buildSymbolIndex("rust", [
+      { path: "src/lib.rs", content: `fn long() {\n${"    step();\n".repeat(40)}}\n` },
+    ]);
+    const snippet = definitionSnippet(long, long.definitions[0]);
+    expect(snippet.split("\n")).toHaveLength(26);
+    expect(snippet).toMatch(/\/\/ \.\.\. 17 more lines$/);
+  });
+});
+
+describe("formatSymbolResults", () => {
+  const match: SymbolMatch = {
+    name: "LeanIMTData",
+    kind: "struct",
+    file: "contracts/InternalLeanIMT.sol",
+    startLine: 7,
+    endLine: 10,
+    package: "@zk-kit/lean-imt.sol",
+    language: "solidity",
+    snippet: "struct LeanIMTData {\n    uint256 size;\n}",
+  };
+
+  it("shows definitions with snippets and references per package", () => {
+    const md = formatSymbolResults(
+      "LeanIMTData",
+      [match],
+      [
+        {
+          package: "@zk-kit/lean-imt.sol",
+          references: [{ file: "contracts/LeanIMT.sol", line: 12, text: "using InternalLeanIMT for LeanIMTData;" }],
+        },
+      ],
+      3,
+    );
+    expect(md).toContain("# Symbol: `LeanIMTData`");
+    expect(md).toContain("1 definition in 1 of 3 indexed packages.");
+    expect(md).toContain("## `LeanIMTData` (struct)");
+    expect(md).toContain("`@zk-kit/lean-imt.sol` (solidity): `contracts/InternalLeanIMT.sol` lines 7-10");
+    expect(md).toContain("```solidity\nstruct LeanIMTData {");
+    expect(md).toContain("## References in `@zk-kit/lean-imt.sol` (1)");
+    expect(md).toContain("- `contracts/LeanIMT.sol:12`: `using InternalLeanIMT for LeanIMTData;`");
+  });
+
+  it("names the repo of packages found in several", () => {
+    const md = formatSymbolResults(
+      "LeanIMTData",
+      [
+        { ...match, repo: "zk-kit/zk-kit.solidity" },
+        { ...match, repo: "acme/zk-kit.solidity" },
+      ],
+      [
+        { package: match.package, repo: "zk-kit/zk-kit.solidity", references: [] },
+        { package: match.package, repo: "acme/zk-kit.solidity", references: [] },
+      ],
+      2,
+    );
+    expect(md).toContain("2 definitions in 2 of 2 indexed packages.");
+    expect(md).toContain("`@zk-kit/lean-imt.sol` (solidity in acme/zk-kit.solidity): `contracts/InternalLeanIMT.sol`");
+    expect(md).toContain("## References in `@zk-kit/lean-imt.sol` in acme/zk-kit.solidity (0)");
+  });
+
+  it("lists the first references only", () => {
+    const references = Array.from({ length: 35 }, (_, i) => ({ file: "a.sol", line: i + 1, text: "LeanIMTData" }));
+    const md = formatSymbolResults("LeanIMTData", [match], [{ package: "p", references }], 1);
+    expect(md).toContain("*...and 5 more, listed in the structured content.*");
+    expect(md).not.toContain("`a.sol:31`");
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { CONCEPTS, conceptsInQuery, findConcept, normalizeAlias } from "../src/taxonomy.js";
+
+describe("normalizeAlias", () => {
+  it("lowercases and joins words with single dashes", () => {
+    expect(normalizeAlias(" Sparse  Merkle_Tree ")).toBe("sparse-merkle-tree");
+    expect(normalizeAlias("lean.imt")).toBe("lean-imt");
+  });
+});
+
+describe("findConcept", () => {
+  it("finds concepts by id or alias", () => {
+    expect(findConcept(CONCEPTS, "baby-jubjub")?.id).toBe("baby-jubjub");
+    expect(findConcept(CONCEPTS, "babyjubjub")?.id).toBe("baby-jubjub");
+    expect(findConcept(CONCEPTS, "Incremental Merkle Tree")?.id).toBe("imt");
+    expect(findConcept(CONCEPTS, "something-new")).toBeUndefined();
+  });
+
+  it("has no alias shared by two concepts", () => {
+    const seen = new Map<string, string>();
+    for (const concept of CONCEPTS) {
+      for (const alias of [concept.id, ...concept.aliases].map(normalizeAlias)) {
+        expect(seen.get(alias) ?? concept.id).toBe(concept.id);
+        seen.set(alias, concept.id);
+      }
+    }
+  });
+});
+
+describe("conceptsInQuery", () => {
+  it("takes the longest alias first and returns the other words", () => {
+    const { concepts, rest } = conceptsInQuery(CONCEPTS, "lean incremental merkle tree proofs");
+    expect(concepts.map((c) => c.id)).toEqual(["lean-imt"]);
+    expect(rest).toBe("proofs");
+  });
+
+  it("matches whole words only", () => {
+    expect(conceptsInQuery(CONCEPTS, "smtp server").concepts).toEqual([]);
+    expect(conceptsInQuery(CONCEPTS, "EdDSA and ECDH").concepts.map((c) => c.id)).toEqual(["eddsa-poseidon", "ecdh"]);
+  });
+
+  it("does not take generic words for concepts", () => {
+    expect(conceptsInQuery(CONCEPTS, "shared secret policy scalar merkle root").concepts).toEqual([]);
+  });
+});
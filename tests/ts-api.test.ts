@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { extractTypeScriptApi } from "../src/ts-api.js";
+import { reader } from "./helpers.js";
+
+const LEAN_IMT = `import { LeanIMTHashFunction } from "./types"
+
+/**
+ * The LeanIMT is an optimized binary version of the IMT.
+ */
+export default class LeanIMT<N = bigint> {
+    private _nodes: N[][]
+
+    static readonly MAX_DEPTH = 32
+
+    #secret = 1
+
+    /**
+     * Creates a tree.
+     *
+     * @param hash The hash function used to create nodes.
+     */
+    constructor(
+        hash: LeanIMTHashFunction<N>,
+        leaves: N[] = []
+    ) {
+        if (!hash) { throw new Error("Parameter 'hash' is not defined") }
+        const pattern = /\\{+/g
+    }
+
+    /** The root of the tree. */
+    public get root(): N {
+        return this._nodes[this.depth][0]
+    }
+
+    public insert(leaf: N) {
+        const message = \`inserted \${leaf} }\`
+    }
+
+    public has(leaf: N): boolean
+    public has(leaf: N, index: number): boolean
+    public has(leaf: N, index?: number): boolean {
+        return true
+    }
+
+    private _update(index: number) {}
+}
+`;
+
+describe("extractTypeScriptApi", () => {
+  it("follows export * and named re-exports across files", async () => {
+    const read = reader({
+      "src/index.ts": `export { default as LeanIMT } from "./lean-imt"\nexport * from "./types"\n`,
+      "src/lean-imt.ts": LEAN_IMT,
+      "src/types.ts": `export type LeanIMTHashFunction<N = bigint> = (a: N, b: N) => N\n\nexport interface LeanIMTMerkleProof<N = bigint> {\n    root: N\n    /** The leaf. */\n    leaf: N\n}\n`,
+    });
+
+    const api = await extractTypeScriptApi("src/index.ts", read);
+
+    expect(api.files).toEqual(["src/index.ts", "src/lean-imt.ts", "src/types.ts"]);
+    expect(api.symbols.map((s) => [s.name, s.kind, s.file])).toEqual([
+      ["LeanIMT", "class", "src/lean-imt.ts"],
+      ["LeanIMTHashFunction", "type", "src/types.ts"],
+      ["LeanIMTMerkleProof", "interface", "src/types.ts"],
+    ]);
+    expect(api.symbols[1].signature).toBe("type LeanIMTHashFunction<N = bigint> = (a: N, b: N) => N");
+    expect(api.symbols[2].signature).toBe(
+      "interface LeanIMTMerkleProof<N = bigint> {\n  root: N\n  /** The leaf. */\n  leaf: N\n}",
+    );
+  });
+
+  it("extracts class signatures, public members and JSDoc", async () => {
+    const read = reader({ "src/index.ts": LEAN_IMT });
+    const [leanIMT] = (await extractTypeScriptApi("src/index.ts", read)).symbols;
+
+    expect(leanIMT.name).toBe("default");
+    expect(leanIMT.signature).toBe("class LeanIMT<N = bigint>");
+    expect(leanIMT.doc).toBe("The LeanIMT is an optimized binary version of the IMT.");
+    expect(leanIMT.members).toEqual([
+      { name: "MAX_DEPTH", kind: "property", signature: "static readonly MAX_DEPTH", static: true },
+      {
+        name: "constructor",
+        kind: "constructor",
+        signature: "constructor(hash: LeanIMTHashFunction<N>, leaves: N[] = [])",
+        doc: "Creates a tree.\n\n@param hash The hash function used to create nodes.",
+      },
+      { name: "root", kind: "accessor", signature: "get root(): N", doc: "The root of the tree." },
+      { name: "insert", kind: "method", signature: "insert(leaf: N)" },
+      { name: "has", kind: "method", signature: "has(leaf: N): boolean\nhas(leaf: N, index: number): boolean" },
+    ]);
+  });
+
+  it("resolves imported-then-exported names, renames and namespaces", async () => {
+    const read = reader({
+      "src/index.ts": [
+        'import { poseidon2 } from "./hash.js"',
+        'import * as utils from "./utils"',
+        'import { requireDefined } from "@zk-kit/utils"',
+        "export { poseidon2 as hash, utils, requireDefined }",
+        'export * as errors from "./errors"',
+      ].join("\n"),
+      "src/hash.ts":
+        "/** Hash two inputs. */\nexport function poseidon2(a: bigint, b: bigint): bigint {\n  return a + b\n}\n",
+      "src/utils/index.ts": "export const SNARK_FIELD_SIZE = 21888n\n",
+      "src/errors.ts": "export class TreeError extends Error {}\n",
+    });
+
+    const api = await extractTypeScriptApi("src/index.ts", read);
+
+    expect(api.symbols.map((s) => [s.name, s.kind])).toEqual([
+      ["hash", "function"],
+      ["utils", "namespace"],
+      ["errors", "namespace"],
+    ]);
+    expect(api.symbols[0]).toMatchObject({
+      signature: "function poseidon2(a: bigint, b: bigint): bigint",
+      doc: "Hash two inputs.",
+      file: "src/hash.ts",
+    });
+    expect(api.symbols[2].signature).toBe('export * as errors from "./errors"');
+    expect(api.external).toEqual(["@zk-kit/utils"]);
+  });
+
+  it("describes variables, arrow functions, enums and overloaded functions", async () => {
+    const read = reader({
+      "src/index.ts": [
+        "export const TREE_DEPTH = 32",
+        "export const defaults: Options = { depth: 32, arity: 2, zero: 0n, hash: (a, b) => a + b, name: 'lean' }",
+        "export const verify = async <N>(proof: Proof<N>, hash: (a: N, b: N) => N): Promise<boolean> => {",
+        "  return true",
+        "}",
+        "export enum Sizes {",
+        "    Small = 1,",
+        "    Large = 2",
+        "}",
+        "export function pack(proof: string): bigint[];",
+        "export function pack(proof: bigint[]): bigint[];",
+        "export function pack(proof: unknown) {",
+        "  return []",
+        "}",
+      ].join("\n"),
+    });
+
+    const api = await extractTypeScriptApi("src/index.ts", read);
+
+    expect(api.symbols.map((s) => [s.name, s.kind, s.signature])).toEqual([
+      ["TREE_DEPTH", "variable", "const TREE_DEPTH = 32"],
+      ["defaults", "variable", "const defaults: Options"],
+      ["verify", "function", "const verify = async <N>(proof: Proof<N>, hash: (a: N, b: N) => N): Promise<boolean> =>"],
+      ["Sizes", "enum", "enum Sizes {\n  Small = 1,\n  Large = 2\n}"],
+      ["pack", "function", "function pack(proof: string): bigint[]\nfunction pack(proof: bigint[]): bigint[]"],
+    ]);
+  });
+
+  it("tries TypeScript sources for .js specifiers and index files for directories", async () => {
+    const read = reader({
+      "src/index.ts": 'export * from "./proof.js"\nexport * from "./tree"\nexport * from "./missing"\n',
+      "src/proof.ts": "export function generateProof() {}\n",
+      "src/tree/index.ts": "export function createTree() {}\n",
+    });
+
+    const api = await extractTypeScriptApi("src/index.ts", read);
+
+    expect(api.symbols.map((s) => s.name)).toEqual(["generateProof", "createTree"]);
+    expect(read.reads).toContain("src/tree.ts");
+    expect(api.unresolved).toEqual(["src/missing"]);
+  });
+
+  it("prefers explicit exports over export * and survives import cycles", async () => {
+    const read = reader({
+      "src/index.ts": 'export * from "./a"\nexport { value } from "./b"\n',
+      "src/a.ts": 'export * from "./index"\nexport const value = "a"\nexport default 1\n',
+      "src/b.ts": 'export const value = "b"\n',
+    });
+
+    const api = await extractTypeScriptApi("src/index.ts", read);
+
+    expect(api.symbols).toHaveLength(1);
+    expect(api.symbols[0]).toMatchObject({ name: "value", file: "src/b.ts" });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { unifiedDiff } from "../src/unified-diff.js";
+
+describe("unifiedDiff", () => {
+  it("returns an empty string for identical texts", () => {
+    expect(unifiedDiff("a\nb\n", "a\nb\n", "f.ts", "f.ts")).toBe("");
+  });
+
+  it("renders a single-line change with context", () => {
+    const before = "1\n2\n3\n4\n5\n6\n7\n8\n";
+    const after = "1\n2\n3\n4\nfive\n6\n7\n8\n";
+    expect(unifiedDiff(before, after, "f.ts", "f.ts")).toBe(
+      ["--- a/f.ts", "+++ b/f.ts", "@@ -2,7 +2,7 @@", " 2", " 3", " 4", "-5", "+five", " 6", " 7", " 8"].join("\n"),
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const changed = [...lines];
+    changed[1] = "changed 2";
+    changed[17] = "changed 18";
+    const diff = unifiedDiff(lines.join("\n"), changed.join("\n"), "f", "f");
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+    expect(diff).toContain("@@ -1,5 +1,5 @@");
+    expect(diff).toContain("@@ -15,6 +15,6 @@");
+  });
+
+  it("uses /dev/null for files that do not exist on one side", () => {
+    expect(unifiedDiff(null, "new\n", "f.ts", "f.ts")).toBe("--- /dev/null\n+++ b/f.ts\n@@ -0,0 +1,1 @@\n+new");
+    expect(unifiedDiff("old\n", null, "f.ts", "f.ts")).toBe("--- a/f.ts\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-old");
+  });
+
+  it("finds a minimal diff for insertions in the middle", () => {
+    const diff = unifiedDiff("a\nb\nc\nd\n", "a\nb\nx\ny\nc\nd\n", "f", "f");
+    expect(diff.split("\n").filter((l) => l.startsWith("+") && !l.startsWith("+++"))).toEqual(["+x", "+y"]);
+    expect(diff).not.toMatch(/^-[^-]/m);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import {
+  exampleFiles,
+  examplesCalling,
+  formatUsageExamples,
+  readmeExamples,
+  testExamples,
+} from "../src/usage-examples.js";
+
+const README = `# Semaphore proof
+
+## 🛠 Install
+
+\`\`\`bash
+# with npm
+npm i @semaphore-protocol/proof
+\`\`\`
+
+## 📜 Usage
+
+### Generate a proof
+
+\`\`\`typescript
+import { generateProof } from "@semaphore-protocol/proof"
+
+const proof = await generateProof(identity, group, message, scope)
+\`\`\`
+
+### Verify a proof
+
+\`\`\`ts
+await verifyProof(proof)
+\`\`\`
+`;
+
+const JS_TEST = `import { LeanIMT } from "../src"
+
+describe("LeanIMT", () => {
+  describe("# insert", () => {
+    it("Should insert a leaf", () => {
+      const tree = new LeanIMT(hash)
+
+      tree.insert(1n)
+
+      expect(tree.size).toBe(1)
+    })
+
+    it.skip("Should not insert twice", () => {
+      expect(() => tree.insert(1n)).toThrow()
+    })
+  })
+
+  test("Should generate a proof", async () => {
+    const proof = await generateProof(tree, 0)
+  })
+})
+`;
+
+const SOLIDITY_TEST = `contract LeanIMTTest is Test {
+    function setUp() public {}
+
+    function testInsert() public {
+        imt.insert(1);
+        assertEq(imt.size(), 1);
+    }
+
+    function testFuzz_InsertMany(uint256[] memory leaves) public {
+        imt.insertMany(leaves);
+    }
+}
+`;
+
+const NOIR = `pub fn hash(a: Field) -> Field { a }
+
+#[test]
+fn test_hash() {
+    assert(hash(1) == 1);
+}
+
+#[test(should_fail)]
+unconstrained fn test_hash_fails() {
+    assert(hash(1) == 2);
+}
+`;
+
+describe("exampleFiles", () => {
+  it("keeps test files, and every source file of Rust and Noir packages", () => {
+    const entries = [
+      { path: "src/index.ts" },
+      { path: "tests/index.test.ts" },
+      { path: "test/LeanIMT.ts" },
+      { path: "contracts/test/LeanIMT.t.sol" },
+      { path: "node_modules/x/test/a.ts" },
+      { path: "tests/big.test.ts", size: 10_000_000 },
+      { path: "src/lib.rs" },
+    ];
+    expect(exampleFiles("typescript", entries)).toEqual([
+      "contracts/test/LeanIMT.t.sol",
+      "test/LeanIMT.ts",
+      "tests/index.test.ts",
+    ]);
+    expect(exampleFiles("rust", entries)).toContain("src/lib.rs");
+  });
+});
+
+describe("readmeExamples", () => {
+  it("titles code blocks with their headings and skips install commands", () => {
+    expect(readmeExamples(README)).toEqual([
+      {
+        source: "readme",
+        title: "Semaphore proof > 📜 Usage > Generate a proof",
+        language: "typescript",
+        code: 'import { generateProof } from "@semaphore-protocol/proof"\n\nconst proof = await generateProof(identity, group, message, scope)',
+      },
+      {
+        source: "readme",
+        title: "Semaphore proof > 📜 Usage > Verify a proof",
+        language: "ts",
+        code: "await verifyProof(proof)",
+      },
+    ]);
+  });
+});
+
+describe("testExamples", () => {
+  it("extracts JavaScript test cases with their describe blocks", () => {
+    const examples = testExamples("tests/index.test.ts", JS_TEST);
+    expect(examples.map((e) => [e.title, e.line])).toEqual([
+      ["LeanIMT > # insert > Should insert a leaf", 5],
+      ["LeanIMT > # insert > Should not insert twice", 13],
+      ["LeanIMT > Should generate a proof", 18],
+    ]);
+    expect(examples[0]).toMatchObject({ source: "test", file: "tests/index.test.ts", language: "typescript" });
+    expect(examples[0].code).toBe(
+      'it("Should insert a leaf", () => {\n  const tree = new LeanIMT(hash)\n\n  tree.insert(1n)\n\n  expect(tree.size).toBe(1)\n})',
+    );
+  });
+
+  it("extracts Foundry tests", () => {
+    const examples = testExamples("test/LeanIMT.t.sol", SOLIDITY_TEST);
+    expect(examples.map((e) => e.title)).toEqual(["testInsert", "testFuzz_InsertMany"]);
+    expect(examples[0].code).toBe(
+      "function testInsert() public {\n    imt.insert(1);\n    assertEq(imt.size(), 1);\n}",
+    );
+  });
+
+  it("extracts #[test] functions with their attribute", () => {
+    const examples = testExamples("src/lib.nr", NOIR);
+    expect(examples.map((e) => [e.title, e.line, e.language])).toEqual([
+      ["test_hash", 3, "noir"],
+      ["test_hash_fails", 8, "noir"],
+    ]);
+    expect(examples[1].code).toBe(
+      "#[test(should_fail)]\nunconstrained fn test_hash_fails() {\n    assert(hash(1) == 2);\n}",
+    );
+  });
+
+  it("cuts long tests", () => {
+    const long = `it("long", () => {\n${"  step()\n".repeat(100)}})\n`;
+    const [example] = testExamples("a.test.ts", long);
+    expect(example.code.split("\n")).toHaveLength(61);
+    expect(example.code.endsWith("// ...")).toBe(true);
+  });
+});
+
+describe("examplesCalling", () => {
+  const examples = [...readmeExamples(README), ...testExamples("tests/index.test.ts", JS_TEST)];
+
+  it("keeps examples calling a function or constructing a type", () => {
+    expect(examplesCalling(examples, "generateProof").map((e) => e.title)).toEqual([
+      "Semaphore proof > 📜 Usage > Generate a proof",
+      "LeanIMT > Should generate a proof",
+    ]);
+    expect(examplesCalling(examples, "LeanIMT")).toHaveLength(1);
+    expect(examplesCalling(examples, "LeanIMT.insert").map((e) => e.line)).toEqual([5, 13]);
+    expect(examplesCalling(examples, "proof")).toEqual([]);
+  });
+});
+
+describe("formatUsageExamples", () => {
+  it("shows where each example comes from", () => {
+    const examples = testExamples("tests/index.test.ts", JS_TEST).slice(0, 1);
+    const md = formatUsageExamples("@zk-kit/lean-imt", examples, 3, "insert");
+    expect(md).toContain("# @zk-kit/lean-imt - Usage Examples calling `insert`");
+    expect(md).toContain("Showing 1 of 3 examples from the README and tests.");
+    expect(md).toContain("## LeanIMT > # insert > Should insert a leaf\n\n`tests/index.test.ts:5`\n\n```typescript\n");
+  });
+
+  it("says when nothing matches", () => {
+    expect(formatUsageExamples("@zk-kit/imt", [], 0, "prove")).toBe(
+      "No usage examples calling `prove` found in the README or tests of @zk-kit/imt.",
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import type { DirectoryEntry } from "../src/types.js";
+import { compareTrees, formatVersionDiff } from "../src/version-diff.js";
+
+function file(path: string, size: number, sha?: string): DirectoryEntry {
+  return { name: path.split("/").pop() as string, path, type: "file", size, sha };
+}
+
+describe("compareTrees", () => {
+  it("detects added, removed and modified files by blob sha", () => {
+    const before = [file("a.ts", 1, "x"), file("b.ts", 1, "y"), file("c.ts", 1, "z")];
+    const after = [file("a.ts", 1, "x"), file("b.ts", 1, "y2"), file("d.ts", 1, "w")];
+    expect(compareTrees(before, after)).toEqual([
+      { path: "b.ts", status: "modified" },
+      { path: "c.ts", status: "removed" },
+      { path: "d.ts", status: "added" },
+    ]);
+  });
+
+  it("falls back to size when a sha is missing and ignores directories", () => {
+    const before = [file("a.ts", 10), file("b.ts", 10), { name: "src", path: "src", type: "dir" as const }];
+    const after = [file("a.ts", 10), file("b.ts", 12)];
+    expect(compareTrees(before, after)).toEqual([{ path: "b.ts", status: "modified" }]);
+  });
+});
+
+describe("formatVersionDiff", () => {
+  const changes = [{ path: "src/index.ts", status: "modified" as const }];
+
+  it("reports when nothing changed", () => {
+    const md = formatVersionDiff({ title: "pkg: a -> b", changes: [], entryDiffs: [], maxLength: 1000 });
+    expect(md).toBe("# pkg: a -> b\n\nNo files changed in the package between these refs.");
+  });
+
+  it("notes when entry files did not change", () => {
+    const md = formatVersionDiff({ title: "t", changes, entryDiffs: [], maxLength: 1000 });
+    expect(md).toContain("## Changed files (1: 0 added, 1 modified, 0 removed)");
+    expect(md).toContain("The public entry files did not change.");
+  });
+
+  it("truncates long diffs at a line boundary and points to get_package_source", () => {
+    const diff = Array.from({ length: 500 }, (_, i) => `+line ${i}`).join("\n");
+    const md = formatVersionDiff({
+      title: "t",
+      changes,
+      entryDiffs: [{ path: "src/index.ts", diff }],
+      maxLength: 2000,
+    });
+    expect(md.length).toBeLessThanOrEqual(2000);
+    expect(md).toContain("```diff\n+line 0");
+    expect(md).toContain("Diff truncated");
+    expect(md).toContain("`get_package_source`");
+    expect(md).toMatch(/\+line \d+\n```/);
+  });
+
+  it("shows as many diffs as fit, and names the others", () => {
+    const diff = Array.from({ length: 500 }, (_, i) => `+line ${i}`).join("\n");
+    const entryDiffs = Array.from({ length: 30 }, (_, i) => ({ path: `src/file${i}.ts`, diff }));
+    const md = formatVersionDiff({ title: "t", changes, entryDiffs, maxLength: 5000 });
+    expect(md.length).toBeLessThanOrEqual(5000);
+    const shown = md.match(/^### /gm)?.length ?? 0;
+    expect(shown).toBeGreaterThan(0);
+    expect(shown).toBeLessThan(10);
+    expect(md).toContain(`*[${30 - shown} more entry files changed: \`src/file${shown}.ts\``);
+
+    const capped = formatVersionDiff({ title: "t", changes, entryDiffs, maxLength: 1_000_000 });
+    expect(capped.match(/^### /gm)).toHaveLength(10);
+    expect(capped).toContain("*[20 more entry files changed:");
+  });
+});